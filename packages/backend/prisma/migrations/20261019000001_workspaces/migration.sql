@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "workspaces" (
+    "id" TEXT NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "workspaces_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "workspace_members" (
+    "id" TEXT NOT NULL,
+    "workspace_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "role" VARCHAR(50) NOT NULL DEFAULT 'member',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "workspace_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "workspace_members_workspace_id_user_id_key" ON "workspace_members"("workspace_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "workspace_members_user_id_idx" ON "workspace_members"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "workspace_members" ADD CONSTRAINT "workspace_members_workspace_id_fkey" FOREIGN KEY ("workspace_id") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable: projects become workspace-owned. Existing projects are moved
+-- into a "Default workspace" so the column can be made NOT NULL.
+ALTER TABLE "projects" ADD COLUMN IF NOT EXISTS "workspace_id" TEXT;
+
+INSERT INTO "workspaces" (id, name, created_at, updated_at)
+SELECT '00000000-0000-0000-0000-000000000001', 'Default workspace', NOW(), NOW()
+WHERE EXISTS (SELECT 1 FROM "projects" WHERE "workspace_id" IS NULL)
+ON CONFLICT (id) DO NOTHING;
+
+UPDATE "projects" SET "workspace_id" = '00000000-0000-0000-0000-000000000001' WHERE "workspace_id" IS NULL;
+
+ALTER TABLE "projects" ALTER COLUMN "workspace_id" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "projects_workspace_id_idx" ON "projects"("workspace_id");
+
+-- AddForeignKey
+ALTER TABLE "projects" ADD CONSTRAINT "projects_workspace_id_fkey" FOREIGN KEY ("workspace_id") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- Workspace memberships belong to auth users; drop orphans left from before
+-- the auth tables were wired in so the constraint can be added.
+DELETE FROM "workspace_members" WHERE "user_id" NOT IN (SELECT "id" FROM "User");
+
+-- AddForeignKey
+ALTER TABLE "workspace_members" ADD CONSTRAINT "workspace_members_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- Replace the legacy read:own/write:all style grants with resource:action
+-- permissions checked by requirePermission(). `*` grants everything.
+UPDATE "Role" SET "permissions" = ARRAY['*'], "updatedAt" = NOW() WHERE "name" = 'admin';
+
+UPDATE "Role"
+SET "permissions" = ARRAY[
+    'projects:read', 'projects:write', 'projects:delete',
+    'angles:read', 'angles:write', 'angles:review', 'angles:generate', 'angles:delete',
+    'localizations:read', 'localizations:write', 'localizations:generate', 'localizations:delete',
+    'packs:read', 'packs:create', 'packs:download', 'packs:delete',
+    'performance:read', 'performance:import'
+  ],
+  "updatedAt" = NOW()
+WHERE "name" IN ('editor', 'user');
+
+-- Read-only access plus approving/rejecting angles, for external reviewers
+INSERT INTO "Role" (id, name, permissions, "createdAt", "updatedAt")
+VALUES (
+  gen_random_uuid(),
+  'reviewer',
+  ARRAY['projects:read', 'angles:read', 'localizations:read', 'packs:read', 'performance:read', 'angles:review'],
+  NOW(),
+  NOW()
+)
+ON CONFLICT (name) DO NOTHING;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN IF NOT EXISTS "ai_settings" JSONB;
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "jobs" (
+    "id" TEXT NOT NULL,
+    "workspace_id" TEXT NOT NULL,
+    "created_by_id" TEXT,
+    "type" VARCHAR(50) NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'queued',
+    "payload" JSONB NOT NULL,
+    "result" JSONB,
+    "error" JSONB,
+    "progress" INTEGER NOT NULL DEFAULT 0,
+    "progress_message" TEXT,
+    "cancel_requested" BOOLEAN NOT NULL DEFAULT false,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "max_attempts" INTEGER NOT NULL DEFAULT 3,
+    "locked_by" VARCHAR(255),
+    "locked_at" TIMESTAMP(3),
+    "started_at" TIMESTAMP(3),
+    "finished_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "jobs_status_created_at_idx" ON "jobs"("status", "created_at");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "jobs_workspace_id_idx" ON "jobs"("workspace_id");
+
+-- AddForeignKey
+ALTER TABLE "jobs" ADD CONSTRAINT "jobs_workspace_id_fkey" FOREIGN KEY ("workspace_id") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
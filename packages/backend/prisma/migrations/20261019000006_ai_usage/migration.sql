@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "workspaces" ADD COLUMN IF NOT EXISTS "ai_monthly_budget_usd" DECIMAL(12,2);
+
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN IF NOT EXISTS "ai_monthly_budget_usd" DECIMAL(12,2);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "ai_usage" (
+    "id" TEXT NOT NULL,
+    "workspace_id" TEXT NOT NULL,
+    "project_id" TEXT,
+    "user_id" TEXT,
+    "operation" VARCHAR(50) NOT NULL,
+    "provider" VARCHAR(50) NOT NULL,
+    "model" VARCHAR(255) NOT NULL,
+    "prompt_tokens" INTEGER NOT NULL DEFAULT 0,
+    "completion_tokens" INTEGER NOT NULL DEFAULT 0,
+    "cost_usd" DECIMAL(12,6) NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ai_usage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "ai_usage_workspace_id_created_at_idx" ON "ai_usage"("workspace_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "ai_usage_project_id_created_at_idx" ON "ai_usage"("project_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "ai_usage" ADD CONSTRAINT "ai_usage_workspace_id_fkey" FOREIGN KEY ("workspace_id") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ai_usage" ADD CONSTRAINT "ai_usage_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "angle_cards" ADD COLUMN IF NOT EXISTS "prompt_version" VARCHAR(100);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "prompt_templates" (
+    "id" TEXT NOT NULL,
+    "operation" VARCHAR(50) NOT NULL,
+    "project_id" TEXT,
+    "version" INTEGER NOT NULL,
+    "system" TEXT NOT NULL,
+    "template" TEXT NOT NULL,
+    "note" VARCHAR(500),
+    "created_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "prompt_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "prompt_templates_operation_project_id_version_key" ON "prompt_templates"("operation", "project_id", "version");
+
+-- Global templates have a null project_id, which the unique index above does not constrain
+CREATE UNIQUE INDEX IF NOT EXISTS "prompt_templates_global_version_key" ON "prompt_templates"("operation", "version") WHERE "project_id" IS NULL;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "prompt_templates_project_id_idx" ON "prompt_templates"("project_id");
+
+-- AddForeignKey
+ALTER TABLE "prompt_templates" ADD CONSTRAINT "prompt_templates_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "localized_contents" ADD COLUMN IF NOT EXISTS "linted_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "lint_findings" (
+    "id" TEXT NOT NULL,
+    "localized_content_id" TEXT NOT NULL,
+    "rule" VARCHAR(50) NOT NULL,
+    "severity" VARCHAR(20) NOT NULL,
+    "message" TEXT NOT NULL,
+    "field" VARCHAR(50) NOT NULL,
+    "item_index" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "lint_findings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "lint_findings_localized_content_id_idx" ON "lint_findings"("localized_content_id");
+
+-- AddForeignKey
+ALTER TABLE "lint_findings" ADD CONSTRAINT "lint_findings_localized_content_id_fkey" FOREIGN KEY ("localized_content_id") REFERENCES "localized_contents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
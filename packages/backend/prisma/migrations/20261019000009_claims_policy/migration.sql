@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN IF NOT EXISTS "claims_policy" JSONB;
+
+-- AlterTable
+ALTER TABLE "angle_cards" ADD COLUMN IF NOT EXISTS "claim_violations" JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE "angle_cards" ADD COLUMN IF NOT EXISTS "claims_override_reason" TEXT;
+ALTER TABLE "angle_cards" ADD COLUMN IF NOT EXISTS "claims_overridden_by_id" TEXT;
+ALTER TABLE "angle_cards" ADD COLUMN IF NOT EXISTS "claims_overridden_at" TIMESTAMP(3);
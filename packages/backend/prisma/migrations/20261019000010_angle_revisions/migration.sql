@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "angle_revisions" (
+    "id" TEXT NOT NULL,
+    "angle_id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "changes" JSONB NOT NULL DEFAULT '[]',
+    "source" VARCHAR(20) NOT NULL,
+    "created_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "angle_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "angle_revisions_angle_id_version_key" ON "angle_revisions"("angle_id", "version");
+
+-- AddForeignKey
+ALTER TABLE "angle_revisions" ADD CONSTRAINT "angle_revisions_angle_id_fkey" FOREIGN KEY ("angle_id") REFERENCES "angle_cards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
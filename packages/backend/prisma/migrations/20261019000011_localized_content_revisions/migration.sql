@@ -0,0 +1,38 @@
+-- AlterTable
+ALTER TABLE "localized_contents" ADD COLUMN IF NOT EXISTS "version" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "localized_contents" ADD COLUMN IF NOT EXISTS "origin" VARCHAR(10) NOT NULL DEFAULT 'ai';
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "localized_content_revisions" (
+    "id" TEXT NOT NULL,
+    "localized_content_id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "origin" VARCHAR(10) NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "changes" JSONB NOT NULL DEFAULT '[]',
+    "created_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "localized_content_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "localized_content_revisions_localized_content_id_version_key" ON "localized_content_revisions"("localized_content_id", "version");
+
+-- AddForeignKey
+ALTER TABLE "localized_content_revisions" ADD CONSTRAINT "localized_content_revisions_localized_content_id_fkey" FOREIGN KEY ("localized_content_id") REFERENCES "localized_contents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing content becomes version 1. Earlier edits were not tracked, so it is
+-- all treated as machine output.
+INSERT INTO "localized_content_revisions" (id, localized_content_id, version, origin, snapshot, created_at)
+SELECT gen_random_uuid()::text, id, 1, 'ai',
+       jsonb_build_object(
+         'script', script,
+         'captions', captions,
+         'onScreenText', on_screen_text,
+         'culturalNotes', cultural_notes,
+         'platformAdjustments', platform_adjustments
+       ),
+       updated_at
+FROM "localized_contents"
+ON CONFLICT DO NOTHING;
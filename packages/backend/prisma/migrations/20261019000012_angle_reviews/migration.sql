@@ -0,0 +1,59 @@
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN IF NOT EXISTS "required_approvals" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "angle_cards" ADD COLUMN IF NOT EXISTS "rejection_reason" TEXT;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "angle_reviewers" (
+    "id" TEXT NOT NULL,
+    "angle_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "decision" VARCHAR(20),
+    "decided_at" TIMESTAMP(3),
+    "assigned_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "angle_reviewers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "angle_comments" (
+    "id" TEXT NOT NULL,
+    "angle_id" TEXT NOT NULL,
+    "author_id" TEXT,
+    "parent_id" TEXT,
+    "field" VARCHAR(50),
+    "quote" TEXT,
+    "body" TEXT NOT NULL,
+    "resolved_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "angle_comments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "angle_status_events" (
+    "id" TEXT NOT NULL,
+    "angle_id" TEXT NOT NULL,
+    "from_status" VARCHAR(50) NOT NULL,
+    "to_status" VARCHAR(50) NOT NULL,
+    "user_id" TEXT,
+    "reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "angle_status_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "angle_reviewers_angle_id_user_id_key" ON "angle_reviewers"("angle_id", "user_id");
+CREATE INDEX IF NOT EXISTS "angle_reviewers_user_id_idx" ON "angle_reviewers"("user_id");
+CREATE INDEX IF NOT EXISTS "angle_comments_angle_id_idx" ON "angle_comments"("angle_id");
+CREATE INDEX IF NOT EXISTS "angle_status_events_angle_id_idx" ON "angle_status_events"("angle_id");
+
+-- AddForeignKey
+ALTER TABLE "angle_reviewers" ADD CONSTRAINT "angle_reviewers_angle_id_fkey" FOREIGN KEY ("angle_id") REFERENCES "angle_cards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "angle_reviewers" ADD CONSTRAINT "angle_reviewers_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "angle_comments" ADD CONSTRAINT "angle_comments_angle_id_fkey" FOREIGN KEY ("angle_id") REFERENCES "angle_cards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "angle_comments" ADD CONSTRAINT "angle_comments_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "angle_comments" ADD CONSTRAINT "angle_comments_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "angle_comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "angle_status_events" ADD CONSTRAINT "angle_status_events_angle_id_fkey" FOREIGN KEY ("angle_id") REFERENCES "angle_cards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "angle_status_events" ADD CONSTRAINT "angle_status_events_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
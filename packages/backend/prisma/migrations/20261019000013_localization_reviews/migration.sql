@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "localized_contents" ADD COLUMN IF NOT EXISTS "review_status" VARCHAR(20) NOT NULL DEFAULT 'machine';
+ALTER TABLE "localized_contents" ADD COLUMN IF NOT EXISTS "reviewer_id" TEXT;
+ALTER TABLE "localized_contents" ADD COLUMN IF NOT EXISTS "review_note" TEXT;
+ALTER TABLE "localized_contents" ADD COLUMN IF NOT EXISTS "reviewed_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "locale_reviewers" (
+    "id" TEXT NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "locale" VARCHAR(10) NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "locale_reviewers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "localized_contents_reviewer_id_idx" ON "localized_contents"("reviewer_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "locale_reviewers_project_id_locale_user_id_key" ON "locale_reviewers"("project_id", "locale", "user_id");
+CREATE INDEX IF NOT EXISTS "locale_reviewers_user_id_idx" ON "locale_reviewers"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "localized_contents" ADD CONSTRAINT "localized_contents_reviewer_id_fkey" FOREIGN KEY ("reviewer_id") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "locale_reviewers" ADD CONSTRAINT "locale_reviewers_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "locale_reviewers" ADD CONSTRAINT "locale_reviewers_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Approving translations is a separate grant; give it to the built-in roles
+UPDATE "Role"
+SET "permissions" = array_append("permissions", 'localizations:review'), "updatedAt" = NOW()
+WHERE "name" IN ('editor', 'user', 'reviewer')
+  AND NOT ('localizations:review' = ANY("permissions"));
@@ -0,0 +1,11 @@
+-- AlterTable: retention is opt-in, so existing and new workspaces keep packs
+-- until a manager sets a number of days
+ALTER TABLE "workspaces" ADD COLUMN IF NOT EXISTS "pack_retention_days" INTEGER;
+
+-- Pack files are now addressed by storage key rather than local path
+UPDATE "creative_packs"
+SET "file_path" = 'packs/' || regexp_replace("file_path", '^.*[/\\]', '')
+WHERE "file_path" IS NOT NULL AND "file_path" NOT LIKE 'packs/%';
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "creative_packs_expires_at_idx" ON "creative_packs"("expires_at");
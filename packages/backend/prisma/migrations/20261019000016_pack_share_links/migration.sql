@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "pack_share_links" (
+    "id" TEXT NOT NULL,
+    "pack_id" TEXT NOT NULL,
+    "created_by_id" TEXT,
+    "label" VARCHAR(100),
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "password_hash" TEXT,
+    "max_downloads" INTEGER,
+    "download_count" INTEGER NOT NULL DEFAULT 0,
+    "revoked_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "pack_share_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "pack_downloads" (
+    "id" TEXT NOT NULL,
+    "pack_id" TEXT NOT NULL,
+    "share_link_id" TEXT,
+    "user_id" TEXT,
+    "ip" VARCHAR(45),
+    "user_agent" VARCHAR(500),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "pack_downloads_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "pack_share_links_pack_id_idx" ON "pack_share_links"("pack_id");
+CREATE INDEX IF NOT EXISTS "pack_downloads_pack_id_created_at_idx" ON "pack_downloads"("pack_id", "created_at");
+CREATE INDEX IF NOT EXISTS "pack_downloads_share_link_id_idx" ON "pack_downloads"("share_link_id");
+
+-- AddForeignKey
+ALTER TABLE "pack_share_links" ADD CONSTRAINT "pack_share_links_pack_id_fkey" FOREIGN KEY ("pack_id") REFERENCES "creative_packs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "pack_share_links" ADD CONSTRAINT "pack_share_links_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "pack_downloads" ADD CONSTRAINT "pack_downloads_pack_id_fkey" FOREIGN KEY ("pack_id") REFERENCES "creative_packs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "pack_downloads" ADD CONSTRAINT "pack_downloads_share_link_id_fkey" FOREIGN KEY ("share_link_id") REFERENCES "pack_share_links"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "pack_downloads" ADD CONSTRAINT "pack_downloads_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Sharing packs outside the workspace is a separate grant; give it to the built-in content roles
+UPDATE "Role"
+SET "permissions" = array_append("permissions", 'packs:share'), "updatedAt" = NOW()
+WHERE "name" IN ('editor', 'user')
+  AND NOT ('packs:share' = ANY("permissions"));
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "creative_packs" ADD COLUMN IF NOT EXISTS "version" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "creative_packs" ADD COLUMN IF NOT EXISTS "previous_pack_id" TEXT;
+ALTER TABLE "creative_packs" ADD COLUMN IF NOT EXISTS "delta_file_path" TEXT;
+ALTER TABLE "creative_packs" ADD COLUMN IF NOT EXISTS "delta_file_size" BIGINT;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "creative_packs_previous_pack_id_idx" ON "creative_packs"("previous_pack_id");
+
+-- AddForeignKey
+ALTER TABLE "creative_packs" ADD CONSTRAINT "creative_packs_previous_pack_id_fkey" FOREIGN KEY ("previous_pack_id") REFERENCES "creative_packs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
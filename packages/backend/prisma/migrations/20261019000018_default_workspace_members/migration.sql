@@ -0,0 +1,21 @@
+-- Projects from before workspaces were moved into the "Default workspace"
+-- (20261019000001_workspaces), which had no members, so nobody could reach
+-- them. Give every existing user a membership: admins become owners and
+-- everyone else a member. Without any admin, the oldest user owns it.
+INSERT INTO "workspace_members" (id, workspace_id, user_id, role, created_at)
+SELECT
+  gen_random_uuid()::text,
+  '00000000-0000-0000-0000-000000000001',
+  u."id",
+  CASE
+    WHEN r."name" = 'admin' THEN 'owner'
+    WHEN NOT EXISTS (
+      SELECT 1 FROM "User" au JOIN "Role" ar ON ar."id" = au."roleId" WHERE ar."name" = 'admin'
+    ) AND u."id" = (SELECT "id" FROM "User" ORDER BY "createdAt", "id" LIMIT 1) THEN 'owner'
+    ELSE 'member'
+  END,
+  NOW()
+FROM "User" u
+JOIN "Role" r ON r."id" = u."roleId"
+WHERE EXISTS (SELECT 1 FROM "workspaces" WHERE "id" = '00000000-0000-0000-0000-000000000001')
+ON CONFLICT ("workspace_id", "user_id") DO NOTHING;
@@ -1,7 +1,25 @@
 import type { Request, Response } from 'express';
-import { angleService } from '../services/index.js';
-import type { UpdateAngleInput } from '../validators/index.js';
+import { angleReviewService, angleService, briefService } from '../services/index.js';
+import { getUserId, getWorkspaceId } from '../middleware/workspace.js';
+import type {
+  BriefQueryInput,
+  CreateAngleCommentInput,
+  SubmitAngleReviewInput,
+  UpdateAngleInput,
+  UpdateAngleStatusInput,
+} from '../validators/index.js';
+import { AppError } from '../types/index.js';
 import type { AngleStatus } from '../types/index.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const logger = createChildLogger('angle-controller');
+
+// Comment lines keep idle proxies from closing the stream between angles
+const SSE_HEARTBEAT_MS = 15_000;
+
+function writeEvent(res: Response, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
 
 export class AngleController {
   async generate(
@@ -9,15 +27,74 @@ export class AngleController {
     res: Response
   ) {
     const count = req.query.count ? parseInt(req.query.count, 10) : 3;
-    const result = await angleService.generateAngles(req.params.projectId, count);
-    res.status(201).json({
+    const job = await angleService.queueAngleGeneration(
+      getWorkspaceId(req),
+      getUserId(req),
+      req.params.projectId,
+      count
+    );
+    // Poll GET /api/jobs/:id for progress and the generated angles
+    res.status(202).json({
       success: true,
-      data: result,
+      data: job,
     });
   }
 
+  /**
+   * Server-Sent Events: an `angle` event per saved angle, then `done` with the
+   * count, or `error` with a code and message. Errors before the first byte
+   * (unknown project, exhausted budget) are ordinary JSON error responses.
+   */
+  async generateStream(
+    req: Request<{ projectId: string }, unknown, unknown, { count?: string }>,
+    res: Response
+  ) {
+    const count = req.query.count ? parseInt(req.query.count, 10) : 3;
+    const abort = new AbortController();
+    res.on('close', () => abort.abort());
+
+    const angles = await angleService.openAngleStream(
+      getWorkspaceId(req),
+      req.params.projectId,
+      count,
+      getUserId(req),
+      abort.signal
+    );
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      // Stop nginx from buffering the stream
+      'X-Accel-Buffering': 'no',
+    });
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), SSE_HEARTBEAT_MS);
+
+    let created = 0;
+    try {
+      for await (const angle of angles) {
+        if (abort.signal.aborted) break;
+        writeEvent(res, 'angle', angle);
+        created++;
+      }
+      writeEvent(res, 'done', { count: created });
+    } catch (error) {
+      if (!abort.signal.aborted) {
+        logger.error({ error, projectId: req.params.projectId }, 'Angle stream failed');
+        writeEvent(res, 'error', {
+          code: error instanceof AppError ? error.code : 'INTERNAL_ERROR',
+          message: error instanceof AppError ? error.message : 'Angle generation failed',
+          count: created,
+        });
+      }
+    } finally {
+      clearInterval(heartbeat);
+      res.end();
+    }
+  }
+
   async getById(req: Request<{ id: string }>, res: Response) {
-    const angle = await angleService.getAngle(req.params.id);
+    const angle = await angleService.getAngle(getWorkspaceId(req), req.params.id);
     res.json({
       success: true,
       data: angle,
@@ -35,7 +112,7 @@ export class AngleController {
   ) {
     const { status, isWinner, page, limit } = req.query;
 
-    const result = await angleService.getProjectAngles(req.params.projectId, {
+    const result = await angleService.getProjectAngles(getWorkspaceId(req), req.params.projectId, {
       status: status as AngleStatus | undefined,
       isWinner: isWinner === 'true' ? true : isWinner === 'false' ? false : undefined,
       page: page ? parseInt(page, 10) : undefined,
@@ -54,7 +131,61 @@ export class AngleController {
   }
 
   async update(req: Request<{ id: string }, unknown, UpdateAngleInput>, res: Response) {
-    const angle = await angleService.updateAngle(req.params.id, req.body);
+    const angle = await angleService.updateAngle(
+      getWorkspaceId(req),
+      req.params.id,
+      req.body,
+      getUserId(req)
+    );
+    res.json({
+      success: true,
+      data: angle,
+    });
+  }
+
+  async getBrief(req: Request<{ id: string }, unknown, unknown, BriefQueryInput>, res: Response) {
+    const { body, filename, contentType } = await briefService.getBrief(
+      getWorkspaceId(req),
+      req.params.id,
+      req.query
+    );
+
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(body);
+  }
+
+  async listRevisions(req: Request<{ id: string }>, res: Response) {
+    const revisions = await angleService.listRevisions(getWorkspaceId(req), req.params.id);
+    res.json({
+      success: true,
+      data: revisions,
+    });
+  }
+
+  async diffRevisions(
+    req: Request<{ id: string }, unknown, unknown, { from: string; to: string }>,
+    res: Response
+  ) {
+    const diff = await angleService.diffRevisions(
+      getWorkspaceId(req),
+      req.params.id,
+      Number(req.query.from),
+      Number(req.query.to)
+    );
+    res.json({
+      success: true,
+      data: diff,
+    });
+  }
+
+  async restoreRevision(req: Request<{ id: string; version: string }>, res: Response) {
+    const angle = await angleService.restoreRevision(
+      getWorkspaceId(req),
+      req.params.id,
+      Number(req.params.version),
+      getUserId(req)
+    );
     res.json({
       success: true,
       data: angle,
@@ -62,21 +193,115 @@ export class AngleController {
   }
 
   async updateStatus(
-    req: Request<{ id: string }, unknown, { status: AngleStatus }>,
+    req: Request<{ id: string }, unknown, UpdateAngleStatusInput>,
     res: Response
   ) {
-    const angle = await angleService.updateAngleStatus(req.params.id, req.body.status);
+    const angle = await angleService.updateAngleStatus(
+      getWorkspaceId(req),
+      req.params.id,
+      req.body.status,
+      getUserId(req),
+      req.body.reason
+    );
     res.json({
       success: true,
       data: angle,
     });
   }
 
+  async getReview(req: Request<{ id: string }>, res: Response) {
+    const review = await angleReviewService.getReview(
+      getWorkspaceId(req),
+      req.params.id,
+      getUserId(req)
+    );
+    res.json({
+      success: true,
+      data: review,
+    });
+  }
+
+  async setReviewers(
+    req: Request<{ id: string }, unknown, { userIds: string[] }>,
+    res: Response
+  ) {
+    const review = await angleReviewService.setReviewers(
+      getWorkspaceId(req),
+      req.params.id,
+      req.body.userIds,
+      getUserId(req)
+    );
+    res.json({
+      success: true,
+      data: review,
+    });
+  }
+
+  async submitReview(
+    req: Request<{ id: string }, unknown, SubmitAngleReviewInput>,
+    res: Response
+  ) {
+    const angle = await angleReviewService.submitReview(
+      getWorkspaceId(req),
+      req.params.id,
+      getUserId(req),
+      req.body
+    );
+    res.json({
+      success: true,
+      data: angle,
+    });
+  }
+
+  async listComments(req: Request<{ id: string }>, res: Response) {
+    const threads = await angleReviewService.listComments(getWorkspaceId(req), req.params.id);
+    res.json({
+      success: true,
+      data: threads,
+    });
+  }
+
+  async addComment(
+    req: Request<{ id: string }, unknown, CreateAngleCommentInput>,
+    res: Response
+  ) {
+    const comment = await angleReviewService.addComment(
+      getWorkspaceId(req),
+      req.params.id,
+      req.body,
+      getUserId(req)
+    );
+    res.status(201).json({
+      success: true,
+      data: comment,
+    });
+  }
+
+  async resolveComment(
+    req: Request<{ id: string; commentId: string }, unknown, { resolved: boolean }>,
+    res: Response
+  ) {
+    const comment = await angleReviewService.setCommentResolved(
+      getWorkspaceId(req),
+      req.params.id,
+      req.params.commentId,
+      req.body.resolved
+    );
+    res.json({
+      success: true,
+      data: comment,
+    });
+  }
+
   async setWinner(
     req: Request<{ id: string }, unknown, { isWinner: boolean }>,
     res: Response
   ) {
-    const angle = await angleService.setWinner(req.params.id);
+    const angle = await angleService.setWinner(
+      getWorkspaceId(req),
+      req.params.id,
+      getUserId(req)
+    );
     res.json({
       success: true,
       data: angle,
@@ -84,12 +309,16 @@ export class AngleController {
   }
 
   async delete(req: Request<{ id: string }>, res: Response) {
-    await angleService.deleteAngle(req.params.id);
+    await angleService.deleteAngle(getWorkspaceId(req), req.params.id);
     res.status(204).send();
   }
 
   async regenerate(req: Request<{ id: string }>, res: Response) {
-    const angle = await angleService.regenerateAngle(req.params.id);
+    const angle = await angleService.regenerateAngle(
+      getWorkspaceId(req),
+      req.params.id,
+      getUserId(req)
+    );
     res.status(201).json({
       success: true,
       data: angle,
@@ -2,4 +2,12 @@ export { projectController } from './project.controller.js';
 export { angleController } from './angle.controller.js';
 export { localizationController } from './localization.controller.js';
 export { packController } from './pack.controller.js';
+export { shareLinkController } from './share-link.controller.js';
+export { packTemplateController } from './pack-template.controller.js';
 export { performanceController } from './performance.controller.js';
+export { workspaceController } from './workspace.controller.js';
+export { roleController } from './role.controller.js';
+export { jobController } from './job.controller.js';
+export { promptTemplateController } from './prompt-template.controller.js';
+export { localeController } from './locale.controller.js';
+export { platformController } from './platform.controller.js';
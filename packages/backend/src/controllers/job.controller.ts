@@ -0,0 +1,42 @@
+import type { Request, Response } from 'express';
+import { jobService } from '../services/index.js';
+import { getWorkspaceId } from '../middleware/workspace.js';
+import { AuthorizationError } from '../types/index.js';
+import { JOB_PERMISSIONS, hasPermissions } from '../utils/permissions.js';
+import type { AuthRequest } from '../middleware/auth.js';
+import type { JobType } from '../types/index.js';
+
+export class JobController {
+  async getById(req: Request<{ id: string }>, res: Response) {
+    const job = await jobService.getJob(getWorkspaceId(req), req.params.id);
+    this.assertPermission(req, job.type as JobType, 'read');
+
+    res.json({
+      success: true,
+      data: job,
+    });
+  }
+
+  async cancel(req: Request<{ id: string }>, res: Response) {
+    const workspaceId = getWorkspaceId(req);
+    const job = await jobService.getJob(workspaceId, req.params.id);
+    this.assertPermission(req, job.type as JobType, 'cancel');
+
+    const updated = await jobService.cancelJob(workspaceId, job.id);
+    res.json({
+      success: true,
+      data: updated,
+    });
+  }
+
+  // Route-level requirePermission cannot be used because the permission depends on the job type
+  private assertPermission(req: Request<{ id: string }>, type: JobType, action: 'read' | 'cancel') {
+    const permission = JOB_PERMISSIONS[type]?.[action];
+    const granted = (req as unknown as AuthRequest).user?.permissions;
+    if (!permission || !hasPermissions(granted, [permission])) {
+      throw new AuthorizationError(`Missing permission: ${permission ?? action}`);
+    }
+  }
+}
+
+export const jobController = new JobController();
@@ -0,0 +1,13 @@
+import type { Request, Response } from 'express';
+import { listLocales } from '../utils/locales.js';
+
+export class LocaleController {
+  async list(_req: Request, res: Response) {
+    res.json({
+      success: true,
+      data: listLocales(),
+    });
+  }
+}
+
+export const localeController = new LocaleController();
@@ -1,6 +1,12 @@
 import type { Request, Response } from 'express';
-import { localizationService } from '../services/index.js';
-import type { LocalizeRequestInput, UpdateLocalizedContentInput } from '../validators/index.js';
+import { lintService, localizationReviewService, localizationService } from '../services/index.js';
+import { getUserId, getWorkspaceId } from '../middleware/workspace.js';
+import type {
+  LocalizeRequestInput,
+  ReviewLocalizationInput,
+  UpdateLocalizedContentInput,
+} from '../validators/index.js';
+import { ValidationError } from '../types/index.js';
 import type { Locale, Platform } from '../types/index.js';
 
 export class LocalizationController {
@@ -8,15 +14,20 @@ export class LocalizationController {
     req: Request<{ angleId: string }, unknown, LocalizeRequestInput>,
     res: Response
   ) {
-    const result = await localizationService.localizeAngle({
-      angleId: req.params.angleId,
-      locales: req.body.locales,
-      platforms: req.body.platforms,
-    });
+    const job = await localizationService.queueLocalization(
+      {
+        workspaceId: getWorkspaceId(req),
+        angleId: req.params.angleId,
+        locales: req.body.locales,
+        platforms: req.body.platforms,
+      },
+      getUserId(req)
+    );
 
-    res.status(201).json({
+    // Poll GET /api/jobs/:id for progress and the created localizations
+    res.status(202).json({
       success: true,
-      data: result,
+      data: job,
     });
   }
 
@@ -30,6 +41,7 @@ export class LocalizationController {
     res: Response
   ) {
     const contents = await localizationService.getLocalizedContent(
+      getWorkspaceId(req),
       req.params.angleId,
       req.query.locale as Locale | undefined,
       req.query.platform as Platform | undefined
@@ -42,19 +54,100 @@ export class LocalizationController {
   }
 
   async getById(req: Request<{ id: string }>, res: Response) {
-    const content = await localizationService.getLocalizedContentById(req.params.id);
+    const content = await localizationService.getLocalizedContentById(
+      getWorkspaceId(req),
+      req.params.id
+    );
     res.json({
       success: true,
       data: content,
     });
   }
 
+  async getLint(req: Request<{ id: string }>, res: Response) {
+    const report = await lintService.getReport(getWorkspaceId(req), req.params.id);
+    res.json({
+      success: true,
+      data: report,
+    });
+  }
+
   async update(
     req: Request<{ id: string }, unknown, UpdateLocalizedContentInput>,
     res: Response
   ) {
     const content = await localizationService.updateLocalizedContent(
+      getWorkspaceId(req),
+      req.params.id,
+      req.body,
+      getUserId(req)
+    );
+    res.json({
+      success: true,
+      data: content,
+    });
+  }
+
+  async importCaptions(req: Request<{ id: string }>, res: Response) {
+    if (!req.file) {
+      throw new ValidationError('No caption file provided');
+    }
+
+    const result = await localizationService.importCaptions(
+      getWorkspaceId(req),
+      req.params.id,
+      { filename: req.file.originalname, content: req.file.buffer.toString('utf8') },
+      getUserId(req)
+    );
+    res.json({
+      success: true,
+      data: result,
+    });
+  }
+
+  async listRevisions(req: Request<{ id: string }>, res: Response) {
+    const revisions = await localizationService.listRevisions(getWorkspaceId(req), req.params.id);
+    res.json({
+      success: true,
+      data: revisions,
+    });
+  }
+
+  async diffRevisions(
+    req: Request<{ id: string }, unknown, unknown, { from?: string; to?: string }>,
+    res: Response
+  ) {
+    const { from, to } = req.query;
+    const diff = await localizationService.diffRevisions(getWorkspaceId(req), req.params.id, {
+      from: from !== undefined ? Number(from) : undefined,
+      to: to !== undefined ? Number(to) : undefined,
+    });
+    res.json({
+      success: true,
+      data: diff,
+    });
+  }
+
+  async submitForReview(
+    req: Request<{ id: string }, unknown, { reviewerId?: string }>,
+    res: Response
+  ) {
+    const content = await localizationReviewService.submitForReview(
+      getWorkspaceId(req),
+      req.params.id,
+      req.body.reviewerId
+    );
+    res.json({
+      success: true,
+      data: content,
+    });
+  }
+
+  async review(req: Request<{ id: string }, unknown, ReviewLocalizationInput>, res: Response) {
+    const content = await localizationReviewService.review(
+      getWorkspaceId(req),
       req.params.id,
+      getUserId(req),
       req.body
     );
     res.json({
@@ -63,8 +156,35 @@ export class LocalizationController {
     });
   }
 
+  async getLocaleReviewers(req: Request<{ projectId: string }>, res: Response) {
+    const reviewers = await localizationReviewService.getLocaleReviewers(
+      getWorkspaceId(req),
+      req.params.projectId
+    );
+    res.json({
+      success: true,
+      data: reviewers,
+    });
+  }
+
+  async setLocaleReviewers(
+    req: Request<{ projectId: string; locale: Locale }, unknown, { userIds: string[] }>,
+    res: Response
+  ) {
+    const reviewers = await localizationReviewService.setLocaleReviewers(
+      getWorkspaceId(req),
+      req.params.projectId,
+      req.params.locale,
+      req.body.userIds
+    );
+    res.json({
+      success: true,
+      data: reviewers,
+    });
+  }
+
   async delete(req: Request<{ id: string }>, res: Response) {
-    await localizationService.deleteLocalizedContent(req.params.id);
+    await localizationService.deleteLocalizedContent(getWorkspaceId(req), req.params.id);
     res.status(204).send();
   }
 
@@ -72,14 +192,17 @@ export class LocalizationController {
     req: Request<
       { angleId: string },
       unknown,
-      { locale: Locale; platform: Platform }
+      { locale: Locale; platform: Platform; force?: boolean }
     >,
     res: Response
   ) {
     const content = await localizationService.regenerateLocalization(
+      getWorkspaceId(req),
       req.params.angleId,
       req.body.locale,
-      req.body.platform
+      req.body.platform,
+      getUserId(req),
+      req.body.force
     );
 
     res.status(201).json({
@@ -0,0 +1,56 @@
+import type { Request, Response } from 'express';
+import { packTemplateService } from '../services/index.js';
+import { getWorkspaceId } from '../middleware/workspace.js';
+import type { CreatePackTemplateInput, UpdatePackTemplateInput } from '../validators/index.js';
+
+export class PackTemplateController {
+  async getLayoutOptions(_req: Request, res: Response) {
+    res.json({
+      success: true,
+      data: packTemplateService.getLayoutOptions(),
+    });
+  }
+
+  async list(req: Request, res: Response) {
+    const templates = await packTemplateService.listTemplates(getWorkspaceId(req));
+    res.json({
+      success: true,
+      data: templates,
+    });
+  }
+
+  async getById(req: Request<{ id: string }>, res: Response) {
+    const template = await packTemplateService.getTemplate(getWorkspaceId(req), req.params.id);
+    res.json({
+      success: true,
+      data: template,
+    });
+  }
+
+  async create(req: Request<unknown, unknown, CreatePackTemplateInput>, res: Response) {
+    const template = await packTemplateService.createTemplate(getWorkspaceId(req), req.body);
+    res.status(201).json({
+      success: true,
+      data: template,
+    });
+  }
+
+  async update(req: Request<{ id: string }, unknown, UpdatePackTemplateInput>, res: Response) {
+    const template = await packTemplateService.updateTemplate(
+      getWorkspaceId(req),
+      req.params.id,
+      req.body
+    );
+    res.json({
+      success: true,
+      data: template,
+    });
+  }
+
+  async delete(req: Request<{ id: string }>, res: Response) {
+    await packTemplateService.deleteTemplate(getWorkspaceId(req), req.params.id);
+    res.status(204).send();
+  }
+}
+
+export const packTemplateController = new PackTemplateController();
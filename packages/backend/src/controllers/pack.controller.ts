@@ -1,25 +1,33 @@
 import type { Request, Response } from 'express';
 import { packService } from '../services/index.js';
-import type { CreatePackInput } from '../validators/index.js';
+import { getUserId, getWorkspaceId } from '../middleware/workspace.js';
+import { downloadClient, sendPack } from './share-link.controller.js';
+import type { CreatePackInput, RebuildPackInput } from '../validators/index.js';
+import type { PackFileVariant } from '../services/pack.service.js';
 
 export class PackController {
   async create(
     req: Request<{ projectId: string }, unknown, Omit<CreatePackInput, 'projectId'>>,
     res: Response
   ) {
-    const pack = await packService.createPack({
-      ...req.body,
-      projectId: req.params.projectId,
-    });
+    const job = await packService.queuePack(
+      {
+        ...req.body,
+        workspaceId: getWorkspaceId(req),
+        projectId: req.params.projectId,
+      },
+      getUserId(req)
+    );
 
-    res.status(201).json({
+    // Poll GET /api/jobs/:id; the result holds the new pack's id
+    res.status(202).json({
       success: true,
-      data: pack,
+      data: job,
     });
   }
 
   async getById(req: Request<{ id: string }>, res: Response) {
-    const pack = await packService.getPack(req.params.id);
+    const pack = await packService.getPack(getWorkspaceId(req), req.params.id);
     res.json({
       success: true,
       data: pack,
@@ -37,7 +45,7 @@ export class PackController {
   ) {
     const { page, limit } = req.query;
 
-    const packs = await packService.getProjectPacks(req.params.projectId);
+    const packs = await packService.getProjectPacks(getWorkspaceId(req), req.params.projectId);
 
     res.json({
       success: true,
@@ -50,18 +58,44 @@ export class PackController {
     });
   }
 
-  async download(req: Request<{ id: string }>, res: Response) {
-    const { stream, filename, size } = await packService.downloadPack(req.params.id);
+  async download(
+    req: Request<{ id: string }, unknown, unknown, { variant?: PackFileVariant }>,
+    res: Response
+  ) {
+    const download = await packService.downloadPack(
+      getWorkspaceId(req),
+      req.params.id,
+      { ...downloadClient(req), userId: getUserId(req) },
+      req.query.variant
+    );
+    sendPack(res, download);
+  }
 
-    res.setHeader('Content-Type', 'application/zip');
-    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
-    res.setHeader('Content-Length', size);
+  async rebuild(req: Request<{ id: string }, unknown, RebuildPackInput>, res: Response) {
+    const job = await packService.queueRebuild(
+      getWorkspaceId(req),
+      req.params.id,
+      req.body,
+      getUserId(req)
+    );
 
-    stream.pipe(res);
+    // Poll GET /api/jobs/:id; the result holds the new version's id
+    res.status(202).json({
+      success: true,
+      data: job,
+    });
+  }
+
+  async getChanges(req: Request<{ id: string }>, res: Response) {
+    const changes = await packService.getPackChanges(getWorkspaceId(req), req.params.id);
+    res.json({
+      success: true,
+      data: changes,
+    });
   }
 
   async delete(req: Request<{ id: string }>, res: Response) {
-    await packService.deletePack(req.params.id);
+    await packService.deletePack(getWorkspaceId(req), req.params.id);
     res.status(204).send();
   }
 }
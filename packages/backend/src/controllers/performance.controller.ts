@@ -1,5 +1,6 @@
 import type { Request, Response } from 'express';
 import { performanceService } from '../services/index.js';
+import { getUserId, getWorkspaceId } from '../middleware/workspace.js';
 import { ValidationError } from '../types/index.js';
 
 export class PerformanceController {
@@ -9,6 +10,7 @@ export class PerformanceController {
     }
 
     const result = await performanceService.importCSV(
+      getWorkspaceId(req),
       req.params.projectId,
       req.file.originalname,
       req.file.buffer
@@ -21,7 +23,7 @@ export class PerformanceController {
   }
 
   async getImportBatch(req: Request<{ batchId: string }>, res: Response) {
-    const batch = await performanceService.getImportBatch(req.params.batchId);
+    const batch = await performanceService.getImportBatch(getWorkspaceId(req), req.params.batchId);
     res.json({
       success: true,
       data: batch,
@@ -29,7 +31,10 @@ export class PerformanceController {
   }
 
   async getProjectImports(req: Request<{ projectId: string }>, res: Response) {
-    const imports = await performanceService.getProjectImports(req.params.projectId);
+    const imports = await performanceService.getProjectImports(
+      getWorkspaceId(req),
+      req.params.projectId
+    );
     res.json({
       success: true,
       data: imports,
@@ -37,7 +42,10 @@ export class PerformanceController {
   }
 
   async getProjectMetrics(req: Request<{ projectId: string }>, res: Response) {
-    const metrics = await performanceService.getProjectMetrics(req.params.projectId);
+    const metrics = await performanceService.getProjectMetrics(
+      getWorkspaceId(req),
+      req.params.projectId
+    );
     res.json({
       success: true,
       data: metrics,
@@ -55,10 +63,15 @@ export class PerformanceController {
   ) {
     const { topN, metric } = req.query;
 
-    const analysis = await performanceService.identifyWinners(req.params.projectId, {
-      topN: topN ? parseInt(topN, 10) : undefined,
-      metric: metric as 'ctr' | 'roas' | 'conversions' | undefined,
-    });
+    const analysis = await performanceService.identifyWinners(
+      getWorkspaceId(req),
+      req.params.projectId,
+      {
+        topN: topN ? parseInt(topN, 10) : undefined,
+        metric: metric as 'ctr' | 'roas' | 'conversions' | undefined,
+      },
+      getUserId(req)
+    );
 
     res.json({
       success: true,
@@ -78,11 +91,13 @@ export class PerformanceController {
     const { topN, count } = req.query;
 
     const iterations = await performanceService.generateIterations(
+      getWorkspaceId(req),
       req.params.projectId,
       {
         topN: topN ? parseInt(topN, 10) : undefined,
         count: count ? parseInt(count, 10) : undefined,
-      }
+      },
+      getUserId(req)
     );
 
     res.status(201).json({
@@ -0,0 +1,13 @@
+import type { Request, Response } from 'express';
+import { listPlatforms } from '../utils/platforms.js';
+
+export class PlatformController {
+  async list(_req: Request, res: Response) {
+    res.json({
+      success: true,
+      data: listPlatforms(),
+    });
+  }
+}
+
+export const platformController = new PlatformController();
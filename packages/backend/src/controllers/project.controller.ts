@@ -1,10 +1,15 @@
 import type { Request, Response } from 'express';
-import { projectService } from '../services/index.js';
-import type { CreateProjectInput, UpdateProjectInput } from '../validators/index.js';
+import { aiUsageService, projectService } from '../services/index.js';
+import { getUserId, getWorkspaceId } from '../middleware/workspace.js';
+import type {
+  AIBudgetInput,
+  CreateProjectInput,
+  UpdateProjectInput,
+} from '../validators/index.js';
 
 export class ProjectController {
   async create(req: Request<unknown, unknown, CreateProjectInput>, res: Response) {
-    const project = await projectService.createProject(req.body);
+    const project = await projectService.createProject(getWorkspaceId(req), req.body);
     res.status(201).json({
       success: true,
       data: project,
@@ -12,7 +17,7 @@ export class ProjectController {
   }
 
   async getById(req: Request<{ id: string }>, res: Response) {
-    const project = await projectService.getProject(req.params.id);
+    const project = await projectService.getProject(getWorkspaceId(req), req.params.id);
     res.json({
       success: true,
       data: project,
@@ -23,7 +28,7 @@ export class ProjectController {
     const page = req.query.page ? parseInt(req.query.page, 10) : undefined;
     const limit = req.query.limit ? parseInt(req.query.limit, 10) : undefined;
 
-    const result = await projectService.getAllProjects({ page, limit });
+    const result = await projectService.getAllProjects(getWorkspaceId(req), { page, limit });
     res.json({
       success: true,
       data: result.projects,
@@ -36,7 +41,7 @@ export class ProjectController {
   }
 
   async update(req: Request<{ id: string }, unknown, UpdateProjectInput>, res: Response) {
-    const project = await projectService.updateProject(req.params.id, req.body);
+    const project = await projectService.updateProject(getWorkspaceId(req), req.params.id, req.body);
     res.json({
       success: true,
       data: project,
@@ -44,9 +49,38 @@ export class ProjectController {
   }
 
   async delete(req: Request<{ id: string }>, res: Response) {
-    await projectService.deleteProject(req.params.id);
+    await projectService.deleteProject(getWorkspaceId(req), req.params.id);
     res.status(204).send();
   }
+
+  async getAIUsage(
+    req: Request<{ id: string }, unknown, unknown, { days?: string }>,
+    res: Response
+  ) {
+    // Already coerced and defaulted by aiUsageQuerySchema
+    const usage = await aiUsageService.getProjectUsage(
+      getWorkspaceId(req),
+      req.params.id,
+      Number(req.query.days)
+    );
+    res.json({
+      success: true,
+      data: usage,
+    });
+  }
+
+  async setAIBudget(req: Request<{ id: string }, unknown, AIBudgetInput>, res: Response) {
+    const project = await aiUsageService.setProjectBudget(
+      getUserId(req),
+      getWorkspaceId(req),
+      req.params.id,
+      req.body.monthlyBudgetUsd
+    );
+    res.json({
+      success: true,
+      data: project,
+    });
+  }
 }
 
 export const projectController = new ProjectController();
@@ -0,0 +1,117 @@
+import type { Request, Response } from 'express';
+import { promptTemplateService } from '../services/index.js';
+import { getUserId, getWorkspaceId } from '../middleware/workspace.js';
+import { AuthorizationError } from '../types/index.js';
+import { hasPermissions, type Permission } from '../utils/permissions.js';
+import type { AuthRequest } from '../middleware/auth.js';
+import type { AIOperation } from '../types/index.js';
+import type {
+  CreatePromptTemplateInput,
+  PreviewPromptTemplateInput,
+  RollbackPromptTemplateInput,
+} from '../validators/index.js';
+
+type OperationParams = { operation: AIOperation };
+
+export class PromptTemplateController {
+  async getActive(
+    req: Request<unknown, unknown, unknown, { projectId?: string }>,
+    res: Response
+  ) {
+    const templates = await promptTemplateService.listActive(
+      getWorkspaceId(req),
+      req.query.projectId
+    );
+    res.json({
+      success: true,
+      data: templates,
+    });
+  }
+
+  async getVersions(
+    req: Request<OperationParams, unknown, unknown, { projectId?: string }>,
+    res: Response
+  ) {
+    const versions = await promptTemplateService.listVersions(
+      getWorkspaceId(req),
+      req.params.operation,
+      req.query.projectId
+    );
+    res.json({
+      success: true,
+      data: versions,
+    });
+  }
+
+  async create(req: Request<OperationParams, unknown, CreatePromptTemplateInput>, res: Response) {
+    this.assertCanEdit(req, req.body.projectId);
+
+    const template = await promptTemplateService.createVersion(
+      getWorkspaceId(req),
+      getUserId(req),
+      req.params.operation,
+      req.body
+    );
+    res.status(201).json({
+      success: true,
+      data: template,
+    });
+  }
+
+  async preview(req: Request<OperationParams, unknown, PreviewPromptTemplateInput>, res: Response) {
+    const preview = await promptTemplateService.preview(
+      getWorkspaceId(req),
+      req.params.operation,
+      req.body
+    );
+    res.json({
+      success: true,
+      data: preview,
+    });
+  }
+
+  async rollback(
+    req: Request<OperationParams, unknown, RollbackPromptTemplateInput>,
+    res: Response
+  ) {
+    this.assertCanEdit(req, req.body.projectId);
+
+    const template = await promptTemplateService.rollback(
+      getWorkspaceId(req),
+      getUserId(req),
+      req.params.operation,
+      req.body.version,
+      req.body.projectId
+    );
+    res.status(201).json({
+      success: true,
+      data: template,
+    });
+  }
+
+  async clearOverride(
+    req: Request<OperationParams & { projectId: string }>,
+    res: Response
+  ) {
+    this.assertCanEdit(req, req.params.projectId);
+
+    await promptTemplateService.clearOverride(
+      getWorkspaceId(req),
+      req.params.operation,
+      req.params.projectId
+    );
+    res.status(204).send();
+  }
+
+  // Global templates affect every workspace, so they need an instance-wide
+  // permission; project overrides only need write access to the project
+  private assertCanEdit<P>(req: Request<P>, projectId: string | undefined) {
+    const permission: Permission = projectId ? 'projects:write' : 'prompts:manage';
+    const granted = (req as unknown as AuthRequest).user?.permissions;
+    if (!hasPermissions(granted, [permission])) {
+      throw new AuthorizationError(`Missing permission: ${permission}`);
+    }
+  }
+}
+
+export const promptTemplateController = new PromptTemplateController();
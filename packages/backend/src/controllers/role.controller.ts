@@ -0,0 +1,74 @@
+import type { Request, Response } from 'express';
+import { roleService } from '../services/index.js';
+import { getUserId } from '../middleware/workspace.js';
+import type { CreateRoleInput, UpdateRoleInput } from '../validators/index.js';
+
+export class RoleController {
+  async getAll(_req: Request, res: Response) {
+    const roles = await roleService.listRoles();
+    res.json({
+      success: true,
+      data: roles,
+    });
+  }
+
+  async getPermissions(_req: Request, res: Response) {
+    res.json({
+      success: true,
+      data: roleService.listPermissions(),
+    });
+  }
+
+  async create(req: Request<unknown, unknown, CreateRoleInput>, res: Response) {
+    const role = await roleService.createRole(req.body);
+    res.status(201).json({
+      success: true,
+      data: role,
+    });
+  }
+
+  async update(req: Request<{ id: string }, unknown, UpdateRoleInput>, res: Response) {
+    const role = await roleService.updateRole(req.params.id, req.body);
+    res.json({
+      success: true,
+      data: role,
+    });
+  }
+
+  async delete(req: Request<{ id: string }>, res: Response) {
+    await roleService.deleteRole(req.params.id);
+    res.status(204).send();
+  }
+
+  async getUsers(
+    req: Request<unknown, unknown, unknown, { page?: string; limit?: string; roleId?: string }>,
+    res: Response
+  ) {
+    const page = req.query.page ? parseInt(req.query.page, 10) : undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit, 10) : undefined;
+
+    const result = await roleService.listUsers({ page, limit, roleId: req.query.roleId });
+    res.json({
+      success: true,
+      data: result.users,
+      meta: {
+        total: result.total,
+        page: page ?? 1,
+        limit: limit ?? 20,
+      },
+    });
+  }
+
+  async assignUserRole(
+    req: Request<{ id: string }, unknown, { roleId: string }>,
+    res: Response
+  ) {
+    const user = await roleService.assignRole(getUserId(req), req.params.id, req.body.roleId);
+    res.json({
+      success: true,
+      data: user,
+    });
+  }
+}
+
+export const roleController = new RoleController();
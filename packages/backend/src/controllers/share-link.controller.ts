@@ -0,0 +1,92 @@
+import type { Request, Response } from 'express';
+import { shareLinkService } from '../services/index.js';
+import { getUserId, getWorkspaceId } from '../middleware/workspace.js';
+import type { PackDownload } from '../services/pack.service.js';
+import type { CreateShareLinkInput, ShareDownloadInput } from '../validators/index.js';
+
+// Where a download came from, for the download log
+export function downloadClient(req: Request) {
+  return { ip: req.ip, userAgent: req.get('user-agent') };
+}
+
+export function sendPack(res: Response, { stream, filename, size }: PackDownload) {
+  res.setHeader('Content-Type', 'application/zip');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.setHeader('Content-Length', size);
+
+  stream.pipe(res);
+}
+
+export class ShareLinkController {
+  async create(req: Request<{ id: string }, unknown, CreateShareLinkInput>, res: Response) {
+    const link = await shareLinkService.createLink(
+      getWorkspaceId(req),
+      req.params.id,
+      req.body,
+      getUserId(req)
+    );
+    res.status(201).json({
+      success: true,
+      data: link,
+    });
+  }
+
+  async getAll(req: Request<{ id: string }>, res: Response) {
+    const links = await shareLinkService.getLinks(getWorkspaceId(req), req.params.id);
+    res.json({
+      success: true,
+      data: links,
+    });
+  }
+
+  async revoke(req: Request<{ id: string; linkId: string }>, res: Response) {
+    const link = await shareLinkService.revokeLink(
+      getWorkspaceId(req),
+      req.params.id,
+      req.params.linkId
+    );
+    res.json({
+      success: true,
+      data: link,
+    });
+  }
+
+  async getDownloads(
+    req: Request<{ id: string }, unknown, unknown, { limit?: number }>,
+    res: Response
+  ) {
+    const downloads = await shareLinkService.getDownloads(
+      getWorkspaceId(req),
+      req.params.id,
+      Number(req.query.limit ?? 100)
+    );
+    res.json({
+      success: true,
+      data: downloads,
+    });
+  }
+
+  // Public: the token is the only credential
+
+  async getShared(req: Request<{ token: string }>, res: Response) {
+    const pack = await shareLinkService.getSharedPack(req.params.token);
+    res.json({
+      success: true,
+      data: pack,
+    });
+  }
+
+  async downloadShared(
+    req: Request<{ token: string }, unknown, ShareDownloadInput>,
+    res: Response
+  ) {
+    const download = await shareLinkService.downloadShared(
+      req.params.token,
+      req.body?.password,
+      downloadClient(req)
+    );
+    sendPack(res, download);
+  }
+}
+
+export const shareLinkController = new ShareLinkController();
@@ -0,0 +1,120 @@
+import type { Request, Response } from 'express';
+import { aiUsageService, packService, workspaceService } from '../services/index.js';
+import { getUserId } from '../middleware/workspace.js';
+import type {
+  AIBudgetInput,
+  CreateWorkspaceInput,
+  UpdateWorkspaceInput,
+  AddWorkspaceMemberInput,
+  PackRetentionInput,
+} from '../validators/index.js';
+import type { WorkspaceRole } from '../types/index.js';
+
+export class WorkspaceController {
+  async create(req: Request<unknown, unknown, CreateWorkspaceInput>, res: Response) {
+    const workspace = await workspaceService.createWorkspace(getUserId(req), req.body.name);
+    res.status(201).json({
+      success: true,
+      data: workspace,
+    });
+  }
+
+  async getAll(req: Request, res: Response) {
+    const workspaces = await workspaceService.getUserWorkspaces(getUserId(req));
+    res.json({
+      success: true,
+      data: workspaces,
+    });
+  }
+
+  async getById(req: Request<{ id: string }>, res: Response) {
+    const workspace = await workspaceService.getWorkspace(getUserId(req), req.params.id);
+    res.json({
+      success: true,
+      data: workspace,
+    });
+  }
+
+  async update(req: Request<{ id: string }, unknown, UpdateWorkspaceInput>, res: Response) {
+    const workspace = await workspaceService.updateWorkspace(
+      getUserId(req),
+      req.params.id,
+      req.body
+    );
+    res.json({
+      success: true,
+      data: workspace,
+    });
+  }
+
+  async setAIBudget(req: Request<{ id: string }, unknown, AIBudgetInput>, res: Response) {
+    const workspace = await aiUsageService.setWorkspaceBudget(
+      getUserId(req),
+      req.params.id,
+      req.body.monthlyBudgetUsd
+    );
+    res.json({
+      success: true,
+      data: workspace,
+    });
+  }
+
+  async setPackRetention(
+    req: Request<{ id: string }, unknown, PackRetentionInput>,
+    res: Response
+  ) {
+    const workspace = await packService.setRetentionPolicy(
+      getUserId(req),
+      req.params.id,
+      req.body.packRetentionDays
+    );
+    res.json({
+      success: true,
+      data: workspace,
+    });
+  }
+
+  async delete(req: Request<{ id: string }>, res: Response) {
+    await workspaceService.deleteWorkspace(getUserId(req), req.params.id);
+    res.status(204).send();
+  }
+
+  async addMember(
+    req: Request<{ id: string }, unknown, AddWorkspaceMemberInput>,
+    res: Response
+  ) {
+    const member = await workspaceService.addMember(
+      getUserId(req),
+      req.params.id,
+      req.body.userId,
+      req.body.role
+    );
+    res.status(201).json({
+      success: true,
+      data: member,
+    });
+  }
+
+  async updateMember(
+    req: Request<{ id: string; userId: string }, unknown, { role: WorkspaceRole }>,
+    res: Response
+  ) {
+    const member = await workspaceService.updateMemberRole(
+      getUserId(req),
+      req.params.id,
+      req.params.userId,
+      req.body.role
+    );
+    res.json({
+      success: true,
+      data: member,
+    });
+  }
+
+  async removeMember(req: Request<{ id: string; userId: string }>, res: Response) {
+    await workspaceService.removeMember(getUserId(req), req.params.id, req.params.userId);
+    res.status(204).send();
+  }
+}
+
+export const workspaceController = new WorkspaceController();
@@ -1,102 +1,15 @@
-import express from 'express';
-import cors from 'cors';
-import helmet from 'helmet';
-import rateLimit from 'express-rate-limit';
+import { app } from './app.js';
 import { config } from './utils/config.js';
 import { logger } from './utils/logger.js';
 import { validateEnvironment, getEnvironmentInfo } from './utils/env-validator.js';
 import { connectDatabase, disconnectDatabase } from './repositories/prisma-client.js';
-import { apiRoutes } from './routes/index.js';
-import { errorHandler, notFoundHandler } from './middleware/error-handler.js';
-import { requestLogger } from './middleware/request-logger.js';
-
-const app = express();
-
-// Security middleware with production-grade settings
-app.use(helmet({
-  contentSecurityPolicy: {
-    directives: {
-      defaultSrc: ["'self'"],
-      styleSrc: ["'self'", "'unsafe-inline'"],
-      scriptSrc: ["'self'"],
-      imgSrc: ["'self'", "data:", "https:"],
-      connectSrc: ["'self'"],
-      fontSrc: ["'self'"],
-      objectSrc: ["'none'"],
-      mediaSrc: ["'self'"],
-      frameSrc: ["'none'"],
-    },
-  },
-  hsts: config.NODE_ENV === 'production' ? {
-    maxAge: 31536000,
-    includeSubDomains: true,
-    preload: true,
-  } : false,
-}));
-
-// CORS configuration with strict production settings
-app.use(
-  cors({
-    origin: (origin, callback) => {
-      // In production, strictly validate origin
-      if (config.NODE_ENV === 'production') {
-        const allowedOrigins = config.CORS_ORIGIN.split(',').map(o => o.trim());
-        if (!origin || allowedOrigins.includes(origin)) {
-          callback(null, true);
-        } else {
-          callback(new Error('Not allowed by CORS'));
-        }
-      } else {
-        // In development/test, be more permissive
-        callback(null, config.CORS_ORIGIN || true);
-      }
-    },
-    credentials: true,
-    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
-    maxAge: 86400, // 24 hours
-  })
-);
-
-// Rate limiting
-app.use(
-  rateLimit({
-    windowMs: config.RATE_LIMIT_WINDOW_MS,
-    max: config.RATE_LIMIT_MAX_REQUESTS,
-    standardHeaders: true,
-    legacyHeaders: false,
-    message: {
-      success: false,
-      error: {
-        code: 'RATE_LIMIT_EXCEEDED',
-        message: 'Too many requests, please try again later.',
-      },
-    },
-  })
-);
-
-// Body parsing
-app.use(express.json({ limit: '10mb' }));
-app.use(express.urlencoded({ extended: true }));
-
-// Request logging
-app.use(requestLogger);
-
-// Health check endpoint (no auth, minimal overhead)
-app.get('/api/health', (_req, res) => {
-  res.json({ ok: true });
-});
-
-// API routes
-app.use('/api', apiRoutes);
-
-// Error handling
-app.use(notFoundHandler);
-app.use(errorHandler);
+import { jobWorker } from './jobs/worker.js';
+import { packSweeper } from './jobs/pack-sweeper.js';
 
 // Graceful shutdown
 async function shutdown(signal: string) {
   logger.info({ signal }, 'Shutdown signal received');
+  await Promise.all([jobWorker.stop(), packSweeper.stop()]);
   await disconnectDatabase();
   process.exit(0);
 }
@@ -126,6 +39,11 @@ async function start() {
         `Server started on port ${config.PORT}`
       );
     });
+
+    if (config.JOB_WORKER_ENABLED) {
+      jobWorker.start();
+      packSweeper.start();
+    }
   } catch (error) {
     logger.error({ error }, 'Failed to start server');
     process.exit(1);
@@ -0,0 +1,48 @@
+import { angleService, localizationService, packService } from '../services/index.js';
+import type { JobPayloads, JobType, ProgressReporter } from '../types/index.js';
+
+export interface JobContext {
+  jobId: string;
+  workspaceId: string;
+  // The user who queued the job, for AI usage metering
+  userId?: string;
+  reportProgress: ProgressReporter;
+}
+
+export type JobHandler<T extends JobType> = (
+  payload: JobPayloads[T],
+  context: JobContext
+) => Promise<unknown>;
+
+/**
+ * What the worker runs for each job type. The returned value is stored as the
+ * job's result and must be JSON-serializable.
+ */
+export const jobHandlers: { [T in JobType]: JobHandler<T> } = {
+  generate_angles: async ({ projectId, count }, { workspaceId, userId, reportProgress }) => {
+    await reportProgress(0, 1, 'Generating angles');
+    return angleService.generateAngles(workspaceId, projectId, count, userId);
+  },
+
+  localize: async (payload, { workspaceId, userId, reportProgress }) => {
+    await reportProgress(0, payload.locales.length * payload.platforms.length, 'Localizing');
+    return localizationService.localizeAngle({ workspaceId, userId, ...payload }, reportProgress);
+  },
+
+  build_pack: async (payload, { workspaceId, reportProgress }) => {
+    const pack = await packService.createPack({ workspaceId, ...payload }, reportProgress);
+    // fileSize is a BigInt, which JSON cannot store
+    return { packId: pack.id, name: pack.name, fileSize: Number(pack.fileSize ?? 0) };
+  },
+
+  rebuild_pack: async ({ packId, ...options }, { workspaceId, reportProgress }) => {
+    const pack = await packService.rebuildPack(workspaceId, packId, options, reportProgress);
+    return {
+      packId: pack.id,
+      name: pack.name,
+      version: pack.version,
+      fileSize: Number(pack.fileSize ?? 0),
+      deltaFileSize: pack.deltaFileSize === null ? null : Number(pack.deltaFileSize),
+    };
+  },
+};
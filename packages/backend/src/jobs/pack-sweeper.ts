@@ -0,0 +1,47 @@
+import { packService } from '../services/index.js';
+import { config } from '../utils/config.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const logger = createChildLogger('pack-sweeper');
+
+/**
+ * Runs the pack storage sweep on an interval in whichever process runs the
+ * job worker. A sweep is skipped while the previous one is still running.
+ */
+export class PackSweeper {
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<void>;
+
+  constructor(private intervalMs: number) {}
+
+  start(): void {
+    if (this.timer || this.intervalMs === 0) return;
+
+    logger.info({ intervalMs: this.intervalMs }, 'Pack sweeper started');
+    this.timer = setInterval(() => void this.sweep(), this.intervalMs);
+    void this.sweep();
+  }
+
+  async stop(): Promise<void> {
+    if (!this.timer) return;
+
+    clearInterval(this.timer);
+    this.timer = undefined;
+    await this.running;
+  }
+
+  private async sweep(): Promise<void> {
+    if (this.running) return;
+
+    this.running = packService
+      .sweepStorage()
+      .then(() => undefined)
+      .catch((error) => logger.error({ error }, 'Pack sweep failed'))
+      .finally(() => {
+        this.running = undefined;
+      });
+    await this.running;
+  }
+}
+
+export const packSweeper = new PackSweeper(config.PACK_SWEEP_INTERVAL_MS);
@@ -0,0 +1,199 @@
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import { jobRepository } from '../repositories/index.js';
+import { config } from '../utils/config.js';
+import { createChildLogger } from '../utils/logger.js';
+import { AppError, JobCancelledError, JobLockLostError } from '../types/index.js';
+import { jobHandlers, type JobHandler } from './handlers.js';
+import type { JobError, JobPayloads, JobType, ProgressReporter } from '../types/index.js';
+import type { Job } from '@prisma/client';
+
+const logger = createChildLogger('job-worker');
+
+// How often to look for jobs orphaned by a crashed worker
+const RECOVERY_INTERVAL_MS = 60000;
+
+export interface JobWorkerOptions {
+  concurrency: number;
+  pollIntervalMs: number;
+  lockTimeoutMs: number;
+}
+
+function toJobError(error: unknown): JobError {
+  if (error instanceof AppError) {
+    return { code: error.code, message: error.message, details: error.details };
+  }
+  return {
+    code: 'INTERNAL_ERROR',
+    message: error instanceof Error ? error.message : 'Unknown error',
+  };
+}
+
+/**
+ * Polls the jobs table and runs claimed jobs with bounded concurrency. Several
+ * workers, in the API process or standalone, can share one database.
+ */
+export class JobWorker {
+  readonly id = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private timer?: NodeJS.Timeout;
+  private stopping = false;
+  private active = new Map<string, Promise<void>>();
+  private lastRecoveryAt = 0;
+
+  constructor(private options: JobWorkerOptions) {}
+
+  start(): void {
+    if (this.timer) return;
+
+    this.stopping = false;
+    logger.info({ workerId: this.id, ...this.options }, 'Job worker started');
+    this.schedule(0);
+  }
+
+  /**
+   * Stop claiming jobs and wait for running ones to finish.
+   */
+  async stop(): Promise<void> {
+    if (!this.timer) return;
+
+    this.stopping = true;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    await Promise.allSettled(this.active.values());
+    logger.info({ workerId: this.id }, 'Job worker stopped');
+  }
+
+  private schedule(delayMs: number) {
+    this.timer = setTimeout(() => void this.poll(), delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      await this.recoverStaleJobs();
+
+      while (!this.stopping && this.active.size < this.options.concurrency) {
+        const job = await jobRepository.claimNext(this.id);
+        if (!job) break;
+
+        const run = this.run(job).finally(() => this.active.delete(job.id));
+        this.active.set(job.id, run);
+      }
+    } catch (error) {
+      logger.error({ error }, 'Failed to poll for jobs');
+    }
+
+    if (!this.stopping) {
+      this.schedule(this.options.pollIntervalMs);
+    }
+  }
+
+  private async recoverStaleJobs(): Promise<void> {
+    if (Date.now() - this.lastRecoveryAt < RECOVERY_INTERVAL_MS) return;
+    this.lastRecoveryAt = Date.now();
+
+    const { requeued, failed } = await jobRepository.recoverStale(
+      new Date(Date.now() - this.options.lockTimeoutMs)
+    );
+    if (requeued > 0 || failed > 0) {
+      logger.warn({ requeued, failed }, 'Recovered stale jobs');
+    }
+  }
+
+  private async run(job: Job): Promise<void> {
+    const log = logger.child({ jobId: job.id, type: job.type, attempt: job.attempts });
+    const handler = jobHandlers[job.type as JobType] as unknown as JobHandler<JobType> | undefined;
+
+    if (!handler) {
+      await jobRepository.markFailed(job.id, this.id, {
+        code: 'UNKNOWN_JOB_TYPE',
+        message: `No handler for job type "${job.type}"`,
+      });
+      return;
+    }
+
+    // Handlers may go a long time between progress reports (one slow AI call),
+    // so keep the lock fresh on a timer or the job is recovered as stale and
+    // run twice
+    let lockLost = false;
+    const heartbeatMs = Math.floor(this.options.lockTimeoutMs / 4);
+    const heartbeat = setInterval(() => {
+      jobRepository
+        .refreshLock(job.id, this.id)
+        .then((owned) => {
+          if (!owned) lockLost = true;
+        })
+        .catch((error) => log.warn({ error }, 'Failed to refresh job lock'));
+    }, heartbeatMs);
+
+    const reportProgress: ProgressReporter = async (completed, total, message) => {
+      if (lockLost) {
+        throw new JobLockLostError();
+      }
+      // 100 is reserved for completion
+      const progress = total > 0 ? Math.min(99, Math.floor((completed / total) * 100)) : 0;
+      const { owned, cancelRequested } = await jobRepository.updateProgress(
+        job.id,
+        this.id,
+        progress,
+        message
+      );
+      if (!owned) {
+        throw new JobLockLostError();
+      }
+      if (cancelRequested) {
+        throw new JobCancelledError();
+      }
+    };
+
+    log.info('Job started');
+
+    // The job's state now belongs to whichever worker took it over
+    const lostLock = () => log.warn('Job lock was lost to another worker; result discarded');
+
+    try {
+      if (job.cancelRequested) {
+        throw new JobCancelledError();
+      }
+
+      const result = await handler(job.payload as unknown as JobPayloads[JobType], {
+        jobId: job.id,
+        workspaceId: job.workspaceId,
+        userId: job.createdById ?? undefined,
+        reportProgress,
+      });
+
+      if (await jobRepository.markSucceeded(job.id, this.id, result)) {
+        log.info('Job succeeded');
+      } else {
+        lostLock();
+      }
+    } catch (error) {
+      if (error instanceof JobLockLostError) {
+        lostLock();
+        return;
+      }
+      if (error instanceof JobCancelledError) {
+        if (await jobRepository.markCancelled(job.id, this.id)) {
+          log.info('Job cancelled');
+        } else {
+          lostLock();
+        }
+        return;
+      }
+
+      log.error({ error }, 'Job failed');
+      if (!(await jobRepository.markFailed(job.id, this.id, toJobError(error)))) {
+        lostLock();
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+}
+
+export const jobWorker = new JobWorker({
+  concurrency: config.JOB_WORKER_CONCURRENCY,
+  pollIntervalMs: config.JOB_POLL_INTERVAL_MS,
+  lockTimeoutMs: config.JOB_LOCK_TIMEOUT_MS,
+});
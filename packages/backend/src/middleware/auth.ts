@@ -1,20 +1,21 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
+import jwt, { type SignOptions } from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
+import { v4 as uuidv4 } from 'uuid';
 import passport from 'passport';
 import { Strategy as LocalStrategy } from 'passport-local';
 import { Strategy as JwtStrategy, ExtractJwt } from 'passport-jwt';
 import { Strategy as GoogleStrategy } from 'passport-google-oauth20';
-import { PrismaClient } from '@prisma/client';
-import { logger } from '../utils/logger';
-import { AuthenticationError, AuthorizationError } from './errorTracking';
-
-const prisma = new PrismaClient();
+import { prisma } from '../repositories/prisma-client.js';
+import { logger } from '../utils/logger.js';
+import { AuthenticationError, AuthorizationError } from '../types/index.js';
+import { DEFAULT_ROLE, hasPermissions, type Permission } from '../utils/permissions.js';
 
 // JWT Configuration
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '24h';
-const REFRESH_TOKEN_EXPIRES_IN = process.env.REFRESH_TOKEN_EXPIRES_IN || '7d';
+const JWT_EXPIRES_IN = (process.env.JWT_EXPIRES_IN || '24h') as SignOptions['expiresIn'];
+const REFRESH_TOKEN_EXPIRES_IN = (process.env.REFRESH_TOKEN_EXPIRES_IN ||
+  '7d') as SignOptions['expiresIn'];
 
 // Types
 export interface UserPayload {
@@ -22,14 +23,20 @@ export interface UserPayload {
   email: string;
   role: string;
   permissions?: string[];
+  type?: 'refresh';
+}
+
+// Passport populates req.user with the payload produced by the strategies below
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    // eslint-disable-next-line @typescript-eslint/no-empty-interface
+    interface User extends UserPayload {}
+  }
 }
 
 export interface AuthRequest extends Request {
   user?: UserPayload;
-  session?: {
-    userId?: string;
-    destroy: (callback: (err: any) => void) => void;
-  };
 }
 
 // Password utilities
@@ -78,10 +85,12 @@ export class TokenManager {
   }
 
   static generateRefreshToken(user: UserPayload): string {
+    // jwtid keeps tokens issued within the same second distinct, so revoking one
+    // on rotation never revokes its replacement
     return jwt.sign(
       { id: user.id, type: 'refresh' },
       JWT_SECRET,
-      { expiresIn: REFRESH_TOKEN_EXPIRES_IN }
+      { expiresIn: REFRESH_TOKEN_EXPIRES_IN, jwtid: uuidv4() }
     );
   }
 
@@ -93,11 +102,12 @@ export class TokenManager {
     }
   }
 
-  static async revokeToken(token: string): Promise<void> {
+  static async revokeToken(token: string, userId?: string): Promise<void> {
     // Store revoked tokens in database or Redis
     await prisma.revokedToken.create({
       data: {
         token,
+        userId,
         revokedAt: new Date(),
         expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
       },
@@ -221,6 +231,11 @@ export function configurePassport() {
       },
       async (payload: UserPayload, done) => {
         try {
+          // Refresh tokens may only be exchanged at /auth/refresh
+          if (payload.type === 'refresh') {
+            return done(null, false);
+          }
+
           const user = await prisma.user.findUnique({
             where: { id: payload.id },
             include: { role: true },
@@ -277,7 +292,7 @@ export function configurePassport() {
               } else {
                 // Create new user
                 const defaultRole = await prisma.role.findFirst({
-                  where: { name: 'user' },
+                  where: { name: DEFAULT_ROLE },
                 });
 
                 user = await prisma.user.create({
@@ -312,7 +327,7 @@ export function configurePassport() {
   }
 
   // Serialize/deserialize user for session
-  passport.serializeUser((user: any, done) => {
+  passport.serializeUser((user, done) => {
     done(null, user.id);
   });
 
@@ -344,12 +359,12 @@ export function configurePassport() {
 // Authentication middleware
 export function authenticate(strategy: string = 'jwt') {
   return (req: Request, res: Response, next: NextFunction) => {
-    passport.authenticate(strategy, { session: false }, (err: any, user: UserPayload) => {
+    passport.authenticate(strategy, { session: false }, (err: Error | null, user: UserPayload | false) => {
       if (err) {
         return next(err);
       }
       if (!user) {
-        throw new AuthenticationError('Authentication required');
+        return next(new AuthenticationError('Authentication required'));
       }
       (req as AuthRequest).user = user;
       next();
@@ -384,6 +399,29 @@ export function authorize(...requiredPermissions: string[]) {
   };
 }
 
+/**
+ * Require every listed permission from the authenticated user's role.
+ * Permissions are loaded from the role on each request, so role edits apply
+ * without re-issuing tokens.
+ */
+export function requirePermission(...requiredPermissions: Permission[]) {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    const user = (req as AuthRequest).user;
+
+    if (!user) {
+      return next(new AuthenticationError('Authentication required'));
+    }
+
+    if (!hasPermissions(user.permissions, requiredPermissions)) {
+      return next(
+        new AuthorizationError(`Missing permission: ${requiredPermissions.join(', ')}`)
+      );
+    }
+
+    next();
+  };
+}
+
 // Rate limiting for auth endpoints
 export class AuthRateLimiter {
   private attempts: Map<string, { count: number; resetTime: number }> = new Map();
@@ -424,12 +462,12 @@ export class TwoFactorAuth {
     return Math.random().toString(36).substring(2, 15);
   }
 
-  static generateToken(secret: string): string {
+  static generateToken(_secret: string): string {
     // In production, use TOTP algorithm
     return Math.floor(100000 + Math.random() * 900000).toString();
   }
 
-  static verifyToken(secret: string, token: string): boolean {
+  static verifyToken(_secret: string, _token: string): boolean {
     // In production, verify TOTP token
     return true; // Placeholder
   }
@@ -442,9 +480,9 @@ export class EmailVerification {
     logger.info(`Verification email would be sent to ${email} with token ${token}`);
   }
 
-  static generateVerificationToken(): string {
+  static generateVerificationToken(userId: string): string {
     return jwt.sign(
-      { type: 'email_verification' },
+      { userId, type: 'email_verification' },
       JWT_SECRET,
       { expiresIn: '24h' }
     );
@@ -452,7 +490,7 @@ export class EmailVerification {
 
   static async verifyEmail(token: string): Promise<boolean> {
     try {
-      const decoded = jwt.verify(token, JWT_SECRET) as any;
+      const decoded = jwt.verify(token, JWT_SECRET) as { type?: string };
       return decoded.type === 'email_verification';
     } catch {
       return false;
@@ -477,8 +515,8 @@ export class PasswordReset {
 
   static async verifyResetToken(token: string): Promise<string | null> {
     try {
-      const decoded = jwt.verify(token, JWT_SECRET) as any;
-      if (decoded.type === 'password_reset') {
+      const decoded = jwt.verify(token, JWT_SECRET) as { userId?: string; type?: string };
+      if (decoded.type === 'password_reset' && decoded.userId) {
         return decoded.userId;
       }
       return null;
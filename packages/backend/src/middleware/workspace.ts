@@ -0,0 +1,62 @@
+import type { Request, Response, NextFunction } from 'express';
+import { workspaceService } from '../services/index.js';
+import { AuthenticationError, AppError } from '../types/index.js';
+import { workspacePermissions } from '../utils/permissions.js';
+import type { WorkspaceContext } from '../types/index.js';
+import type { AuthRequest } from './auth.js';
+
+export const WORKSPACE_HEADER = 'x-workspace-id';
+
+export interface WorkspaceRequest extends AuthRequest {
+  workspace?: WorkspaceContext;
+}
+
+/**
+ * Resolves the caller's workspace (from the X-Workspace-Id header, or the user's
+ * default workspace) and attaches it to the request. Must run after authenticate(),
+ * and before requirePermission() so workspace viewers are held to read access.
+ */
+export function resolveWorkspace() {
+  return async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = (req as WorkspaceRequest).user;
+      if (!user) {
+        throw new AuthenticationError();
+      }
+
+      const requested = req.get(WORKSPACE_HEADER) || undefined;
+      const workspace = await workspaceService.resolveForUser(user, requested);
+      (req as WorkspaceRequest).workspace = workspace;
+      user.permissions = workspacePermissions(user.permissions ?? [], workspace.role);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Returns the id of the workspace resolved for this request.
+ */
+export function getWorkspaceId<P, ResBody, ReqBody, ReqQuery>(
+  req: Request<P, ResBody, ReqBody, ReqQuery>
+): string {
+  const workspace = (req as unknown as WorkspaceRequest).workspace;
+  if (!workspace) {
+    throw new AppError(500, 'Workspace was not resolved for this request', 'WORKSPACE_NOT_RESOLVED');
+  }
+  return workspace.id;
+}
+
+/**
+ * Returns the id of the authenticated user for this request.
+ */
+export function getUserId<P, ResBody, ReqBody, ReqQuery>(
+  req: Request<P, ResBody, ReqBody, ReqQuery>
+): string {
+  const user = (req as unknown as WorkspaceRequest).user;
+  if (!user) {
+    throw new AuthenticationError();
+  }
+  return user.id;
+}
@@ -0,0 +1,85 @@
+import { prisma } from './prisma-client.js';
+import type { AIUsage } from '@prisma/client';
+import type { Decimal } from '@prisma/client/runtime/library';
+import type { AIOperation } from '../types/index.js';
+
+export interface CreateAIUsageData {
+  workspaceId: string;
+  projectId?: string;
+  userId?: string;
+  operation: AIOperation;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export interface AIUsageRollupRow {
+  day: Date;
+  operation: AIOperation;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+interface RawRollupRow {
+  day: Date;
+  operation: string;
+  calls: bigint;
+  prompt_tokens: bigint | null;
+  completion_tokens: bigint | null;
+  cost_usd: Decimal | null;
+}
+
+export class AIUsageRepository {
+  async create(data: CreateAIUsageData): Promise<AIUsage> {
+    return prisma.aIUsage.create({ data });
+  }
+
+  /**
+   * Total estimated cost since a point in time, for a project or a whole workspace.
+   */
+  async sumCostSince(
+    scope: { workspaceId: string } | { projectId: string },
+    since: Date
+  ): Promise<number> {
+    const result = await prisma.aIUsage.aggregate({
+      where: { ...scope, createdAt: { gte: since } },
+      _sum: { costUsd: true },
+    });
+    return Number(result._sum.costUsd ?? 0);
+  }
+
+  /**
+   * Usage per UTC day and operation, oldest first.
+   */
+  async rollupByDay(projectId: string, since: Date): Promise<AIUsageRollupRow[]> {
+    const rows = await prisma.$queryRaw<RawRollupRow[]>`
+      SELECT
+        date_trunc('day', created_at) AS day,
+        operation,
+        COUNT(*) AS calls,
+        SUM(prompt_tokens) AS prompt_tokens,
+        SUM(completion_tokens) AS completion_tokens,
+        SUM(cost_usd) AS cost_usd
+      FROM ai_usage
+      WHERE project_id = ${projectId}
+        AND created_at >= ${since}
+      GROUP BY 1, 2
+      ORDER BY 1, 2
+    `;
+
+    return rows.map((r) => ({
+      day: r.day,
+      operation: r.operation as AIOperation,
+      calls: Number(r.calls),
+      promptTokens: Number(r.prompt_tokens ?? 0),
+      completionTokens: Number(r.completion_tokens ?? 0),
+      costUsd: Number(r.cost_usd ?? 0),
+    }));
+  }
+}
+
+export const aiUsageRepository = new AIUsageRepository();
@@ -0,0 +1,137 @@
+import { prisma } from './prisma-client.js';
+import type { AngleComment, AngleReviewer, AngleStatusEvent } from '@prisma/client';
+import { workspacePermissions } from '../utils/permissions.js';
+import type { AngleContentField, ReviewDecision, WorkspaceRole } from '../types/index.js';
+
+// Enough of a user to show who did something
+export const userSummary = { select: { id: true, name: true, email: true } } as const;
+
+export interface UserSummary {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+export interface AngleReviewerWithUser extends AngleReviewer {
+  user: UserSummary;
+}
+
+export interface AngleCommentWithAuthor extends AngleComment {
+  author: UserSummary | null;
+}
+
+export interface AngleCommentThread extends AngleCommentWithAuthor {
+  replies: AngleCommentWithAuthor[];
+}
+
+export interface AngleStatusEventWithUser extends AngleStatusEvent {
+  user: UserSummary | null;
+}
+
+export interface CreateAngleCommentData {
+  angleId: string;
+  authorId?: string;
+  parentId?: string;
+  field?: AngleContentField;
+  quote?: string;
+  body: string;
+}
+
+export class AngleReviewRepository {
+  async findReviewers(angleId: string): Promise<AngleReviewerWithUser[]> {
+    return prisma.angleReviewer.findMany({
+      where: { angleId },
+      include: { user: userSummary },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Make the given users the angle's reviewers. Reviewers who stay keep their
+   * decisions.
+   */
+  async replaceReviewers(
+    angleId: string,
+    userIds: string[],
+    assignedById?: string
+  ): Promise<AngleReviewerWithUser[]> {
+    await prisma.$transaction([
+      prisma.angleReviewer.deleteMany({ where: { angleId, userId: { notIn: userIds } } }),
+      prisma.angleReviewer.createMany({
+        data: userIds.map((userId) => ({ angleId, userId, assignedById })),
+        skipDuplicates: true,
+      }),
+    ]);
+    return this.findReviewers(angleId);
+  }
+
+  async recordDecision(id: string, decision: ReviewDecision): Promise<AngleReviewer> {
+    return prisma.angleReviewer.update({
+      where: { id },
+      data: { decision, decidedAt: new Date() },
+    });
+  }
+
+  async countApprovals(angleId: string): Promise<number> {
+    return prisma.angleReviewer.count({ where: { angleId, decision: 'approved' } });
+  }
+
+  // Top-level comments, oldest first, each with its replies
+  async findThreads(angleId: string): Promise<AngleCommentThread[]> {
+    return prisma.angleComment.findMany({
+      where: { angleId, parentId: null },
+      include: {
+        author: userSummary,
+        replies: { include: { author: userSummary }, orderBy: { createdAt: 'asc' } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async findComment(id: string, angleId: string): Promise<AngleComment | null> {
+    return prisma.angleComment.findFirst({ where: { id, angleId } });
+  }
+
+  async createComment(data: CreateAngleCommentData): Promise<AngleCommentWithAuthor> {
+    return prisma.angleComment.create({
+      data,
+      include: { author: userSummary },
+    });
+  }
+
+  async setCommentResolved(id: string, resolved: boolean): Promise<AngleCommentWithAuthor> {
+    return prisma.angleComment.update({
+      where: { id },
+      data: { resolvedAt: resolved ? new Date() : null },
+      include: { author: userSummary },
+    });
+  }
+
+  // Newest first
+  async findStatusEvents(angleId: string): Promise<AngleStatusEventWithUser[]> {
+    return prisma.angleStatusEvent.findMany({
+      where: { angleId },
+      include: { user: userSummary },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  // Workspace members with the permissions their role grants in the workspace
+  async findWorkspaceUsers(
+    workspaceId: string
+  ): Promise<Array<UserSummary & { permissions: string[] }>> {
+    const members = await prisma.workspaceMember.findMany({
+      where: { workspaceId },
+      include: {
+        user: { select: { ...userSummary.select, role: { select: { permissions: true } } } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+    return members.map(({ role: memberRole, user: { role, ...user } }) => ({
+      ...user,
+      permissions: workspacePermissions(role.permissions, memberRole as WorkspaceRole),
+    }));
+  }
+}
+
+export const angleReviewRepository = new AngleReviewRepository();
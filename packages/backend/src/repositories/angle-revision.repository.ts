@@ -0,0 +1,33 @@
+import { prisma } from './prisma-client.js';
+import type { AngleRevision } from '@prisma/client';
+import type { AngleRevisionSource, AngleSnapshot, FieldChange } from '../types/index.js';
+
+export interface CreateAngleRevisionData {
+  version: number;
+  snapshot: AngleSnapshot;
+  changes: FieldChange[];
+  source: AngleRevisionSource;
+  createdById?: string | null;
+}
+
+export class AngleRevisionRepository {
+  async findByAngleId(angleId: string): Promise<AngleRevision[]> {
+    return prisma.angleRevision.findMany({
+      where: { angleId },
+      orderBy: { version: 'desc' },
+    });
+  }
+
+  async findVersion(angleId: string, version: number): Promise<AngleRevision | null> {
+    return prisma.angleRevision.findUnique({
+      where: { angleId_version: { angleId, version } },
+    });
+  }
+
+  async exists(angleId: string): Promise<boolean> {
+    const count = await prisma.angleRevision.count({ where: { angleId } });
+    return count > 0;
+  }
+}
+
+export const angleRevisionRepository = new AngleRevisionRepository();
@@ -1,6 +1,8 @@
 import { prisma } from './prisma-client.js';
 import type { AngleCard, LocalizedContent, Prisma } from '@prisma/client';
-import type { AngleStatus } from '../types/index.js';
+import type { AngleStatus, ClaimViolation } from '../types/index.js';
+import { toInputJson } from '../utils/prismaJson.js';
+import type { CreateAngleRevisionData } from './angle-revision.repository.js';
 
 export interface CreateAngleData {
   projectId: string;
@@ -13,6 +15,8 @@ export interface CreateAngleData {
   estimatedDuration?: number;
   parentAngleId?: string;
   generationNotes?: string;
+  promptVersion?: string;
+  claimViolations?: ClaimViolation[];
 }
 
 export interface UpdateAngleData {
@@ -25,6 +29,30 @@ export interface UpdateAngleData {
   estimatedDuration?: number | null;
   status?: AngleStatus;
   isWinner?: boolean;
+  version?: number;
+  promptVersion?: string | null;
+  claimViolations?: ClaimViolation[];
+  claimsOverrideReason?: string | null;
+  claimsOverriddenById?: string | null;
+  claimsOverriddenAt?: Date | null;
+  rejectionReason?: string | null;
+}
+
+export interface CreateAngleStatusEventData {
+  fromStatus: string;
+  toStatus: AngleStatus;
+  userId?: string | null;
+  reason?: string | null;
+}
+
+export interface UpdateAngleOptions {
+  expectedVersion?: number;
+  // Only update while the angle has this status; Prisma throws P2025 otherwise
+  expectedStatus?: AngleStatus;
+  revisions?: CreateAngleRevisionData[];
+  statusEvent?: CreateAngleStatusEventData;
+  // Clear reviewer decisions so the angle is reviewed afresh
+  resetReviews?: boolean;
 }
 
 export interface AngleWithLocalizations extends AngleCard {
@@ -47,6 +75,8 @@ export class AngleRepository {
         estimatedDuration: data.estimatedDuration,
         parentAngleId: data.parentAngleId,
         generationNotes: data.generationNotes,
+        promptVersion: data.promptVersion,
+        claimViolations: toInputJson(data.claimViolations ?? []),
       },
     });
   }
@@ -64,14 +94,16 @@ export class AngleRepository {
         estimatedDuration: d.estimatedDuration,
         parentAngleId: d.parentAngleId,
         generationNotes: d.generationNotes,
+        promptVersion: d.promptVersion,
+        claimViolations: toInputJson(d.claimViolations ?? []),
       })),
     });
     return result.count;
   }
 
-  async findById(id: string): Promise<AngleWithLocalizations | null> {
+  async findById(id: string, workspaceId?: string): Promise<AngleWithLocalizations | null> {
     return prisma.angleCard.findUnique({
-      where: { id },
+      where: { id, ...(workspaceId && { project: { workspaceId } }) },
       include: {
         localizedContents: true,
         parentAngle: true,
@@ -87,6 +119,7 @@ export class AngleRepository {
       isWinner?: boolean;
       page?: number;
       limit?: number;
+      workspaceId?: string;
     }
   ): Promise<{ angles: AngleCard[]; total: number }> {
     const page = options?.page ?? 1;
@@ -95,6 +128,7 @@ export class AngleRepository {
 
     const where: Prisma.AngleCardWhereInput = {
       projectId,
+      ...(options?.workspaceId && { project: { workspaceId: options.workspaceId } }),
       ...(options?.status && { status: options.status }),
       ...(options?.isWinner !== undefined && { isWinner: options.isWinner }),
     };
@@ -110,8 +144,10 @@ export class AngleRepository {
             select: {
               localizedContents: true,
               performanceData: true,
+              comments: { where: { resolvedAt: null } },
             },
           },
+          reviewers: { select: { decision: true } },
         },
       }),
       prisma.angleCard.count({ where }),
@@ -120,20 +156,40 @@ export class AngleRepository {
     return { angles, total };
   }
 
-  async update(id: string, data: UpdateAngleData): Promise<AngleCard> {
-    // Increment version if content changes
-    const shouldIncrementVersion =
-      data.hook !== undefined ||
-      data.problemAgitation !== undefined ||
-      data.solution !== undefined ||
-      data.cta !== undefined;
-
+  /**
+   * Update an angle. With expectedVersion the update only applies if nobody
+   * else has changed the angle since it was read. Revisions and the status
+   * event are written in the same statement.
+   */
+  async update(
+    id: string,
+    data: UpdateAngleData,
+    options?: UpdateAngleOptions
+  ): Promise<AngleCard> {
+    const { claimViolations, ...fields } = data;
     return prisma.angleCard.update({
-      where: { id },
+      where: {
+        id,
+        ...(options?.expectedVersion !== undefined && { version: options.expectedVersion }),
+        ...(options?.expectedStatus && { status: options.expectedStatus }),
+      },
       data: {
-        ...data,
-        ...(shouldIncrementVersion && {
-          version: { increment: 1 },
+        ...fields,
+        ...(claimViolations !== undefined && { claimViolations: toInputJson(claimViolations) }),
+        ...(options?.revisions?.length && {
+          revisions: {
+            create: options.revisions.map((revision) => ({
+              version: revision.version,
+              snapshot: toInputJson(revision.snapshot),
+              changes: toInputJson(revision.changes),
+              source: revision.source,
+              createdById: revision.createdById,
+            })),
+          },
+        }),
+        ...(options?.statusEvent && { statusEvents: { create: options.statusEvent } }),
+        ...(options?.resetReviews && {
+          reviewers: { updateMany: { where: {}, data: { decision: null, decidedAt: null } } },
         }),
       },
     });
@@ -163,8 +219,10 @@ export class AngleRepository {
     });
   }
 
-  async exists(id: string): Promise<boolean> {
-    const count = await prisma.angleCard.count({ where: { id } });
+  async exists(id: string, workspaceId?: string): Promise<boolean> {
+    const count = await prisma.angleCard.count({
+      where: { id, ...(workspaceId && { project: { workspaceId } }) },
+    });
     return count > 0;
   }
 
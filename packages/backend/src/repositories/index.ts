@@ -6,7 +6,52 @@ export {
   type CreateLocalizedContentData,
 } from './localized-content.repository.js';
 export { packRepository, type PackWithAngles } from './pack.repository.js';
+export {
+  packShareRepository,
+  type PackDownloadWithUser,
+  type ShareLinkWithCreator,
+} from './pack-share.repository.js';
+export {
+  packTemplateRepository,
+  type PackTemplateData,
+} from './pack-template.repository.js';
 export {
   performanceRepository,
   type PerformanceMetricsResult,
 } from './performance.repository.js';
+export {
+  workspaceRepository,
+  type WorkspaceWithMembers,
+} from './workspace.repository.js';
+export {
+  roleRepository,
+  type RoleWithUserCount,
+  type UserWithRole,
+} from './role.repository.js';
+export { jobRepository, type CreateJobData } from './job.repository.js';
+export { aiUsageRepository, type CreateAIUsageData } from './ai-usage.repository.js';
+export {
+  promptTemplateRepository,
+  type CreatePromptTemplateData,
+} from './prompt-template.repository.js';
+export { lintFindingRepository } from './lint-finding.repository.js';
+export {
+  angleRevisionRepository,
+  type CreateAngleRevisionData,
+} from './angle-revision.repository.js';
+export {
+  localizedContentRevisionRepository,
+  type CreateLocalizedContentRevisionData,
+} from './localized-content-revision.repository.js';
+export {
+  angleReviewRepository,
+  type AngleCommentThread,
+  type AngleCommentWithAuthor,
+  type AngleReviewerWithUser,
+  type AngleStatusEventWithUser,
+  type UserSummary,
+} from './angle-review.repository.js';
+export {
+  localeReviewerRepository,
+  type LocaleReviewerWithUser,
+} from './locale-reviewer.repository.js';
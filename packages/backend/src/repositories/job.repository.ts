@@ -0,0 +1,177 @@
+import { prisma } from './prisma-client.js';
+import type { Job, Prisma } from '@prisma/client';
+import type { JobError, JobPayloads, JobType } from '../types/index.js';
+import { toInputJson } from '../utils/prismaJson.js';
+
+export interface CreateJobData<T extends JobType = JobType> {
+  workspaceId: string;
+  createdById?: string;
+  type: T;
+  payload: JobPayloads[T];
+}
+
+export class JobRepository {
+  async create<T extends JobType>(data: CreateJobData<T>): Promise<Job> {
+    return prisma.job.create({
+      data: {
+        workspaceId: data.workspaceId,
+        createdById: data.createdById,
+        type: data.type,
+        payload: toInputJson(data.payload),
+      },
+    });
+  }
+
+  async findById(id: string, workspaceId?: string): Promise<Job | null> {
+    return prisma.job.findUnique({
+      where: { id, ...(workspaceId && { workspaceId }) },
+    });
+  }
+
+  /**
+   * Atomically take the oldest queued job for a worker. SKIP LOCKED lets any
+   * number of workers poll the same table without handing out a job twice.
+   */
+  async claimNext(workerId: string): Promise<Job | null> {
+    const rows = await prisma.$queryRaw<Array<{ id: string }>>`
+      UPDATE jobs
+      SET status = 'running',
+          locked_by = ${workerId},
+          locked_at = NOW(),
+          started_at = COALESCE(started_at, NOW()),
+          attempts = attempts + 1,
+          updated_at = NOW()
+      WHERE id = (
+        SELECT id FROM jobs
+        WHERE status = 'queued'
+        ORDER BY created_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id
+    `;
+
+    const claimed = rows[0];
+    return claimed ? this.findById(claimed.id) : null;
+  }
+
+  /**
+   * Record progress and refresh the worker's lock. Only the worker holding
+   * the lock can report; owned is false once the job was recovered as stale.
+   */
+  async updateProgress(
+    id: string,
+    workerId: string,
+    progress: number,
+    message?: string
+  ): Promise<{ owned: boolean; cancelRequested: boolean }> {
+    const { count } = await prisma.job.updateMany({
+      where: { id, lockedBy: workerId },
+      data: {
+        progress,
+        ...(message !== undefined && { progressMessage: message }),
+        lockedAt: new Date(),
+      },
+    });
+    if (count === 0) {
+      return { owned: false, cancelRequested: false };
+    }
+
+    const job = await prisma.job.findUnique({ where: { id }, select: { cancelRequested: true } });
+    return { owned: true, cancelRequested: job?.cancelRequested ?? false };
+  }
+
+  /**
+   * Keep a running job from being recovered as stale.
+   * @returns false if the worker no longer holds the job
+   */
+  async refreshLock(id: string, workerId: string): Promise<boolean> {
+    const result = await prisma.job.updateMany({
+      where: { id, lockedBy: workerId },
+      data: { lockedAt: new Date() },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * The mark* methods finish a job for the worker holding it.
+   * @returns false if the worker no longer holds the job
+   */
+  async markSucceeded(id: string, workerId: string, result: unknown): Promise<boolean> {
+    return this.finish(id, workerId, {
+      status: 'succeeded',
+      progress: 100,
+      result: toInputJson(result),
+    });
+  }
+
+  async markFailed(id: string, workerId: string, error: JobError): Promise<boolean> {
+    return this.finish(id, workerId, { status: 'failed', error: toInputJson(error) });
+  }
+
+  async markCancelled(id: string, workerId: string): Promise<boolean> {
+    return this.finish(id, workerId, { status: 'cancelled' });
+  }
+
+  private async finish(
+    id: string,
+    workerId: string,
+    data: Prisma.JobUpdateManyMutationInput
+  ): Promise<boolean> {
+    const result = await prisma.job.updateMany({
+      where: { id, lockedBy: workerId },
+      data: { ...data, lockedBy: null, lockedAt: null, finishedAt: new Date() },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Cancel a job that has not been picked up yet.
+   * @returns false if a worker claimed it first
+   */
+  async cancelIfQueued(id: string): Promise<boolean> {
+    const result = await prisma.job.updateMany({
+      where: { id, status: 'queued' },
+      data: { status: 'cancelled', cancelRequested: true, finishedAt: new Date() },
+    });
+    return result.count > 0;
+  }
+
+  async requestCancel(id: string): Promise<Job> {
+    return prisma.job.update({
+      where: { id },
+      data: { cancelRequested: true },
+    });
+  }
+
+  /**
+   * Recover jobs whose worker stopped reporting, e.g. after a crash. Jobs with
+   * attempts left go back to the queue; the rest are failed.
+   */
+  async recoverStale(lockedBefore: Date): Promise<{ requeued: number; failed: number }> {
+    const stale = { status: 'running', lockedAt: { lt: lockedBefore } };
+
+    const failed = await prisma.job.updateMany({
+      where: {
+        ...stale,
+        OR: [{ cancelRequested: true }, { attempts: { gte: prisma.job.fields.maxAttempts } }],
+      },
+      data: {
+        status: 'failed',
+        error: toInputJson({ code: 'WORKER_LOST', message: 'The worker running this job stopped responding' }),
+        lockedBy: null,
+        lockedAt: null,
+        finishedAt: new Date(),
+      },
+    });
+
+    const requeued = await prisma.job.updateMany({
+      where: stale,
+      data: { status: 'queued', lockedBy: null, lockedAt: null },
+    });
+
+    return { requeued: requeued.count, failed: failed.count };
+  }
+}
+
+export const jobRepository = new JobRepository();
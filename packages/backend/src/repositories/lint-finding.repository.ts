@@ -0,0 +1,35 @@
+import { prisma } from './prisma-client.js';
+import type { LintFinding } from '@prisma/client';
+import type { LintIssue } from '../utils/content-lint.js';
+
+export class LintFindingRepository {
+  async findByContentId(localizedContentId: string): Promise<LintFinding[]> {
+    return prisma.lintFinding.findMany({ where: { localizedContentId } });
+  }
+
+  /**
+   * Swap a localization's findings for a new set and stamp when it was linted.
+   */
+  async replaceForContent(localizedContentId: string, issues: LintIssue[]): Promise<LintFinding[]> {
+    const content = await prisma.localizedContent.update({
+      where: { id: localizedContentId },
+      data: {
+        lintedAt: new Date(),
+        lintFindings: {
+          deleteMany: {},
+          create: issues.map((issue) => ({
+            rule: issue.rule,
+            severity: issue.severity,
+            message: issue.message,
+            field: issue.field,
+            itemIndex: issue.itemIndex,
+          })),
+        },
+      },
+      include: { lintFindings: true },
+    });
+    return content.lintFindings;
+  }
+}
+
+export const lintFindingRepository = new LintFindingRepository();
@@ -0,0 +1,39 @@
+import { prisma } from './prisma-client.js';
+import type { LocaleReviewer } from '@prisma/client';
+import { userSummary, type UserSummary } from './angle-review.repository.js';
+
+export interface LocaleReviewerWithUser extends LocaleReviewer {
+  user: UserSummary;
+}
+
+export class LocaleReviewerRepository {
+  // Oldest assignment first, grouped by locale
+  async findByProject(projectId: string, locale?: string): Promise<LocaleReviewerWithUser[]> {
+    return prisma.localeReviewer.findMany({
+      where: { projectId, ...(locale && { locale }) },
+      include: { user: userSummary },
+      orderBy: [{ locale: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  async isReviewer(projectId: string, locale: string, userId: string): Promise<boolean> {
+    const count = await prisma.localeReviewer.count({ where: { projectId, locale, userId } });
+    return count > 0;
+  }
+
+  /**
+   * Make the given users the project's reviewers for a locale.
+   */
+  async replace(projectId: string, locale: string, userIds: string[]): Promise<LocaleReviewerWithUser[]> {
+    await prisma.$transaction([
+      prisma.localeReviewer.deleteMany({ where: { projectId, locale, userId: { notIn: userIds } } }),
+      prisma.localeReviewer.createMany({
+        data: userIds.map((userId) => ({ projectId, locale, userId })),
+        skipDuplicates: true,
+      }),
+    ]);
+    return this.findByProject(projectId, locale);
+  }
+}
+
+export const localeReviewerRepository = new LocaleReviewerRepository();
@@ -0,0 +1,41 @@
+import { prisma } from './prisma-client.js';
+import type { LocalizedContentRevision } from '@prisma/client';
+import type { ContentOrigin, FieldChange, LocalizedContentSnapshot } from '../types/index.js';
+
+export interface CreateLocalizedContentRevisionData {
+  version: number;
+  origin: ContentOrigin;
+  snapshot: LocalizedContentSnapshot;
+  changes: FieldChange[];
+  createdById?: string | null;
+}
+
+export class LocalizedContentRevisionRepository {
+  async findByContentId(localizedContentId: string): Promise<LocalizedContentRevision[]> {
+    return prisma.localizedContentRevision.findMany({
+      where: { localizedContentId },
+      orderBy: { version: 'desc' },
+    });
+  }
+
+  async findVersion(
+    localizedContentId: string,
+    version: number
+  ): Promise<LocalizedContentRevision | null> {
+    return prisma.localizedContentRevision.findUnique({
+      where: { localizedContentId_version: { localizedContentId, version } },
+    });
+  }
+
+  async findLatest(
+    localizedContentId: string,
+    origin: ContentOrigin
+  ): Promise<LocalizedContentRevision | null> {
+    return prisma.localizedContentRevision.findFirst({
+      where: { localizedContentId, origin },
+      orderBy: { version: 'desc' },
+    });
+  }
+}
+
+export const localizedContentRevisionRepository = new LocalizedContentRevisionRepository();
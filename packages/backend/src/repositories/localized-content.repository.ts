@@ -1,7 +1,16 @@
 import { prisma } from './prisma-client.js';
 import type { LocalizedContent, Prisma } from '@prisma/client';
-import type { Locale, Platform, Caption, OnScreenText } from '../types/index.js';
+import type {
+  Locale,
+  Platform,
+  Caption,
+  OnScreenText,
+  ContentOrigin,
+  LocalizationReviewStatus,
+} from '../types/index.js';
 import { toInputJson } from '../utils/prismaJson.js';
+import type { CreateLocalizedContentRevisionData } from './localized-content-revision.repository.js';
+import { userSummary, type UserSummary } from './angle-review.repository.js';
 
 export interface CreateLocalizedContentData {
   angleId: string;
@@ -20,10 +29,33 @@ export interface UpdateLocalizedContentData {
   onScreenText?: OnScreenText[];
   culturalNotes?: string | null;
   platformAdjustments?: string | null;
+  version?: number;
+  origin?: ContentOrigin;
+  reviewStatus?: LocalizationReviewStatus;
+  reviewerId?: string | null;
+  reviewNote?: string | null;
+  reviewedAt?: Date | null;
+}
+
+export interface LocalizedContentWithReviewer extends LocalizedContent {
+  reviewer: UserSummary | null;
+}
+
+function revisionInput(revision: CreateLocalizedContentRevisionData) {
+  return {
+    version: revision.version,
+    origin: revision.origin,
+    snapshot: toInputJson(revision.snapshot),
+    changes: toInputJson(revision.changes),
+    createdById: revision.createdById,
+  };
 }
 
 export class LocalizedContentRepository {
-  async create(data: CreateLocalizedContentData): Promise<LocalizedContent> {
+  async create(
+    data: CreateLocalizedContentData,
+    options?: { revision?: CreateLocalizedContentRevisionData }
+  ): Promise<LocalizedContent> {
     return prisma.localizedContent.create({
       data: {
         angleId: data.angleId,
@@ -36,6 +68,7 @@ export class LocalizedContentRepository {
         platformAdjustments: data.platformAdjustments,
         characterCount: data.script.length,
         wordCount: data.script.split(/\s+/).filter(Boolean).length,
+        ...(options?.revision && { revisions: { create: revisionInput(options.revision) } }),
       },
     });
   }
@@ -92,9 +125,9 @@ export class LocalizedContentRepository {
     });
   }
 
-  async findById(id: string): Promise<LocalizedContent | null> {
+  async findById(id: string, workspaceId?: string): Promise<LocalizedContent | null> {
     return prisma.localizedContent.findUnique({
-      where: { id },
+      where: { id, ...(workspaceId && { angle: { project: { workspaceId } } }) },
     });
   }
 
@@ -104,13 +137,14 @@ export class LocalizedContentRepository {
       locale?: Locale;
       platform?: Platform;
     }
-  ): Promise<LocalizedContent[]> {
+  ): Promise<LocalizedContentWithReviewer[]> {
     return prisma.localizedContent.findMany({
       where: {
         angleId,
         ...(filters?.locale && { locale: filters.locale }),
         ...(filters?.platform && { platform: filters.platform }),
       },
+      include: { reviewer: userSummary },
       orderBy: [{ locale: 'asc' }, { platform: 'asc' }],
     });
   }
@@ -131,7 +165,11 @@ export class LocalizedContentRepository {
     });
   }
 
-  async update(id: string, data: UpdateLocalizedContentData): Promise<LocalizedContent> {
+  async update(
+    id: string,
+    data: UpdateLocalizedContentData,
+    options?: { expectedVersion?: number; revision?: CreateLocalizedContentRevisionData }
+  ): Promise<LocalizedContent> {
     const updateData: Prisma.LocalizedContentUpdateInput = {
       ...(data.script !== undefined && {
         script: data.script,
@@ -150,10 +188,22 @@ export class LocalizedContentRepository {
       ...(data.platformAdjustments !== undefined && {
         platformAdjustments: data.platformAdjustments,
       }),
+      ...(data.version !== undefined && { version: data.version }),
+      ...(data.origin !== undefined && { origin: data.origin }),
+      ...(data.reviewStatus !== undefined && { reviewStatus: data.reviewStatus }),
+      ...(data.reviewerId !== undefined && {
+        reviewer: data.reviewerId ? { connect: { id: data.reviewerId } } : { disconnect: true },
+      }),
+      ...(data.reviewNote !== undefined && { reviewNote: data.reviewNote }),
+      ...(data.reviewedAt !== undefined && { reviewedAt: data.reviewedAt }),
+      ...(options?.revision && { revisions: { create: revisionInput(options.revision) } }),
     };
 
     return prisma.localizedContent.update({
-      where: { id },
+      where: {
+        id,
+        ...(options?.expectedVersion !== undefined && { version: options.expectedVersion }),
+      },
       data: updateData,
     });
   }
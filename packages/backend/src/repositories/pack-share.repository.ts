@@ -0,0 +1,113 @@
+import { prisma } from './prisma-client.js';
+import { userSummary, type UserSummary } from './angle-review.repository.js';
+import type { CreativePack, PackDownloadEvent, PackShareLink } from '@prisma/client';
+
+export interface CreateShareLinkData {
+  packId: string;
+  createdById?: string;
+  label?: string;
+  expiresAt: Date;
+  passwordHash?: string;
+  maxDownloads?: number;
+}
+
+export interface ShareLinkWithCreator extends PackShareLink {
+  createdBy: UserSummary | null;
+}
+
+export interface ShareLinkWithPack extends PackShareLink {
+  pack: CreativePack;
+}
+
+export interface PackDownloadWithUser extends PackDownloadEvent {
+  user: UserSummary | null;
+  shareLink: { id: string; label: string | null } | null;
+}
+
+export interface RecordDownloadData {
+  packId: string;
+  shareLinkId?: string;
+  userId?: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+export class PackShareRepository {
+  async createLink(data: CreateShareLinkData): Promise<ShareLinkWithCreator> {
+    return prisma.packShareLink.create({
+      data,
+      include: { createdBy: userSummary },
+    });
+  }
+
+  async findLinkWithPack(id: string): Promise<ShareLinkWithPack | null> {
+    return prisma.packShareLink.findUnique({
+      where: { id },
+      include: { pack: true },
+    });
+  }
+
+  async findLinksByPack(packId: string): Promise<ShareLinkWithCreator[]> {
+    return prisma.packShareLink.findMany({
+      where: { packId },
+      include: { createdBy: userSummary },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async revokeLink(id: string, packId: string): Promise<ShareLinkWithCreator | null> {
+    const { count } = await prisma.packShareLink.updateMany({
+      where: { id, packId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (count === 0) return null;
+    return prisma.packShareLink.findUnique({
+      where: { id },
+      include: { createdBy: userSummary },
+    });
+  }
+
+  /**
+   * Count one download against the link. Returns false when the link was
+   * revoked or used up in the meantime, so concurrent requests cannot exceed
+   * its limit.
+   */
+  async claimDownload(link: PackShareLink): Promise<boolean> {
+    const { count } = await prisma.packShareLink.updateMany({
+      where: {
+        id: link.id,
+        revokedAt: null,
+        ...(link.maxDownloads !== null && { downloadCount: { lt: link.maxDownloads } }),
+      },
+      data: { downloadCount: { increment: 1 } },
+    });
+    return count === 1;
+  }
+
+  // Give back a claimed download that could not be served
+  async releaseDownload(id: string): Promise<void> {
+    await prisma.packShareLink.update({
+      where: { id },
+      data: { downloadCount: { decrement: 1 } },
+    });
+  }
+
+  async recordDownload(data: RecordDownloadData): Promise<PackDownloadEvent> {
+    return prisma.packDownloadEvent.create({ data });
+  }
+
+  // Newest first
+  async findDownloads(packId: string, limit: number): Promise<PackDownloadWithUser[]> {
+    return prisma.packDownloadEvent.findMany({
+      where: { packId },
+      include: {
+        user: userSummary,
+        shareLink: { select: { id: true, label: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+}
+
+export const packShareRepository = new PackShareRepository();
@@ -0,0 +1,45 @@
+import { prisma } from './prisma-client.js';
+import type { PackTemplate } from '@prisma/client';
+import type { CaptionFormat, PackFileKind } from '../types/index.js';
+
+export interface PackTemplateData {
+  name: string;
+  description?: string | null;
+  pathTemplate: string;
+  fileTypes: PackFileKind[];
+  captionFormats: CaptionFormat[];
+}
+
+export class PackTemplateRepository {
+  async create(workspaceId: string, data: PackTemplateData): Promise<PackTemplate> {
+    return prisma.packTemplate.create({
+      data: { workspaceId, ...data },
+    });
+  }
+
+  async findById(id: string, workspaceId: string): Promise<PackTemplate | null> {
+    return prisma.packTemplate.findFirst({
+      where: { id, workspaceId },
+    });
+  }
+
+  async findByWorkspace(workspaceId: string): Promise<PackTemplate[]> {
+    return prisma.packTemplate.findMany({
+      where: { workspaceId },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async update(id: string, data: Partial<PackTemplateData>): Promise<PackTemplate> {
+    return prisma.packTemplate.update({
+      where: { id },
+      data,
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await prisma.packTemplate.delete({ where: { id } });
+  }
+}
+
+export const packTemplateRepository = new PackTemplateRepository();
@@ -10,6 +10,10 @@ export interface CreatePackData {
   filePath?: string;
   downloadUrl?: string;
   fileSize?: number;
+  // Null keeps the pack until it is deleted
+  expiresAt: Date | null;
+  version?: number;
+  previousPackId?: string;
 }
 
 export interface PackAngleData {
@@ -39,7 +43,9 @@ export class PackRepository {
         filePath: data.filePath,
         downloadUrl: data.downloadUrl,
         fileSize: data.fileSize ? BigInt(data.fileSize) : null,
-        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
+        expiresAt: data.expiresAt,
+        version: data.version,
+        previousPackId: data.previousPackId,
       },
     });
   }
@@ -57,15 +63,15 @@ export class PackRepository {
     return result.count;
   }
 
-  async findById(id: string): Promise<CreativePack | null> {
+  async findById(id: string, workspaceId?: string): Promise<CreativePack | null> {
     return prisma.creativePack.findUnique({
-      where: { id },
+      where: { id, ...(workspaceId && { project: { workspaceId } }) },
     });
   }
 
-  async findWithAngles(id: string): Promise<PackWithAngles | null> {
+  async findWithAngles(id: string, workspaceId?: string): Promise<PackWithAngles | null> {
     return prisma.creativePack.findUnique({
-      where: { id },
+      where: { id, ...(workspaceId && { project: { workspaceId } }) },
       include: {
         packAngles: {
           include: {
@@ -82,9 +88,9 @@ export class PackRepository {
     }) as Promise<PackWithAngles | null>;
   }
 
-  async findByProjectId(projectId: string): Promise<CreativePack[]> {
+  async findByProjectId(projectId: string, workspaceId?: string): Promise<CreativePack[]> {
     return prisma.creativePack.findMany({
-      where: { projectId },
+      where: { projectId, ...(workspaceId && { project: { workspaceId } }) },
       orderBy: { createdAt: 'desc' },
     });
   }
@@ -95,6 +101,8 @@ export class PackRepository {
       filePath?: string;
       downloadUrl?: string;
       fileSize?: number;
+      deltaFilePath?: string;
+      deltaFileSize?: number;
     }
   ): Promise<CreativePack> {
     return prisma.creativePack.update({
@@ -103,6 +111,8 @@ export class PackRepository {
         ...(data.filePath && { filePath: data.filePath }),
         ...(data.downloadUrl && { downloadUrl: data.downloadUrl }),
         ...(data.fileSize && { fileSize: BigInt(data.fileSize) }),
+        ...(data.deltaFilePath && { deltaFilePath: data.deltaFilePath }),
+        ...(data.deltaFileSize && { deltaFileSize: BigInt(data.deltaFileSize) }),
       },
     });
   }
@@ -122,15 +132,28 @@ export class PackRepository {
     await prisma.creativePack.delete({ where: { id } });
   }
 
-  async deleteExpired(): Promise<number> {
-    const result = await prisma.creativePack.deleteMany({
+  // Oldest first, across all workspaces
+  async findExpired(before: Date, limit: number): Promise<CreativePack[]> {
+    return prisma.creativePack.findMany({
+      where: { expiresAt: { lt: before } },
+      orderBy: { expiresAt: 'asc' },
+      take: limit,
+    });
+  }
+
+  // The subset of storage keys some pack still points at, as its zip or delta zip
+  async findUsedFilePaths(filePaths: string[]): Promise<Set<string>> {
+    const packs = await prisma.creativePack.findMany({
       where: {
-        expiresAt: {
-          lt: new Date(),
-        },
+        OR: [{ filePath: { in: filePaths } }, { deltaFilePath: { in: filePaths } }],
       },
+      select: { filePath: true, deltaFilePath: true },
     });
-    return result.count;
+    return new Set(
+      packs
+        .flatMap((pack) => [pack.filePath, pack.deltaFilePath])
+        .filter((key): key is string => Boolean(key))
+    );
   }
 }
 
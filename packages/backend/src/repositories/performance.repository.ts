@@ -1,5 +1,6 @@
 import { prisma } from './prisma-client.js';
-import type { PerformanceData, ImportBatch, Prisma } from '@prisma/client';
+import { Prisma } from '@prisma/client';
+import type { PerformanceData, ImportBatch } from '@prisma/client';
 import type { Locale, Platform } from '../types/index.js';
 import { Decimal } from '@prisma/client/runtime/library';
 
@@ -91,15 +92,18 @@ export class PerformanceRepository {
     });
   }
 
-  async findImportBatchById(id: string): Promise<ImportBatch | null> {
+  async findImportBatchById(id: string, workspaceId?: string): Promise<ImportBatch | null> {
     return prisma.importBatch.findUnique({
-      where: { id },
+      where: { id, ...(workspaceId && { project: { workspaceId } }) },
     });
   }
 
-  async findImportBatchesByProjectId(projectId: string): Promise<ImportBatch[]> {
+  async findImportBatchesByProjectId(
+    projectId: string,
+    workspaceId?: string
+  ): Promise<ImportBatch[]> {
     return prisma.importBatch.findMany({
-      where: { projectId },
+      where: { projectId, ...(workspaceId && { project: { workspaceId } }) },
       orderBy: { createdAt: 'desc' },
     });
   }
@@ -165,7 +169,14 @@ export class PerformanceRepository {
     });
   }
 
-  async getAggregatedMetricsByProject(projectId: string): Promise<PerformanceMetricsResult[]> {
+  async getAggregatedMetricsByProject(
+    projectId: string,
+    workspaceId?: string
+  ): Promise<PerformanceMetricsResult[]> {
+    const workspaceFilter = workspaceId
+      ? Prisma.sql`AND ac.project_id IN (SELECT id FROM projects WHERE workspace_id = ${workspaceId})`
+      : Prisma.empty;
+
     // Raw query for aggregation with calculated metrics
     const results = await prisma.$queryRaw<RawMetricsRow[]>`
       SELECT
@@ -179,6 +190,7 @@ export class PerformanceRepository {
       FROM angle_cards ac
       LEFT JOIN performance_data pd ON ac.id = pd.angle_id
       WHERE ac.project_id = ${projectId}
+      ${workspaceFilter}
       GROUP BY ac.id, ac.hook
       ORDER BY total_impressions DESC
     `;
@@ -208,9 +220,10 @@ export class PerformanceRepository {
   async getTopPerformers(
     projectId: string,
     metric: 'ctr' | 'roas' | 'conversions',
-    limit: number
+    limit: number,
+    workspaceId?: string
   ): Promise<PerformanceMetricsResult[]> {
-    const all = await this.getAggregatedMetricsByProject(projectId);
+    const all = await this.getAggregatedMetricsByProject(projectId, workspaceId);
 
     // Sort by the specified metric
     const sorted = all.sort((a, b) => {
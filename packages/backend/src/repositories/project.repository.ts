@@ -1,18 +1,27 @@
 import { prisma } from './prisma-client.js';
+import { Prisma } from '@prisma/client';
 import type { Project } from '@prisma/client';
-import type { SeedData } from '../types/index.js';
+import type { ClaimsPolicy, ProjectAISettings, SeedData } from '../types/index.js';
 import { toInputJson } from '../utils/prismaJson.js';
 
 export interface CreateProjectData {
+  workspaceId: string;
   name: string;
   description?: string;
   seedData: SeedData;
+  aiSettings?: ProjectAISettings;
+  claimsPolicy?: ClaimsPolicy;
+  requiredApprovals?: number;
 }
 
 export interface UpdateProjectData {
   name?: string;
   description?: string;
   seedData?: SeedData;
+  aiSettings?: ProjectAISettings | null;
+  claimsPolicy?: ClaimsPolicy | null;
+  aiMonthlyBudgetUsd?: number | null;
+  requiredApprovals?: number;
 }
 
 export interface ProjectWithRelations extends Project {
@@ -32,16 +41,20 @@ export class ProjectRepository {
   async create(data: CreateProjectData): Promise<Project> {
     return prisma.project.create({
       data: {
+        workspaceId: data.workspaceId,
         name: data.name,
         description: data.description,
         seedData: toInputJson(data.seedData),
+        ...(data.aiSettings && { aiSettings: toInputJson(data.aiSettings) }),
+        ...(data.claimsPolicy && { claimsPolicy: toInputJson(data.claimsPolicy) }),
+        requiredApprovals: data.requiredApprovals,
       },
     });
   }
 
-  async findById(id: string): Promise<ProjectWithRelations | null> {
+  async findById(id: string, workspaceId?: string): Promise<ProjectWithRelations | null> {
     return prisma.project.findUnique({
-      where: { id },
+      where: { id, ...(workspaceId && { workspaceId }) },
       include: {
         _count: {
           select: {
@@ -53,16 +66,20 @@ export class ProjectRepository {
     });
   }
 
-  async findAll(options?: {
-    page?: number;
-    limit?: number;
-  }): Promise<{ projects: ProjectWithRelations[]; total: number }> {
+  async findAll(
+    workspaceId: string,
+    options?: {
+      page?: number;
+      limit?: number;
+    }
+  ): Promise<{ projects: ProjectWithRelations[]; total: number }> {
     const page = options?.page ?? 1;
     const limit = options?.limit ?? 20;
     const skip = (page - 1) * limit;
 
     const [projects, total] = await Promise.all([
       prisma.project.findMany({
+        where: { workspaceId },
         skip,
         take: limit,
         orderBy: { createdAt: 'desc' },
@@ -75,7 +92,7 @@ export class ProjectRepository {
           },
         },
       }),
-      prisma.project.count(),
+      prisma.project.count({ where: { workspaceId } }),
     ]);
 
     return { projects, total };
@@ -88,6 +105,17 @@ export class ProjectRepository {
         ...(data.name && { name: data.name }),
         ...(data.description !== undefined && { description: data.description }),
         ...(data.seedData && { seedData: toInputJson(data.seedData) }),
+        ...(data.aiSettings !== undefined && {
+          aiSettings: data.aiSettings === null ? Prisma.DbNull : toInputJson(data.aiSettings),
+        }),
+        ...(data.claimsPolicy !== undefined && {
+          claimsPolicy:
+            data.claimsPolicy === null ? Prisma.DbNull : toInputJson(data.claimsPolicy),
+        }),
+        ...(data.aiMonthlyBudgetUsd !== undefined && {
+          aiMonthlyBudgetUsd: data.aiMonthlyBudgetUsd,
+        }),
+        ...(data.requiredApprovals !== undefined && { requiredApprovals: data.requiredApprovals }),
       },
     });
   }
@@ -96,8 +124,10 @@ export class ProjectRepository {
     await prisma.project.delete({ where: { id } });
   }
 
-  async exists(id: string): Promise<boolean> {
-    const count = await prisma.project.count({ where: { id } });
+  async exists(id: string, workspaceId?: string): Promise<boolean> {
+    const count = await prisma.project.count({
+      where: { id, ...(workspaceId && { workspaceId }) },
+    });
     return count > 0;
   }
 }
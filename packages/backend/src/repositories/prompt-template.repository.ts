@@ -0,0 +1,68 @@
+import { prisma } from './prisma-client.js';
+import type { PromptTemplate } from '@prisma/client';
+import type { AIOperation } from '../types/index.js';
+
+export interface CreatePromptTemplateData {
+  operation: AIOperation;
+  // null for the global template
+  projectId: string | null;
+  system: string;
+  template: string;
+  note?: string;
+  createdById?: string;
+}
+
+export class PromptTemplateRepository {
+  /**
+   * Append a new version to the template's history. Concurrent saves for the
+   * same scope fail on the unique version index rather than overwriting.
+   */
+  async create(data: CreatePromptTemplateData): Promise<PromptTemplate> {
+    const latest = await this.findLatest(data.operation, data.projectId);
+
+    return prisma.promptTemplate.create({
+      data: {
+        operation: data.operation,
+        projectId: data.projectId,
+        version: (latest?.version ?? 0) + 1,
+        system: data.system,
+        template: data.template,
+        note: data.note,
+        createdById: data.createdById,
+      },
+    });
+  }
+
+  async findLatest(operation: AIOperation, projectId: string | null): Promise<PromptTemplate | null> {
+    return prisma.promptTemplate.findFirst({
+      where: { operation, projectId },
+      orderBy: { version: 'desc' },
+    });
+  }
+
+  async findVersion(
+    operation: AIOperation,
+    projectId: string | null,
+    version: number
+  ): Promise<PromptTemplate | null> {
+    return prisma.promptTemplate.findFirst({
+      where: { operation, projectId, version },
+    });
+  }
+
+  async findVersions(operation: AIOperation, projectId: string | null): Promise<PromptTemplate[]> {
+    return prisma.promptTemplate.findMany({
+      where: { operation, projectId },
+      orderBy: { version: 'desc' },
+    });
+  }
+
+  async deleteForProject(operation: AIOperation, projectId: string): Promise<number> {
+    const result = await prisma.promptTemplate.deleteMany({
+      where: { operation, projectId },
+    });
+    return result.count;
+  }
+}
+
+export const promptTemplateRepository = new PromptTemplateRepository();
@@ -0,0 +1,104 @@
+import { prisma } from './prisma-client.js';
+import type { Role } from '@prisma/client';
+
+export interface RoleWithUserCount extends Role {
+  _count: {
+    users: number;
+  };
+}
+
+export interface UserWithRole {
+  id: string;
+  email: string;
+  name: string | null;
+  emailVerified: boolean;
+  lastLogin: Date | null;
+  createdAt: Date;
+  role: Pick<Role, 'id' | 'name'>;
+}
+
+const userWithRoleSelect = {
+  id: true,
+  email: true,
+  name: true,
+  emailVerified: true,
+  lastLogin: true,
+  createdAt: true,
+  role: { select: { id: true, name: true } },
+} as const;
+
+export class RoleRepository {
+  async findAll(): Promise<RoleWithUserCount[]> {
+    return prisma.role.findMany({
+      orderBy: { name: 'asc' },
+      include: { _count: { select: { users: true } } },
+    });
+  }
+
+  async findById(id: string): Promise<RoleWithUserCount | null> {
+    return prisma.role.findUnique({
+      where: { id },
+      include: { _count: { select: { users: true } } },
+    });
+  }
+
+  async findByName(name: string): Promise<Role | null> {
+    return prisma.role.findUnique({ where: { name } });
+  }
+
+  async create(data: { name: string; permissions: string[] }): Promise<Role> {
+    return prisma.role.create({ data });
+  }
+
+  async update(id: string, data: { name?: string; permissions?: string[] }): Promise<Role> {
+    return prisma.role.update({
+      where: { id },
+      data: {
+        ...(data.name && { name: data.name }),
+        ...(data.permissions && { permissions: data.permissions }),
+      },
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await prisma.role.delete({ where: { id } });
+  }
+
+  // User assignment methods
+  async findUsers(options?: {
+    page?: number;
+    limit?: number;
+    roleId?: string;
+  }): Promise<{ users: UserWithRole[]; total: number }> {
+    const page = options?.page ?? 1;
+    const limit = options?.limit ?? 20;
+    const where = options?.roleId ? { roleId: options.roleId } : {};
+
+    const [users, total] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        select: userWithRoleSelect,
+      }),
+      prisma.user.count({ where }),
+    ]);
+
+    return { users, total };
+  }
+
+  async findUserById(id: string): Promise<UserWithRole | null> {
+    return prisma.user.findUnique({ where: { id }, select: userWithRoleSelect });
+  }
+
+  async assignRole(userId: string, roleId: string): Promise<UserWithRole> {
+    return prisma.user.update({
+      where: { id: userId },
+      data: { roleId },
+      select: userWithRoleSelect,
+    });
+  }
+}
+
+export const roleRepository = new RoleRepository();
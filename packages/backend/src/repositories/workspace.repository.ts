@@ -0,0 +1,121 @@
+import { prisma } from './prisma-client.js';
+import type { Workspace, WorkspaceMember } from '@prisma/client';
+import type { WorkspaceRole } from '../types/index.js';
+
+export interface CreateWorkspaceData {
+  name: string;
+  ownerId: string;
+}
+
+export interface WorkspaceWithMembers extends Workspace {
+  members: WorkspaceMember[];
+  _count?: {
+    projects: number;
+  };
+}
+
+export class WorkspaceRepository {
+  async create(data: CreateWorkspaceData): Promise<WorkspaceWithMembers> {
+    return prisma.workspace.create({
+      data: {
+        name: data.name,
+        members: {
+          create: { userId: data.ownerId, role: 'owner' },
+        },
+      },
+      include: { members: true },
+    });
+  }
+
+  async findById(id: string): Promise<WorkspaceWithMembers | null> {
+    return prisma.workspace.findUnique({
+      where: { id },
+      include: {
+        members: { orderBy: { createdAt: 'asc' } },
+        _count: { select: { projects: true } },
+      },
+    });
+  }
+
+  async findByUserId(userId: string): Promise<WorkspaceWithMembers[]> {
+    return prisma.workspace.findMany({
+      where: { members: { some: { userId } } },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        members: { orderBy: { createdAt: 'asc' } },
+        _count: { select: { projects: true } },
+      },
+    });
+  }
+
+  async update(
+    id: string,
+    data: { name?: string; aiMonthlyBudgetUsd?: number | null; packRetentionDays?: number | null }
+  ): Promise<Workspace> {
+    return prisma.workspace.update({
+      where: { id },
+      data: {
+        ...(data.name && { name: data.name }),
+        ...(data.aiMonthlyBudgetUsd !== undefined && {
+          aiMonthlyBudgetUsd: data.aiMonthlyBudgetUsd,
+        }),
+        ...(data.packRetentionDays !== undefined && {
+          packRetentionDays: data.packRetentionDays,
+        }),
+      },
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await prisma.workspace.delete({ where: { id } });
+  }
+
+  // Membership methods
+  async findMembership(workspaceId: string, userId: string): Promise<WorkspaceMember | null> {
+    return prisma.workspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId, userId } },
+    });
+  }
+
+  async findFirstMembership(userId: string): Promise<WorkspaceMember | null> {
+    return prisma.workspaceMember.findFirst({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async addMember(
+    workspaceId: string,
+    userId: string,
+    role: WorkspaceRole
+  ): Promise<WorkspaceMember> {
+    return prisma.workspaceMember.create({
+      data: { workspaceId, userId, role },
+    });
+  }
+
+  async updateMemberRole(
+    workspaceId: string,
+    userId: string,
+    role: WorkspaceRole
+  ): Promise<WorkspaceMember> {
+    return prisma.workspaceMember.update({
+      where: { workspaceId_userId: { workspaceId, userId } },
+      data: { role },
+    });
+  }
+
+  async removeMember(workspaceId: string, userId: string): Promise<void> {
+    await prisma.workspaceMember.delete({
+      where: { workspaceId_userId: { workspaceId, userId } },
+    });
+  }
+
+  async countOwners(workspaceId: string): Promise<number> {
+    return prisma.workspaceMember.count({
+      where: { workspaceId, role: 'owner' },
+    });
+  }
+}
+
+export const workspaceRepository = new WorkspaceRepository();
@@ -0,0 +1,77 @@
+import { Router } from 'express';
+import { roleController } from '../controllers/index.js';
+import { validate } from '../middleware/validate.js';
+import { requirePermission } from '../middleware/auth.js';
+import { asyncHandler } from '../utils/async-handler.js';
+import {
+  createRoleSchema,
+  updateRoleSchema,
+  assignUserRoleSchema,
+  paginationSchema,
+  uuidSchema,
+} from '../validators/index.js';
+import { z } from 'zod';
+
+const router = Router();
+
+// GET /api/admin/permissions
+router.get(
+  '/permissions',
+  requirePermission('roles:manage'),
+  asyncHandler(roleController.getPermissions.bind(roleController))
+);
+
+// GET /api/admin/roles
+router.get(
+  '/roles',
+  requirePermission('roles:manage'),
+  asyncHandler(roleController.getAll.bind(roleController))
+);
+
+// POST /api/admin/roles
+router.post(
+  '/roles',
+  requirePermission('roles:manage'),
+  validate({ body: createRoleSchema }),
+  asyncHandler(roleController.create.bind(roleController))
+);
+
+// PUT /api/admin/roles/:id
+router.put(
+  '/roles/:id',
+  requirePermission('roles:manage'),
+  validate({
+    params: z.object({ id: uuidSchema }),
+    body: updateRoleSchema,
+  }),
+  asyncHandler(roleController.update.bind(roleController))
+);
+
+// DELETE /api/admin/roles/:id
+router.delete(
+  '/roles/:id',
+  requirePermission('roles:manage'),
+  validate({ params: z.object({ id: uuidSchema }) }),
+  asyncHandler(roleController.delete.bind(roleController))
+);
+
+// GET /api/admin/users
+router.get(
+  '/users',
+  requirePermission('users:manage'),
+  validate({ query: paginationSchema.extend({ roleId: uuidSchema.optional() }) }),
+  asyncHandler(roleController.getUsers.bind(roleController))
+);
+
+// PUT /api/admin/users/:id/role
+router.put(
+  '/users/:id/role',
+  requirePermission('users:manage'),
+  validate({
+    params: z.object({ id: uuidSchema }),
+    body: assignUserRoleSchema,
+  }),
+  asyncHandler(roleController.assignUserRole.bind(roleController))
+);
+
+export { router as adminRoutes };
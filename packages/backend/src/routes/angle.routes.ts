@@ -1,11 +1,18 @@
 import { Router } from 'express';
 import { angleController } from '../controllers/index.js';
 import { validate } from '../middleware/validate.js';
+import { requirePermission } from '../middleware/auth.js';
 import { asyncHandler } from '../utils/async-handler.js';
 import {
   generateAnglesSchema,
   updateAngleSchema,
+  updateAngleStatusSchema,
+  setAngleReviewersSchema,
+  submitAngleReviewSchema,
+  createAngleCommentSchema,
+  updateAngleCommentSchema,
   angleStatusSchema,
+  briefQuerySchema,
   paginationSchema,
   uuidSchema,
 } from '../validators/index.js';
@@ -16,6 +23,7 @@ const router = Router();
 // POST /api/projects/:projectId/generate
 router.post(
   '/projects/:projectId/generate',
+  requirePermission('angles:generate'),
   validate({
     params: z.object({ projectId: uuidSchema }),
     query: generateAnglesSchema,
@@ -23,9 +31,21 @@ router.post(
   asyncHandler(angleController.generate.bind(angleController))
 );
 
+// POST /api/projects/:projectId/generate/stream
+router.post(
+  '/projects/:projectId/generate/stream',
+  requirePermission('angles:generate'),
+  validate({
+    params: z.object({ projectId: uuidSchema }),
+    query: generateAnglesSchema,
+  }),
+  asyncHandler(angleController.generateStream.bind(angleController))
+);
+
 // GET /api/projects/:projectId/angles
 router.get(
   '/projects/:projectId/angles',
+  requirePermission('angles:read'),
   validate({
     params: z.object({ projectId: uuidSchema }),
     query: paginationSchema.extend({
@@ -39,13 +59,26 @@ router.get(
 // GET /api/angles/:id
 router.get(
   '/:id',
+  requirePermission('angles:read'),
   validate({ params: z.object({ id: uuidSchema }) }),
   asyncHandler(angleController.getById.bind(angleController))
 );
 
+// GET /api/angles/:id/brief?format=pdf&locale=fr-FR&platform=tiktok
+router.get(
+  '/:id/brief',
+  requirePermission('angles:read'),
+  validate({
+    params: z.object({ id: uuidSchema }),
+    query: briefQuerySchema,
+  }),
+  asyncHandler(angleController.getBrief.bind(angleController))
+);
+
 // PUT /api/angles/:id
 router.put(
   '/:id',
+  requirePermission('angles:write'),
   validate({
     params: z.object({ id: uuidSchema }),
     body: updateAngleSchema,
@@ -53,19 +86,113 @@ router.put(
   asyncHandler(angleController.update.bind(angleController))
 );
 
+// GET /api/angles/:id/revisions
+router.get(
+  '/:id/revisions',
+  requirePermission('angles:read'),
+  validate({ params: z.object({ id: uuidSchema }) }),
+  asyncHandler(angleController.listRevisions.bind(angleController))
+);
+
+// GET /api/angles/:id/revisions/diff?from=1&to=2
+router.get(
+  '/:id/revisions/diff',
+  requirePermission('angles:read'),
+  validate({
+    params: z.object({ id: uuidSchema }),
+    query: z.object({
+      from: z.coerce.number().int().min(1),
+      to: z.coerce.number().int().min(1),
+    }),
+  }),
+  asyncHandler(angleController.diffRevisions.bind(angleController))
+);
+
+// POST /api/angles/:id/revisions/:version/restore
+router.post(
+  '/:id/revisions/:version/restore',
+  requirePermission('angles:write'),
+  validate({
+    params: z.object({ id: uuidSchema, version: z.coerce.number().int().min(1) }),
+  }),
+  asyncHandler(angleController.restoreRevision.bind(angleController))
+);
+
 // PATCH /api/angles/:id/status
 router.patch(
   '/:id/status',
+  requirePermission('angles:write'),
   validate({
     params: z.object({ id: uuidSchema }),
-    body: z.object({ status: angleStatusSchema }),
+    body: updateAngleStatusSchema,
   }),
   asyncHandler(angleController.updateStatus.bind(angleController))
 );
 
+// GET /api/angles/:id/review
+router.get(
+  '/:id/review',
+  requirePermission('angles:read'),
+  validate({ params: z.object({ id: uuidSchema }) }),
+  asyncHandler(angleController.getReview.bind(angleController))
+);
+
+// PUT /api/angles/:id/reviewers
+router.put(
+  '/:id/reviewers',
+  requirePermission('angles:write'),
+  validate({
+    params: z.object({ id: uuidSchema }),
+    body: setAngleReviewersSchema,
+  }),
+  asyncHandler(angleController.setReviewers.bind(angleController))
+);
+
+// POST /api/angles/:id/reviews
+router.post(
+  '/:id/reviews',
+  requirePermission('angles:review'),
+  validate({
+    params: z.object({ id: uuidSchema }),
+    body: submitAngleReviewSchema,
+  }),
+  asyncHandler(angleController.submitReview.bind(angleController))
+);
+
+// GET /api/angles/:id/comments
+router.get(
+  '/:id/comments',
+  requirePermission('angles:read'),
+  validate({ params: z.object({ id: uuidSchema }) }),
+  asyncHandler(angleController.listComments.bind(angleController))
+);
+
+// POST /api/angles/:id/comments
+router.post(
+  '/:id/comments',
+  requirePermission('angles:review'),
+  validate({
+    params: z.object({ id: uuidSchema }),
+    body: createAngleCommentSchema,
+  }),
+  asyncHandler(angleController.addComment.bind(angleController))
+);
+
+// PATCH /api/angles/:id/comments/:commentId
+router.patch(
+  '/:id/comments/:commentId',
+  requirePermission('angles:review'),
+  validate({
+    params: z.object({ id: uuidSchema, commentId: uuidSchema }),
+    body: updateAngleCommentSchema,
+  }),
+  asyncHandler(angleController.resolveComment.bind(angleController))
+);
+
 // PATCH /api/angles/:id/winner
 router.patch(
   '/:id/winner',
+  requirePermission('angles:write'),
   validate({
     params: z.object({ id: uuidSchema }),
     body: z.object({ isWinner: z.boolean() }),
@@ -76,6 +203,7 @@ router.patch(
 // DELETE /api/angles/:id
 router.delete(
   '/:id',
+  requirePermission('angles:delete'),
   validate({ params: z.object({ id: uuidSchema }) }),
   asyncHandler(angleController.delete.bind(angleController))
 );
@@ -83,6 +211,7 @@ router.delete(
 // POST /api/angles/:id/regenerate
 router.post(
   '/:id/regenerate',
+  requirePermission('angles:generate'),
   validate({ params: z.object({ id: uuidSchema }) }),
   asyncHandler(angleController.regenerate.bind(angleController))
 );
@@ -1,5 +1,6 @@
-import { Router, Request, Response, NextFunction } from 'express';
+import { Router, Request, Response } from 'express';
 import passport from 'passport';
+import { z } from 'zod';
 import {
   PasswordManager,
   TokenManager,
@@ -10,34 +11,37 @@ import {
   authRateLimiter,
   AuthRequest,
   authenticate,
-} from '../middleware/auth';
+} from '../middleware/auth.js';
+import { validate } from '../middleware/validate.js';
+import { asyncHandler } from '../utils/async-handler.js';
+import { prisma } from '../repositories/prisma-client.js';
+import { createChildLogger } from '../utils/logger.js';
+import { BUILT_IN_ROLES, DEFAULT_ROLE } from '../utils/permissions.js';
 import {
   ValidationError,
   AuthenticationError,
   ConflictError,
   NotFoundError,
-  asyncHandler
-} from '../middleware/errorTracking';
-import { PrismaClient } from '@prisma/client';
-import { logger } from '../utils/logger';
+} from '../types/index.js';
+import {
+  registerSchema,
+  loginSchema,
+  verifyTwoFactorSchema,
+  refreshTokenSchema,
+  logoutSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  disableTwoFactorSchema,
+  type RegisterInput,
+  type LoginInput,
+} from '../validators/index.js';
 
 const router = Router();
-const prisma = new PrismaClient();
-
-// Register new user
-router.post('/register', asyncHandler(async (req: Request, res: Response) => {
-  const { email, password, name } = req.body;
+const logger = createChildLogger('auth');
 
-  // Validate input
-  if (!email || !password) {
-    throw new ValidationError('Email and password are required');
-  }
-
-  // Validate email format
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  if (!emailRegex.test(email)) {
-    throw new ValidationError('Invalid email format');
-  }
+// POST /api/auth/register
+router.post('/register', validate({ body: registerSchema }), asyncHandler(async (req: Request, res: Response) => {
+  const { email, password, name } = req.body as RegisterInput;
 
   // Validate password strength
   const passwordValidation = PasswordManager.validate(password);
@@ -54,21 +58,16 @@ router.post('/register', asyncHandler(async (req: Request, res: Response) => {
     throw new ConflictError('User already exists with this email');
   }
 
-  // Get default role
-  let defaultRole = await prisma.role.findFirst({
-    where: { name: 'user' },
+  // Get default role, creating it if the seed migration has not run
+  const defaultRole = await prisma.role.upsert({
+    where: { name: DEFAULT_ROLE },
+    create: {
+      name: DEFAULT_ROLE,
+      permissions: BUILT_IN_ROLES[DEFAULT_ROLE],
+    },
+    update: {},
   });
 
-  // Create default role if it doesn't exist
-  if (!defaultRole) {
-    defaultRole = await prisma.role.create({
-      data: {
-        name: 'user',
-        permissions: ['read:own', 'write:own'],
-      },
-    });
-  }
-
   // Create user
   const hashedPassword = await PasswordManager.hash(password);
   const user = await prisma.user.create({
@@ -82,7 +81,7 @@ router.post('/register', asyncHandler(async (req: Request, res: Response) => {
   });
 
   // Generate verification token
-  const verificationToken = EmailVerification.generateVerificationToken();
+  const verificationToken = EmailVerification.generateVerificationToken(user.id);
   await prisma.verificationToken.create({
     data: {
       token: verificationToken,
@@ -109,42 +108,42 @@ router.post('/register', asyncHandler(async (req: Request, res: Response) => {
     role: user.role.name,
   });
 
-  logger.info('User registered successfully', { userId: user.id, email });
+  logger.info({ userId: user.id }, 'User registered');
 
   res.status(201).json({
-    message: 'Registration successful. Please verify your email.',
-    user: {
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      role: user.role.name,
+    success: true,
+    data: {
+      message: 'Registration successful. Please verify your email.',
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role.name,
+        emailVerified: user.emailVerified,
+      },
+      accessToken,
+      refreshToken,
     },
-    accessToken,
-    refreshToken,
   });
 }));
 
-// Login
-router.post('/login', asyncHandler(async (req: Request, res: Response) => {
-  const { email, password } = req.body;
+// POST /api/auth/login
+router.post('/login', validate({ body: loginSchema }), asyncHandler(async (req: Request, res: Response) => {
+  const { email, password } = req.body as LoginInput;
 
   // Check rate limiting
   if (!authRateLimiter.checkLimit(email)) {
     throw new AuthenticationError('Too many login attempts. Please try again later.');
   }
 
-  // Validate input
-  if (!email || !password) {
-    throw new ValidationError('Email and password are required');
-  }
-
   // Find user
   const user = await prisma.user.findUnique({
     where: { email },
     include: { role: true },
   });
 
-  if (!user) {
+  // OAuth-only accounts have no password and cannot log in this way
+  if (!user || !user.password) {
     throw new AuthenticationError('Invalid credentials');
   }
 
@@ -171,11 +170,15 @@ router.post('/login', asyncHandler(async (req: Request, res: Response) => {
       },
     });
 
-    return res.json({
-      message: 'Two-factor authentication required',
-      requiresTwoFactor: true,
-      userId: user.id,
+    res.json({
+      success: true,
+      data: {
+        message: 'Two-factor authentication required',
+        requiresTwoFactor: true,
+        userId: user.id,
+      },
     });
+    return;
   }
 
   // Generate tokens
@@ -201,30 +204,29 @@ router.post('/login', asyncHandler(async (req: Request, res: Response) => {
     data: { lastLogin: new Date() },
   });
 
-  logger.info('User logged in successfully', { userId: user.id, email });
+  logger.info({ userId: user.id }, 'User logged in');
 
   res.json({
-    message: 'Login successful',
-    user: {
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      role: user.role.name,
-      emailVerified: user.emailVerified,
+    success: true,
+    data: {
+      message: 'Login successful',
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role.name,
+        emailVerified: user.emailVerified,
+      },
+      accessToken,
+      refreshToken,
+      sessionToken,
     },
-    accessToken,
-    refreshToken,
-    sessionToken,
   });
 }));
 
-// Verify two-factor authentication
-router.post('/verify-2fa', asyncHandler(async (req: Request, res: Response) => {
-  const { userId, code } = req.body;
-
-  if (!userId || !code) {
-    throw new ValidationError('User ID and code are required');
-  }
+// POST /api/auth/verify-2fa
+router.post('/verify-2fa', validate({ body: verifyTwoFactorSchema }), asyncHandler(async (req: Request, res: Response) => {
+  const { userId, code } = req.body as z.infer<typeof verifyTwoFactorSchema>;
 
   // Find user
   const user = await prisma.user.findUnique({
@@ -233,15 +235,25 @@ router.post('/verify-2fa', asyncHandler(async (req: Request, res: Response) => {
   });
 
   if (!user) {
-    throw new NotFoundError('User not found');
+    throw new NotFoundError('User');
   }
 
-  // Verify 2FA code
-  const isValid = TwoFactorAuth.verifyToken(user.twoFactorSecret || '', code);
-  if (!isValid) {
+  // The code must match the one issued at login and still be unexpired
+  const issuedToken = await prisma.verificationToken.findFirst({
+    where: {
+      token: code,
+      userId,
+      type: 'TWO_FACTOR',
+      expiresAt: { gte: new Date() },
+    },
+  });
+
+  if (!issuedToken || !TwoFactorAuth.verifyToken(user.twoFactorSecret || '', code)) {
     throw new AuthenticationError('Invalid two-factor code');
   }
 
+  await prisma.verificationToken.delete({ where: { id: issuedToken.id } });
+
   // Generate tokens
   const accessToken = TokenManager.generateAccessToken({
     id: user.id,
@@ -260,26 +272,25 @@ router.post('/verify-2fa', asyncHandler(async (req: Request, res: Response) => {
   const sessionToken = await SessionManager.createSession(user.id, req);
 
   res.json({
-    message: '2FA verification successful',
-    user: {
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      role: user.role.name,
+    success: true,
+    data: {
+      message: '2FA verification successful',
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role.name,
+      },
+      accessToken,
+      refreshToken,
+      sessionToken,
     },
-    accessToken,
-    refreshToken,
-    sessionToken,
   });
 }));
 
-// Refresh token
-router.post('/refresh', asyncHandler(async (req: Request, res: Response) => {
-  const { refreshToken } = req.body;
-
-  if (!refreshToken) {
-    throw new ValidationError('Refresh token is required');
-  }
+// POST /api/auth/refresh
+router.post('/refresh', validate({ body: refreshTokenSchema }), asyncHandler(async (req: Request, res: Response) => {
+  const { refreshToken } = req.body as z.infer<typeof refreshTokenSchema>;
 
   // Check if token is revoked
   const isRevoked = await TokenManager.isTokenRevoked(refreshToken);
@@ -289,6 +300,9 @@ router.post('/refresh', asyncHandler(async (req: Request, res: Response) => {
 
   // Verify token
   const payload = TokenManager.verifyToken(refreshToken);
+  if (payload.type !== 'refresh') {
+    throw new AuthenticationError('Invalid refresh token');
+  }
 
   // Get updated user data
   const user = await prisma.user.findUnique({
@@ -297,9 +311,12 @@ router.post('/refresh', asyncHandler(async (req: Request, res: Response) => {
   });
 
   if (!user) {
-    throw new NotFoundError('User not found');
+    throw new AuthenticationError('Invalid refresh token');
   }
 
+  // Refresh tokens are single use: rotate and revoke the presented one
+  await TokenManager.revokeToken(refreshToken, user.id);
+
   // Generate new tokens
   const newAccessToken = TokenManager.generateAccessToken({
     id: user.id,
@@ -315,18 +332,21 @@ router.post('/refresh', asyncHandler(async (req: Request, res: Response) => {
   });
 
   res.json({
-    accessToken: newAccessToken,
-    refreshToken: newRefreshToken,
+    success: true,
+    data: {
+      accessToken: newAccessToken,
+      refreshToken: newRefreshToken,
+    },
   });
 }));
 
-// Logout
-router.post('/logout', authenticate(), asyncHandler(async (req: AuthRequest, res: Response) => {
-  const { refreshToken, sessionToken } = req.body;
+// POST /api/auth/logout
+router.post('/logout', authenticate(), validate({ body: logoutSchema }), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { refreshToken, sessionToken } = req.body as z.infer<typeof logoutSchema>;
 
   // Revoke refresh token
   if (refreshToken) {
-    await TokenManager.revokeToken(refreshToken);
+    await TokenManager.revokeToken(refreshToken, req.user?.id);
   }
 
   // Destroy session
@@ -334,21 +354,12 @@ router.post('/logout', authenticate(), asyncHandler(async (req: AuthRequest, res
     await SessionManager.destroySession(sessionToken);
   }
 
-  // Destroy express session if it exists
-  if (req.session) {
-    req.session.destroy((err) => {
-      if (err) {
-        logger.error('Error destroying session', err);
-      }
-    });
-  }
+  logger.info({ userId: req.user?.id }, 'User logged out');
 
-  logger.info('User logged out', { userId: req.user?.id });
-
-  res.json({ message: 'Logout successful' });
+  res.json({ success: true, data: { message: 'Logout successful' } });
 }));
 
-// Logout from all devices
+// POST /api/auth/logout-all
 router.post('/logout-all', authenticate(), asyncHandler(async (req: AuthRequest, res: Response) => {
   const userId = req.user?.id;
 
@@ -369,18 +380,14 @@ router.post('/logout-all', authenticate(), asyncHandler(async (req: AuthRequest,
     }],
   });
 
-  logger.info('User logged out from all devices', { userId });
+  logger.info({ userId }, 'User logged out from all devices');
 
-  res.json({ message: 'Logged out from all devices successfully' });
+  res.json({ success: true, data: { message: 'Logged out from all devices successfully' } });
 }));
 
-// Request password reset
-router.post('/forgot-password', asyncHandler(async (req: Request, res: Response) => {
-  const { email } = req.body;
-
-  if (!email) {
-    throw new ValidationError('Email is required');
-  }
+// POST /api/auth/forgot-password
+router.post('/forgot-password', validate({ body: forgotPasswordSchema }), asyncHandler(async (req: Request, res: Response) => {
+  const { email } = req.body as z.infer<typeof forgotPasswordSchema>;
 
   // Find user
   const user = await prisma.user.findUnique({
@@ -405,25 +412,30 @@ router.post('/forgot-password', asyncHandler(async (req: Request, res: Response)
     // Send reset email
     await PasswordReset.sendResetEmail(email, resetToken);
 
-    logger.info('Password reset requested', { userId: user.id, email });
+    logger.info({ userId: user.id }, 'Password reset requested');
   }
 
   res.json({
-    message: 'If an account exists with this email, a password reset link has been sent.',
+    success: true,
+    data: {
+      message: 'If an account exists with this email, a password reset link has been sent.',
+    },
   });
 }));
 
-// Reset password
-router.post('/reset-password', asyncHandler(async (req: Request, res: Response) => {
-  const { token, newPassword } = req.body;
-
-  if (!token || !newPassword) {
-    throw new ValidationError('Token and new password are required');
-  }
+// POST /api/auth/reset-password
+router.post('/reset-password', validate({ body: resetPasswordSchema }), asyncHandler(async (req: Request, res: Response) => {
+  const { token, newPassword } = req.body as z.infer<typeof resetPasswordSchema>;
 
-  // Verify token
+  // Verify token signature, then make sure it was issued and not yet used
   const userId = await PasswordReset.verifyResetToken(token);
-  if (!userId) {
+  const storedToken = userId
+    ? await prisma.verificationToken.findFirst({
+        where: { token, userId, type: 'PASSWORD_RESET', expiresAt: { gte: new Date() } },
+      })
+    : null;
+
+  if (!userId || !storedToken) {
     throw new AuthenticationError('Invalid or expired reset token');
   }
 
@@ -446,22 +458,22 @@ router.post('/reset-password', asyncHandler(async (req: Request, res: Response)
   await SessionManager.destroyAllUserSessions(userId);
 
   // Delete used token
-  await prisma.verificationToken.deleteMany({
-    where: {
-      token,
-      type: 'PASSWORD_RESET',
-    },
+  await prisma.verificationToken.delete({
+    where: { id: storedToken.id },
   });
 
-  logger.info('Password reset successful', { userId });
+  logger.info({ userId }, 'Password reset successful');
 
   res.json({
-    message: 'Password reset successful. Please login with your new password.',
+    success: true,
+    data: {
+      message: 'Password reset successful. Please login with your new password.',
+    },
   });
 }));
 
-// Verify email
-router.get('/verify-email/:token', asyncHandler(async (req: Request, res: Response) => {
+// GET /api/auth/verify-email/:token
+router.get('/verify-email/:token', validate({ params: z.object({ token: z.string().min(1) }) }), asyncHandler(async (req: Request, res: Response) => {
   const { token } = req.params;
 
   // Find token
@@ -488,40 +500,45 @@ router.get('/verify-email/:token', asyncHandler(async (req: Request, res: Respon
     where: { id: verificationToken.id },
   });
 
-  logger.info('Email verified', { userId: verificationToken.userId });
+  logger.info({ userId: verificationToken.userId }, 'Email verified');
 
   res.json({
-    message: 'Email verified successfully',
+    success: true,
+    data: { message: 'Email verified successfully' },
   });
 }));
 
-// OAuth routes
-router.get('/google', passport.authenticate('google', {
-  scope: ['profile', 'email'],
-}));
-
-router.get('/google/callback',
-  passport.authenticate('google', { session: false }),
-  asyncHandler(async (req: AuthRequest, res: Response) => {
-    const user = req.user;
-
-    if (!user) {
-      return res.redirect(`${process.env.FRONTEND_URL}/login?error=auth_failed`);
-    }
+// OAuth routes are only available when Google credentials are configured
+if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
+  // GET /api/auth/google
+  router.get('/google', passport.authenticate('google', {
+    scope: ['profile', 'email'],
+  }));
+
+  // GET /api/auth/google/callback
+  router.get('/google/callback',
+    passport.authenticate('google', { session: false }),
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+      const user = req.user;
+
+      if (!user) {
+        return res.redirect(`${process.env.FRONTEND_URL}/login?error=auth_failed`);
+      }
 
-    // Generate tokens
-    const accessToken = TokenManager.generateAccessToken(user);
-    const refreshToken = TokenManager.generateRefreshToken(user);
+      // Generate tokens
+      const accessToken = TokenManager.generateAccessToken(user);
+      const refreshToken = TokenManager.generateRefreshToken(user);
 
-    // Redirect to frontend with tokens
-    res.redirect(
-      `${process.env.FRONTEND_URL}/auth/callback?` +
-      `accessToken=${accessToken}&refreshToken=${refreshToken}`
-    );
-  })
-);
+      // Redirect to frontend with tokens
+      res.redirect(
+        `${process.env.FRONTEND_URL}/auth/callback?` +
+        `accessToken=${accessToken}&refreshToken=${refreshToken}`
+      );
+    })
+  );
+}
 
-// Get current user
+// GET /api/auth/me
 router.get('/me', authenticate(), asyncHandler(async (req: AuthRequest, res: Response) => {
   const userId = req.user?.id;
 
@@ -545,13 +562,13 @@ router.get('/me', authenticate(), asyncHandler(async (req: AuthRequest, res: Res
   });
 
   if (!user) {
-    throw new NotFoundError('User not found');
+    throw new NotFoundError('User');
   }
 
-  res.json({ user });
+  res.json({ success: true, data: user });
 }));
 
-// Enable two-factor authentication
+// POST /api/auth/enable-2fa
 router.post('/enable-2fa', authenticate(), asyncHandler(async (req: AuthRequest, res: Response) => {
   const userId = req.user?.id;
 
@@ -571,34 +588,33 @@ router.post('/enable-2fa', authenticate(), asyncHandler(async (req: AuthRequest,
     },
   });
 
-  logger.info('2FA enabled', { userId });
+  logger.info({ userId }, '2FA enabled');
 
   res.json({
-    message: 'Two-factor authentication enabled',
-    secret, // In production, generate QR code
+    success: true,
+    data: {
+      message: 'Two-factor authentication enabled',
+      secret, // In production, generate QR code
+    },
   });
 }));
 
-// Disable two-factor authentication
-router.post('/disable-2fa', authenticate(), asyncHandler(async (req: AuthRequest, res: Response) => {
+// POST /api/auth/disable-2fa
+router.post('/disable-2fa', authenticate(), validate({ body: disableTwoFactorSchema }), asyncHandler(async (req: AuthRequest, res: Response) => {
   const userId = req.user?.id;
-  const { password } = req.body;
+  const { password } = req.body as z.infer<typeof disableTwoFactorSchema>;
 
   if (!userId) {
     throw new AuthenticationError('User not authenticated');
   }
 
-  if (!password) {
-    throw new ValidationError('Password is required to disable 2FA');
-  }
-
   // Verify password
   const user = await prisma.user.findUnique({
     where: { id: userId },
   });
 
   if (!user) {
-    throw new NotFoundError('User not found');
+    throw new NotFoundError('User');
   }
 
   const isValidPassword = await PasswordManager.verify(password, user.password);
@@ -615,11 +631,12 @@ router.post('/disable-2fa', authenticate(), asyncHandler(async (req: AuthRequest
     },
   });
 
-  logger.info('2FA disabled', { userId });
+  logger.info({ userId }, '2FA disabled');
 
   res.json({
-    message: 'Two-factor authentication disabled',
+    success: true,
+    data: { message: 'Two-factor authentication disabled' },
   });
 }));
 
-export default router;
\ No newline at end of file
+export { router as authRoutes };
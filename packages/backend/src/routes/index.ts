@@ -3,7 +3,18 @@ import { projectRoutes } from './project.routes.js';
 import { angleRoutes } from './angle.routes.js';
 import { localizationRoutes } from './localization.routes.js';
 import { packRoutes } from './pack.routes.js';
+import { packTemplateRoutes } from './pack-template.routes.js';
 import { performanceRoutes } from './performance.routes.js';
+import { workspaceRoutes } from './workspace.routes.js';
+import { jobRoutes } from './job.routes.js';
+import { promptTemplateRoutes } from './prompt-template.routes.js';
+import { authRoutes } from './auth.js';
+import { adminRoutes } from './admin.routes.js';
+import { localeRoutes } from './locale.routes.js';
+import { platformRoutes } from './platform.routes.js';
+import { shareRoutes } from './share.routes.js';
+import { authenticate } from '../middleware/auth.js';
+import { resolveWorkspace } from '../middleware/workspace.js';
 
 const router = Router();
 
@@ -18,11 +29,36 @@ router.get('/health', (_req, res) => {
   });
 });
 
+// Registration, login and token refresh (individual routes opt into authentication)
+router.use('/auth', authRoutes);
+
+// Pack share links; the signed token in the URL stands in for a login
+router.use('/share', shareRoutes);
+
+// Everything below requires an authenticated user
+router.use(authenticate());
+
+// Workspace management operates across the user's workspaces
+router.use('/workspaces', workspaceRoutes);
+
+// Role and user administration is global, not workspace-scoped
+router.use('/admin', adminRoutes);
+
+// The locale and platform registries are the same for every workspace
+router.use('/locales', localeRoutes);
+router.use('/platforms', platformRoutes);
+
+// Remaining routes are scoped to the caller's current workspace
+router.use(resolveWorkspace());
+
 // Mount routes
 router.use('/projects', projectRoutes);
 router.use('/angles', angleRoutes);
 router.use('/localizations', localizationRoutes);
 router.use('/packs', packRoutes);
+router.use('/pack-templates', packTemplateRoutes);
 router.use('/performance', performanceRoutes);
+router.use('/jobs', jobRoutes);
+router.use('/prompt-templates', promptTemplateRoutes);
 
 export { router as apiRoutes };
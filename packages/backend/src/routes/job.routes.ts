@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { jobController } from '../controllers/index.js';
+import { validate } from '../middleware/validate.js';
+import { asyncHandler } from '../utils/async-handler.js';
+import { uuidSchema } from '../validators/index.js';
+import { z } from 'zod';
+
+const router = Router();
+
+// Permissions depend on the job type and are checked by the controller
+
+// GET /api/jobs/:id
+router.get(
+  '/:id',
+  validate({ params: z.object({ id: uuidSchema }) }),
+  asyncHandler(jobController.getById.bind(jobController))
+);
+
+// POST /api/jobs/:id/cancel
+router.post(
+  '/:id/cancel',
+  validate({ params: z.object({ id: uuidSchema }) }),
+  asyncHandler(jobController.cancel.bind(jobController))
+);
+
+export { router as jobRoutes };
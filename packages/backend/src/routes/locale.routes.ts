@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { localeController } from '../controllers/index.js';
+import { asyncHandler } from '../utils/async-handler.js';
+
+const router = Router();
+
+// GET /api/locales
+router.get('/', asyncHandler(localeController.list.bind(localeController)));
+
+export { router as localeRoutes };
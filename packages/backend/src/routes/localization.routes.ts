@@ -1,10 +1,15 @@
 import { Router } from 'express';
+import multer from 'multer';
 import { localizationController } from '../controllers/index.js';
 import { validate } from '../middleware/validate.js';
+import { requirePermission } from '../middleware/auth.js';
 import { asyncHandler } from '../utils/async-handler.js';
 import {
   localizeRequestSchema,
   updateLocalizedContentSchema,
+  setLocaleReviewersSchema,
+  submitLocalizationReviewSchema,
+  reviewLocalizationSchema,
   localeSchema,
   platformSchema,
   uuidSchema,
@@ -13,9 +18,25 @@ import { z } from 'zod';
 
 const router = Router();
 
+// Caption files are small; keep them in memory
+const captionUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 1024 * 1024, // 1MB
+  },
+  fileFilter: (_req, file, cb) => {
+    if (/\.(srt|vtt)$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only SRT and WebVTT files are allowed'));
+    }
+  },
+});
+
 // POST /api/angles/:angleId/localize
 router.post(
   '/angles/:angleId/localize',
+  requirePermission('localizations:generate'),
   validate({
     params: z.object({ angleId: uuidSchema }),
     body: localizeRequestSchema,
@@ -26,6 +47,7 @@ router.post(
 // GET /api/angles/:angleId/localizations
 router.get(
   '/angles/:angleId/localizations',
+  requirePermission('localizations:read'),
   validate({
     params: z.object({ angleId: uuidSchema }),
     query: z.object({
@@ -39,13 +61,45 @@ router.get(
 // GET /api/localizations/:id
 router.get(
   '/:id',
+  requirePermission('localizations:read'),
   validate({ params: z.object({ id: uuidSchema }) }),
   asyncHandler(localizationController.getById.bind(localizationController))
 );
 
+// GET /api/localizations/:id/lint
+router.get(
+  '/:id/lint',
+  requirePermission('localizations:read'),
+  validate({ params: z.object({ id: uuidSchema }) }),
+  asyncHandler(localizationController.getLint.bind(localizationController))
+);
+
+// GET /api/localizations/:id/revisions
+router.get(
+  '/:id/revisions',
+  requirePermission('localizations:read'),
+  validate({ params: z.object({ id: uuidSchema }) }),
+  asyncHandler(localizationController.listRevisions.bind(localizationController))
+);
+
+// GET /api/localizations/:id/revisions/diff?from=1&to=2
+router.get(
+  '/:id/revisions/diff',
+  requirePermission('localizations:read'),
+  validate({
+    params: z.object({ id: uuidSchema }),
+    query: z.object({
+      from: z.coerce.number().int().min(1).optional(),
+      to: z.coerce.number().int().min(1).optional(),
+    }),
+  }),
+  asyncHandler(localizationController.diffRevisions.bind(localizationController))
+);
+
 // PUT /api/localizations/:id
 router.put(
   '/:id',
+  requirePermission('localizations:write'),
   validate({
     params: z.object({ id: uuidSchema }),
     body: updateLocalizedContentSchema,
@@ -53,9 +107,60 @@ router.put(
   asyncHandler(localizationController.update.bind(localizationController))
 );
 
+// POST /api/localizations/:id/captions/import
+router.post(
+  '/:id/captions/import',
+  requirePermission('localizations:write'),
+  validate({ params: z.object({ id: uuidSchema }) }),
+  captionUpload.single('file'),
+  asyncHandler(localizationController.importCaptions.bind(localizationController))
+);
+
+// POST /api/localizations/:id/review/submit
+router.post(
+  '/:id/review/submit',
+  requirePermission('localizations:write'),
+  validate({
+    params: z.object({ id: uuidSchema }),
+    body: submitLocalizationReviewSchema,
+  }),
+  asyncHandler(localizationController.submitForReview.bind(localizationController))
+);
+
+// POST /api/localizations/:id/review
+router.post(
+  '/:id/review',
+  requirePermission('localizations:review'),
+  validate({
+    params: z.object({ id: uuidSchema }),
+    body: reviewLocalizationSchema,
+  }),
+  asyncHandler(localizationController.review.bind(localizationController))
+);
+
+// GET /api/localizations/projects/:projectId/reviewers
+router.get(
+  '/projects/:projectId/reviewers',
+  requirePermission('localizations:read'),
+  validate({ params: z.object({ projectId: uuidSchema }) }),
+  asyncHandler(localizationController.getLocaleReviewers.bind(localizationController))
+);
+
+// PUT /api/localizations/projects/:projectId/reviewers/:locale
+router.put(
+  '/projects/:projectId/reviewers/:locale',
+  requirePermission('localizations:write'),
+  validate({
+    params: z.object({ projectId: uuidSchema, locale: localeSchema }),
+    body: setLocaleReviewersSchema,
+  }),
+  asyncHandler(localizationController.setLocaleReviewers.bind(localizationController))
+);
+
 // DELETE /api/localizations/:id
 router.delete(
   '/:id',
+  requirePermission('localizations:delete'),
   validate({ params: z.object({ id: uuidSchema }) }),
   asyncHandler(localizationController.delete.bind(localizationController))
 );
@@ -63,11 +168,14 @@ router.delete(
 // POST /api/angles/:angleId/localize/regenerate
 router.post(
   '/angles/:angleId/localize/regenerate',
+  requirePermission('localizations:generate'),
   validate({
     params: z.object({ angleId: uuidSchema }),
     body: z.object({
       locale: localeSchema,
       platform: platformSchema,
+      // Overwrite translator edits
+      force: z.boolean().optional(),
     }),
   }),
   asyncHandler(localizationController.regenerate.bind(localizationController))
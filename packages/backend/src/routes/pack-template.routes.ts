@@ -0,0 +1,64 @@
+import { Router } from 'express';
+import { packTemplateController } from '../controllers/index.js';
+import { validate } from '../middleware/validate.js';
+import { requirePermission } from '../middleware/auth.js';
+import { asyncHandler } from '../utils/async-handler.js';
+import {
+  createPackTemplateSchema,
+  updatePackTemplateSchema,
+  uuidSchema,
+} from '../validators/index.js';
+import { z } from 'zod';
+
+const router = Router();
+
+// GET /api/pack-templates/options
+router.get(
+  '/options',
+  requirePermission('packs:read'),
+  asyncHandler(packTemplateController.getLayoutOptions.bind(packTemplateController))
+);
+
+// GET /api/pack-templates
+router.get(
+  '/',
+  requirePermission('packs:read'),
+  asyncHandler(packTemplateController.list.bind(packTemplateController))
+);
+
+// GET /api/pack-templates/:id
+router.get(
+  '/:id',
+  requirePermission('packs:read'),
+  validate({ params: z.object({ id: uuidSchema }) }),
+  asyncHandler(packTemplateController.getById.bind(packTemplateController))
+);
+
+// POST /api/pack-templates
+router.post(
+  '/',
+  requirePermission('packs:create'),
+  validate({ body: createPackTemplateSchema }),
+  asyncHandler(packTemplateController.create.bind(packTemplateController))
+);
+
+// PUT /api/pack-templates/:id
+router.put(
+  '/:id',
+  requirePermission('packs:create'),
+  validate({
+    params: z.object({ id: uuidSchema }),
+    body: updatePackTemplateSchema,
+  }),
+  asyncHandler(packTemplateController.update.bind(packTemplateController))
+);
+
+// DELETE /api/pack-templates/:id
+router.delete(
+  '/:id',
+  requirePermission('packs:delete'),
+  validate({ params: z.object({ id: uuidSchema }) }),
+  asyncHandler(packTemplateController.delete.bind(packTemplateController))
+);
+
+export { router as packTemplateRoutes };
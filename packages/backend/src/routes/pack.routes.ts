@@ -1,8 +1,16 @@
 import { Router } from 'express';
-import { packController } from '../controllers/index.js';
+import { packController, shareLinkController } from '../controllers/index.js';
 import { validate } from '../middleware/validate.js';
+import { requirePermission } from '../middleware/auth.js';
 import { asyncHandler } from '../utils/async-handler.js';
-import { createPackSchema, paginationSchema, uuidSchema } from '../validators/index.js';
+import {
+  createPackSchema,
+  createShareLinkSchema,
+  packDownloadQuerySchema,
+  paginationSchema,
+  rebuildPackSchema,
+  uuidSchema,
+} from '../validators/index.js';
 import { z } from 'zod';
 
 const router = Router();
@@ -10,6 +18,7 @@ const router = Router();
 // POST /api/projects/:projectId/packs
 router.post(
   '/projects/:projectId/packs',
+  requirePermission('packs:create'),
   validate({
     params: z.object({ projectId: uuidSchema }),
     body: createPackSchema.omit({ angleIds: true }).extend({
@@ -22,6 +31,7 @@ router.post(
 // GET /api/projects/:projectId/packs
 router.get(
   '/projects/:projectId/packs',
+  requirePermission('packs:read'),
   validate({
     params: z.object({ projectId: uuidSchema }),
     query: paginationSchema,
@@ -32,20 +42,83 @@ router.get(
 // GET /api/packs/:id
 router.get(
   '/:id',
+  requirePermission('packs:read'),
   validate({ params: z.object({ id: uuidSchema }) }),
   asyncHandler(packController.getById.bind(packController))
 );
 
-// GET /api/packs/:id/download
+// GET /api/packs/:id/download?variant=full|delta
 router.get(
   '/:id/download',
-  validate({ params: z.object({ id: uuidSchema }) }),
+  requirePermission('packs:download'),
+  validate({
+    params: z.object({ id: uuidSchema }),
+    query: packDownloadQuerySchema,
+  }),
   asyncHandler(packController.download.bind(packController))
 );
 
+// GET /api/packs/:id/changes
+router.get(
+  '/:id/changes',
+  requirePermission('packs:read'),
+  validate({ params: z.object({ id: uuidSchema }) }),
+  asyncHandler(packController.getChanges.bind(packController))
+);
+
+// POST /api/packs/:id/rebuild
+router.post(
+  '/:id/rebuild',
+  requirePermission('packs:create'),
+  validate({
+    params: z.object({ id: uuidSchema }),
+    body: rebuildPackSchema,
+  }),
+  asyncHandler(packController.rebuild.bind(packController))
+);
+
+// POST /api/packs/:id/share-links
+router.post(
+  '/:id/share-links',
+  requirePermission('packs:share'),
+  validate({
+    params: z.object({ id: uuidSchema }),
+    body: createShareLinkSchema,
+  }),
+  asyncHandler(shareLinkController.create.bind(shareLinkController))
+);
+
+// GET /api/packs/:id/share-links
+router.get(
+  '/:id/share-links',
+  requirePermission('packs:share'),
+  validate({ params: z.object({ id: uuidSchema }) }),
+  asyncHandler(shareLinkController.getAll.bind(shareLinkController))
+);
+
+// DELETE /api/packs/:id/share-links/:linkId
+router.delete(
+  '/:id/share-links/:linkId',
+  requirePermission('packs:share'),
+  validate({ params: z.object({ id: uuidSchema, linkId: uuidSchema }) }),
+  asyncHandler(shareLinkController.revoke.bind(shareLinkController))
+);
+
+// GET /api/packs/:id/downloads
+router.get(
+  '/:id/downloads',
+  requirePermission('packs:share'),
+  validate({
+    params: z.object({ id: uuidSchema }),
+    query: z.object({ limit: z.coerce.number().int().min(1).max(500).default(100) }),
+  }),
+  asyncHandler(shareLinkController.getDownloads.bind(shareLinkController))
+);
+
 // DELETE /api/packs/:id
 router.delete(
   '/:id',
+  requirePermission('packs:delete'),
   validate({ params: z.object({ id: uuidSchema }) }),
   asyncHandler(packController.delete.bind(packController))
 );
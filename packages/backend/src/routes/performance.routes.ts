@@ -2,6 +2,7 @@ import { Router } from 'express';
 import multer from 'multer';
 import { performanceController } from '../controllers/index.js';
 import { validate } from '../middleware/validate.js';
+import { requirePermission } from '../middleware/auth.js';
 import { asyncHandler } from '../utils/async-handler.js';
 import { generateIterationSchema, uuidSchema } from '../validators/index.js';
 import { z } from 'zod';
@@ -26,6 +27,7 @@ const upload = multer({
 // POST /api/projects/:projectId/performance/import
 router.post(
   '/projects/:projectId/performance/import',
+  requirePermission('performance:import'),
   validate({ params: z.object({ projectId: uuidSchema }) }),
   upload.single('file'),
   asyncHandler(performanceController.importCSV.bind(performanceController))
@@ -34,6 +36,7 @@ router.post(
 // GET /api/projects/:projectId/performance/imports
 router.get(
   '/projects/:projectId/performance/imports',
+  requirePermission('performance:read'),
   validate({ params: z.object({ projectId: uuidSchema }) }),
   asyncHandler(performanceController.getProjectImports.bind(performanceController))
 );
@@ -41,6 +44,7 @@ router.get(
 // GET /api/performance/imports/:batchId
 router.get(
   '/imports/:batchId',
+  requirePermission('performance:read'),
   validate({ params: z.object({ batchId: uuidSchema }) }),
   asyncHandler(performanceController.getImportBatch.bind(performanceController))
 );
@@ -48,6 +52,7 @@ router.get(
 // GET /api/projects/:projectId/performance/metrics
 router.get(
   '/projects/:projectId/performance/metrics',
+  requirePermission('performance:read'),
   validate({ params: z.object({ projectId: uuidSchema }) }),
   asyncHandler(performanceController.getProjectMetrics.bind(performanceController))
 );
@@ -55,6 +60,7 @@ router.get(
 // POST /api/projects/:projectId/performance/winners
 router.post(
   '/projects/:projectId/performance/winners',
+  requirePermission('angles:write'),
   validate({
     params: z.object({ projectId: uuidSchema }),
     query: z.object({
@@ -68,6 +74,7 @@ router.post(
 // POST /api/projects/:projectId/performance/iterate
 router.post(
   '/projects/:projectId/performance/iterate',
+  requirePermission('angles:generate'),
   validate({
     params: z.object({ projectId: uuidSchema }),
     query: generateIterationSchema,
@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { platformController } from '../controllers/index.js';
+import { asyncHandler } from '../utils/async-handler.js';
+
+const router = Router();
+
+// GET /api/platforms
+router.get('/', asyncHandler(platformController.list.bind(platformController)));
+
+export { router as platformRoutes };
@@ -1,8 +1,11 @@
 import { Router } from 'express';
 import { projectController } from '../controllers/index.js';
 import { validate } from '../middleware/validate.js';
+import { requirePermission } from '../middleware/auth.js';
 import { asyncHandler } from '../utils/async-handler.js';
 import {
+  aiBudgetSchema,
+  aiUsageQuerySchema,
   createProjectSchema,
   updateProjectSchema,
   paginationSchema,
@@ -15,6 +18,7 @@ const router = Router();
 // GET /api/projects
 router.get(
   '/',
+  requirePermission('projects:read'),
   validate({ query: paginationSchema }),
   asyncHandler(projectController.getAll.bind(projectController))
 );
@@ -22,6 +26,7 @@ router.get(
 // POST /api/projects
 router.post(
   '/',
+  requirePermission('projects:write'),
   validate({ body: createProjectSchema }),
   asyncHandler(projectController.create.bind(projectController))
 );
@@ -29,6 +34,7 @@ router.post(
 // GET /api/projects/:id
 router.get(
   '/:id',
+  requirePermission('projects:read'),
   validate({ params: z.object({ id: uuidSchema }) }),
   asyncHandler(projectController.getById.bind(projectController))
 );
@@ -36,6 +42,7 @@ router.get(
 // PUT /api/projects/:id
 router.put(
   '/:id',
+  requirePermission('projects:write'),
   validate({
     params: z.object({ id: uuidSchema }),
     body: updateProjectSchema,
@@ -46,8 +53,31 @@ router.put(
 // DELETE /api/projects/:id
 router.delete(
   '/:id',
+  requirePermission('projects:delete'),
   validate({ params: z.object({ id: uuidSchema }) }),
   asyncHandler(projectController.delete.bind(projectController))
 );
 
+// GET /api/projects/:id/ai-usage
+router.get(
+  '/:id/ai-usage',
+  requirePermission('projects:read'),
+  validate({
+    params: z.object({ id: uuidSchema }),
+    query: aiUsageQuerySchema,
+  }),
+  asyncHandler(projectController.getAIUsage.bind(projectController))
+);
+
+// PUT /api/projects/:id/ai-budget
+router.put(
+  '/:id/ai-budget',
+  requirePermission('projects:write'),
+  validate({
+    params: z.object({ id: uuidSchema }),
+    body: aiBudgetSchema,
+  }),
+  asyncHandler(projectController.setAIBudget.bind(projectController))
+);
+
 export { router as projectRoutes };
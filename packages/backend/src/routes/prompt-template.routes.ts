@@ -0,0 +1,68 @@
+import { Router } from 'express';
+import { promptTemplateController } from '../controllers/index.js';
+import { validate } from '../middleware/validate.js';
+import { requirePermission } from '../middleware/auth.js';
+import { asyncHandler } from '../utils/async-handler.js';
+import {
+  aiOperationSchema,
+  uuidSchema,
+  promptTemplateScopeSchema,
+  createPromptTemplateSchema,
+  previewPromptTemplateSchema,
+  rollbackPromptTemplateSchema,
+} from '../validators/index.js';
+import { z } from 'zod';
+
+const router = Router();
+
+const operationParams = z.object({ operation: aiOperationSchema });
+
+// Editing requires prompts:manage for global templates and projects:write for
+// project overrides; the controller checks which applies
+
+// GET /api/prompt-templates
+router.get(
+  '/',
+  requirePermission('projects:read'),
+  validate({ query: promptTemplateScopeSchema }),
+  asyncHandler(promptTemplateController.getActive.bind(promptTemplateController))
+);
+
+// GET /api/prompt-templates/:operation/versions
+router.get(
+  '/:operation/versions',
+  requirePermission('projects:read'),
+  validate({ params: operationParams, query: promptTemplateScopeSchema }),
+  asyncHandler(promptTemplateController.getVersions.bind(promptTemplateController))
+);
+
+// POST /api/prompt-templates/:operation
+router.post(
+  '/:operation',
+  validate({ params: operationParams, body: createPromptTemplateSchema }),
+  asyncHandler(promptTemplateController.create.bind(promptTemplateController))
+);
+
+// POST /api/prompt-templates/:operation/preview
+router.post(
+  '/:operation/preview',
+  requirePermission('projects:read'),
+  validate({ params: operationParams, body: previewPromptTemplateSchema }),
+  asyncHandler(promptTemplateController.preview.bind(promptTemplateController))
+);
+
+// POST /api/prompt-templates/:operation/rollback
+router.post(
+  '/:operation/rollback',
+  validate({ params: operationParams, body: rollbackPromptTemplateSchema }),
+  asyncHandler(promptTemplateController.rollback.bind(promptTemplateController))
+);
+
+// DELETE /api/prompt-templates/:operation/overrides/:projectId
+router.delete(
+  '/:operation/overrides/:projectId',
+  validate({ params: operationParams.extend({ projectId: uuidSchema }) }),
+  asyncHandler(promptTemplateController.clearOverride.bind(promptTemplateController))
+);
+
+export { router as promptTemplateRoutes };
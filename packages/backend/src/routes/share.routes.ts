@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import rateLimit from 'express-rate-limit';
+import { shareLinkController } from '../controllers/index.js';
+import { validate } from '../middleware/validate.js';
+import { asyncHandler } from '../utils/async-handler.js';
+import { shareDownloadSchema, shareTokenSchema } from '../validators/index.js';
+import { z } from 'zod';
+
+const router = Router();
+
+// Anyone can try a link, so password guesses are limited per client
+const downloadLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 20,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: {
+    success: false,
+    error: {
+      code: 'RATE_LIMIT_EXCEEDED',
+      message: 'Too many download attempts, please try again later.',
+    },
+  },
+});
+
+const tokenParams = z.object({ token: shareTokenSchema });
+
+// GET /api/share/packs/:token
+router.get(
+  '/packs/:token',
+  validate({ params: tokenParams }),
+  asyncHandler(shareLinkController.getShared.bind(shareLinkController))
+);
+
+// GET /api/share/packs/:token/download (links without a password)
+router.get(
+  '/packs/:token/download',
+  downloadLimiter,
+  validate({ params: tokenParams }),
+  asyncHandler(shareLinkController.downloadShared.bind(shareLinkController))
+);
+
+// POST /api/share/packs/:token/download
+router.post(
+  '/packs/:token/download',
+  downloadLimiter,
+  validate({ params: tokenParams, body: shareDownloadSchema }),
+  asyncHandler(shareLinkController.downloadShared.bind(shareLinkController))
+);
+
+export { router as shareRoutes };
@@ -0,0 +1,99 @@
+import { Router } from 'express';
+import { workspaceController } from '../controllers/index.js';
+import { validate } from '../middleware/validate.js';
+import { asyncHandler } from '../utils/async-handler.js';
+import {
+  aiBudgetSchema,
+  createWorkspaceSchema,
+  updateWorkspaceSchema,
+  addWorkspaceMemberSchema,
+  updateWorkspaceMemberSchema,
+  packRetentionSchema,
+  uuidSchema,
+} from '../validators/index.js';
+import { z } from 'zod';
+
+const router = Router();
+
+// GET /api/workspaces
+router.get('/', asyncHandler(workspaceController.getAll.bind(workspaceController)));
+
+// POST /api/workspaces
+router.post(
+  '/',
+  validate({ body: createWorkspaceSchema }),
+  asyncHandler(workspaceController.create.bind(workspaceController))
+);
+
+// GET /api/workspaces/:id
+router.get(
+  '/:id',
+  validate({ params: z.object({ id: uuidSchema }) }),
+  asyncHandler(workspaceController.getById.bind(workspaceController))
+);
+
+// PUT /api/workspaces/:id
+router.put(
+  '/:id',
+  validate({
+    params: z.object({ id: uuidSchema }),
+    body: updateWorkspaceSchema,
+  }),
+  asyncHandler(workspaceController.update.bind(workspaceController))
+);
+
+// PUT /api/workspaces/:id/ai-budget
+router.put(
+  '/:id/ai-budget',
+  validate({
+    params: z.object({ id: uuidSchema }),
+    body: aiBudgetSchema,
+  }),
+  asyncHandler(workspaceController.setAIBudget.bind(workspaceController))
+);
+
+// PUT /api/workspaces/:id/pack-retention
+router.put(
+  '/:id/pack-retention',
+  validate({
+    params: z.object({ id: uuidSchema }),
+    body: packRetentionSchema,
+  }),
+  asyncHandler(workspaceController.setPackRetention.bind(workspaceController))
+);
+
+// DELETE /api/workspaces/:id
+router.delete(
+  '/:id',
+  validate({ params: z.object({ id: uuidSchema }) }),
+  asyncHandler(workspaceController.delete.bind(workspaceController))
+);
+
+// POST /api/workspaces/:id/members
+router.post(
+  '/:id/members',
+  validate({
+    params: z.object({ id: uuidSchema }),
+    body: addWorkspaceMemberSchema,
+  }),
+  asyncHandler(workspaceController.addMember.bind(workspaceController))
+);
+
+// PATCH /api/workspaces/:id/members/:userId
+router.patch(
+  '/:id/members/:userId',
+  validate({
+    params: z.object({ id: uuidSchema, userId: uuidSchema }),
+    body: updateWorkspaceMemberSchema,
+  }),
+  asyncHandler(workspaceController.updateMember.bind(workspaceController))
+);
+
+// DELETE /api/workspaces/:id/members/:userId
+router.delete(
+  '/:id/members/:userId',
+  validate({ params: z.object({ id: uuidSchema, userId: uuidSchema }) }),
+  asyncHandler(workspaceController.removeMember.bind(workspaceController))
+);
+
+export { router as workspaceRoutes };
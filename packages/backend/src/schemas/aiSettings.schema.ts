@@ -0,0 +1,25 @@
+import type { ProjectAISettings } from '../types/index.js';
+import { ValidationError } from '../types/index.js';
+import { projectAISettingsSchema } from '../validators/index.js';
+
+export { projectAISettingsSchema };
+
+/**
+ * Parse a project's AI provider overrides from a Prisma JsonValue
+ * @param value - The JsonValue to parse
+ * @returns Validated settings, or null when the project has none
+ * @throws ValidationError if the data is invalid
+ */
+export function parseAISettings(value: unknown): ProjectAISettings | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  const result = projectAISettingsSchema.safeParse(value);
+
+  if (!result.success) {
+    throw new ValidationError('Invalid AI settings', result.error.format());
+  }
+
+  return result.data;
+}
@@ -0,0 +1,25 @@
+import type { ClaimsPolicy } from '../types/index.js';
+import { ValidationError } from '../types/index.js';
+import { claimsPolicySchema } from '../validators/index.js';
+
+export { claimsPolicySchema };
+
+/**
+ * Parse a project's claims policy from a Prisma JsonValue
+ * @param value - The JsonValue to parse
+ * @returns Validated policy, or null when the project has none
+ * @throws ValidationError if the data is invalid
+ */
+export function parseClaimsPolicy(value: unknown): ClaimsPolicy | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  const result = claimsPolicySchema.safeParse(value);
+
+  if (!result.success) {
+    throw new ValidationError('Invalid claims policy', result.error.format());
+  }
+
+  return result.data;
+}
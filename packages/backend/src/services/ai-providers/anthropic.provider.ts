@@ -0,0 +1,78 @@
+import { AIServiceError } from '../../types/index.js';
+import type { AICompletion, AICompletionRequest, AIProvider } from './types.js';
+
+export interface AnthropicProviderOptions {
+  apiKey: string;
+  baseURL: string;
+  defaultModel: string;
+  maxTokens: number;
+}
+
+interface MessagesResponse {
+  model: string;
+  content: Array<{ type: string; text?: string }>;
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Provider for the Anthropic Messages API or any server exposing the same
+ * `/v1/messages` contract. The API has no JSON mode, so the response is
+ * prefilled with `{` to keep the model on a JSON object.
+ */
+export class AnthropicProvider implements AIProvider {
+  readonly name = 'anthropic' as const;
+  readonly defaultModel: string;
+
+  constructor(private options: AnthropicProviderOptions) {
+    this.defaultModel = options.defaultModel;
+  }
+
+  async complete(request: AICompletionRequest): Promise<AICompletion> {
+    const response = await fetch(`${this.options.baseURL.replace(/\/$/, '')}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': this.options.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      signal: request.signal,
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: this.options.maxTokens,
+        temperature: Math.min(request.temperature, 1),
+        system: `${request.system}\nRespond with a single JSON object and nothing else.`,
+        messages: [
+          { role: 'user', content: request.prompt },
+          ...(request.followUps ?? []),
+          { role: 'assistant', content: '{' },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      throw new AIServiceError(`Anthropic request failed with status ${response.status}`, {
+        body: await response.text(),
+      });
+    }
+
+    const body = (await response.json()) as MessagesResponse;
+    const text = body.content
+      .filter((block) => block.type === 'text')
+      .map((block) => block.text ?? '')
+      .join('');
+    if (!text) {
+      throw new AIServiceError('Empty response from anthropic');
+    }
+
+    return {
+      content: `{${text}`,
+      model: body.model,
+      usage: body.usage && {
+        inputTokens: body.usage.input_tokens,
+        outputTokens: body.usage.output_tokens,
+      },
+    };
+  }
+}
@@ -0,0 +1,109 @@
+import { config } from '../../utils/config.js';
+import { AIServiceError } from '../../types/index.js';
+import { OpenAIProvider } from './openai.provider.js';
+import { AnthropicProvider } from './anthropic.provider.js';
+import { MockProvider } from './mock.provider.js';
+import type { AIOperation, AIProvider, AIProviderName } from './types.js';
+export {
+  DEFAULT_MODEL_PRICING,
+  parseModelPricing,
+  findModelPricing,
+  estimateCostUsd,
+  type ModelPricing,
+} from './pricing.js';
+
+export type {
+  AIProvider,
+  AIProviderName,
+  AIOperation,
+  AIOperationInput,
+  AIChatMessage,
+  AICompletion,
+  AICompletionRequest,
+  AIStreamEvent,
+} from './types.js';
+
+export const AI_PROVIDER_NAMES: AIProviderName[] = ['openai', 'anthropic', 'local', 'mock'];
+
+export const AI_OPERATIONS: AIOperation[] = [
+  'generate_angles',
+  'localize',
+  'analyze_patterns',
+  'generate_iterations',
+];
+
+const providers = new Map<AIProviderName, AIProvider>();
+
+function createProvider(name: AIProviderName): AIProvider {
+  switch (name) {
+    case 'openai':
+      if (!config.OPENAI_API_KEY) {
+        throw new AIServiceError('OpenAI provider selected but OPENAI_API_KEY is not set');
+      }
+      return new OpenAIProvider({
+        name: 'openai',
+        apiKey: config.OPENAI_API_KEY,
+        baseURL: config.OPENAI_BASE_URL,
+        defaultModel: config.OPENAI_MODEL,
+      });
+
+    case 'anthropic':
+      if (!config.ANTHROPIC_API_KEY) {
+        throw new AIServiceError('Anthropic provider selected but ANTHROPIC_API_KEY is not set');
+      }
+      return new AnthropicProvider({
+        apiKey: config.ANTHROPIC_API_KEY,
+        baseURL: config.ANTHROPIC_BASE_URL,
+        defaultModel: config.ANTHROPIC_MODEL,
+        maxTokens: config.ANTHROPIC_MAX_TOKENS,
+      });
+
+    case 'local':
+      // Local servers usually ignore the key, but the OpenAI client requires one
+      return new OpenAIProvider({
+        name: 'local',
+        apiKey: config.LOCAL_AI_API_KEY ?? 'local',
+        baseURL: config.LOCAL_AI_BASE_URL,
+        defaultModel: config.LOCAL_AI_MODEL,
+      });
+
+    case 'mock':
+      return new MockProvider();
+  }
+}
+
+/**
+ * Get the shared instance of a provider, creating it on first use so missing
+ * credentials only fail for providers that are actually selected.
+ */
+export function getAIProvider(name: AIProviderName): AIProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = createProvider(name);
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+/**
+ * Parse AI_OPERATION_PROVIDERS, e.g. "localize=anthropic,analyze_patterns=local".
+ */
+export function parseOperationProviders(
+  value: string | undefined
+): Partial<Record<AIOperation, AIProviderName>> {
+  const result: Partial<Record<AIOperation, AIProviderName>> = {};
+  if (!value) return result;
+
+  for (const entry of value.split(',').map((e) => e.trim()).filter(Boolean)) {
+    const [operation, provider] = entry.split('=').map((part) => part.trim());
+    if (
+      !AI_OPERATIONS.includes(operation as AIOperation) ||
+      !AI_PROVIDER_NAMES.includes(provider as AIProviderName)
+    ) {
+      throw new Error(`Invalid AI_OPERATION_PROVIDERS entry: "${entry}"`);
+    }
+    result[operation as AIOperation] = provider as AIProviderName;
+  }
+
+  return result;
+}
@@ -0,0 +1,149 @@
+import type { GeneratedAngle, LocalizedContentData } from '../../types/index.js';
+import type {
+  AICompletion,
+  AICompletionRequest,
+  AIOperationInput,
+  AIProvider,
+  AIStreamEvent,
+} from './types.js';
+
+// Size of the pieces the mock streams its response in
+const STREAM_CHUNK_SIZE = 64;
+
+// Mock data for development without API key
+const MOCK_ANGLES: GeneratedAngle[] = [
+  {
+    hook: "Stop wasting money on solutions that don't work",
+    problemAgitation:
+      "Every day, you're losing time and money trying to fix problems that keep coming back. The frustration builds as you watch competitors pull ahead while you're stuck in the same cycle.",
+    solution:
+      "Our product cuts through the noise and delivers real results. Built by experts who understand your pain points, it transforms your workflow in days, not months.",
+    cta: "Start your free trial today and see the difference",
+    visualDirection:
+      "Open with frustrated person at desk, transition to confident user with product, end with success metrics",
+    audioNotes: "Start with tense background music, shift to uplifting tone at solution reveal",
+    estimatedDuration: 30,
+    generationNotes: "Focus on pain-solution narrative with strong emotional appeal",
+  },
+  {
+    hook: "What if you could 10x your productivity overnight?",
+    problemAgitation:
+      "You're working harder than ever, but the results aren't matching your effort. Tasks pile up, deadlines loom, and there's never enough time.",
+    solution:
+      "Introducing a smarter way to work. Our AI-powered solution handles the heavy lifting so you can focus on what matters most.",
+    cta: "Join thousands who've already transformed their workflow",
+    visualDirection:
+      "Split screen: chaos vs calm. Show before/after transformation with real user testimonials",
+    audioNotes: "Energetic opening, testimonial background music, triumphant closing",
+    estimatedDuration: 45,
+    generationNotes: "Productivity angle with social proof emphasis",
+  },
+  {
+    hook: "The secret top performers don't want you to know",
+    problemAgitation:
+      "While you're grinding through the same old methods, industry leaders are using tools that give them an unfair advantage. The gap grows wider every day.",
+    solution:
+      "Now you can access the same technology that's driving success for the top 1%. No complex setup, no steep learning curve - just results.",
+    cta: "Level up your game - get started free",
+    visualDirection:
+      "Mysterious opening, reveal of 'insider' knowledge, empowerment montage",
+    audioNotes: "Intrigue-building intro, confident reveal, motivational close",
+    estimatedDuration: 35,
+    generationNotes: "Exclusivity and FOMO angle targeting ambitious professionals",
+  },
+];
+
+const MOCK_PATTERNS = {
+  patterns: [
+    'Strong emotional hooks perform 40% better',
+    'Questions in hooks increase CTR by 25%',
+    'Shorter problem statements (< 50 words) convert better',
+    'Clear, single CTAs outperform multiple CTAs',
+  ],
+  recommendations: [
+    'Focus on curiosity-gap hooks',
+    'Keep problem agitation concise but impactful',
+    'Use social proof in solution sections',
+    'Test urgency-based CTAs',
+  ],
+};
+
+/**
+ * Deterministic offline provider for development and tests. Ignores the prompt
+ * and derives canned responses from the structured operation input.
+ */
+export class MockProvider implements AIProvider {
+  readonly name = 'mock' as const;
+  readonly defaultModel = 'mock';
+
+  async complete(request: AICompletionRequest): Promise<AICompletion> {
+    return {
+      content: JSON.stringify(this.respond(request.input)),
+      model: this.defaultModel,
+      usage: { inputTokens: 0, outputTokens: 0 },
+    };
+  }
+
+  async *stream(request: AICompletionRequest): AsyncIterable<AIStreamEvent> {
+    const completion = await this.complete(request);
+    for (let i = 0; i < completion.content.length; i += STREAM_CHUNK_SIZE) {
+      yield { type: 'delta', text: completion.content.slice(i, i + STREAM_CHUNK_SIZE) };
+    }
+    yield { type: 'done', completion };
+  }
+
+  private respond(input: AIOperationInput): unknown {
+    switch (input.operation) {
+      case 'generate_angles':
+        // Create variations based on seed data
+        return {
+          angles: MOCK_ANGLES.slice(0, input.count).map((angle, index) => ({
+            ...angle,
+            hook: `${angle.hook} - ${input.seedData.product_name}`,
+            solution: angle.solution.replace('Our product', input.seedData.product_name),
+            generationNotes: `Mock generation #${index + 1} for ${input.seedData.product_name}. Tone: ${input.seedData.tone}`,
+          })),
+        };
+
+      case 'localize':
+        return this.localize(input);
+
+      case 'analyze_patterns':
+        return MOCK_PATTERNS;
+
+      case 'generate_iterations':
+        return {
+          angles: input.winnerAngles.slice(0, input.count).map((angle, i) => ({
+            ...angle,
+            hook: `[ITERATION] ${angle.hook}`,
+            generationNotes: `Iteration based on winner #${i + 1}. Applied patterns: ${input.patterns.slice(0, 2).join(', ')}`,
+          })),
+        };
+    }
+  }
+
+  private localize(
+    input: Extract<AIOperationInput, { operation: 'localize' }>
+  ): LocalizedContentData {
+    const { angle, platform, localeName, platformStyle } = input;
+
+    // Create mock localized content
+    const script = `[${localeName} - ${platform}]\n\n${angle.hook}\n\n${angle.problemAgitation}\n\n${angle.solution}\n\n${angle.cta}`;
+
+    return {
+      script,
+      captions: [
+        { timestamp_start: 0, timestamp_end: 3, text: angle.hook, style: 'emphasis' },
+        { timestamp_start: 3, timestamp_end: 12, text: angle.problemAgitation, style: 'normal' },
+        { timestamp_start: 12, timestamp_end: 22, text: angle.solution, style: 'normal' },
+        { timestamp_start: 22, timestamp_end: 30, text: angle.cta, style: 'emphasis' },
+      ],
+      onScreenText: [
+        { timestamp: 0, duration: 3, text: angle.hook.substring(0, 50), position: 'center', animation: 'pop' },
+        { timestamp: 22, duration: 5, text: 'Link in bio!', position: 'bottom', animation: 'fade' },
+      ],
+      culturalNotes: `Adapted for ${localeName} market. Style adjusted for ${platformStyle}.`,
+      platformAdjustments: `Optimized for ${platform}: ${platformStyle}`,
+    };
+  }
+}
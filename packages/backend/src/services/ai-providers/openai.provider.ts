@@ -0,0 +1,108 @@
+import OpenAI from 'openai';
+import { AIServiceError } from '../../types/index.js';
+import type {
+  AICompletion,
+  AICompletionRequest,
+  AIProvider,
+  AIProviderName,
+  AIStreamEvent,
+} from './types.js';
+
+export interface OpenAIProviderOptions {
+  name: AIProviderName;
+  apiKey: string;
+  defaultModel: string;
+  baseURL?: string;
+}
+
+/**
+ * Chat Completions provider. Also used for local OpenAI-compatible servers
+ * (Ollama, vLLM) by pointing `baseURL` at them.
+ */
+export class OpenAIProvider implements AIProvider {
+  readonly name: AIProviderName;
+  readonly defaultModel: string;
+  private client: OpenAI;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.name = options.name;
+    this.defaultModel = options.defaultModel;
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      ...(options.baseURL && { baseURL: options.baseURL }),
+    });
+  }
+
+  async complete(request: AICompletionRequest): Promise<AICompletion> {
+    const response = await this.client.chat.completions.create(
+      {
+        model: request.model,
+        messages: this.buildMessages(request),
+        temperature: request.temperature,
+        response_format: { type: 'json_object' },
+      },
+      { signal: request.signal }
+    );
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new AIServiceError(`Empty response from ${this.name}`);
+    }
+
+    return {
+      content,
+      model: response.model,
+      usage: response.usage && {
+        inputTokens: response.usage.prompt_tokens,
+        outputTokens: response.usage.completion_tokens,
+      },
+    };
+  }
+
+  async *stream(request: AICompletionRequest): AsyncIterable<AIStreamEvent> {
+    const stream = await this.client.chat.completions.create(
+      {
+        model: request.model,
+        messages: this.buildMessages(request),
+        temperature: request.temperature,
+        response_format: { type: 'json_object' },
+        stream: true,
+        // Usage arrives in a final chunk with no choices
+        stream_options: { include_usage: true },
+      },
+      { signal: request.signal }
+    );
+
+    let content = '';
+    let model = request.model;
+    let usage: AICompletion['usage'];
+
+    for await (const chunk of stream) {
+      model = chunk.model || model;
+      if (chunk.usage) {
+        usage = {
+          inputTokens: chunk.usage.prompt_tokens,
+          outputTokens: chunk.usage.completion_tokens,
+        };
+      }
+      const text = chunk.choices[0]?.delta?.content;
+      if (text) {
+        content += text;
+        yield { type: 'delta', text };
+      }
+    }
+
+    if (!content) {
+      throw new AIServiceError(`Empty response from ${this.name}`);
+    }
+    yield { type: 'done', completion: { content, model, usage } };
+  }
+
+  private buildMessages(request: AICompletionRequest) {
+    return [
+      { role: 'system' as const, content: request.system },
+      { role: 'user' as const, content: request.prompt },
+      ...(request.followUps ?? []),
+    ];
+  }
+}
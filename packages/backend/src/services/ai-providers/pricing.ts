@@ -0,0 +1,65 @@
+// USD per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+/**
+ * List prices for common hosted models, matched by the longest prefix so dated
+ * snapshots (e.g. "claude-3-5-sonnet-20241022") resolve to their family.
+ */
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  mock: { input: 0, output: 0 },
+};
+
+/**
+ * Parse AI_MODEL_PRICING, e.g. "llama3.1=0/0,my-model=0.5/1.5".
+ */
+export function parseModelPricing(value: string | undefined): Record<string, ModelPricing> {
+  const result: Record<string, ModelPricing> = {};
+  if (!value) return result;
+
+  for (const entry of value.split(',').map((e) => e.trim()).filter(Boolean)) {
+    const [model, prices] = entry.split('=').map((part) => part.trim());
+    const [input, output] = (prices ?? '').split('/').map(Number);
+    if (!model || input === undefined || output === undefined || !(input >= 0) || !(output >= 0)) {
+      throw new Error(`Invalid AI_MODEL_PRICING entry: "${entry}"`);
+    }
+    result[model] = { input, output };
+  }
+
+  return result;
+}
+
+export function findModelPricing(
+  model: string,
+  pricing: Record<string, ModelPricing>
+): ModelPricing | undefined {
+  const match = Object.keys(pricing)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? pricing[match] : undefined;
+}
+
+/**
+ * Estimated cost of a completion in USD, or undefined for models without a price.
+ */
+export function estimateCostUsd(
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+  pricing: Record<string, ModelPricing>
+): number | undefined {
+  const price = findModelPricing(model, pricing);
+  if (!price) return undefined;
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
@@ -0,0 +1,84 @@
+import type {
+  AIOperation,
+  AIProviderName,
+  GeneratedAngle,
+  Locale,
+  Platform,
+  SeedData,
+} from '../../types/index.js';
+
+/**
+ * Structured inputs behind each prompt. Model-backed providers only need the
+ * rendered prompt; the mock provider builds its canned response from these.
+ */
+export type AIOperationInput =
+  | {
+      operation: 'generate_angles';
+      seedData: SeedData;
+      count: number;
+    }
+  | {
+      operation: 'localize';
+      angle: GeneratedAngle;
+      locale: Locale;
+      platform: Platform;
+      localeName: string;
+      platformStyle: string;
+      seedData: SeedData;
+    }
+  | {
+      operation: 'analyze_patterns';
+      winners: Array<{
+        angle: GeneratedAngle;
+        metrics: { ctr: number; roas: number | null; conversions: number };
+      }>;
+    }
+  | {
+      operation: 'generate_iterations';
+      winnerAngles: GeneratedAngle[];
+      patterns: string[];
+      seedData: SeedData;
+      count: number;
+    };
+
+export interface AIChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface AICompletionRequest {
+  model: string;
+  system: string;
+  prompt: string;
+  // Turns after the prompt, e.g. a rejected response and the repair request
+  followUps?: AIChatMessage[];
+  temperature: number;
+  input: AIOperationInput;
+  // Aborts the request, e.g. when a streaming client disconnects
+  signal?: AbortSignal;
+}
+
+export interface AICompletion {
+  // Raw model output, expected to be a JSON document
+  content: string;
+  model: string;
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+  };
+}
+
+// A streamed completion yields text deltas, then the assembled completion
+export type AIStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; completion: AICompletion };
+
+export interface AIProvider {
+  readonly name: AIProviderName;
+  readonly defaultModel: string;
+  complete(request: AICompletionRequest): Promise<AICompletion>;
+  // Optional; callers fall back to complete() for providers without streaming
+  stream?(request: AICompletionRequest): AsyncIterable<AIStreamEvent>;
+}
+
+export type { AIOperation, AIProviderName };
@@ -0,0 +1,238 @@
+import {
+  aiUsageRepository,
+  projectRepository,
+  workspaceRepository,
+} from '../repositories/index.js';
+import { workspaceService } from './workspace.service.js';
+import { config } from '../utils/config.js';
+import { createChildLogger } from '../utils/logger.js';
+import { BudgetExceededError, NotFoundError } from '../types/index.js';
+import type { Decimal } from '@prisma/client/runtime/library';
+import type {
+  AIBudgetStatus,
+  AIOperation,
+  AIRequestContext,
+  AIUsageDay,
+  AIUsageTotals,
+} from '../types/index.js';
+import {
+  DEFAULT_MODEL_PRICING,
+  estimateCostUsd,
+  parseModelPricing,
+  type ModelPricing,
+} from './ai-providers/index.js';
+
+const logger = createChildLogger('ai-usage-service');
+
+export interface RecordUsageInput {
+  operation: AIOperation;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ProjectAIUsage {
+  projectId: string;
+  from: string;
+  to: string;
+  days: AIUsageDay[];
+  totals: AIUsageTotals;
+  budget: {
+    project: AIBudgetStatus;
+    workspace: AIBudgetStatus;
+  };
+}
+
+const emptyTotals = (): AIUsageTotals => ({
+  calls: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  costUsd: 0,
+});
+
+function addTotals(target: AIUsageTotals, row: AIUsageTotals): void {
+  target.calls += row.calls;
+  target.promptTokens += row.promptTokens;
+  target.completionTokens += row.completionTokens;
+  target.costUsd += row.costUsd;
+}
+
+// Budgets reset at the start of each calendar month, UTC
+function startOfMonth(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+function toBudgetStatus(budget: Decimal | null, spentUsd: number): AIBudgetStatus {
+  const monthlyBudgetUsd = budget === null ? null : Number(budget);
+  return {
+    monthlyBudgetUsd,
+    spentUsd,
+    remainingUsd: monthlyBudgetUsd === null ? null : Math.max(monthlyBudgetUsd - spentUsd, 0),
+  };
+}
+
+class AIUsageService {
+  private pricing: Record<string, ModelPricing>;
+
+  constructor() {
+    this.pricing = { ...DEFAULT_MODEL_PRICING, ...parseModelPricing(config.AI_MODEL_PRICING) };
+  }
+
+  /**
+   * Persist the token usage of one completion. Metering must never fail the
+   * AI call itself, so errors are logged and swallowed.
+   */
+  async record(context: AIRequestContext, usage: RecordUsageInput): Promise<void> {
+    const cost = estimateCostUsd(
+      usage.model,
+      usage.promptTokens,
+      usage.completionTokens,
+      this.pricing
+    );
+    if (cost === undefined) {
+      logger.debug({ model: usage.model }, 'No pricing for model; usage recorded at zero cost');
+    }
+
+    try {
+      await aiUsageRepository.create({
+        workspaceId: context.workspaceId,
+        projectId: context.projectId,
+        userId: context.userId,
+        ...usage,
+        costUsd: cost ?? 0,
+      });
+    } catch (error) {
+      logger.error({ error, operation: usage.operation }, 'Failed to record AI usage');
+    }
+  }
+
+  /**
+   * Throws BudgetExceededError once this month's spend has reached the project's
+   * or the workspace's budget. Checked before each call, so the call that
+   * crosses the line still completes.
+   */
+  async assertWithinBudget(workspaceId: string, projectId?: string): Promise<void> {
+    const [workspace, project] = await Promise.all([
+      workspaceRepository.findById(workspaceId),
+      projectId ? projectRepository.findById(projectId, workspaceId) : null,
+    ]);
+    const since = startOfMonth();
+
+    if (project?.aiMonthlyBudgetUsd != null) {
+      const status = toBudgetStatus(
+        project.aiMonthlyBudgetUsd,
+        await aiUsageRepository.sumCostSince({ projectId: project.id }, since)
+      );
+      if (status.remainingUsd === 0) {
+        throw new BudgetExceededError('Monthly AI budget for this project has been reached', {
+          scope: 'project',
+          projectId: project.id,
+          ...status,
+        });
+      }
+    }
+
+    if (workspace?.aiMonthlyBudgetUsd != null) {
+      const status = toBudgetStatus(
+        workspace.aiMonthlyBudgetUsd,
+        await aiUsageRepository.sumCostSince({ workspaceId }, since)
+      );
+      if (status.remainingUsd === 0) {
+        throw new BudgetExceededError('Monthly AI budget for this workspace has been reached', {
+          scope: 'workspace',
+          workspaceId,
+          ...status,
+        });
+      }
+    }
+  }
+
+  /**
+   * Daily usage for the last `days` days (including today) plus the current
+   * month's spend against each budget.
+   */
+  async getProjectUsage(
+    workspaceId: string,
+    projectId: string,
+    days: number
+  ): Promise<ProjectAIUsage> {
+    const [project, workspace] = await Promise.all([
+      projectRepository.findById(projectId, workspaceId),
+      workspaceRepository.findById(workspaceId),
+    ]);
+    if (!project || !workspace) {
+      throw new NotFoundError('Project');
+    }
+
+    const to = new Date();
+    const from = new Date(
+      Date.UTC(to.getUTCFullYear(), to.getUTCMonth(), to.getUTCDate() - (days - 1))
+    );
+    const monthStart = startOfMonth(to);
+
+    const [rows, projectSpend, workspaceSpend] = await Promise.all([
+      aiUsageRepository.rollupByDay(projectId, from),
+      aiUsageRepository.sumCostSince({ projectId }, monthStart),
+      aiUsageRepository.sumCostSince({ workspaceId }, monthStart),
+    ]);
+
+    const byDate = new Map<string, AIUsageDay>();
+    const totals = emptyTotals();
+    for (const { day, operation, ...row } of rows) {
+      const date = day.toISOString().slice(0, 10);
+      let entry = byDate.get(date);
+      if (!entry) {
+        entry = { date, ...emptyTotals(), byOperation: {} };
+        byDate.set(date, entry);
+      }
+      addTotals(entry, row);
+      entry.byOperation[operation] = row;
+      addTotals(totals, row);
+    }
+
+    return {
+      projectId,
+      from: from.toISOString().slice(0, 10),
+      to: to.toISOString().slice(0, 10),
+      days: [...byDate.values()],
+      totals,
+      budget: {
+        project: toBudgetStatus(project.aiMonthlyBudgetUsd, projectSpend),
+        workspace: toBudgetStatus(workspace.aiMonthlyBudgetUsd, workspaceSpend),
+      },
+    };
+  }
+
+  async setProjectBudget(
+    userId: string,
+    workspaceId: string,
+    projectId: string,
+    monthlyBudgetUsd: number | null
+  ) {
+    await workspaceService.assertManager(userId, workspaceId);
+
+    const exists = await projectRepository.exists(projectId, workspaceId);
+    if (!exists) {
+      throw new NotFoundError('Project');
+    }
+
+    const project = await projectRepository.update(projectId, {
+      aiMonthlyBudgetUsd: monthlyBudgetUsd,
+    });
+    logger.info({ projectId, monthlyBudgetUsd }, 'Project AI budget updated');
+    return project;
+  }
+
+  async setWorkspaceBudget(userId: string, workspaceId: string, monthlyBudgetUsd: number | null) {
+    await workspaceService.assertManager(userId, workspaceId);
+
+    const workspace = await workspaceRepository.update(workspaceId, {
+      aiMonthlyBudgetUsd: monthlyBudgetUsd,
+    });
+    logger.info({ workspaceId, monthlyBudgetUsd }, 'Workspace AI budget updated');
+    return workspace;
+  }
+}
+
+export const aiUsageService = new AIUsageService();
@@ -1,71 +1,80 @@
-import OpenAI from 'openai';
+import type { z } from 'zod';
 import { config } from '../utils/config.js';
 import { createChildLogger } from '../utils/logger.js';
-import { AIServiceError } from '../types/index.js';
-import type { SeedData, GeneratedAngle, Locale, Platform, LocalizedContentData } from '../types/index.js';
+import { AIServiceError, AppError } from '../types/index.js';
+import type {
+  SeedData,
+  GeneratedAngle,
+  Locale,
+  Platform,
+  LocalizedContentData,
+  ProjectAISettings,
+  AIRequestContext,
+} from '../types/index.js';
+import {
+  generatedAngleSchema,
+  generatedAnglesResponseSchema,
+  localizedContentResponseSchema,
+  patternAnalysisResponseSchema,
+} from '../validators/index.js';
+import {
+  getAIProvider,
+  parseOperationProviders,
+  type AIChatMessage,
+  type AICompletion,
+  type AICompletionRequest,
+  type AIOperation,
+  type AIOperationInput,
+  type AIProvider,
+  type AIProviderName,
+  type AIStreamEvent,
+} from './ai-providers/index.js';
+import { aiUsageService } from './ai-usage.service.js';
+import { promptTemplateService, seedDataVariables } from './prompt-template.service.js';
+import type { TemplateVariables } from '../utils/template.js';
+import { JsonArrayStreamParser } from '../utils/json-stream.js';
+import { getLocaleInfo } from '../utils/locales.js';
+import { getPlatform } from '../utils/platforms.js';
 
 const logger = createChildLogger('ai-service');
 
-// Mock data for development without API key
-const MOCK_ANGLES: GeneratedAngle[] = [
-  {
-    hook: "Stop wasting money on solutions that don't work",
-    problemAgitation:
-      "Every day, you're losing time and money trying to fix problems that keep coming back. The frustration builds as you watch competitors pull ahead while you're stuck in the same cycle.",
-    solution:
-      "Our product cuts through the noise and delivers real results. Built by experts who understand your pain points, it transforms your workflow in days, not months.",
-    cta: "Start your free trial today and see the difference",
-    visualDirection:
-      "Open with frustrated person at desk, transition to confident user with product, end with success metrics",
-    audioNotes: "Start with tense background music, shift to uplifting tone at solution reveal",
-    estimatedDuration: 30,
-    generationNotes: "Focus on pain-solution narrative with strong emotional appeal",
-  },
-  {
-    hook: "What if you could 10x your productivity overnight?",
-    problemAgitation:
-      "You're working harder than ever, but the results aren't matching your effort. Tasks pile up, deadlines loom, and there's never enough time.",
-    solution:
-      "Introducing a smarter way to work. Our AI-powered solution handles the heavy lifting so you can focus on what matters most.",
-    cta: "Join thousands who've already transformed their workflow",
-    visualDirection:
-      "Split screen: chaos vs calm. Show before/after transformation with real user testimonials",
-    audioNotes: "Energetic opening, testimonial background music, triumphant closing",
-    estimatedDuration: 45,
-    generationNotes: "Productivity angle with social proof emphasis",
-  },
-  {
-    hook: "The secret top performers don't want you to know",
-    problemAgitation:
-      "While you're grinding through the same old methods, industry leaders are using tools that give them an unfair advantage. The gap grows wider every day.",
-    solution:
-      "Now you can access the same technology that's driving success for the top 1%. No complex setup, no steep learning curve - just results.",
-    cta: "Level up your game - get started free",
-    visualDirection:
-      "Mysterious opening, reveal of 'insider' knowledge, empowerment montage",
-    audioNotes: "Intrigue-building intro, confident reveal, motivational close",
-    estimatedDuration: 35,
-    generationNotes: "Exclusivity and FOMO angle targeting ambitious professionals",
-  },
-];
-
-const LOCALE_NAMES: Record<Locale, string> = {
-  'en-US': 'English (US)',
-  'es-ES': 'Spanish (Spain)',
-  'fr-FR': 'French (France)',
-  'de-DE': 'German (Germany)',
-  'pt-BR': 'Portuguese (Brazil)',
-};
-
-const PLATFORM_STYLES: Record<Platform, string> = {
-  tiktok: 'casual, trendy, use hooks and quick cuts',
-  instagram: 'polished, aspirational, story-driven',
-  youtube: 'informative, thorough, value-packed',
-};
+interface RequestSpec {
+  operation: AIOperation;
+  // Bound into the operation's active prompt template
+  variables: TemplateVariables;
+  temperature: number;
+  input: AIOperationInput;
+  context?: AIRequestContext;
+}
+
+interface CompletionSpec<T> extends RequestSpec {
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+}
+
+interface PreparedRequest {
+  provider: AIProvider;
+  request: AICompletionRequest;
+  promptVersion: string;
+}
+
+// Operations refused once a project or workspace is over its monthly budget
+const BUDGETED_OPERATIONS: AIOperation[] = ['generate_angles', 'localize', 'generate_iterations'];
+
+// Rough token count for completions cut off before the provider reported usage
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+interface CompletionResult<T> {
+  data: T;
+  // Label of the prompt template version that was rendered
+  promptVersion: string;
+}
+
+type ParsedResponse<T> = { success: true; data: T } | { success: false; issues: z.ZodIssue[] };
 
 class AIService {
-  private openai: OpenAI | null = null;
   private mockMode: boolean;
+  private defaultProvider: AIProviderName;
+  private operationProviders: Partial<Record<AIOperation, AIProviderName>>;
 
   constructor() {
     // Production guard: Never allow mock mode in production
@@ -76,228 +85,384 @@ class AIService {
       );
     }
 
-    // Force mock mode OFF in production regardless of env vars
+    // Force mock mode OFF in production regardless of env vars. Elsewhere it
+    // routes every operation to the offline mock provider.
     const isProduction = config.NODE_ENV === 'production';
-    this.mockMode = isProduction ? false : (config.AI_MOCK_MODE || !config.OPENAI_API_KEY);
+    this.mockMode = isProduction
+      ? false
+      : config.AI_MOCK_MODE || (!config.AI_PROVIDER && !config.OPENAI_API_KEY);
 
-    if (!this.mockMode && config.OPENAI_API_KEY) {
-      this.openai = new OpenAI({
-        apiKey: config.OPENAI_API_KEY,
-      });
-    } else if (isProduction && !config.OPENAI_API_KEY) {
-      // In production, we must have a real API key
-      throw new Error('OPENAI_API_KEY is required in production environment');
+    this.defaultProvider = config.AI_PROVIDER ?? 'openai';
+    this.operationProviders = parseOperationProviders(config.AI_OPERATION_PROVIDERS);
+
+    if (isProduction) {
+      if (this.defaultProvider === 'mock') {
+        throw new Error('AI_PROVIDER=mock is not allowed in production environment');
+      }
+      // Fail at startup, not on first request, if the default provider lacks credentials
+      getAIProvider(this.defaultProvider);
     }
 
     logger.info({
       mockMode: this.mockMode,
+      defaultProvider: this.mockMode ? 'mock' : this.defaultProvider,
+      operationProviders: this.operationProviders,
       environment: config.NODE_ENV,
-      hasApiKey: !!config.OPENAI_API_KEY
     }, 'AI Service initialized');
   }
 
-  async generateAngles(seedData: SeedData, count: number): Promise<GeneratedAngle[]> {
+  /**
+   * Pick the provider and model for an operation. Precedence: the project's
+   * per-operation setting, the project default, AI_OPERATION_PROVIDERS, AI_PROVIDER.
+   */
+  resolveProvider(
+    operation: AIOperation,
+    settings?: ProjectAISettings | null
+  ): { provider: AIProvider; model: string } {
     if (this.mockMode) {
-      logger.info({ count }, 'Generating mock angles');
-      return this.generateMockAngles(seedData, count);
+      const provider = getAIProvider('mock');
+      return { provider, model: provider.defaultModel };
+    }
+
+    const selection = [settings?.operations?.[operation], settings].find((s) => s?.provider) ?? {
+      provider: this.operationProviders[operation] ?? this.defaultProvider,
+    };
+    const providerName = selection.provider ?? this.defaultProvider;
+
+    if (providerName === 'mock' && config.NODE_ENV === 'production') {
+      throw new AIServiceError('The mock AI provider is not available in production');
     }
 
-    return this.generateRealAngles(seedData, count);
+    const provider = getAIProvider(providerName);
+    return { provider, model: selection.model ?? provider.defaultModel };
   }
 
-  private generateMockAngles(seedData: SeedData, count: number): GeneratedAngle[] {
-    // Create variations based on seed data
-    return MOCK_ANGLES.slice(0, count).map((angle, index) => ({
-      ...angle,
-      hook: `${angle.hook} - ${seedData.product_name}`,
-      solution: angle.solution.replace('Our product', seedData.product_name),
-      generationNotes: `Mock generation #${index + 1} for ${seedData.product_name}. Tone: ${seedData.tone}`,
-    }));
+  /**
+   * Request a completion and validate it against the operation's schema. An
+   * invalid response is sent back to the model with its validation errors up
+   * to AI_REPAIR_ATTEMPTS times before failing with the remaining issues.
+   * Calls made with a context are budget-checked and every attempt is metered.
+   */
+  private async complete<T>(spec: CompletionSpec<T>): Promise<CompletionResult<T>> {
+    const { provider, request, promptVersion } = await this.prepare(spec);
+    const maxAttempts = config.AI_REPAIR_ATTEMPTS + 1;
+    let followUps: AIChatMessage[] = [];
+    let issues: z.ZodIssue[] = [];
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const completion = await provider.complete({ ...request, followUps });
+      await this.recordCompletion(spec, provider, completion, attempt);
+
+      const result = this.parseResponse(completion.content, spec.schema);
+      if (result.success) {
+        return { data: result.data, promptVersion };
+      }
+
+      issues = result.issues;
+      logger.warn(
+        { operation: spec.operation, provider: provider.name, attempt, issues },
+        'AI response failed validation'
+      );
+
+      // Only the latest rejected response is replayed to keep repair prompts small
+      followUps = [
+        { role: 'assistant', content: completion.content },
+        { role: 'user', content: this.buildRepairPrompt(issues) },
+      ];
+    }
+
+    throw new AIServiceError(`AI response failed validation after ${maxAttempts} attempt(s)`, {
+      operation: spec.operation,
+      provider: provider.name,
+      model: request.model,
+      promptVersion,
+      issues,
+    });
   }
 
-  private async generateRealAngles(seedData: SeedData, count: number): Promise<GeneratedAngle[]> {
-    if (!this.openai) {
-      throw new AIServiceError('OpenAI client not initialized');
+  // Budget check, prompt rendering and provider selection shared by every call
+  private async prepare(spec: RequestSpec): Promise<PreparedRequest> {
+    const { context } = spec;
+    if (context && BUDGETED_OPERATIONS.includes(spec.operation)) {
+      await aiUsageService.assertWithinBudget(context.workspaceId, context.projectId);
     }
 
-    const prompt = this.buildAngleGenerationPrompt(seedData, count);
+    const template = await promptTemplateService.resolve(spec.operation, context?.projectId);
+    const { system, prompt } = promptTemplateService.render(template, spec.variables);
+    const { provider, model } = this.resolveProvider(spec.operation, context?.settings);
+
+    return {
+      provider,
+      request: { model, system, prompt, temperature: spec.temperature, input: spec.input },
+      promptVersion: template.label,
+    };
+  }
+
+  private async recordCompletion(
+    spec: RequestSpec,
+    provider: AIProvider,
+    completion: AICompletion,
+    attempt: number
+  ): Promise<void> {
+    logger.debug(
+      {
+        operation: spec.operation,
+        provider: provider.name,
+        model: completion.model,
+        usage: completion.usage,
+        attempt,
+      },
+      'AI completion received'
+    );
+
+    if (spec.context) {
+      await aiUsageService.record(spec.context, {
+        operation: spec.operation,
+        provider: provider.name,
+        model: completion.model,
+        promptTokens: completion.usage?.inputTokens ?? 0,
+        completionTokens: completion.usage?.outputTokens ?? 0,
+      });
+    }
+  }
 
+  private async recordPartialCompletion(
+    spec: RequestSpec,
+    { provider, request }: PreparedRequest,
+    content: string
+  ): Promise<void> {
+    const prompt = [
+      request.system,
+      request.prompt,
+      ...(request.followUps ?? []).map((message) => message.content),
+    ];
+    await this.recordCompletion(
+      spec,
+      provider,
+      {
+        content,
+        model: request.model,
+        usage: {
+          inputTokens: estimateTokens(prompt.join('\n')),
+          outputTokens: estimateTokens(content),
+        },
+      },
+      1
+    );
+  }
+
+  // Providers without streaming deliver the whole response as a single delta
+  private async *completeAsStream(
+    provider: AIProvider,
+    request: AICompletionRequest
+  ): AsyncIterable<AIStreamEvent> {
+    const completion = await provider.complete(request);
+    yield { type: 'delta', text: completion.content };
+    yield { type: 'done', completion };
+  }
+
+  private parseResponse<T>(
+    content: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>
+  ): ParsedResponse<T> {
+    let json: unknown;
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4-turbo-preview',
-        messages: [
+      json = JSON.parse(content);
+    } catch (error) {
+      return {
+        success: false,
+        issues: [
           {
-            role: 'system',
-            content: `You are an expert UGC (User Generated Content) creative director specializing in short-form video ads.
-            You create compelling angle cards that convert viewers into customers.
-            Always respond with valid JSON arrays.`,
+            code: 'custom',
+            path: [],
+            message: `Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
           },
-          { role: 'user', content: prompt },
         ],
-        temperature: 0.8,
-        response_format: { type: 'json_object' },
-      });
+      };
+    }
 
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new AIServiceError('Empty response from OpenAI');
-      }
+    const result = schema.safeParse(json);
+    return result.success
+      ? { success: true, data: result.data }
+      : { success: false, issues: result.error.issues };
+  }
 
-      const parsed = JSON.parse(content) as { angles: GeneratedAngle[] };
-      return parsed.angles;
-    } catch (error) {
-      logger.error({ error }, 'Failed to generate angles');
-      if (error instanceof AIServiceError) throw error;
-      throw new AIServiceError('Failed to generate angles', { originalError: String(error) });
-    }
+  private buildRepairPrompt(issues: z.ZodIssue[]): string {
+    const errors = issues
+      .map((issue) => `- ${issue.path.length ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+      .join('\n');
+
+    return `Your previous response did not match the required JSON format:
+${errors}
+
+Respond again with the complete corrected JSON object only, following the format from the original instructions.`;
   }
 
-  private buildAngleGenerationPrompt(seedData: SeedData, count: number): string {
-    return `Generate ${count} unique UGC ad angle cards for the following product:
-
-Product: ${seedData.product_name}
-Description: ${seedData.product_description}
-Target Audience: ${seedData.target_audience}
-Key Benefits: ${seedData.key_benefits.join(', ')}
-Pain Points: ${seedData.pain_points.join(', ')}
-Tone: ${seedData.tone}
-Platforms: ${seedData.platforms.join(', ')}
-${seedData.brand_guidelines ? `Brand Guidelines: ${seedData.brand_guidelines}` : ''}
-${seedData.unique_selling_points?.length ? `USPs: ${seedData.unique_selling_points.join(', ')}` : ''}
-
-For each angle, provide:
-1. hook: A compelling opening line (5-15 words) that stops the scroll
-2. problemAgitation: Describe the pain point vividly (2-3 sentences)
-3. solution: Present the product as the solution (2-3 sentences)
-4. cta: A clear call to action (1 sentence)
-5. visualDirection: Brief notes for video visuals
-6. audioNotes: Suggestions for music/voiceover tone
-7. estimatedDuration: Recommended video length in seconds (15-60)
-8. generationNotes: Your reasoning for this angle
-
-Each angle should take a different approach - vary the emotional hooks, pain points emphasized, and creative direction.
-
-Respond with JSON in this exact format:
-{
-  "angles": [
-    {
-      "hook": "...",
-      "problemAgitation": "...",
-      "solution": "...",
-      "cta": "...",
-      "visualDirection": "...",
-      "audioNotes": "...",
-      "estimatedDuration": 30,
-      "generationNotes": "..."
-    }
-  ]
-}`;
+  // Angles as a text block for the {{winners}} template variable
+  private formatWinners(angles: GeneratedAngle[], heading: (index: number) => string): string {
+    return angles
+      .map(
+        (a, i) => `${heading(i)}
+Hook: ${a.hook}
+Problem: ${a.problemAgitation}
+Solution: ${a.solution}
+CTA: ${a.cta}`
+      )
+      .join('\n\n');
   }
 
-  async localizeContent(
-    angle: GeneratedAngle,
-    targetLocale: Locale,
-    targetPlatform: Platform,
-    seedData: SeedData
-  ): Promise<LocalizedContentData> {
-    if (this.mockMode) {
-      return this.generateMockLocalization(angle, targetLocale, targetPlatform);
+  async generateAngles(
+    seedData: SeedData,
+    count: number,
+    context?: AIRequestContext
+  ): Promise<GeneratedAngle[]> {
+    try {
+      const { data, promptVersion } = await this.complete({
+        operation: 'generate_angles',
+        variables: { ...seedDataVariables(seedData), count },
+        temperature: 0.8,
+        input: { operation: 'generate_angles', seedData, count },
+        schema: generatedAnglesResponseSchema,
+        context,
+      });
+      return data.angles.map((angle) => ({ ...angle, promptVersion }));
+    } catch (error) {
+      logger.error({ error }, 'Failed to generate angles');
+      if (error instanceof AppError) throw error;
+      throw new AIServiceError('Failed to generate angles', { originalError: String(error) });
     }
-
-    return this.generateRealLocalization(angle, targetLocale, targetPlatform, seedData);
   }
 
-  private generateMockLocalization(
-    angle: GeneratedAngle,
-    targetLocale: Locale,
-    targetPlatform: Platform
-  ): LocalizedContentData {
-    const localeName = LOCALE_NAMES[targetLocale];
-    const platformStyle = PLATFORM_STYLES[targetPlatform];
+  /**
+   * Generate angles as the model writes them, yielding each one as soon as its
+   * JSON object is complete and valid. Yielded angles cannot be taken back, so
+   * invalid ones are skipped rather than re-prompted; the call only fails when
+   * the response contains no valid angle at all.
+   */
+  async *streamAngles(
+    seedData: SeedData,
+    count: number,
+    context?: AIRequestContext,
+    signal?: AbortSignal
+  ): AsyncGenerator<GeneratedAngle> {
+    const spec: RequestSpec = {
+      operation: 'generate_angles',
+      variables: { ...seedDataVariables(seedData), count },
+      temperature: 0.8,
+      input: { operation: 'generate_angles', seedData, count },
+      context,
+    };
 
-    // Create mock localized content
-    const script = `[${localeName} - ${targetPlatform}]\n\n${angle.hook}\n\n${angle.problemAgitation}\n\n${angle.solution}\n\n${angle.cta}`;
+    // Set once the request is sent, until its usage is recorded
+    let unmetered: PreparedRequest | undefined;
+    let received = '';
 
-    return {
-      script,
-      captions: [
-        { timestamp_start: 0, timestamp_end: 3, text: angle.hook, style: 'emphasis' },
-        { timestamp_start: 3, timestamp_end: 12, text: angle.problemAgitation, style: 'normal' },
-        { timestamp_start: 12, timestamp_end: 22, text: angle.solution, style: 'normal' },
-        { timestamp_start: 22, timestamp_end: 30, text: angle.cta, style: 'emphasis' },
-      ],
-      onScreenText: [
-        { timestamp: 0, duration: 3, text: angle.hook.substring(0, 50), position: 'center', animation: 'pop' },
-        { timestamp: 22, duration: 5, text: 'Link in bio!', position: 'bottom', animation: 'fade' },
-      ],
-      culturalNotes: `Adapted for ${localeName} market. Style adjusted for ${platformStyle}.`,
-      platformAdjustments: `Optimized for ${targetPlatform}: ${platformStyle}`,
-    };
+    try {
+      const prepared = await this.prepare(spec);
+      const { provider, request, promptVersion } = prepared;
+      const streamRequest = { ...request, signal };
+      const events = provider.stream?.(streamRequest) ?? this.completeAsStream(provider, streamRequest);
+      const parser = new JsonArrayStreamParser('angles');
+      const issues: z.ZodIssue[] = [];
+      let yielded = 0;
+      unmetered = prepared;
+
+      for await (const event of events) {
+        if (event.type === 'done') {
+          unmetered = undefined;
+          await this.recordCompletion(spec, provider, event.completion, 1);
+          continue;
+        }
+
+        received += event.text;
+        for (const item of parser.push(event.text)) {
+          if (yielded >= count) continue;
+          const result = generatedAngleSchema.safeParse(item);
+          if (!result.success) {
+            logger.warn({ issues: result.error.issues }, 'Skipping invalid streamed angle');
+            issues.push(...result.error.issues);
+            continue;
+          }
+          yielded++;
+          yield { ...result.data, promptVersion };
+        }
+      }
+
+      if (yielded === 0) {
+        throw new AIServiceError('AI response contained no valid angles', {
+          operation: spec.operation,
+          provider: provider.name,
+          model: request.model,
+          promptVersion,
+          issues,
+        });
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        logger.info('Angle stream aborted by the client');
+      } else {
+        logger.error({ error }, 'Failed to stream angles');
+      }
+      if (error instanceof AppError) throw error;
+      throw new AIServiceError('Failed to generate angles', { originalError: String(error) });
+    } finally {
+      // The stream stopped before the provider reported usage: the client went
+      // away, or the stream failed. Meter an estimate so budgets still apply.
+      if (unmetered) {
+        await this.recordPartialCompletion(spec, unmetered, received);
+      }
+    }
   }
 
-  private async generateRealLocalization(
+  async localizeContent(
     angle: GeneratedAngle,
     targetLocale: Locale,
     targetPlatform: Platform,
-    seedData: SeedData
+    seedData: SeedData,
+    context?: AIRequestContext
   ): Promise<LocalizedContentData> {
-    if (!this.openai) {
-      throw new AIServiceError('OpenAI client not initialized');
-    }
-
-    const prompt = `Localize this UGC ad script for ${LOCALE_NAMES[targetLocale]} audience on ${targetPlatform}.
-
-Original Script:
-Hook: ${angle.hook}
-Problem: ${angle.problemAgitation}
-Solution: ${angle.solution}
-CTA: ${angle.cta}
-
-Product: ${seedData.product_name}
-Platform Style: ${PLATFORM_STYLES[targetPlatform]}
-
-Requirements:
-1. Translate and culturally adapt the content
-2. Maintain the emotional impact and persuasive elements
-3. Adjust for platform-specific norms (${targetPlatform})
-4. Add appropriate captions with timestamps
-5. Suggest on-screen text placements
-6. Note any cultural considerations
-
-Respond with JSON:
-{
-  "script": "Full adapted script",
-  "captions": [{"timestamp_start": 0, "timestamp_end": 3, "text": "...", "style": "normal|emphasis|whisper"}],
-  "onScreenText": [{"timestamp": 0, "duration": 3, "text": "...", "position": "top|center|bottom", "animation": "fade|slide|pop"}],
-  "culturalNotes": "Notes on cultural adaptations made",
-  "platformAdjustments": "Platform-specific changes"
-}`;
-
+    const locale = getLocaleInfo(targetLocale);
+    const platform = getPlatform(targetPlatform);
+    const { safeZone, captions } = platform;
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4-turbo-preview',
-        messages: [
-          {
-            role: 'system',
-            content: `You are an expert localization specialist for social media advertising.
-            You understand cultural nuances and platform-specific requirements.
-            Always respond with valid JSON.`,
-          },
-          { role: 'user', content: prompt },
-        ],
+      const { data } = await this.complete({
+        operation: 'localize',
+        variables: {
+          ...seedDataVariables(seedData),
+          locale: targetLocale,
+          locale_name: locale.name,
+          locale_direction: locale.direction,
+          locale_date_format: locale.dateFormat,
+          locale_plural_forms: locale.pluralCategories,
+          locale_guidance: locale.culturalGuidance,
+          platform: platform.name,
+          platform_style: platform.style,
+          platform_aspect_ratio: platform.aspectRatio,
+          platform_duration: `${platform.recommendedDuration.min}-${platform.recommendedDuration.max}s (max ${platform.maxDuration}s)`,
+          platform_safe_zone: `keep text out of the top ${safeZone.top}%, bottom ${safeZone.bottom}%, left ${safeZone.left}% and right ${safeZone.right}% of the frame`,
+          platform_caption_rules: `at most ${captions.maxLines} lines of ${captions.maxCharsPerLine} characters`,
+          hook: angle.hook,
+          problem_agitation: angle.problemAgitation,
+          solution: angle.solution,
+          cta: angle.cta,
+        },
         temperature: 0.7,
-        response_format: { type: 'json_object' },
+        input: {
+          operation: 'localize',
+          angle,
+          locale: targetLocale,
+          platform: targetPlatform,
+          localeName: locale.name,
+          platformStyle: platform.style,
+          seedData,
+        },
+        schema: localizedContentResponseSchema,
+        context,
       });
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new AIServiceError('Empty response from OpenAI');
-      }
-
-      return JSON.parse(content) as LocalizedContentData;
+      return data;
     } catch (error) {
       logger.error({ error, targetLocale, targetPlatform }, 'Failed to localize content');
-      if (error instanceof AIServiceError) throw error;
+      if (error instanceof AppError) throw error;
       throw new AIServiceError('Failed to localize content', { originalError: String(error) });
     }
   }
@@ -306,78 +471,30 @@ Respond with JSON:
     winners: Array<{
       angle: GeneratedAngle;
       metrics: { ctr: number; roas: number | null; conversions: number };
-    }>
+    }>,
+    context?: AIRequestContext
   ): Promise<{ patterns: string[]; recommendations: string[] }> {
-    if (this.mockMode) {
-      return {
-        patterns: [
-          'Strong emotional hooks perform 40% better',
-          'Questions in hooks increase CTR by 25%',
-          'Shorter problem statements (< 50 words) convert better',
-          'Clear, single CTAs outperform multiple CTAs',
-        ],
-        recommendations: [
-          'Focus on curiosity-gap hooks',
-          'Keep problem agitation concise but impactful',
-          'Use social proof in solution sections',
-          'Test urgency-based CTAs',
-        ],
-      };
-    }
-
-    if (!this.openai) {
-      throw new AIServiceError('OpenAI client not initialized');
-    }
-
-    const prompt = `Analyze these top-performing UGC ad angles and identify patterns:
-
-${winners
-  .map(
-    (w, i) => `
-Angle ${i + 1} (CTR: ${w.metrics.ctr.toFixed(2)}%, ROAS: ${w.metrics.roas?.toFixed(2) ?? 'N/A'}):
-Hook: ${w.angle.hook}
-Problem: ${w.angle.problemAgitation}
-Solution: ${w.angle.solution}
-CTA: ${w.angle.cta}
-`
-  )
-  .join('\n')}
-
-Identify:
-1. Common patterns in successful hooks
-2. Structural similarities in messaging
-3. Tone and language patterns
-4. Recommendations for next iteration
-
-Respond with JSON:
-{
-  "patterns": ["pattern 1", "pattern 2", ...],
-  "recommendations": ["recommendation 1", "recommendation 2", ...]
-}`;
-
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4-turbo-preview',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert performance marketing analyst.',
-          },
-          { role: 'user', content: prompt },
-        ],
+      const { data } = await this.complete({
+        operation: 'analyze_patterns',
+        variables: {
+          winners: this.formatWinners(
+            winners.map((w) => w.angle),
+            (i) => {
+              const { ctr, roas } = winners[i]?.metrics ?? { ctr: 0, roas: null };
+              return `Angle ${i + 1} (CTR: ${ctr.toFixed(2)}%, ROAS: ${roas?.toFixed(2) ?? 'N/A'}):`;
+            }
+          ),
+        },
         temperature: 0.5,
-        response_format: { type: 'json_object' },
+        input: { operation: 'analyze_patterns', winners },
+        schema: patternAnalysisResponseSchema,
+        context,
       });
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new AIServiceError('Empty response from OpenAI');
-      }
-
-      return JSON.parse(content) as { patterns: string[]; recommendations: string[] };
+      return data;
     } catch (error) {
       logger.error({ error }, 'Failed to analyze patterns');
-      if (error instanceof AIServiceError) throw error;
+      if (error instanceof AppError) throw error;
       throw new AIServiceError('Failed to analyze patterns', { originalError: String(error) });
     }
   }
@@ -386,87 +503,27 @@ Respond with JSON:
     winnerAngles: GeneratedAngle[],
     patterns: string[],
     seedData: SeedData,
-    count: number
+    count: number,
+    context?: AIRequestContext
   ): Promise<GeneratedAngle[]> {
-    if (this.mockMode) {
-      return winnerAngles.slice(0, count).map((angle, i) => ({
-        ...angle,
-        hook: `[ITERATION] ${angle.hook}`,
-        generationNotes: `Iteration based on winner #${i + 1}. Applied patterns: ${patterns.slice(0, 2).join(', ')}`,
-      }));
-    }
-
-    if (!this.openai) {
-      throw new AIServiceError('OpenAI client not initialized');
-    }
-
-    const prompt = `Generate ${count} new UGC ad angles based on these winning patterns:
-
-Winning Patterns:
-${patterns.map((p) => `- ${p}`).join('\n')}
-
-Top Performing Angles for Reference:
-${winnerAngles
-  .map(
-    (a, i) => `
-Winner ${i + 1}:
-Hook: ${a.hook}
-Problem: ${a.problemAgitation}
-Solution: ${a.solution}
-CTA: ${a.cta}
-`
-  )
-  .join('\n')}
-
-Product: ${seedData.product_name}
-Description: ${seedData.product_description}
-Target Audience: ${seedData.target_audience}
-
-Create new angles that:
-1. Apply the winning patterns identified
-2. Maintain what worked but test new variations
-3. Push creative boundaries while staying on-brand
-
-Respond with JSON:
-{
-  "angles": [
-    {
-      "hook": "...",
-      "problemAgitation": "...",
-      "solution": "...",
-      "cta": "...",
-      "visualDirection": "...",
-      "audioNotes": "...",
-      "estimatedDuration": 30,
-      "generationNotes": "Explain how this applies winning patterns"
-    }
-  ]
-}`;
-
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4-turbo-preview',
-        messages: [
-          {
-            role: 'system',
-            content: `You are an expert UGC creative director focused on iterative optimization.`,
-          },
-          { role: 'user', content: prompt },
-        ],
+      const { data, promptVersion } = await this.complete({
+        operation: 'generate_iterations',
+        variables: {
+          ...seedDataVariables(seedData),
+          count,
+          patterns: patterns.map((p) => `- ${p}`).join('\n'),
+          winners: this.formatWinners(winnerAngles, (i) => `Winner ${i + 1}:`),
+        },
         temperature: 0.85,
-        response_format: { type: 'json_object' },
+        input: { operation: 'generate_iterations', winnerAngles, patterns, seedData, count },
+        schema: generatedAnglesResponseSchema,
+        context,
       });
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new AIServiceError('Empty response from OpenAI');
-      }
-
-      const parsed = JSON.parse(content) as { angles: GeneratedAngle[] };
-      return parsed.angles;
+      return data.angles.map((angle) => ({ ...angle, promptVersion }));
     } catch (error) {
       logger.error({ error }, 'Failed to generate iterations');
-      if (error instanceof AIServiceError) throw error;
+      if (error instanceof AppError) throw error;
       throw new AIServiceError('Failed to generate iterations', { originalError: String(error) });
     }
   }
@@ -0,0 +1,285 @@
+import { Prisma, type AngleCard } from '@prisma/client';
+import {
+  angleRepository,
+  angleReviewRepository,
+  projectRepository,
+  type AngleCommentThread,
+  type AngleCommentWithAuthor,
+  type AngleReviewerWithUser,
+  type AngleStatusEventWithUser,
+  type UserSummary,
+} from '../repositories/index.js';
+import { createChildLogger } from '../utils/logger.js';
+import { checkProjectClaims } from '../utils/claims.js';
+import { hasPermissions } from '../utils/permissions.js';
+import {
+  AuthorizationError,
+  ClaimsViolationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '../types/index.js';
+import type { CreateAngleCommentInput, SubmitAngleReviewInput } from '../validators/index.js';
+
+const logger = createChildLogger('angle-review-service');
+
+export interface AngleReviewSummary {
+  angleId: string;
+  status: string;
+  requiredApprovals: number;
+  approvals: number;
+  rejectionReason: string | null;
+  reviewers: AngleReviewerWithUser[];
+  // Workspace members who can be assigned as reviewers
+  eligibleReviewers: UserSummary[];
+  // Whether the requesting user is one of the reviewers
+  isReviewer: boolean;
+  // Status changes, newest first
+  history: AngleStatusEventWithUser[];
+}
+
+class AngleReviewService {
+  async getReview(workspaceId: string, angleId: string, userId?: string): Promise<AngleReviewSummary> {
+    const angle = await this.findAngle(workspaceId, angleId);
+    const [project, reviewers, eligibleReviewers, history] = await Promise.all([
+      projectRepository.findById(angle.projectId),
+      angleReviewRepository.findReviewers(angleId),
+      this.findEligibleReviewers(workspaceId),
+      angleReviewRepository.findStatusEvents(angleId),
+    ]);
+
+    return {
+      angleId,
+      status: angle.status,
+      requiredApprovals: project?.requiredApprovals ?? 1,
+      approvals: reviewers.filter((reviewer) => reviewer.decision === 'approved').length,
+      rejectionReason: angle.rejectionReason,
+      reviewers,
+      eligibleReviewers,
+      isReviewer: reviewers.some((reviewer) => reviewer.userId === userId),
+      history,
+    };
+  }
+
+  /**
+   * Assign the angle's reviewers. Reviewers who stay on keep their decisions.
+   */
+  async setReviewers(
+    workspaceId: string,
+    angleId: string,
+    userIds: string[],
+    assignedById?: string
+  ): Promise<AngleReviewSummary> {
+    const angle = await this.findAngle(workspaceId, angleId);
+    if (angle.status === 'approved') {
+      throw new ConflictError('Approved angles cannot change reviewers; move the angle back to draft first');
+    }
+
+    const eligible = new Set((await this.findEligibleReviewers(workspaceId)).map((user) => user.id));
+    const ineligible = userIds.filter((userId) => !eligible.has(userId));
+    if (ineligible.length > 0) {
+      throw new ValidationError('Reviewers must be workspace members who can review angles', {
+        userIds: ineligible,
+      });
+    }
+
+    await angleReviewRepository.replaceReviewers(angleId, [...new Set(userIds)], assignedById);
+    logger.info({ angleId, reviewers: userIds.length }, 'Angle reviewers assigned');
+    return this.getReview(workspaceId, angleId, assignedById);
+  }
+
+  /**
+   * Record a reviewer's decision. One rejection rejects the angle; it is
+   * approved once it has the project's required number of approvals.
+   * Approval re-checks the copy against the claims policy, and violations
+   * need an override reason.
+   */
+  async submitReview(
+    workspaceId: string,
+    angleId: string,
+    userId: string,
+    review: SubmitAngleReviewInput
+  ): Promise<AngleCard> {
+    const angle = await this.findAngle(workspaceId, angleId);
+    if (angle.status !== 'in_review') {
+      throw new ConflictError('Only angles in review can be approved or rejected');
+    }
+
+    const reviewers = await angleReviewRepository.findReviewers(angleId);
+    const reviewer = reviewers.find((r) => r.userId === userId);
+    if (!reviewer) {
+      throw new AuthorizationError('Only assigned reviewers can review this angle');
+    }
+
+    if (review.decision === 'rejected') {
+      await angleReviewRepository.recordDecision(reviewer.id, 'rejected');
+      logger.info({ angleId, userId }, 'Angle rejected');
+      return this.moveOutOfReview(angleId, () =>
+        angleRepository.update(
+          angleId,
+          { status: 'rejected', rejectionReason: review.reason ?? null },
+          {
+            expectedStatus: 'in_review',
+            statusEvent: {
+              fromStatus: angle.status,
+              toStatus: 'rejected',
+              userId,
+              reason: review.reason,
+            },
+          }
+        )
+      );
+    }
+
+    const project = await projectRepository.findById(angle.projectId);
+    const claimViolations = project ? checkProjectClaims(project, angle) : [];
+    if (claimViolations.length > 0 && !review.overrideReason) {
+      // Store the findings so the card shows why approval was refused
+      await angleRepository.update(angleId, { claimViolations });
+      throw new ClaimsViolationError(claimViolations);
+    }
+
+    await angleReviewRepository.recordDecision(reviewer.id, 'approved');
+    // Count after saving, so reviewers approving at the same time see each other
+    const approvals = await angleReviewRepository.countApprovals(angleId);
+    const required = project?.requiredApprovals ?? 1;
+
+    const override = claimViolations.length > 0 && {
+      claimsOverrideReason: review.overrideReason,
+      claimsOverriddenById: userId,
+      claimsOverriddenAt: new Date(),
+    };
+    if (override) {
+      logger.warn(
+        { angleId, userId, violations: claimViolations.length },
+        'Claims policy overridden on approval'
+      );
+    }
+
+    if (approvals < required) {
+      logger.info({ angleId, userId, approvals, required }, 'Angle approval recorded');
+      return angleRepository.update(angleId, { claimViolations, ...override });
+    }
+
+    logger.info({ angleId, approvals }, 'Angle approved');
+    return this.moveOutOfReview(angleId, () =>
+      angleRepository.update(
+        angleId,
+        { status: 'approved', claimViolations, ...override },
+        {
+          expectedStatus: 'in_review',
+          statusEvent: {
+            fromStatus: angle.status,
+            toStatus: 'approved',
+            userId,
+            reason: review.reason ?? `Approved by ${approvals} reviewer(s)`,
+          },
+        }
+      )
+    );
+  }
+
+  /**
+   * Run a status change that only applies while the angle is in review. When
+   * a concurrent review got there first, return the angle as that review left
+   * it; the caller's decision is recorded either way.
+   */
+  private async moveOutOfReview(
+    angleId: string,
+    update: () => Promise<AngleCard>
+  ): Promise<AngleCard> {
+    try {
+      return await update();
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+        const current = await angleRepository.findById(angleId);
+        if (!current) throw new NotFoundError('Angle');
+        logger.info({ angleId, status: current.status }, 'Angle already left review');
+        return current;
+      }
+      throw error;
+    }
+  }
+
+  async listComments(workspaceId: string, angleId: string): Promise<AngleCommentThread[]> {
+    await this.findAngle(workspaceId, angleId);
+    return angleReviewRepository.findThreads(angleId);
+  }
+
+  /**
+   * Comment on an angle, optionally anchored to a field and a quote from it.
+   * Replies join the thread of the comment they answer and share its anchor.
+   */
+  async addComment(
+    workspaceId: string,
+    angleId: string,
+    input: CreateAngleCommentInput,
+    authorId?: string
+  ): Promise<AngleCommentWithAuthor> {
+    const angle = await this.findAngle(workspaceId, angleId);
+
+    if (input.parentId) {
+      const parent = await angleReviewRepository.findComment(input.parentId, angleId);
+      if (!parent) {
+        throw new NotFoundError('Comment');
+      }
+      return angleReviewRepository.createComment({
+        angleId,
+        authorId,
+        parentId: parent.parentId ?? parent.id,
+        body: input.body,
+      });
+    }
+
+    if (input.quote) {
+      if (!input.field) {
+        throw new ValidationError('A quote needs the field it comes from');
+      }
+      if (!String(angle[input.field] ?? '').includes(input.quote)) {
+        throw new ValidationError(`The quote does not appear in ${input.field}`);
+      }
+    }
+
+    return angleReviewRepository.createComment({
+      angleId,
+      authorId,
+      field: input.field,
+      quote: input.quote,
+      body: input.body,
+    });
+  }
+
+  async setCommentResolved(
+    workspaceId: string,
+    angleId: string,
+    commentId: string,
+    resolved: boolean
+  ): Promise<AngleCommentWithAuthor> {
+    await this.findAngle(workspaceId, angleId);
+    const comment = await angleReviewRepository.findComment(commentId, angleId);
+    if (!comment) {
+      throw new NotFoundError('Comment');
+    }
+    if (comment.parentId) {
+      throw new ValidationError('Resolve the thread rather than a reply');
+    }
+    return angleReviewRepository.setCommentResolved(commentId, resolved);
+  }
+
+  private async findAngle(workspaceId: string, angleId: string): Promise<AngleCard> {
+    const angle = await angleRepository.findById(angleId, workspaceId);
+    if (!angle) {
+      throw new NotFoundError('Angle');
+    }
+    return angle;
+  }
+
+  private async findEligibleReviewers(workspaceId: string): Promise<UserSummary[]> {
+    const users = await angleReviewRepository.findWorkspaceUsers(workspaceId);
+    return users
+      .filter((user) => hasPermissions(user.permissions, ['angles:review']))
+      .map(({ permissions: _permissions, ...user }) => user);
+  }
+}
+
+export const angleReviewService = new AngleReviewService();
@@ -1,11 +1,38 @@
-import { projectRepository, angleRepository } from '../repositories/index.js';
+import { Prisma } from '@prisma/client';
+import {
+  projectRepository,
+  angleRepository,
+  angleRevisionRepository,
+  angleReviewRepository,
+  type CreateAngleRevisionData,
+} from '../repositories/index.js';
 import { aiService } from './ai.service.js';
+import { aiUsageService } from './ai-usage.service.js';
+import { jobService } from './job.service.js';
 import { createChildLogger } from '../utils/logger.js';
-import { NotFoundError } from '../types/index.js';
-import type { AngleStatus } from '../types/index.js';
-import type { AngleCard } from '@prisma/client';
+import {
+  AIServiceError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '../types/index.js';
+import type {
+  AngleContentField,
+  AngleCopyField,
+  AngleRevisionSource,
+  AngleSnapshot,
+  AngleStatus,
+  FieldChange,
+  FieldDiff,
+} from '../types/index.js';
+import type { AngleCard, AngleRevision, Job } from '@prisma/client';
 import { parseSeedData } from '../schemas/seedData.schema.js';
+import { parseAISettings } from '../schemas/aiSettings.schema.js';
+import { checkProjectClaims } from '../utils/claims.js';
+import { canChangeStatus } from '../utils/angle-workflow.js';
+import { describeChanges, diffFields } from '../utils/text-diff.js';
 import type { UpdateAngleInput } from '../validators/index.js';
+import type { UpdateAngleData } from '../repositories/angle.repository.js';
 
 const logger = createChildLogger('angle-service');
 
@@ -18,10 +45,58 @@ export interface GenerateAnglesResult {
 // Re-export for consumers
 export type { UpdateAngleInput };
 
+// Edits from the API, plus the prompt version when regenerated
+type AngleUpdate = UpdateAngleInput & Pick<UpdateAngleData, 'promptVersion'>;
+
+const COPY_FIELDS: AngleCopyField[] = ['hook', 'problemAgitation', 'solution', 'cta'];
+
+const CONTENT_FIELDS: AngleContentField[] = [
+  ...COPY_FIELDS,
+  'visualDirection',
+  'audioNotes',
+  'estimatedDuration',
+];
+
+function toSnapshot(angle: AngleCard): AngleSnapshot {
+  return {
+    hook: angle.hook,
+    problemAgitation: angle.problemAgitation,
+    solution: angle.solution,
+    cta: angle.cta,
+    visualDirection: angle.visualDirection,
+    audioNotes: angle.audioNotes,
+    estimatedDuration: angle.estimatedDuration,
+  };
+}
+
 class AngleService {
-  async generateAngles(projectId: string, count: number): Promise<GenerateAnglesResult> {
+  /**
+   * Queue angle generation as a background job; the worker runs generateAngles.
+   */
+  async queueAngleGeneration(
+    workspaceId: string,
+    userId: string,
+    projectId: string,
+    count: number
+  ): Promise<Job> {
+    const exists = await projectRepository.exists(projectId, workspaceId);
+    if (!exists) {
+      throw new NotFoundError('Project');
+    }
+    // Refuse up front rather than queueing a job that can only fail
+    await aiUsageService.assertWithinBudget(workspaceId, projectId);
+
+    return jobService.enqueue(workspaceId, userId, 'generate_angles', { projectId, count });
+  }
+
+  async generateAngles(
+    workspaceId: string,
+    projectId: string,
+    count: number,
+    userId?: string
+  ): Promise<GenerateAnglesResult> {
     // Verify project exists
-    const project = await projectRepository.findById(projectId);
+    const project = await projectRepository.findById(projectId, workspaceId);
     if (!project) {
       throw new NotFoundError('Project');
     }
@@ -30,13 +105,19 @@ class AngleService {
     logger.info({ projectId, count }, 'Generating angles for project');
 
     // Generate angles via AI service
-    const generatedAngles = await aiService.generateAngles(seedData, count);
+    const generatedAngles = await aiService.generateAngles(seedData, count, {
+      workspaceId,
+      projectId,
+      userId,
+      settings: parseAISettings(project.aiSettings),
+    });
 
     // Save angles to database - createMany returns count, we need to fetch them
     const createdCount = await angleRepository.createMany(
       generatedAngles.map((angleData) => ({
         projectId,
         ...angleData,
+        claimViolations: checkProjectClaims(project, angleData),
       }))
     );
 
@@ -54,7 +135,48 @@ class AngleService {
     };
   }
 
+  /**
+   * Start streaming angle generation. Project and budget checks run before this
+   * resolves so they can still fail the request normally; each angle is saved
+   * as it arrives and then yielded.
+   */
+  async openAngleStream(
+    workspaceId: string,
+    projectId: string,
+    count: number,
+    userId?: string,
+    signal?: AbortSignal
+  ): Promise<AsyncGenerator<AngleCard>> {
+    const project = await projectRepository.findById(projectId, workspaceId);
+    if (!project) {
+      throw new NotFoundError('Project');
+    }
+    await aiUsageService.assertWithinBudget(workspaceId, projectId);
+
+    const angles = aiService.streamAngles(
+      parseSeedData(project.seedData),
+      count,
+      { workspaceId, projectId, userId, settings: parseAISettings(project.aiSettings) },
+      signal
+    );
+    logger.info({ projectId, count }, 'Streaming angles for project');
+
+    return (async function* () {
+      let created = 0;
+      for await (const angleData of angles) {
+        yield await angleRepository.create({
+          projectId,
+          ...angleData,
+          claimViolations: checkProjectClaims(project, angleData),
+        });
+        created++;
+      }
+      logger.info({ projectId, anglesCreated: created }, 'Angles streamed successfully');
+    })();
+  }
+
   async getProjectAngles(
+    workspaceId: string,
     projectId: string,
     filters?: {
       status?: AngleStatus;
@@ -64,46 +186,238 @@ class AngleService {
     }
   ): Promise<{ angles: AngleCard[]; total: number }> {
     // Verify project exists
-    const exists = await projectRepository.exists(projectId);
+    const exists = await projectRepository.exists(projectId, workspaceId);
     if (!exists) {
       throw new NotFoundError('Project');
     }
 
-    return angleRepository.findByProjectId(projectId, filters);
+    return angleRepository.findByProjectId(projectId, { ...filters, workspaceId });
   }
 
-  async getAngle(id: string): Promise<AngleCard> {
-    const angle = await angleRepository.findById(id);
+  async getAngle(workspaceId: string, id: string): Promise<AngleCard> {
+    const angle = await angleRepository.findById(id, workspaceId);
     if (!angle) {
       throw new NotFoundError('Angle');
     }
     return angle;
   }
 
-  async getAngleById(id: string): Promise<AngleCard> {
-    return this.getAngle(id);
+  async getAngleById(workspaceId: string, id: string): Promise<AngleCard> {
+    return this.getAngle(workspaceId, id);
   }
 
-  async updateAngle(id: string, data: UpdateAngleInput): Promise<AngleCard> {
-    const existing = await angleRepository.findById(id);
+  /**
+   * Update an angle. Content changes bump its version and are recorded as a
+   * revision; status changes follow the review workflow.
+   */
+  async updateAngle(
+    workspaceId: string,
+    id: string,
+    data: AngleUpdate,
+    userId?: string,
+    source: AngleRevisionSource = 'edit'
+  ): Promise<AngleCard> {
+    const existing = await angleRepository.findById(id, workspaceId);
     if (!existing) {
       throw new NotFoundError('Angle');
     }
 
-    return angleRepository.update(id, data);
+    const { status, ...content } = data;
+    const current = toSnapshot(existing);
+    const next: AngleSnapshot = { ...current };
+    for (const field of CONTENT_FIELDS) {
+      if (content[field] !== undefined) Object.assign(next, { [field]: content[field] });
+    }
+    const changes = diffFields(current, next, CONTENT_FIELDS);
+
+    let updated: AngleCard = existing;
+    if (changes.length > 0) {
+      updated = await this.reviseContent(existing, content, next, changes, userId, source);
+    }
+
+    if (status !== undefined && status !== updated.status) {
+      return this.updateAngleStatus(workspaceId, id, status, userId);
+    }
+    return updated;
   }
 
-  async updateAngleStatus(id: string, status: AngleStatus): Promise<AngleCard> {
-    const existing = await angleRepository.findById(id);
+  private async reviseContent(
+    existing: AngleCard,
+    content: Omit<AngleUpdate, 'status'>,
+    next: AngleSnapshot,
+    changes: FieldChange<AngleContentField>[],
+    userId: string | undefined,
+    source: AngleRevisionSource
+  ): Promise<AngleCard> {
+    const { id } = existing;
+    const copyChanged = changes.some((change) => COPY_FIELDS.includes(change.field as AngleCopyField));
+
+    const project = await projectRepository.findById(existing.projectId);
+    const claimViolations = project ? checkProjectClaims(project, next) : [];
+
+    // An override covers the copy it was granted for, so edited copy with
+    // violations has to be approved again
+    const revoke = copyChanged && claimViolations.length > 0 && existing.status === 'approved';
+    if (revoke) {
+      logger.info({ angleId: id }, 'Edited angle violates the claims policy; moved back to draft');
+    }
+
+    const version = existing.version + 1;
+    const revisions: CreateAngleRevisionData[] = [];
+    // Angles edited for the first time keep their content before the edit
+    if (!(await angleRevisionRepository.exists(id))) {
+      revisions.push({ version: existing.version, snapshot: toSnapshot(existing), changes: [], source: 'original' });
+    }
+    revisions.push({ version, snapshot: next, changes, source, createdById: userId });
+
+    try {
+      const updated = await angleRepository.update(
+        id,
+        {
+          ...content,
+          version,
+          claimViolations,
+          ...(copyChanged && {
+            claimsOverrideReason: null,
+            claimsOverriddenById: null,
+            claimsOverriddenAt: null,
+          }),
+          ...(revoke && { status: 'draft' }),
+        },
+        {
+          expectedVersion: existing.version,
+          revisions,
+          // Decisions were made on the old content
+          resetReviews: existing.status === 'in_review',
+          ...(revoke && {
+            statusEvent: {
+              fromStatus: existing.status,
+              toStatus: 'draft',
+              userId,
+              reason: 'Edited copy violates the claims policy',
+            },
+          }),
+        }
+      );
+      logger.info({ angleId: id, version, source, fields: changes.map((c) => c.field) }, 'Angle revised');
+      return updated;
+    } catch (error) {
+      // P2025: the version moved on since we read it; P2002: a concurrent revision won
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        (error.code === 'P2025' || error.code === 'P2002')
+      ) {
+        throw new ConflictError('The angle was changed by someone else; reload and try again');
+      }
+      throw error;
+    }
+  }
+
+  async listRevisions(workspaceId: string, id: string): Promise<AngleRevision[]> {
+    await this.getAngle(workspaceId, id);
+    return angleRevisionRepository.findByAngleId(id);
+  }
+
+  /**
+   * Field-by-field differences between two versions of an angle, with
+   * word-level diffs for text.
+   */
+  async diffRevisions(
+    workspaceId: string,
+    id: string,
+    fromVersion: number,
+    toVersion: number
+  ): Promise<{ from: number; to: number; changes: FieldDiff<AngleContentField>[] }> {
+    await this.getAngle(workspaceId, id);
+    const [from, to] = await Promise.all([
+      angleRevisionRepository.findVersion(id, fromVersion),
+      angleRevisionRepository.findVersion(id, toVersion),
+    ]);
+    if (!from || !to) {
+      throw new NotFoundError('Angle revision');
+    }
+
+    const changes = diffFields(
+      from.snapshot as AngleSnapshot,
+      to.snapshot as AngleSnapshot,
+      CONTENT_FIELDS
+    );
+    return { from: fromVersion, to: toVersion, changes: describeChanges(changes) };
+  }
+
+  /**
+   * Bring back an earlier version's content as a new version, so history is
+   * never rewritten.
+   */
+  async restoreRevision(
+    workspaceId: string,
+    id: string,
+    version: number,
+    userId?: string
+  ): Promise<AngleCard> {
+    await this.getAngle(workspaceId, id);
+    const revision = await angleRevisionRepository.findVersion(id, version);
+    if (!revision) {
+      throw new NotFoundError('Angle revision');
+    }
+
+    return this.updateAngle(workspaceId, id, revision.snapshot as AngleSnapshot, userId, 'restore');
+  }
+
+  /**
+   * Move an angle through the review workflow. Submitting for review starts a
+   * new round of reviewer decisions; approval and rejection come from
+   * reviewers (see angleReviewService).
+   */
+  async updateAngleStatus(
+    workspaceId: string,
+    id: string,
+    status: AngleStatus,
+    userId?: string,
+    reason?: string
+  ): Promise<AngleCard> {
+    const existing = await angleRepository.findById(id, workspaceId);
     if (!existing) {
       throw new NotFoundError('Angle');
     }
+    if (existing.status === status) {
+      return existing;
+    }
+
+    if (!canChangeStatus(existing.status, status)) {
+      throw new ValidationError(
+        status === 'approved' || status === 'rejected'
+          ? 'Angles are approved or rejected by their reviewers'
+          : `An angle cannot move from ${existing.status} to ${status}`
+      );
+    }
 
-    return angleRepository.update(id, { status });
+    if (status === 'in_review') {
+      const [project, reviewers] = await Promise.all([
+        projectRepository.findById(existing.projectId),
+        angleReviewRepository.findReviewers(id),
+      ]);
+      const required = project?.requiredApprovals ?? 1;
+      if (reviewers.length < required) {
+        throw new ValidationError(
+          `Assign at least ${required} reviewer(s) before submitting for review`
+        );
+      }
+    }
+
+    logger.info({ angleId: id, from: existing.status, to: status, userId }, 'Angle status changed');
+    return angleRepository.update(
+      id,
+      { status, ...(existing.status === 'rejected' && { rejectionReason: null }) },
+      {
+        statusEvent: { fromStatus: existing.status, toStatus: status, userId, reason },
+        resetReviews: status === 'in_review',
+      }
+    );
   }
 
-  async deleteAngle(id: string): Promise<void> {
-    const existing = await angleRepository.findById(id);
+  async deleteAngle(workspaceId: string, id: string): Promise<void> {
+    const existing = await angleRepository.findById(id, workspaceId);
     if (!existing) {
       throw new NotFoundError('Angle');
     }
@@ -111,38 +425,50 @@ class AngleService {
     await angleRepository.delete(id);
   }
 
-  async setWinner(angleId: string): Promise<AngleCard> {
-    return this.markAsWinner(angleId);
+  async setWinner(workspaceId: string, angleId: string, userId?: string): Promise<AngleCard> {
+    return this.markAsWinner(workspaceId, angleId, userId);
   }
 
-  async markAsWinner(angleId: string): Promise<AngleCard> {
-    const angle = await angleRepository.findById(angleId);
+  /**
+   * Flag an approved angle as a winner. Only approved angles qualify, so this
+   * cannot bypass the review workflow or the claims policy.
+   */
+  async markAsWinner(workspaceId: string, angleId: string, userId?: string): Promise<AngleCard> {
+    const angle = await angleRepository.findById(angleId, workspaceId);
     if (!angle) {
       throw new NotFoundError('Angle');
     }
+    if (angle.status !== 'approved') {
+      throw new ConflictError(
+        `Only approved angles can be marked as winners; this angle is ${angle.status.replace('_', ' ')}`
+      );
+    }
 
-    return angleRepository.update(angleId, {
-      isWinner: true,
-      status: 'approved',
-    });
+    logger.info({ angleId, userId }, 'Angle marked as a winner');
+    return angleRepository.setWinner(angleId, true);
   }
 
-  async getWinningAngles(projectId: string): Promise<AngleCard[]> {
-    const exists = await projectRepository.exists(projectId);
+  async getWinningAngles(workspaceId: string, projectId: string): Promise<AngleCard[]> {
+    const exists = await projectRepository.exists(projectId, workspaceId);
     if (!exists) {
       throw new NotFoundError('Project');
     }
 
     const { angles } = await angleRepository.findByProjectId(projectId, {
       isWinner: true,
+      workspaceId,
     });
 
     return angles;
   }
 
-  async regenerateAngle(angleId: string): Promise<AngleCard> {
+  async regenerateAngle(
+    workspaceId: string,
+    angleId: string,
+    userId?: string
+  ): Promise<AngleCard> {
     // Get existing angle to get project and current content
-    const angle = await angleRepository.findById(angleId);
+    const angle = await angleRepository.findById(angleId, workspaceId);
     if (!angle) {
       throw new NotFoundError('Angle');
     }
@@ -157,13 +483,24 @@ class AngleService {
     logger.info({ angleId }, 'Regenerating angle');
 
     // Generate a single new angle
-    const [newAngleData] = await aiService.generateAngles(seedData, 1);
-
-    // Update the existing angle with new content
-    const updatedAngle = await angleRepository.update(angleId, {
-      ...newAngleData,
-      status: 'draft', // Reset to draft when regenerated
+    const [newAngleData] = await aiService.generateAngles(seedData, 1, {
+      workspaceId,
+      projectId: project.id,
+      userId,
+      settings: parseAISettings(project.aiSettings),
     });
+    if (!newAngleData) {
+      throw new AIServiceError('Failed to generate angles');
+    }
+
+    // Replace the content; the previous copy stays in the revision history
+    const updatedAngle = await this.updateAngle(
+      workspaceId,
+      angleId,
+      { ...newAngleData, status: 'draft' }, // Reset to draft when regenerated
+      userId,
+      'regenerate'
+    );
 
     logger.info({ angleId }, 'Angle regenerated successfully');
     return updatedAngle;
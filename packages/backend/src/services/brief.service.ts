@@ -0,0 +1,116 @@
+import type { AngleCard, LocalizedContent } from '@prisma/client';
+import {
+  angleRepository,
+  localizedContentRepository,
+  projectRepository,
+} from '../repositories/index.js';
+import { config } from '../utils/config.js';
+import { getLocaleInfo, isLocale } from '../utils/locales.js';
+import { getPlatform, isPlatform } from '../utils/platforms.js';
+import {
+  toBriefHTML,
+  toBriefPDF,
+  type BriefFormat,
+  type CreativeBrief,
+} from '../utils/creative-brief.js';
+import { NotFoundError } from '../types/index.js';
+import type { Caption, Locale, OnScreenText, Platform } from '../types/index.js';
+
+export interface BriefOptions {
+  format: BriefFormat;
+  // Both or neither; the brief covers the source angle only without them
+  locale?: Locale;
+  platform?: Platform;
+}
+
+export interface BriefDownload {
+  body: string | Buffer;
+  filename: string;
+  contentType: string;
+}
+
+class BriefService {
+  /**
+   * Brief for an angle, optionally with one of its localizations.
+   */
+  async getBrief(
+    workspaceId: string,
+    angleId: string,
+    options: BriefOptions
+  ): Promise<BriefDownload> {
+    const angle = await angleRepository.findById(angleId, workspaceId);
+    if (!angle) {
+      throw new NotFoundError('Angle');
+    }
+    const project = await projectRepository.findById(angle.projectId, workspaceId);
+    if (!project) {
+      throw new NotFoundError('Project');
+    }
+
+    let content: LocalizedContent | null = null;
+    if (options.locale && options.platform) {
+      content = await localizedContentRepository.findByAngleAndLocalePlatform(
+        angleId,
+        options.locale,
+        options.platform
+      );
+      if (!content) {
+        throw new NotFoundError('Localized content');
+      }
+    }
+
+    const brief = this.buildBrief(project.name, angle, content ?? undefined);
+    const target = content ? `-${content.locale}-${content.platform}` : '';
+    const filename = `brief-${angleId.slice(0, 8)}${target}.${options.format}`;
+    return options.format === 'pdf'
+      ? { body: await this.renderPdf(brief), filename, contentType: 'application/pdf' }
+      : { body: this.renderHtml(brief), filename, contentType: 'text/html; charset=utf-8' };
+  }
+
+  buildBrief(projectName: string, angle: AngleCard, content?: LocalizedContent): CreativeBrief {
+    const brief: CreativeBrief = {
+      projectName,
+      angle: {
+        id: angle.id,
+        version: angle.version,
+        hook: angle.hook,
+        problemAgitation: angle.problemAgitation,
+        solution: angle.solution,
+        cta: angle.cta,
+        visualDirection: angle.visualDirection,
+        audioNotes: angle.audioNotes,
+        estimatedDuration: angle.estimatedDuration,
+      },
+      // Dated by the content so rebuilding a brief gives the same file
+      generatedAt: content?.updatedAt ?? angle.updatedAt,
+    };
+    if (!content) return brief;
+
+    const locale = isLocale(content.locale) ? getLocaleInfo(content.locale) : null;
+    const platform = isPlatform(content.platform) ? getPlatform(content.platform) : null;
+    brief.localization = {
+      locale: content.locale,
+      localeName: locale?.name ?? content.locale,
+      direction: locale?.direction ?? 'ltr',
+      platform: content.platform,
+      platformName: platform?.name ?? content.platform,
+      maxDuration: platform?.maxDuration,
+      script: content.script,
+      captions: (content.captions as Caption[] | null) ?? [],
+      onScreenText: (content.onScreenText as OnScreenText[] | null) ?? [],
+      culturalNotes: content.culturalNotes,
+      platformAdjustments: content.platformAdjustments,
+    };
+    return brief;
+  }
+
+  renderHtml(brief: CreativeBrief): string {
+    return toBriefHTML(brief);
+  }
+
+  renderPdf(brief: CreativeBrief): Promise<Buffer> {
+    return toBriefPDF(brief, config.BRIEF_FONT_PATH);
+  }
+}
+
+export const briefService = new BriefService();
@@ -1,6 +1,17 @@
 export { aiService } from './ai.service.js';
+export { aiUsageService } from './ai-usage.service.js';
+export { promptTemplateService } from './prompt-template.service.js';
 export { projectService } from './project.service.js';
 export { angleService } from './angle.service.js';
+export { angleReviewService } from './angle-review.service.js';
 export { localizationService } from './localization.service.js';
+export { localizationReviewService } from './localization-review.service.js';
+export { lintService } from './lint.service.js';
 export { packService } from './pack.service.js';
+export { shareLinkService } from './share-link.service.js';
+export { packTemplateService } from './pack-template.service.js';
 export { performanceService } from './performance.service.js';
+export { workspaceService } from './workspace.service.js';
+export { roleService } from './role.service.js';
+export { jobService } from './job.service.js';
+export { briefService } from './brief.service.js';
@@ -0,0 +1,53 @@
+import { jobRepository } from '../repositories/index.js';
+import { createChildLogger } from '../utils/logger.js';
+import { ConflictError, NotFoundError } from '../types/index.js';
+import type { JobPayloads, JobType } from '../types/index.js';
+import type { Job } from '@prisma/client';
+
+const logger = createChildLogger('job-service');
+
+const FINISHED_STATUSES = ['succeeded', 'failed', 'cancelled'];
+
+class JobService {
+  async enqueue<T extends JobType>(
+    workspaceId: string,
+    createdById: string | undefined,
+    type: T,
+    payload: JobPayloads[T]
+  ): Promise<Job> {
+    const job = await jobRepository.create({ workspaceId, createdById, type, payload });
+    logger.info({ jobId: job.id, workspaceId, type }, 'Job queued');
+    return job;
+  }
+
+  async getJob(workspaceId: string, id: string): Promise<Job> {
+    const job = await jobRepository.findById(id, workspaceId);
+    if (!job) {
+      throw new NotFoundError('Job');
+    }
+    return job;
+  }
+
+  /**
+   * Queued jobs are cancelled immediately. Running jobs are flagged and stop
+   * at their next progress update; work finished before that point is kept.
+   */
+  async cancelJob(workspaceId: string, id: string): Promise<Job> {
+    const job = await this.getJob(workspaceId, id);
+
+    if (FINISHED_STATUSES.includes(job.status)) {
+      throw new ConflictError(`Job has already ${job.status}`);
+    }
+
+    if (await jobRepository.cancelIfQueued(id)) {
+      logger.info({ jobId: id }, 'Queued job cancelled');
+      return this.getJob(workspaceId, id);
+    }
+
+    const updated = await jobRepository.requestCancel(id);
+    logger.info({ jobId: id }, 'Cancellation requested for running job');
+    return updated;
+  }
+}
+
+export const jobService = new JobService();
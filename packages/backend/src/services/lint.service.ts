@@ -0,0 +1,95 @@
+import type { LintFinding, LocalizedContent } from '@prisma/client';
+import {
+  angleRepository,
+  lintFindingRepository,
+  localizedContentRepository,
+} from '../repositories/index.js';
+import { createChildLogger } from '../utils/logger.js';
+import { lintContent, type LintIssue, type LintSeverity } from '../utils/content-lint.js';
+import { getPlatform, isPlatform } from '../utils/platforms.js';
+import { NotFoundError } from '../types/index.js';
+import type { Caption, OnScreenText } from '../types/index.js';
+
+const logger = createChildLogger('lint-service');
+
+const SEVERITY_ORDER: Record<string, number> = { error: 0, warning: 1, info: 2 };
+
+export interface LintReport {
+  localizedContentId: string;
+  lintedAt: Date | null;
+  findings: LintFinding[];
+  summary: Record<LintSeverity, number>;
+}
+
+function sortFindings(findings: LintFinding[]): LintFinding[] {
+  return [...findings].sort(
+    (a, b) =>
+      (SEVERITY_ORDER[a.severity] ?? 3) - (SEVERITY_ORDER[b.severity] ?? 3) ||
+      a.field.localeCompare(b.field) ||
+      (a.itemIndex ?? -1) - (b.itemIndex ?? -1)
+  );
+}
+
+class LintService {
+  /**
+   * Lint a localization against its platform's rules and store the findings,
+   * replacing those from any earlier run.
+   */
+  async lint(content: LocalizedContent, estimatedDuration?: number | null): Promise<LintFinding[]> {
+    let issues: LintIssue[];
+    if (isPlatform(content.platform)) {
+      issues = lintContent(
+        {
+          script: content.script,
+          captions: content.captions as unknown as Caption[],
+          onScreenText: content.onScreenText as unknown as OnScreenText[],
+        },
+        { platform: getPlatform(content.platform), estimatedDuration: estimatedDuration ?? undefined }
+      );
+    } else {
+      // The platform was removed from the registry after this was generated
+      issues = [
+        {
+          rule: 'unknown_platform',
+          severity: 'error',
+          message: `Platform "${content.platform}" is no longer supported`,
+          field: 'script',
+        },
+      ];
+    }
+
+    const findings = await lintFindingRepository.replaceForContent(content.id, issues);
+    logger.debug({ id: content.id, findings: findings.length }, 'Localization linted');
+    return sortFindings(findings);
+  }
+
+  /**
+   * The stored findings for a localization. Content is re-linted whenever it
+   * changes, so only content that predates linting is linted here.
+   */
+  async getReport(workspaceId: string, id: string): Promise<LintReport> {
+    const content = await localizedContentRepository.findById(id, workspaceId);
+    if (!content) {
+      throw new NotFoundError('Localized content');
+    }
+
+    let findings: LintFinding[];
+    let lintedAt = content.lintedAt;
+    if (!lintedAt) {
+      const angle = await angleRepository.findById(content.angleId, workspaceId);
+      findings = await this.lint(content, angle?.estimatedDuration);
+      lintedAt = new Date();
+    } else {
+      findings = sortFindings(await lintFindingRepository.findByContentId(id));
+    }
+
+    const summary: Record<LintSeverity, number> = { error: 0, warning: 0, info: 0 };
+    for (const finding of findings) {
+      summary[finding.severity as LintSeverity]++;
+    }
+
+    return { localizedContentId: id, lintedAt, findings, summary };
+  }
+}
+
+export const lintService = new LintService();
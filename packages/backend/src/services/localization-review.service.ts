@@ -0,0 +1,154 @@
+import type { LocalizedContent } from '@prisma/client';
+import {
+  angleRepository,
+  angleReviewRepository,
+  localeReviewerRepository,
+  localizedContentRepository,
+  projectRepository,
+  type LocaleReviewerWithUser,
+  type UserSummary,
+} from '../repositories/index.js';
+import { createChildLogger } from '../utils/logger.js';
+import { hasPermissions } from '../utils/permissions.js';
+import {
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '../types/index.js';
+import type { Locale } from '../types/index.js';
+import type { ReviewLocalizationInput } from '../validators/index.js';
+
+const logger = createChildLogger('localization-review-service');
+
+export interface LocaleReviewers {
+  reviewers: LocaleReviewerWithUser[];
+  // Workspace members who can be assigned as reviewers
+  eligibleReviewers: UserSummary[];
+}
+
+class LocalizationReviewService {
+  async getLocaleReviewers(workspaceId: string, projectId: string): Promise<LocaleReviewers> {
+    await this.findProject(workspaceId, projectId);
+    const [reviewers, eligibleReviewers] = await Promise.all([
+      localeReviewerRepository.findByProject(projectId),
+      this.findEligibleReviewers(workspaceId),
+    ]);
+    return { reviewers, eligibleReviewers };
+  }
+
+  /**
+   * Assign a project's native-speaker reviewers for one locale.
+   */
+  async setLocaleReviewers(
+    workspaceId: string,
+    projectId: string,
+    locale: Locale,
+    userIds: string[]
+  ): Promise<LocaleReviewerWithUser[]> {
+    await this.findProject(workspaceId, projectId);
+
+    const eligible = new Set((await this.findEligibleReviewers(workspaceId)).map((user) => user.id));
+    const ineligible = userIds.filter((userId) => !eligible.has(userId));
+    if (ineligible.length > 0) {
+      throw new ValidationError('Reviewers must be workspace members who can review localizations', {
+        userIds: ineligible,
+      });
+    }
+
+    const reviewers = await localeReviewerRepository.replace(projectId, locale, [...new Set(userIds)]);
+    logger.info({ projectId, locale, reviewers: reviewers.length }, 'Locale reviewers assigned');
+    return reviewers;
+  }
+
+  /**
+   * Send a localization to a reviewer for its locale. Content already in
+   * review is reassigned.
+   */
+  async submitForReview(
+    workspaceId: string,
+    contentId: string,
+    reviewerId?: string
+  ): Promise<LocalizedContent> {
+    const { content, projectId } = await this.findContent(workspaceId, contentId);
+    if (content.reviewStatus === 'approved') {
+      throw new ConflictError('This localization is already approved');
+    }
+
+    const reviewers = await localeReviewerRepository.findByProject(projectId, content.locale);
+    if (reviewers.length === 0) {
+      throw new ValidationError(`No reviewers are assigned for ${content.locale}`);
+    }
+    const reviewer = reviewerId
+      ? reviewers.find((r) => r.userId === reviewerId)
+      : reviewers[0];
+    if (!reviewer) {
+      throw new ValidationError(`That user does not review ${content.locale} for this project`);
+    }
+
+    logger.info({ contentId, reviewerId: reviewer.userId }, 'Localization submitted for review');
+    return localizedContentRepository.update(contentId, {
+      reviewStatus: 'in_review',
+      reviewerId: reviewer.userId,
+      reviewNote: null,
+      reviewedAt: null,
+    });
+  }
+
+  /**
+   * Record the assigned reviewer's decision.
+   */
+  async review(
+    workspaceId: string,
+    contentId: string,
+    userId: string,
+    input: ReviewLocalizationInput
+  ): Promise<LocalizedContent> {
+    const { content } = await this.findContent(workspaceId, contentId);
+    if (content.reviewStatus !== 'in_review') {
+      throw new ConflictError('Only localizations in review can be approved or sent back');
+    }
+    if (content.reviewerId !== userId) {
+      throw new AuthorizationError('Only the assigned reviewer can review this localization');
+    }
+
+    logger.info({ contentId, userId, decision: input.decision }, 'Localization reviewed');
+    return localizedContentRepository.update(contentId, {
+      reviewStatus: input.decision,
+      reviewNote: input.note ?? null,
+      reviewedAt: new Date(),
+    });
+  }
+
+  private async findProject(workspaceId: string, projectId: string) {
+    const project = await projectRepository.findById(projectId, workspaceId);
+    if (!project) {
+      throw new NotFoundError('Project');
+    }
+    return project;
+  }
+
+  private async findContent(
+    workspaceId: string,
+    contentId: string
+  ): Promise<{ content: LocalizedContent; projectId: string }> {
+    const content = await localizedContentRepository.findById(contentId, workspaceId);
+    if (!content) {
+      throw new NotFoundError('Localized content');
+    }
+    const angle = await angleRepository.findById(content.angleId, workspaceId);
+    if (!angle) {
+      throw new NotFoundError('Angle');
+    }
+    return { content, projectId: angle.projectId };
+  }
+
+  private async findEligibleReviewers(workspaceId: string): Promise<UserSummary[]> {
+    const users = await angleReviewRepository.findWorkspaceUsers(workspaceId);
+    return users
+      .filter((user) => hasPermissions(user.permissions, ['localizations:review']))
+      .map(({ permissions: _permissions, ...user }) => user);
+  }
+}
+
+export const localizationReviewService = new LocalizationReviewService();
@@ -1,20 +1,103 @@
-import { angleRepository, localizedContentRepository, projectRepository } from '../repositories/index.js';
+import { Prisma } from '@prisma/client';
+import {
+  angleRepository,
+  localizedContentRepository,
+  localizedContentRevisionRepository,
+  projectRepository,
+} from '../repositories/index.js';
 import { aiService } from './ai.service.js';
+import { aiUsageService } from './ai-usage.service.js';
+import { jobService } from './job.service.js';
+import { lintService } from './lint.service.js';
 import { createChildLogger } from '../utils/logger.js';
-import { NotFoundError } from '../types/index.js';
-import { PLATFORM_LIMITS, validateContentLength } from '../utils/platform-limits.js';
+import { config } from '../utils/config.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { describeChanges, diffFields } from '../utils/text-diff.js';
+import {
+  detectCaptionFormat,
+  parseCaptionFile,
+  type CaptionImportIssue,
+} from '../utils/caption-import.js';
+import {
+  BudgetExceededError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '../types/index.js';
 import { parseSeedData } from '../schemas/seedData.schema.js';
-import type { Locale, Platform, GeneratedAngle } from '../types/index.js';
-import type { LocalizedContent } from '@prisma/client';
-import type { UpdateLocalizedContentInput } from '../validators/index.js';
+import { parseAISettings } from '../schemas/aiSettings.schema.js';
+import type {
+  Caption,
+  ContentOrigin,
+  FieldDiff,
+  Locale,
+  LocalizedContentField,
+  LocalizedContentSnapshot,
+  OnScreenText,
+  Platform,
+  GeneratedAngle,
+  LocalizedContentData,
+  ProgressReporter,
+} from '../types/index.js';
+import type { Job, LocalizedContent, LocalizedContentRevision } from '@prisma/client';
 import type { UpdateLocalizedContentData } from '../repositories/localized-content.repository.js';
+import { captionSchema, type UpdateLocalizedContentInput } from '../validators/index.js';
 
 const logger = createChildLogger('localization-service');
 
+const CONTENT_FIELDS: LocalizedContentField[] = [
+  'script',
+  'captions',
+  'onScreenText',
+  'culturalNotes',
+  'platformAdjustments',
+];
+
+function toSnapshot(content: LocalizedContent): LocalizedContentSnapshot {
+  return {
+    script: content.script,
+    captions: content.captions as unknown as Caption[],
+    onScreenText: content.onScreenText as unknown as OnScreenText[],
+    culturalNotes: content.culturalNotes,
+    platformAdjustments: content.platformAdjustments,
+  };
+}
+
+function generatedSnapshot(localized: LocalizedContentData): LocalizedContentSnapshot {
+  return {
+    script: localized.script,
+    captions: localized.captions,
+    onScreenText: localized.onScreenText,
+    culturalNotes: localized.culturalNotes ?? null,
+    platformAdjustments: localized.platformAdjustments ?? null,
+  };
+}
+
+// One line per caption or on-screen text item, so list changes diff by word
+function describeValue(field: LocalizedContentField, value: unknown): string | null {
+  if (field === 'captions') {
+    return (value as Caption[])
+      .map((caption) => `[${caption.timestamp_start}-${caption.timestamp_end}s] ${caption.text}`)
+      .join('\n');
+  }
+  if (field === 'onScreenText') {
+    return (value as OnScreenText[])
+      .map((item) => `[${item.timestamp}s +${item.duration}s ${item.position}] ${item.text}`)
+      .join('\n');
+  }
+  return value === null ? '' : null;
+}
+
+function humanEditedMessage(locale: Locale, platform: Platform): string {
+  return `The ${locale} ${platform} localization has translator edits; regenerate with force to overwrite them`;
+}
+
 export interface LocalizeRequest {
+  workspaceId: string;
   angleId: string;
   locales: Locale[];
   platforms: Platform[];
+  userId?: string;
 }
 
 export interface LocalizationResult {
@@ -28,12 +111,38 @@ export interface LocalizationResult {
   }>;
 }
 
+export interface CaptionImportResult {
+  content: LocalizedContent;
+  imported: number;
+  // Overlapping cues, imported as they are
+  warnings: CaptionImportIssue[];
+}
+
 class LocalizationService {
-  async localizeAngle(request: LocalizeRequest): Promise<LocalizationResult> {
-    const { angleId, locales, platforms } = request;
+  /**
+   * Queue localization as a background job; the worker runs localizeAngle.
+   */
+  async queueLocalization(request: LocalizeRequest, userId: string): Promise<Job> {
+    const { workspaceId, angleId, locales, platforms } = request;
+
+    const angle = await angleRepository.findById(angleId, workspaceId);
+    if (!angle) {
+      throw new NotFoundError('Angle');
+    }
+    // Refuse up front rather than queueing a job that can only fail
+    await aiUsageService.assertWithinBudget(workspaceId, angle.projectId);
+
+    return jobService.enqueue(workspaceId, userId, 'localize', { angleId, locales, platforms });
+  }
+
+  async localizeAngle(
+    request: LocalizeRequest,
+    onProgress?: ProgressReporter
+  ): Promise<LocalizationResult> {
+    const { workspaceId, angleId, locales, platforms, userId } = request;
 
     // Get angle with project
-    const angle = await angleRepository.findById(angleId);
+    const angle = await angleRepository.findById(angleId, workspaceId);
     if (!angle) {
       throw new NotFoundError('Angle');
     }
@@ -44,6 +153,12 @@ class LocalizationService {
     }
 
     const seedData = parseSeedData(project.seedData);
+    const aiContext = {
+      workspaceId,
+      projectId: project.id,
+      userId,
+      settings: parseAISettings(project.aiSettings),
+    };
     const angleData: GeneratedAngle = {
       hook: angle.hook,
       problemAgitation: angle.problemAgitation,
@@ -58,58 +173,58 @@ class LocalizationService {
     const warnings: LocalizationResult['warnings'] = [];
 
     // Generate localizations for each locale/platform combination
-    for (const locale of locales) {
-      for (const platform of platforms) {
-        try {
-          logger.info({ angleId, locale, platform }, 'Generating localization');
+    const combinations = locales.flatMap((locale) =>
+      platforms.map((platform) => ({ locale, platform }))
+    );
+    let completed = 0;
 
-          const localized = await aiService.localizeContent(
-            angleData,
+    await mapWithConcurrency(
+      combinations,
+      config.LOCALIZATION_CONCURRENCY,
+      async ({ locale, platform }) => {
+        try {
+          const existing = await localizedContentRepository.findByAngleAndLocalePlatform(
+            angleId,
             locale,
-            platform,
-            seedData
+            platform
           );
-
-          // Validate content against platform limits
-          const limits = PLATFORM_LIMITS[platform];
-          const scriptValidation = validateContentLength(localized.script, platform, 'caption');
-
-          if (!scriptValidation.valid) {
+          // Translator edits are only overwritten by an explicit forced regenerate
+          if (existing?.origin === 'human') {
             warnings.push({
               locale,
               platform,
-              type: 'character_limit',
-              message: `Script exceeds ${platform} limit: ${scriptValidation.current}/${scriptValidation.limit} characters`,
+              type: 'human_edited',
+              message: humanEditedMessage(locale, platform),
             });
-          }
+          } else {
+            logger.info({ angleId, locale, platform }, 'Generating localization');
 
-          // Check duration
-          if (
-            angleData.estimatedDuration &&
-            angleData.estimatedDuration > limits.maxDuration
-          ) {
-            warnings.push({
+            const localized = await aiService.localizeContent(
+              angleData,
               locale,
               platform,
-              type: 'duration',
-              message: `Duration ${angleData.estimatedDuration}s exceeds ${platform} max of ${limits.maxDuration}s`,
-            });
+              seedData,
+              aiContext
+            );
+
+            const content = await this.saveGenerated(
+              existing,
+              { angleId, locale, platform },
+              localized,
+              userId
+            );
+
+            // Findings are stored with the content; errors are also reported on the job
+            const findings = await lintService.lint(content, angleData.estimatedDuration);
+            for (const finding of findings.filter((f) => f.severity === 'error')) {
+              warnings.push({ locale, platform, type: finding.rule, message: finding.message });
+            }
+
+            created.push(content);
           }
-
-          // Upsert localized content
-          const content = await localizedContentRepository.upsert({
-            angleId,
-            locale,
-            platform,
-            script: localized.script,
-            captions: localized.captions,
-            onScreenText: localized.onScreenText,
-            culturalNotes: localized.culturalNotes,
-            platformAdjustments: localized.platformAdjustments,
-          });
-
-          created.push(content);
         } catch (error) {
+          // Every remaining combination would fail the same way
+          if (error instanceof BudgetExceededError) throw error;
           logger.error({ error, angleId, locale, platform }, 'Failed to localize');
           warnings.push({
             locale,
@@ -118,8 +233,11 @@ class LocalizationService {
             message: error instanceof Error ? error.message : 'Unknown error',
           });
         }
+
+        completed++;
+        await onProgress?.(completed, combinations.length, `Localized ${locale} for ${platform}`);
       }
-    }
+    );
 
     logger.info(
       { angleId, created: created.length, warnings: warnings.length },
@@ -129,8 +247,13 @@ class LocalizationService {
     return { angleId, created, warnings };
   }
 
-  async getLocalizedContent(angleId: string, locale?: Locale, platform?: Platform) {
-    const exists = await angleRepository.exists(angleId);
+  async getLocalizedContent(
+    workspaceId: string,
+    angleId: string,
+    locale?: Locale,
+    platform?: Platform
+  ) {
+    const exists = await angleRepository.exists(angleId, workspaceId);
     if (!exists) {
       throw new NotFoundError('Angle');
     }
@@ -138,44 +261,113 @@ class LocalizationService {
     return localizedContentRepository.findByAngleId(angleId, { locale, platform });
   }
 
-  async getLocalizedContentById(id: string) {
-    const content = await localizedContentRepository.findById(id);
+  async getLocalizedContentById(workspaceId: string, id: string) {
+    const content = await localizedContentRepository.findById(id, workspaceId);
     if (!content) {
       throw new NotFoundError('Localized content');
     }
     return content;
   }
 
+  /**
+   * Save a translator's edits as a new human revision.
+   */
   async updateLocalizedContent(
+    workspaceId: string,
     id: string,
-    data: UpdateLocalizedContentInput
+    data: UpdateLocalizedContentInput,
+    userId?: string
   ) {
-    const content = await localizedContentRepository.findById(id);
+    const content = await localizedContentRepository.findById(id, workspaceId);
     if (!content) {
       throw new NotFoundError('Localized content');
     }
 
-    // Validate if script is being updated
-    if (data.script) {
-      const validation = validateContentLength(
-        data.script,
-        content.platform as Platform,
-        'caption'
-      );
-      if (!validation.valid) {
-        logger.warn(
-          { id, platform: content.platform, current: validation.current, limit: validation.limit },
-          'Updated script exceeds character limit'
-        );
+    const next: LocalizedContentSnapshot = { ...toSnapshot(content) };
+    for (const field of CONTENT_FIELDS) {
+      if (data[field] !== undefined) Object.assign(next, { [field]: data[field] });
+    }
+
+    const updated = await this.revise(content, next, 'human', userId);
+    const angle = await angleRepository.findById(updated.angleId, workspaceId);
+    await lintService.lint(updated, angle?.estimatedDuration);
+    return updated;
+  }
+
+  /**
+   * Replace the captions with an SRT or WebVTT file, such as one re-timed in
+   * an editor. Saved as a translator edit; nothing is saved if any cue fails.
+   */
+  async importCaptions(
+    workspaceId: string,
+    id: string,
+    file: { filename: string; content: string },
+    userId?: string
+  ): Promise<CaptionImportResult> {
+    await this.getLocalizedContentById(workspaceId, id);
+
+    const format = detectCaptionFormat(file.filename, file.content);
+    const { cues, errors, warnings } = parseCaptionFile(file.content, format);
+    for (const { cue, line, caption } of cues) {
+      const result = captionSchema.safeParse(caption);
+      if (!result.success) {
+        const issue = result.error.issues[0];
+        errors.push({ cue, line, message: `${issue?.path.join('.')}: ${issue?.message}` });
       }
     }
 
-    // Type assertion is safe because zod validation ensures data is valid
-    return localizedContentRepository.update(id, data as UpdateLocalizedContentData);
+    if (errors.length > 0) {
+      throw new ValidationError(`The caption file has ${errors.length} invalid cue(s)`, {
+        errors: errors.sort((a, b) => a.cue - b.cue),
+      });
+    }
+    if (cues.length === 0) {
+      throw new ValidationError('The caption file has no cues');
+    }
+
+    const captions = cues.map(({ caption }) => caption);
+    const content = await this.updateLocalizedContent(workspaceId, id, { captions }, userId);
+    logger.info({ id, format, captions: captions.length }, 'Captions imported');
+    return { content, imported: captions.length, warnings };
+  }
+
+  async listRevisions(workspaceId: string, id: string): Promise<LocalizedContentRevision[]> {
+    await this.getLocalizedContentById(workspaceId, id);
+    return localizedContentRevisionRepository.findByContentId(id);
+  }
+
+  /**
+   * Field-by-field differences between two versions. Without versions, compares
+   * the latest machine output with the current content, which shows what the
+   * translator changed.
+   */
+  async diffRevisions(
+    workspaceId: string,
+    id: string,
+    versions: { from?: number; to?: number } = {}
+  ): Promise<{ from: number; to: number; changes: FieldDiff<LocalizedContentField>[] }> {
+    const content = await this.getLocalizedContentById(workspaceId, id);
+
+    const [from, to] = await Promise.all([
+      versions.from !== undefined
+        ? localizedContentRevisionRepository.findVersion(id, versions.from)
+        : localizedContentRevisionRepository.findLatest(id, 'ai'),
+      localizedContentRevisionRepository.findVersion(id, versions.to ?? content.version),
+    ]);
+    if (!from || !to) {
+      throw new NotFoundError('Localized content revision');
+    }
+
+    const changes = diffFields(
+      from.snapshot as unknown as LocalizedContentSnapshot,
+      to.snapshot as unknown as LocalizedContentSnapshot,
+      CONTENT_FIELDS
+    );
+    return { from: from.version, to: to.version, changes: describeChanges(changes, describeValue) };
   }
 
-  async deleteLocalizedContent(id: string) {
-    const content = await localizedContentRepository.findById(id);
+  async deleteLocalizedContent(workspaceId: string, id: string) {
+    const content = await localizedContentRepository.findById(id, workspaceId);
     if (!content) {
       throw new NotFoundError('Localized content');
     }
@@ -185,21 +377,40 @@ class LocalizationService {
   }
 
   async regenerateLocalization(
+    workspaceId: string,
     angleId: string,
     locale: Locale,
-    platform: Platform
+    platform: Platform,
+    userId?: string,
+    force = false
   ): Promise<LocalizedContent> {
-    const angle = await angleRepository.findById(angleId);
+    const angle = await angleRepository.findById(angleId, workspaceId);
     if (!angle) {
       throw new NotFoundError('Angle');
     }
 
+    // Checked before generating so refusals cost nothing
+    const existing = await localizedContentRepository.findByAngleAndLocalePlatform(
+      angleId,
+      locale,
+      platform
+    );
+    if (existing?.origin === 'human' && !force) {
+      throw new ConflictError(humanEditedMessage(locale, platform));
+    }
+
     const project = await projectRepository.findById(angle.projectId);
     if (!project) {
       throw new NotFoundError('Project');
     }
 
     const seedData = parseSeedData(project.seedData);
+    const aiContext = {
+      workspaceId,
+      projectId: project.id,
+      userId,
+      settings: parseAISettings(project.aiSettings),
+    };
     const angleData: GeneratedAngle = {
       hook: angle.hook,
       problemAgitation: angle.problemAgitation,
@@ -210,23 +421,91 @@ class LocalizationService {
       estimatedDuration: angle.estimatedDuration ?? undefined,
     };
 
-    const localized = await aiService.localizeContent(angleData, locale, platform, seedData);
-
-    const content = await localizedContentRepository.upsert({
-      angleId,
+    const localized = await aiService.localizeContent(
+      angleData,
       locale,
       platform,
-      script: localized.script,
-      captions: localized.captions,
-      onScreenText: localized.onScreenText,
-      culturalNotes: localized.culturalNotes,
-      platformAdjustments: localized.platformAdjustments,
-    });
+      seedData,
+      aiContext
+    );
+
+    const content = await this.saveGenerated(existing, { angleId, locale, platform }, localized, userId);
 
-    logger.info({ angleId, locale, platform }, 'Localization regenerated');
+    await lintService.lint(content, angle.estimatedDuration);
+
+    logger.info(
+      { angleId, locale, platform, overwroteEdits: existing?.origin === 'human' },
+      'Localization regenerated'
+    );
 
     return content;
   }
+
+  /**
+   * Store model output as a new localization, or as a new version of the
+   * existing one.
+   */
+  private async saveGenerated(
+    existing: LocalizedContent | null,
+    target: { angleId: string; locale: Locale; platform: Platform },
+    localized: LocalizedContentData,
+    userId?: string
+  ): Promise<LocalizedContent> {
+    const snapshot = generatedSnapshot(localized);
+    if (existing) {
+      return this.revise(existing, snapshot, 'ai', userId);
+    }
+
+    return localizedContentRepository.create(
+      { ...target, ...localized },
+      { revision: { version: 1, origin: 'ai', snapshot, changes: [], createdById: userId } }
+    );
+  }
+
+  /**
+   * Write new content as the next version. Unchanged content is left alone.
+   */
+  private async revise(
+    content: LocalizedContent,
+    next: LocalizedContentSnapshot,
+    origin: ContentOrigin,
+    userId?: string
+  ): Promise<LocalizedContent> {
+    const changes = diffFields(toSnapshot(content), next, CONTENT_FIELDS);
+    if (changes.length === 0) {
+      return content;
+    }
+
+    // New machine output starts review over; a translator's edit to approved
+    // content goes back to its reviewer
+    const review: UpdateLocalizedContentData =
+      origin === 'ai'
+        ? { reviewStatus: 'machine', reviewerId: null, reviewNote: null, reviewedAt: null }
+        : content.reviewStatus === 'approved'
+          ? { reviewStatus: 'in_review', reviewedAt: null }
+          : {};
+
+    const version = content.version + 1;
+    try {
+      return await localizedContentRepository.update(
+        content.id,
+        { ...next, ...review, version, origin },
+        {
+          expectedVersion: content.version,
+          revision: { version, origin, snapshot: next, changes, createdById: userId },
+        }
+      );
+    } catch (error) {
+      // P2025: the version moved on since we read it; P2002: a concurrent revision won
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        (error.code === 'P2025' || error.code === 'P2002')
+      ) {
+        throw new ConflictError('The localization was changed by someone else; reload and try again');
+      }
+      throw error;
+    }
+  }
 }
 
 export const localizationService = new LocalizationService();
\ No newline at end of file
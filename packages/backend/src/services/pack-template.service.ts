@@ -0,0 +1,83 @@
+import { Prisma, type PackTemplate } from '@prisma/client';
+import { packTemplateRepository } from '../repositories/index.js';
+import { createChildLogger } from '../utils/logger.js';
+import { DEFAULT_PATH_TEMPLATE, PACK_FILE_KINDS, PACK_PATH_TOKENS } from '../utils/pack-layout.js';
+import { ConflictError, NotFoundError } from '../types/index.js';
+import type { CreatePackTemplateInput, UpdatePackTemplateInput } from '../validators/index.js';
+
+const logger = createChildLogger('pack-template-service');
+
+export interface PackLayoutOptions {
+  defaultPathTemplate: string;
+  fileTypes: typeof PACK_FILE_KINDS;
+  tokens: typeof PACK_PATH_TOKENS;
+}
+
+class PackTemplateService {
+  // What the template editor offers
+  getLayoutOptions(): PackLayoutOptions {
+    return {
+      defaultPathTemplate: DEFAULT_PATH_TEMPLATE,
+      fileTypes: PACK_FILE_KINDS,
+      tokens: PACK_PATH_TOKENS,
+    };
+  }
+
+  async listTemplates(workspaceId: string): Promise<PackTemplate[]> {
+    return packTemplateRepository.findByWorkspace(workspaceId);
+  }
+
+  async getTemplate(workspaceId: string, id: string): Promise<PackTemplate> {
+    const template = await packTemplateRepository.findById(id, workspaceId);
+    if (!template) {
+      throw new NotFoundError('Pack template');
+    }
+    return template;
+  }
+
+  async createTemplate(workspaceId: string, input: CreatePackTemplateInput): Promise<PackTemplate> {
+    const template = await this.withUniqueName(input.name, () =>
+      packTemplateRepository.create(workspaceId, {
+        ...input,
+        fileTypes: [...new Set(input.fileTypes)],
+        captionFormats: [...new Set(input.captionFormats)],
+      })
+    );
+    logger.info({ workspaceId, templateId: template.id }, 'Pack template created');
+    return template;
+  }
+
+  async updateTemplate(
+    workspaceId: string,
+    id: string,
+    input: UpdatePackTemplateInput
+  ): Promise<PackTemplate> {
+    await this.getTemplate(workspaceId, id);
+    return this.withUniqueName(input.name, () =>
+      packTemplateRepository.update(id, {
+        ...input,
+        fileTypes: input.fileTypes && [...new Set(input.fileTypes)],
+        captionFormats: input.captionFormats && [...new Set(input.captionFormats)],
+      })
+    );
+  }
+
+  async deleteTemplate(workspaceId: string, id: string): Promise<void> {
+    await this.getTemplate(workspaceId, id);
+    await packTemplateRepository.delete(id);
+    logger.info({ workspaceId, templateId: id }, 'Pack template deleted');
+  }
+
+  private async withUniqueName<T>(name: string | undefined, save: () => Promise<T>): Promise<T> {
+    try {
+      return await save();
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictError(`A pack template named "${name}" already exists`);
+      }
+      throw error;
+    }
+  }
+}
+
+export const packTemplateService = new PackTemplateService();
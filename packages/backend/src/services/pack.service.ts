@@ -1,4 +1,7 @@
-import { createWriteStream, mkdirSync, existsSync, statSync, createReadStream } from 'fs';
+import { createHash } from 'crypto';
+import { createWriteStream } from 'fs';
+import { mkdtemp, rm, stat } from 'fs/promises';
+import { tmpdir } from 'os';
 import { join } from 'path';
 import archiver from 'archiver';
 import {
@@ -6,82 +9,318 @@ import {
   angleRepository,
   localizedContentRepository,
   packRepository,
+  packShareRepository,
+  workspaceRepository,
 } from '../repositories/index.js';
+import { jobService } from './job.service.js';
+import { workspaceService } from './workspace.service.js';
+import { getStorage } from './storage/index.js';
+import { packTemplateService } from './pack-template.service.js';
+import { briefService } from './brief.service.js';
 import { createChildLogger } from '../utils/logger.js';
-import { config } from '../utils/config.js';
-import { NotFoundError, ValidationError } from '../types/index.js';
-import type { PackManifest, Locale, Platform } from '../types/index.js';
-import type { CreativePack, LocalizedContent } from '@prisma/client';
-import type { ReadStream } from 'fs';
+import { getLocaleInfo, isLocale } from '../utils/locales.js';
+import { getPlatform, isPlatform } from '../utils/platforms.js';
+import { CAPTION_WRITERS } from '../utils/caption-formats.js';
+import { OVERLAY_WRITERS } from '../utils/overlay-formats.js';
+import {
+  changedPackPaths,
+  diffPackFiles,
+  hasPackChanges,
+  toChangelogMarkdown,
+} from '../utils/pack-changes.js';
+import {
+  DEFAULT_FILE_KINDS,
+  DEFAULT_PATH_TEMPLATE,
+  fileNameParts,
+  renderPackPath,
+} from '../utils/pack-layout.js';
+import { NotFoundError, PackExpiredError, ValidationError } from '../types/index.js';
+import type {
+  Caption,
+  CaptionFormat,
+  OnScreenText,
+  PackChangeLog,
+  PackFileKind,
+  PackFileType,
+  PackManifest,
+  Locale,
+  Platform,
+  ProgressReporter,
+} from '../types/index.js';
+import type { AngleCard, CreativePack, Job, LocalizedContent, Workspace } from '@prisma/client';
+import type { Readable } from 'stream';
 import type { CreatePackInput as CreatePackBody } from '../validators/index.js';
 
 const logger = createChildLogger('pack-service');
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Files younger than this may belong to a build that has not saved its pack yet
+const ORPHAN_GRACE_MS = 60 * 60 * 1000;
+
+// Expired packs deleted per sweep; the rest wait for the next one
+const SWEEP_BATCH_SIZE = 500;
+
 // Service-specific type that includes projectId from route params
 export interface CreatePackInput extends CreatePackBody {
+  workspaceId: string;
   projectId: string;
 }
 
+// How a pack's files are chosen and named
+interface PackLayout {
+  packName: string;
+  pathTemplate: string;
+  fileTypes: PackFileKind[];
+  captionFormats: CaptionFormat[];
+  // Value of the {date} token; rebuilds keep the first version's
+  date: string;
+}
+
+// A pack request with its template resolved, ready to plan
+interface PackBuild {
+  workspaceId: string;
+  projectId: string;
+  angleIds: string[];
+  locales: Locale[];
+  platforms: Platform[];
+  approvedOnly?: boolean;
+  layout: PackLayout;
+  template?: PackManifest['template'];
+  // The version a rebuild replaces
+  previous?: CreativePack;
+}
+
+export interface RebuildPackOptions {
+  // Also store a zip of only the new and changed files, with a changelog
+  delta?: boolean;
+  // Defaults to the previous version's name
+  name?: string;
+  expiresInDays?: number | null;
+}
+
+export type PackFileVariant = 'full' | 'delta';
+
+type PackFile = PackManifest['files'][number] & { body: string | Buffer };
+
 export interface PackDownload {
-  stream: ReadStream;
+  stream: Readable;
   filename: string;
   size: number;
 }
 
+// Who downloaded a pack, for the download log
+export interface DownloadClient {
+  userId?: string;
+  shareLinkId?: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface PackSweepResult {
+  // Expired packs deleted with their files
+  expired: number;
+  // Stored files no pack points at
+  orphaned: number;
+}
+
 class PackService {
-  private storagePath: string;
 
-  constructor() {
-    this.storagePath = config.STORAGE_PATH;
-    this.ensureStorageExists();
+  /**
+   * Queue a pack build as a background job; the worker runs createPack.
+   */
+  async queuePack(input: CreatePackInput, userId: string): Promise<Job> {
+    const {
+      workspaceId,
+      projectId,
+      name,
+      angleIds,
+      locales,
+      platforms,
+      approvedOnly,
+      captionFormats,
+      templateId,
+      includeBrief,
+      expiresInDays,
+    } = input;
+
+    await this.verifyAngles(workspaceId, projectId, angleIds);
+    if (templateId) {
+      await packTemplateService.getTemplate(workspaceId, templateId);
+    }
+    // Refuse unreviewed content now rather than in the worker
+    if (approvedOnly) {
+      await this.collectContent(input);
+    }
+
+    return jobService.enqueue(workspaceId, userId, 'build_pack', {
+      projectId,
+      name,
+      angleIds,
+      locales,
+      platforms,
+      approvedOnly,
+      captionFormats,
+      templateId,
+      includeBrief,
+      expiresInDays,
+    });
   }
 
-  private ensureStorageExists() {
-    const packsDir = join(this.storagePath, 'packs');
-    if (!existsSync(packsDir)) {
-      mkdirSync(packsDir, { recursive: true });
-    }
+  /**
+   * Build a pack. With approvedOnly, fails listing every selected
+   * localization that has not passed review. A template sets the archive
+   * layout and the caption formats the request does not choose;
+   * includeBrief adds creative briefs on top of the template's files.
+   */
+  async createPack(input: CreatePackInput, onProgress?: ProgressReporter): Promise<CreativePack> {
+    const { name, workspaceId, projectId, angleIds, locales, platforms, templateId, includeBrief } =
+      input;
+
+    const template = templateId
+      ? await packTemplateService.getTemplate(workspaceId, templateId)
+      : null;
+    const captionFormats = [
+      ...new Set(input.captionFormats ?? template?.captionFormats ?? ['srt']),
+    ] as CaptionFormat[];
+    const fileTypes = (template?.fileTypes as PackFileKind[] | undefined) ?? DEFAULT_FILE_KINDS;
+    const layout: PackLayout = {
+      packName: name,
+      pathTemplate: template?.pathTemplate ?? DEFAULT_PATH_TEMPLATE,
+      fileTypes: includeBrief && !fileTypes.includes('brief') ? [...fileTypes, 'brief'] : fileTypes,
+      captionFormats,
+      date: new Date().toISOString().slice(0, 10),
+    };
+
+    return this.storePack(
+      {
+        workspaceId,
+        projectId,
+        angleIds,
+        locales,
+        platforms,
+        approvedOnly: input.approvedOnly,
+        layout,
+        ...(template && {
+          template: {
+            id: template.id,
+            name: template.name,
+            path_template: layout.pathTemplate,
+            file_types: layout.fileTypes,
+          },
+        }),
+      },
+      { expiresInDays: input.expiresInDays },
+      onProgress
+    );
   }
 
-  async createPack(input: CreatePackInput): Promise<CreativePack> {
-    const { name, projectId, angleIds, locales, platforms } = input;
+  /**
+   * Queue a rebuild of a pack as a background job; the worker runs
+   * rebuildPack.
+   */
+  async queueRebuild(
+    workspaceId: string,
+    id: string,
+    options: RebuildPackOptions,
+    userId: string
+  ): Promise<Job> {
+    await this.getPack(workspaceId, id);
+    return jobService.enqueue(workspaceId, userId, 'rebuild_pack', { packId: id, ...options });
+  }
 
-    // Verify project exists
-    const project = await projectRepository.findById(projectId);
-    if (!project) {
-      throw new NotFoundError('Project');
-    }
+  /**
+   * Build the next version of a pack from the current localized content,
+   * with the same angles, locales, platforms and layout. Fails when nothing
+   * changed. The changelog goes in the new manifest and, with delta, in a
+   * second zip holding only the new and changed files.
+   */
+  async rebuildPack(
+    workspaceId: string,
+    id: string,
+    options: RebuildPackOptions,
+    onProgress?: ProgressReporter
+  ): Promise<CreativePack> {
+    const previous = await this.getPack(workspaceId, id);
+    const build = await this.rebuildOf(workspaceId, previous, options.name);
+    return this.storePack(build, options, onProgress);
+  }
 
-    // Verify all angles exist and belong to project
-    for (const angleId of angleIds) {
-      const angle = await angleRepository.findById(angleId);
-      if (!angle) {
-        throw new NotFoundError(`Angle ${angleId}`);
-      }
-      if (angle.projectId !== projectId) {
-        throw new ValidationError(`Angle ${angleId} does not belong to project ${projectId}`);
-      }
-    }
+  /**
+   * What a rebuild of the pack would change, without building it.
+   */
+  async getPackChanges(workspaceId: string, id: string): Promise<PackChangeLog> {
+    const previous = await this.getPack(workspaceId, id);
+    const { manifest } = await this.planPack(await this.rebuildOf(workspaceId, previous));
+    return manifest.changes as PackChangeLog;
+  }
 
-    // Collect all localized content
-    const contentByAngle: Map<string, LocalizedContent[]> = new Map();
-    for (const angleId of angleIds) {
-      const contents = await localizedContentRepository.findByAngleId(angleId);
-      const filtered = contents.filter(
-        (c) =>
-          locales.includes(c.locale as Locale) &&
-          platforms.includes(c.platform as Platform)
-      );
-      if (filtered.length > 0) {
-        contentByAngle.set(angleId, filtered);
+  // Repeat a pack's build settings, read from its manifest
+  private async rebuildOf(
+    workspaceId: string,
+    previous: CreativePack,
+    name = previous.name
+  ): Promise<PackBuild> {
+    const manifest = previous.manifest as unknown as PackManifest;
+    // Packs built before the settings were recorded: infer them from the files
+    const recorded = manifest.build ?? {
+      angle_ids: [...new Set(manifest.files.map((file) => file.angle_id))],
+      locales: manifest.contents.locales,
+      platforms: manifest.contents.platforms,
+      approved_only: false,
+      path_template: manifest.template?.path_template ?? DEFAULT_PATH_TEMPLATE,
+      file_types:
+        manifest.template?.file_types ??
+        (manifest.files.some((file) => file.type.startsWith('brief_'))
+          ? [...DEFAULT_FILE_KINDS, 'brief']
+          : DEFAULT_FILE_KINDS),
+    };
+
+    // Localizations of angles deleted since are reported as removed
+    const angleIds: string[] = [];
+    for (const angleId of recorded.angle_ids) {
+      if (await angleRepository.findById(angleId, workspaceId)) {
+        angleIds.push(angleId);
       }
     }
 
-    if (contentByAngle.size === 0) {
-      throw new ValidationError(
-        'No localized content found for the selected angles, locales, and platforms'
-      );
-    }
+    return {
+      workspaceId,
+      projectId: previous.projectId,
+      angleIds,
+      locales: recorded.locales.filter(isLocale),
+      platforms: recorded.platforms.filter(isPlatform),
+      approvedOnly: recorded.approved_only,
+      layout: {
+        packName: name,
+        pathTemplate: recorded.path_template,
+        fileTypes: recorded.file_types,
+        captionFormats: manifest.contents.caption_formats ?? ['srt'],
+        date: manifest.created_at.slice(0, 10),
+      },
+      template: manifest.template,
+      previous,
+    };
+  }
+
+  /**
+   * Collect the content of a build and lay out its files and manifest. For
+   * rebuilds the manifest records what changed since the previous version.
+   */
+  private async planPack(
+    build: PackBuild,
+    onProgress?: ProgressReporter
+  ): Promise<{
+    manifest: PackManifest;
+    files: PackFile[];
+    contentByAngle: Map<string, LocalizedContent[]>;
+  }> {
+    const { layout, previous } = build;
+
+    const project = await this.verifyAngles(build.workspaceId, build.projectId, build.angleIds);
+    await onProgress?.(1, 3, 'Collecting localized content');
+
+    const contentByAngle = await this.collectContent(build);
 
     // Build manifest
     const manifest: PackManifest = {
@@ -92,29 +331,122 @@ class PackService {
         angles: contentByAngle.size,
         locales: [...new Set([...contentByAngle.values()].flat().map((c) => c.locale))],
         platforms: [...new Set([...contentByAngle.values()].flat().map((c) => c.platform))],
-        total_files: [...contentByAngle.values()].flat().length * 2, // scripts + captions
+        total_files: 0,
+        caption_formats: layout.captionFormats,
+      },
+      ...(build.template && { template: build.template }),
+      locale_info: Object.fromEntries(
+        build.locales.filter(isLocale).map((code) => {
+          const { name, direction } = getLocaleInfo(code);
+          return [code, { name, direction }];
+        })
+      ),
+      platform_info: Object.fromEntries(
+        build.platforms.filter(isPlatform).map((id) => {
+          const platform = getPlatform(id);
+          return [
+            id,
+            {
+              name: platform.name,
+              aspect_ratio: platform.aspectRatio,
+              max_duration: platform.maxDuration,
+              safe_zone: platform.safeZone,
+              captions: platform.captions,
+            },
+          ];
+        })
+      ),
+      build: {
+        angle_ids: build.angleIds,
+        locales: build.locales,
+        platforms: build.platforms,
+        approved_only: build.approvedOnly ?? false,
+        path_template: layout.pathTemplate,
+        file_types: layout.fileTypes,
       },
+      pack_version: previous ? previous.version + 1 : 1,
+      ...(previous && { previous_pack_id: previous.id }),
       files: [],
     };
 
+    const files = await this.planFiles(contentByAngle, manifest, layout);
+    manifest.files = files.map(({ body: _body, ...file }) => file);
+    manifest.contents.total_files = manifest.files.length;
+
+    if (previous) {
+      manifest.changes = diffPackFiles(
+        previous.manifest as unknown as PackManifest,
+        manifest.files,
+        { packId: previous.id, version: previous.version }
+      );
+    }
+
+    return { manifest, files, contentByAngle };
+  }
+
+  // Plan a build, write its zips to storage and save the pack
+  private async storePack(
+    build: PackBuild,
+    options: Pick<RebuildPackOptions, 'delta' | 'expiresInDays'>,
+    onProgress?: ProgressReporter
+  ): Promise<CreativePack> {
+    const { workspaceId, projectId, layout, previous } = build;
+    const { manifest, files, contentByAngle } = await this.planPack(build, onProgress);
+
+    const changes = manifest.changes;
+    if (previous && changes && !hasPackChanges(changes)) {
+      throw new ValidationError(`Nothing has changed since version ${previous.version}`);
+    }
+    await onProgress?.(2, 3, 'Building archive');
+
     // Create pack record first
     const pack = await packRepository.create({
-      name,
+      name: layout.packName,
       projectId,
       manifest,
+      expiresAt: await this.expiryFor(workspaceId, options.expiresInDays),
+      version: manifest.pack_version ?? 1,
+      previousPackId: previous?.id,
     });
 
-    // Generate ZIP file
-    const filename = `pack-${pack.id.slice(0, 8)}-${Date.now()}.zip`;
-    const filePath = join(this.storagePath, 'packs', filename);
+    // Build the zips in a scratch directory, then hand them to storage
+    const stamp = `packs/pack-${pack.id.slice(0, 8)}-${Date.now()}`;
+    const key = `${stamp}.zip`;
+    const deltaKey = options.delta && changes ? `${stamp}-delta.zip` : undefined;
+    const scratch = await mkdtemp(join(tmpdir(), 'teruxa-pack-'));
+    const manifestEntry = { path: 'manifest.json', body: JSON.stringify(manifest, null, 2) };
 
     try {
-      await this.generateZip(pack.id, filePath, contentByAngle, manifest);
+      const filePath = join(scratch, 'pack.zip');
+      await this.writeZip(filePath, [...files, manifestEntry]);
+      const stats = await stat(filePath);
+      await getStorage().putFile(key, filePath);
+
+      let deltaFileSize: number | undefined;
+      if (deltaKey && changes) {
+        const changed = changedPackPaths(changes);
+        const deltaPath = join(scratch, 'delta.zip');
+        await this.writeZip(deltaPath, [
+          ...files.filter((file) => changed.has(file.path)),
+          manifestEntry,
+          {
+            path: 'CHANGELOG.md',
+            body: toChangelogMarkdown(changes, {
+              name: layout.packName,
+              version: pack.version,
+              createdAt: manifest.created_at,
+            }),
+          },
+        ]);
+        deltaFileSize = (await stat(deltaPath)).size;
+        await getStorage().putFile(deltaKey, deltaPath);
+      }
 
-      const stats = statSync(filePath);
       const updatedPack = await packRepository.updateDownloadInfo(pack.id, {
-        filePath,
+        filePath: key,
         fileSize: stats.size,
+        deltaFilePath: deltaKey,
+        deltaFileSize,
       });
 
       // Add pack angles
@@ -130,171 +462,392 @@ class PackService {
       }
       await packRepository.addAngles(pack.id, packAngles);
 
-      logger.info({ packId: pack.id, size: stats.size }, 'Pack created successfully');
+      logger.info(
+        { packId: pack.id, version: pack.version, size: stats.size, deltaFileSize },
+        'Pack created successfully'
+      );
 
       return updatedPack;
     } catch (error) {
-      // Clean up on failure
+      // Clean up on failure; a file left behind is swept as an orphan
       await packRepository.delete(pack.id);
+      for (const storedKey of [key, deltaKey]) {
+        if (!storedKey) continue;
+        await getStorage()
+          .delete(storedKey)
+          .catch((cleanupError) =>
+            logger.warn(
+              { error: cleanupError, key: storedKey },
+              'Failed to remove the file of a failed pack'
+            )
+          );
+      }
       throw error;
+    } finally {
+      await rm(scratch, { recursive: true, force: true });
     }
   }
 
-  private async generateZip(
-    _packId: string,
-    filePath: string,
-    contentByAngle: Map<string, LocalizedContent[]>,
-    manifest: PackManifest
-  ): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const output = createWriteStream(filePath);
-      const archive = archiver('zip', { zlib: { level: 9 } });
+  /**
+   * When a new pack expires: expiresInDays from the request, else the
+   * workspace's retention policy. Null means never.
+   */
+  private async expiryFor(
+    workspaceId: string,
+    expiresInDays: number | null | undefined
+  ): Promise<Date | null> {
+    let days = expiresInDays;
+    if (days === undefined) {
+      const workspace = await workspaceRepository.findById(workspaceId);
+      days = workspace?.packRetentionDays ?? null;
+    }
+    return days === null ? null : new Date(Date.now() + days * DAY_MS);
+  }
 
-      output.on('close', resolve);
-      archive.on('error', reject);
+  async setRetentionPolicy(
+    userId: string,
+    workspaceId: string,
+    packRetentionDays: number | null
+  ): Promise<Workspace> {
+    await workspaceService.assertManager(userId, workspaceId);
 
-      archive.pipe(output);
+    const workspace = await workspaceRepository.update(workspaceId, { packRetentionDays });
+    logger.info({ workspaceId, packRetentionDays }, 'Pack retention policy updated');
+    return workspace;
+  }
 
-      // Add content files
-      for (const [angleId, contents] of contentByAngle) {
-        for (const content of contents) {
-          const baseDir = `${content.locale}/${content.platform}/${angleId.slice(0, 8)}`;
-
-          // Add script file
-          const scriptPath = `${baseDir}/script.txt`;
-          archive.append(content.script, { name: scriptPath });
-          manifest.files.push({
-            path: scriptPath,
-            type: 'script',
+  // Localized content for the selected locales and platforms, by angle
+  private async collectContent(
+    input: Pick<CreatePackInput, 'angleIds' | 'locales' | 'platforms' | 'approvedOnly'>
+  ): Promise<Map<string, LocalizedContent[]>> {
+    const { angleIds, locales, platforms, approvedOnly } = input;
+
+    const contentByAngle: Map<string, LocalizedContent[]> = new Map();
+    for (const angleId of angleIds) {
+      const contents = await localizedContentRepository.findByAngleId(angleId);
+      const filtered = contents.filter(
+        (c) =>
+          locales.includes(c.locale as Locale) &&
+          platforms.includes(c.platform as Platform)
+      );
+      if (filtered.length > 0) {
+        contentByAngle.set(angleId, filtered);
+      }
+    }
+
+    if (contentByAngle.size === 0) {
+      throw new ValidationError(
+        'No localized content found for the selected angles, locales, and platforms'
+      );
+    }
+
+    if (approvedOnly) {
+      const unapproved = [...contentByAngle.values()]
+        .flat()
+        .filter((c) => c.reviewStatus !== 'approved')
+        .map((c) => ({
+          id: c.id,
+          angleId: c.angleId,
+          locale: c.locale,
+          platform: c.platform,
+          reviewStatus: c.reviewStatus,
+        }));
+      if (unapproved.length > 0) {
+        const listed = unapproved
+          .slice(0, 5)
+          .map((c) => `${c.locale}/${c.platform} (${c.reviewStatus.replace('_', ' ')})`)
+          .join(', ');
+        const more = unapproved.length > 5 ? ` and ${unapproved.length - 5} more` : '';
+        throw new ValidationError(
+          `${unapproved.length} localization(s) are not approved: ${listed}${more}`,
+          { unapproved }
+        );
+      }
+    }
+
+    return contentByAngle;
+  }
+
+  private async verifyAngles(workspaceId: string, projectId: string, angleIds: string[]) {
+    // Verify project exists
+    const project = await projectRepository.findById(projectId, workspaceId);
+    if (!project) {
+      throw new NotFoundError('Project');
+    }
+
+    // Verify all angles exist and belong to project
+    for (const angleId of angleIds) {
+      const angle = await angleRepository.findById(angleId, workspaceId);
+      if (!angle) {
+        throw new NotFoundError(`Angle ${angleId}`);
+      }
+      if (angle.projectId !== projectId) {
+        throw new ValidationError(`Angle ${angleId} does not belong to project ${projectId}`);
+      }
+    }
+
+    return project;
+  }
+
+  /**
+   * Lay out every file of the pack. Paths come from the template, and two
+   * files landing on the same path fail the build before anything is written.
+   */
+  private async planFiles(
+    contentByAngle: Map<string, LocalizedContent[]>,
+    manifest: PackManifest,
+    layout: PackLayout
+  ): Promise<PackFile[]> {
+    const files: PackFile[] = [];
+    const paths = new Set(['manifest.json']);
+    let angleIndex = 0;
+
+    for (const [angleId, contents] of contentByAngle) {
+      angleIndex += 1;
+      const angle: AngleCard | null = layout.fileTypes.includes('brief')
+        ? await angleRepository.findById(angleId)
+        : null;
+      for (const content of contents) {
+        const add = (
+          kind: PackFileKind,
+          filename: string,
+          type: PackFileType,
+          body: string | Buffer
+        ) => {
+          if (!layout.fileTypes.includes(kind)) return;
+          const { name, ext } = fileNameParts(filename);
+          const path = renderPackPath(layout.pathTemplate, {
+            project: manifest.project_name,
+            pack: layout.packName,
+            date: layout.date,
+            locale: content.locale,
+            language: content.locale.split('-')[0] ?? content.locale,
+            platform: content.platform,
+            angle: angleId.slice(0, 8),
+            angle_id: angleId,
+            angle_index: String(angleIndex).padStart(2, '0'),
+            file: filename,
+            name,
+            ext,
+            type,
+          });
+          if (paths.has(path)) {
+            throw new ValidationError(`The pack template puts two files at ${path}`);
+          }
+          paths.add(path);
+          files.push({
+            path,
+            type,
+            body,
             angle_id: angleId,
             locale: content.locale,
             platform: content.platform,
+            content_id: content.id,
+            sha256: createHash('sha256').update(body).digest('hex'),
           });
+        };
 
-          // Add captions as SRT
-          const captions = content.captions as Array<{
-            timestamp_start: number;
-            timestamp_end: number;
-            text: string;
-          }>;
-          if (captions && captions.length > 0) {
-            const srtContent = this.generateSRT(captions);
-            const captionsPath = `${baseDir}/captions.srt`;
-            archive.append(srtContent, { name: captionsPath });
-            manifest.files.push({
-              path: captionsPath,
-              type: 'captions',
-              angle_id: angleId,
-              locale: content.locale,
-              platform: content.platform,
-            });
+        add('script', 'script.txt', 'script', content.script);
+
+        const platform = isPlatform(content.platform) ? getPlatform(content.platform) : undefined;
+        const onScreenText = (content.onScreenText as OnScreenText[] | null) ?? [];
+
+        // Captions in each requested format
+        const captions = (content.captions as Caption[] | null) ?? [];
+        if (captions.length > 0) {
+          const track = { locale: content.locale, platform, captions, onScreenText };
+          for (const format of layout.captionFormats) {
+            const writer = CAPTION_WRITERS[format];
+            add('captions', writer.filename, writer.type, writer.write(track));
           }
+        }
 
-          // Add metadata
-          const metadata = {
-            angle_id: angleId,
+        // On-screen text as overlay tracks for the editor
+        if (onScreenText.length > 0) {
+          const track = {
+            title: `${angleId.slice(0, 8)} ${content.locale} ${content.platform}`,
             locale: content.locale,
-            platform: content.platform,
-            cultural_notes: content.culturalNotes,
-            platform_adjustments: content.platformAdjustments,
-            character_count: content.characterCount,
-            word_count: content.wordCount,
-            created_at: content.createdAt,
+            platform,
+            onScreenText,
           };
-          const metadataPath = `${baseDir}/metadata.json`;
-          archive.append(JSON.stringify(metadata, null, 2), { name: metadataPath });
-          manifest.files.push({
-            path: metadataPath,
-            type: 'metadata',
-            angle_id: angleId,
-            locale: content.locale,
-            platform: content.platform,
-          });
+          for (const writer of OVERLAY_WRITERS) {
+            add('overlays', writer.filename, writer.type, writer.write(track));
+          }
         }
-      }
 
-      // Add manifest
-      archive.append(JSON.stringify(manifest, null, 2), { name: 'manifest.json' });
+        const metadata = {
+          angle_id: angleId,
+          locale: content.locale,
+          text_direction: manifest.locale_info?.[content.locale]?.direction ?? 'ltr',
+          platform: content.platform,
+          platform_specs: manifest.platform_info?.[content.platform],
+          cultural_notes: content.culturalNotes,
+          platform_adjustments: content.platformAdjustments,
+          character_count: content.characterCount,
+          word_count: content.wordCount,
+          created_at: content.createdAt,
+        };
+        add('metadata', 'metadata.json', 'metadata', JSON.stringify(metadata, null, 2));
+
+        // One-page brief for the creator shooting this localization
+        if (angle) {
+          const brief = briefService.buildBrief(manifest.project_name, angle, content);
+          add('brief', 'brief.html', 'brief_html', briefService.renderHtml(brief));
+          add('brief', 'brief.pdf', 'brief_pdf', await briefService.renderPdf(brief));
+        }
+      }
+    }
 
-      archive.finalize();
-    });
+    return files;
   }
 
-  private generateSRT(
-    captions: Array<{
-      timestamp_start: number;
-      timestamp_end: number;
-      text: string;
-    }>
-  ): string {
-    return captions
-      .map((caption, index) => {
-        const start = this.formatSRTTime(caption.timestamp_start);
-        const end = this.formatSRTTime(caption.timestamp_end);
-        return `${index + 1}\n${start} --> ${end}\n${caption.text}\n`;
-      })
-      .join('\n');
-  }
+  private async writeZip(
+    filePath: string,
+    entries: Array<{ path: string; body: string | Buffer }>
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const output = createWriteStream(filePath);
+      const archive = archiver('zip', { zlib: { level: 9 } });
+
+      output.on('close', resolve);
+      archive.on('error', reject);
+
+      archive.pipe(output);
 
-  private formatSRTTime(seconds: number): string {
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-    const secs = Math.floor(seconds % 60);
-    const ms = Math.floor((seconds % 1) * 1000);
-    return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')},${ms.toString().padStart(3, '0')}`;
+      for (const { path, body } of entries) {
+        archive.append(body, { name: path });
+      }
+
+      archive.finalize();
+    });
   }
 
-  async getPack(id: string) {
-    const pack = await packRepository.findById(id);
+  async getPack(workspaceId: string, id: string) {
+    const pack = await packRepository.findById(id, workspaceId);
     if (!pack) {
       throw new NotFoundError('Pack');
     }
     return pack;
   }
 
-  async getProjectPacks(projectId: string) {
-    const exists = await projectRepository.exists(projectId);
+  async getProjectPacks(workspaceId: string, projectId: string) {
+    const exists = await projectRepository.exists(projectId, workspaceId);
     if (!exists) {
       throw new NotFoundError('Project');
     }
-    return packRepository.findByProjectId(projectId);
+    return packRepository.findByProjectId(projectId, workspaceId);
   }
 
-  async downloadPack(id: string): Promise<PackDownload> {
-    const pack = await packRepository.findById(id);
+  async downloadPack(
+    workspaceId: string,
+    id: string,
+    client: DownloadClient = {},
+    variant: PackFileVariant = 'full'
+  ): Promise<PackDownload> {
+    const pack = await packRepository.findById(id, workspaceId);
     if (!pack) {
       throw new NotFoundError('Pack');
     }
+    return this.openPack(pack, client, variant);
+  }
+
+  /**
+   * Open a pack's zip, or its delta zip, for download, counting and logging
+   * the download.
+   */
+  async openPack(
+    pack: CreativePack,
+    client: DownloadClient,
+    variant: PackFileVariant = 'full'
+  ): Promise<PackDownload> {
+    // Refused as soon as it expires, even if the sweeper has not run yet
+    if (pack.expiresAt && pack.expiresAt <= new Date()) {
+      throw new PackExpiredError(pack.expiresAt);
+    }
 
-    if (!pack.filePath || !existsSync(pack.filePath)) {
-      throw new NotFoundError('Pack file');
+    const key = variant === 'delta' ? pack.deltaFilePath : pack.filePath;
+    const file = key ? await getStorage().get(key) : null;
+    if (!file) {
+      throw new NotFoundError(variant === 'delta' ? 'Pack delta file' : 'Pack file');
     }
 
-    // Increment download count
-    await packRepository.incrementDownloads(id);
+    await packRepository.incrementDownloads(pack.id);
+    await packShareRepository.recordDownload({
+      packId: pack.id,
+      ...client,
+      userAgent: client.userAgent?.slice(0, 500),
+    });
 
-    const stats = statSync(pack.filePath);
-    const stream = createReadStream(pack.filePath);
-    const filename = `${pack.name.replace(/[^a-zA-Z0-9-_]/g, '_')}.zip`;
+    const base = pack.name.replace(/[^a-zA-Z0-9-_]/g, '_');
+    const filename = variant === 'delta' ? `${base}_v${pack.version}_changes.zip` : `${base}.zip`;
 
-    logger.info({ packId: id }, 'Pack downloaded');
+    logger.info({ packId: pack.id, variant, shareLinkId: client.shareLinkId }, 'Pack downloaded');
 
     return {
-      stream,
+      stream: file.stream,
       filename,
-      size: stats.size,
+      size: file.size,
     };
   }
 
-  async deletePack(id: string) {
-    const pack = await packRepository.findById(id);
+  async deletePack(workspaceId: string, id: string) {
+    const pack = await packRepository.findById(id, workspaceId);
     if (!pack) {
       throw new NotFoundError('Pack');
     }
 
     await packRepository.delete(id);
+    await this.deleteFiles(pack);
     logger.info({ packId: id }, 'Pack deleted');
   }
+
+  private async deleteFiles(pack: CreativePack): Promise<void> {
+    for (const key of [pack.filePath, pack.deltaFilePath]) {
+      if (key) await this.deleteFile(key);
+    }
+  }
+
+  // Storage failures are logged rather than thrown; the sweeper retries orphans
+  private async deleteFile(key: string): Promise<boolean> {
+    try {
+      await getStorage().delete(key);
+      return true;
+    } catch (error) {
+      logger.warn({ error, key }, 'Failed to delete pack file');
+      return false;
+    }
+  }
+
+  /**
+   * Delete expired packs with their files, then files under packs/ that no
+   * pack points at, such as those of deleted projects. Safe to run from
+   * several workers at once.
+   */
+  async sweepStorage(now = new Date()): Promise<PackSweepResult> {
+    const result: PackSweepResult = { expired: 0, orphaned: 0 };
+
+    for (const pack of await packRepository.findExpired(now, SWEEP_BATCH_SIZE)) {
+      // Another worker's sweep may have deleted it first
+      await packRepository.delete(pack.id).catch(() => undefined);
+      await this.deleteFiles(pack);
+      result.expired += 1;
+    }
+
+    const stored = (await getStorage().list('packs/')).filter(
+      (object) => now.getTime() - object.lastModified.getTime() > ORPHAN_GRACE_MS
+    );
+    const used = await packRepository.findUsedFilePaths(stored.map((object) => object.key));
+    for (const object of stored) {
+      if (!used.has(object.key) && (await this.deleteFile(object.key))) {
+        result.orphaned += 1;
+      }
+    }
+
+    if (result.expired > 0 || result.orphaned > 0) {
+      logger.info(result, 'Swept pack storage');
+    }
+    return result;
+  }
 }
 
 export const packService = new PackService();
\ No newline at end of file
@@ -10,6 +10,8 @@ import { createChildLogger } from '../utils/logger.js';
 import { NotFoundError, ValidationError } from '../types/index.js';
 import { csvRowSchema } from '../validators/index.js';
 import { parseSeedData } from '../schemas/seedData.schema.js';
+import { parseAISettings } from '../schemas/aiSettings.schema.js';
+import { checkProjectClaims } from '../utils/claims.js';
 import type { GeneratedAngle, ImportResult, WinnerAnalysis, Platform, Locale } from '../types/index.js';
 import type { AngleCard, ImportBatch } from '@prisma/client';
 
@@ -17,12 +19,13 @@ const logger = createChildLogger('performance-service');
 
 class PerformanceService {
   async importCSV(
+    workspaceId: string,
     projectId: string,
     filename: string,
     fileBuffer: Buffer
   ): Promise<ImportResult> {
     // Verify project exists
-    const project = await projectRepository.findById(projectId);
+    const project = await projectRepository.findById(projectId, workspaceId);
     if (!project) {
       throw new NotFoundError('Project');
     }
@@ -60,7 +63,7 @@ class PerformanceService {
           const validated = csvRowSchema.parse(record);
 
           // Verify angle exists and belongs to project
-          const angle = await angleRepository.findById(validated.angle_id);
+          const angle = await angleRepository.findById(validated.angle_id, workspaceId);
           if (!angle) {
             errors.push({ row: rowNum, message: `Angle ${validated.angle_id} not found` });
             continue;
@@ -162,35 +165,37 @@ class PerformanceService {
     });
   }
 
-  async getImportBatch(batchId: string): Promise<ImportBatch> {
-    const batch = await performanceRepository.findImportBatchById(batchId);
+  async getImportBatch(workspaceId: string, batchId: string): Promise<ImportBatch> {
+    const batch = await performanceRepository.findImportBatchById(batchId, workspaceId);
     if (!batch) {
       throw new NotFoundError('Import batch');
     }
     return batch;
   }
 
-  async getProjectImports(projectId: string): Promise<ImportBatch[]> {
-    const exists = await projectRepository.exists(projectId);
+  async getProjectImports(workspaceId: string, projectId: string): Promise<ImportBatch[]> {
+    const exists = await projectRepository.exists(projectId, workspaceId);
     if (!exists) {
       throw new NotFoundError('Project');
     }
-    return performanceRepository.findImportBatchesByProjectId(projectId);
+    return performanceRepository.findImportBatchesByProjectId(projectId, workspaceId);
   }
 
-  async getProjectMetrics(projectId: string) {
-    const exists = await projectRepository.exists(projectId);
+  async getProjectMetrics(workspaceId: string, projectId: string) {
+    const exists = await projectRepository.exists(projectId, workspaceId);
     if (!exists) {
       throw new NotFoundError('Project');
     }
-    return performanceRepository.getAggregatedMetricsByProject(projectId);
+    return performanceRepository.getAggregatedMetricsByProject(projectId, workspaceId);
   }
 
   async identifyWinners(
+    workspaceId: string,
     projectId: string,
-    options?: { topN?: number; metric?: 'ctr' | 'roas' | 'conversions' }
+    options?: { topN?: number; metric?: 'ctr' | 'roas' | 'conversions' },
+    userId?: string
   ): Promise<WinnerAnalysis> {
-    const project = await projectRepository.findById(projectId);
+    const project = await projectRepository.findById(projectId, workspaceId);
     if (!project) {
       throw new NotFoundError('Project');
     }
@@ -202,7 +207,8 @@ class PerformanceService {
     const topPerformers = await performanceRepository.getTopPerformers(
       projectId,
       metric,
-      topN
+      topN,
+      workspaceId
     );
 
     if (topPerformers.length === 0) {
@@ -225,7 +231,7 @@ class PerformanceService {
     }> = [];
 
     for (const performer of topPerformers) {
-      const angle = await angleRepository.findById(performer.angleId);
+      const angle = await angleRepository.findById(performer.angleId, workspaceId);
       if (angle) {
         winnerAngles.push({
           angle: {
@@ -247,8 +253,12 @@ class PerformanceService {
     }
 
     // Analyze patterns
-    const { patterns, recommendations } =
-      await aiService.analyzeWinnerPatterns(winnerAngles);
+    const { patterns, recommendations } = await aiService.analyzeWinnerPatterns(winnerAngles, {
+      workspaceId,
+      projectId,
+      userId,
+      settings: parseAISettings(project.aiSettings),
+    });
 
     logger.info({ projectId, winners: topPerformers.length }, 'Winners identified');
 
@@ -273,10 +283,12 @@ class PerformanceService {
   }
 
   async generateIterations(
+    workspaceId: string,
     projectId: string,
-    options?: { topN?: number; count?: number }
+    options?: { topN?: number; count?: number },
+    userId?: string
   ): Promise<AngleCard[]> {
-    const project = await projectRepository.findById(projectId);
+    const project = await projectRepository.findById(projectId, workspaceId);
     if (!project) {
       throw new NotFoundError('Project');
     }
@@ -284,10 +296,17 @@ class PerformanceService {
     const topN = options?.topN ?? 3;
     const count = options?.count ?? 5;
     const seedData = parseSeedData(project.seedData);
+    const aiContext = {
+      workspaceId,
+      projectId,
+      userId,
+      settings: parseAISettings(project.aiSettings),
+    };
 
     // Get winners
     const { angles: winners } = await angleRepository.findByProjectId(projectId, {
       isWinner: true,
+      workspaceId,
     });
     if (winners.length === 0) {
       throw new ValidationError(
@@ -309,14 +328,15 @@ class PerformanceService {
       metrics: { ctr: 0, roas: null, conversions: 0 }, // Will be filled from perf data
     }));
 
-    const { patterns } = await aiService.analyzeWinnerPatterns(winnerAngles);
+    const { patterns } = await aiService.analyzeWinnerPatterns(winnerAngles, aiContext);
 
     // Generate new angles based on winners
     const newAngles = await aiService.generateIterations(
       winnerAngles.map((w) => w.angle),
       patterns,
       seedData,
-      count
+      count,
+      aiContext
     );
 
     // Store new angles with parent references
@@ -338,6 +358,8 @@ class PerformanceService {
         estimatedDuration: angle.estimatedDuration,
         parentAngleId: parentWinner.id,
         generationNotes: `Iteration based on winner ${parentWinner.id}. ${angle.generationNotes ?? ''}`,
+        promptVersion: angle.promptVersion,
+        claimViolations: checkProjectClaims(project, angle),
       });
       createdAngles.push(created);
     }
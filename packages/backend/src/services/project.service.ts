@@ -15,33 +15,41 @@ const logger = createChildLogger('project-service');
 export type { CreateProjectInput, UpdateProjectInput };
 
 class ProjectService {
-  async createProject(input: CreateProjectInput): Promise<Project> {
+  async createProject(workspaceId: string, input: CreateProjectInput): Promise<Project> {
     // Type assertion is safe because zod validation ensures seedData is valid
     const project = await projectRepository.create({
+      workspaceId,
       name: input.name,
       description: input.description,
       seedData: input.seedData as SeedData,
+      aiSettings: input.aiSettings,
+      claimsPolicy: input.claimsPolicy,
+      requiredApprovals: input.requiredApprovals,
     });
 
-    logger.info({ projectId: project.id, name: project.name }, 'Project created');
+    logger.info({ projectId: project.id, workspaceId, name: project.name }, 'Project created');
 
     return project;
   }
 
-  async getProject(id: string) {
-    const project = await projectRepository.findById(id);
+  async getProject(workspaceId: string, id: string) {
+    const project = await projectRepository.findById(id, workspaceId);
     if (!project) {
       throw new NotFoundError('Project');
     }
     return project;
   }
 
-  async getAllProjects(options?: { page?: number; limit?: number }) {
-    return projectRepository.findAll(options);
+  async getAllProjects(workspaceId: string, options?: { page?: number; limit?: number }) {
+    return projectRepository.findAll(workspaceId, options);
   }
 
-  async updateProject(id: string, input: UpdateProjectInput): Promise<Project> {
-    const exists = await projectRepository.exists(id);
+  async updateProject(
+    workspaceId: string,
+    id: string,
+    input: UpdateProjectInput
+  ): Promise<Project> {
+    const exists = await projectRepository.exists(id, workspaceId);
     if (!exists) {
       throw new NotFoundError('Project');
     }
@@ -53,8 +61,8 @@ class ProjectService {
     return updated;
   }
 
-  async deleteProject(id: string): Promise<void> {
-    const exists = await projectRepository.exists(id);
+  async deleteProject(workspaceId: string, id: string): Promise<void> {
+    const exists = await projectRepository.exists(id, workspaceId);
     if (!exists) {
       throw new NotFoundError('Project');
     }
@@ -0,0 +1,328 @@
+import { readFile } from 'node:fs/promises';
+import { createHash } from 'node:crypto';
+import { Prisma } from '@prisma/client';
+import type { PromptTemplate } from '@prisma/client';
+import { projectRepository, promptTemplateRepository } from '../repositories/index.js';
+import { createChildLogger } from '../utils/logger.js';
+import { findTemplateErrors, renderTemplate, type TemplateVariables } from '../utils/template.js';
+import { parseSeedData } from '../schemas/seedData.schema.js';
+import { ConflictError, NotFoundError, ValidationError } from '../types/index.js';
+import type {
+  AIOperation,
+  PromptTemplateSource,
+  ResolvedPromptTemplate,
+  SeedData,
+} from '../types/index.js';
+import { AI_OPERATIONS } from './ai-providers/index.js';
+
+const logger = createChildLogger('prompt-template-service');
+
+// Resolves to packages/backend/prompts from both src/services and dist/services
+const DEFAULTS_DIR = new URL('../../prompts/', import.meta.url);
+
+const SEED_VARIABLES = [
+  'product_name',
+  'product_description',
+  'target_audience',
+  'key_benefits',
+  'pain_points',
+  'tone',
+  'platforms',
+  'brand_guidelines',
+  'competitors',
+  'unique_selling_points',
+] as const;
+
+// Variables each operation binds when rendering its prompt
+export const PROMPT_VARIABLES: Record<AIOperation, readonly string[]> = {
+  generate_angles: [...SEED_VARIABLES, 'count'],
+  localize: [
+    ...SEED_VARIABLES,
+    'locale',
+    'locale_name',
+    'locale_direction',
+    'locale_date_format',
+    'locale_plural_forms',
+    'locale_guidance',
+    'platform',
+    'platform_style',
+    'platform_aspect_ratio',
+    'platform_duration',
+    'platform_safe_zone',
+    'platform_caption_rules',
+    'hook',
+    'problem_agitation',
+    'solution',
+    'cta',
+  ],
+  analyze_patterns: ['winners'],
+  generate_iterations: [...SEED_VARIABLES, 'count', 'patterns', 'winners'],
+};
+
+const SAMPLE_SEED_DATA: SeedData = {
+  product_name: 'GlowSerum',
+  product_description: 'A lightweight vitamin C serum for daily use',
+  target_audience: 'Women 25-40 interested in skincare',
+  key_benefits: ['Brighter skin in 2 weeks', 'Non-greasy formula'],
+  pain_points: ['Dull skin', 'Heavy products that clog pores'],
+  tone: 'casual',
+  platforms: ['tiktok', 'instagram'],
+};
+
+const SAMPLE_WINNERS = `Angle 1 (CTR: 3.20%, ROAS: 2.50):
+Hook: Stop scrolling if your skin looks tired
+Problem: Most serums sit on your skin and do nothing.
+Solution: GlowSerum absorbs in seconds and brightens in two weeks.
+CTA: Tap to try it risk-free.`;
+
+// Stand-ins for values only known at generation time, used by previews
+const SAMPLE_VARIABLES: Record<AIOperation, TemplateVariables> = {
+  generate_angles: { count: 3 },
+  localize: {
+    locale: 'es-ES',
+    locale_name: 'Spanish (Spain)',
+    locale_direction: 'ltr',
+    locale_date_format: 'DD/MM/YYYY',
+    locale_plural_forms: ['one', 'many', 'other'],
+    locale_guidance: 'Use Castilian vocabulary and the informal "tú" unless the tone is professional.',
+    platform: 'TikTok',
+    platform_style: 'casual, trendy, use hooks and quick cuts',
+    platform_aspect_ratio: '9:16',
+    platform_duration: '15-60s (max 180s)',
+    platform_safe_zone:
+      'keep text out of the top 8%, bottom 20%, left 4% and right 12% of the frame',
+    platform_caption_rules: 'at most 2 lines of 32 characters',
+    hook: 'Stop scrolling if your skin looks tired',
+    problem_agitation: 'Most serums sit on your skin and do nothing.',
+    solution: 'GlowSerum absorbs in seconds and brightens in two weeks.',
+    cta: 'Tap to try it risk-free.',
+  },
+  analyze_patterns: { winners: SAMPLE_WINNERS },
+  generate_iterations: {
+    count: 3,
+    patterns: '- Hooks call out the viewer directly\n- Results come with a timeframe',
+    winners: SAMPLE_WINNERS,
+  },
+};
+
+export function seedDataVariables(seedData: SeedData): TemplateVariables {
+  return Object.fromEntries(SEED_VARIABLES.map((name) => [name, seedData[name]]));
+}
+
+export interface PromptTemplateInput {
+  system: string;
+  template: string;
+  note?: string;
+  projectId?: string;
+}
+
+export interface RenderedPrompt {
+  system: string;
+  prompt: string;
+}
+
+function toResolved(row: PromptTemplate, source: PromptTemplateSource): ResolvedPromptTemplate {
+  const operation = row.operation as AIOperation;
+  return {
+    operation,
+    source,
+    version: row.version,
+    label: `${operation}@${source}:v${row.version}`,
+    system: row.system,
+    template: row.template,
+  };
+}
+
+class PromptTemplateService {
+  private defaults = new Map<AIOperation, Promise<ResolvedPromptTemplate>>();
+
+  /**
+   * The file default for an operation. Its label carries a content hash so
+   * edits to the files are distinguishable in attribution.
+   */
+  getDefault(operation: AIOperation): Promise<ResolvedPromptTemplate> {
+    let template = this.defaults.get(operation);
+    if (!template) {
+      template = this.loadDefault(operation);
+      this.defaults.set(operation, template);
+    }
+    return template;
+  }
+
+  private async loadDefault(operation: AIOperation): Promise<ResolvedPromptTemplate> {
+    const [system, template] = await Promise.all([
+      readFile(new URL(`${operation}.system.txt`, DEFAULTS_DIR), 'utf8'),
+      readFile(new URL(`${operation}.txt`, DEFAULTS_DIR), 'utf8'),
+    ]);
+    const hash = createHash('sha256').update(system).update(template).digest('hex').slice(0, 8);
+
+    return {
+      operation,
+      source: 'default',
+      version: null,
+      label: `${operation}@default:${hash}`,
+      system: system.trimEnd(),
+      template: template.trimEnd(),
+    };
+  }
+
+  /**
+   * The template used for an operation: the project's override, then the global
+   * template, then the file default.
+   */
+  async resolve(operation: AIOperation, projectId?: string): Promise<ResolvedPromptTemplate> {
+    if (projectId) {
+      const override = await promptTemplateRepository.findLatest(operation, projectId);
+      if (override) return toResolved(override, 'project');
+    }
+
+    const global = await promptTemplateRepository.findLatest(operation, null);
+    if (global) return toResolved(global, 'global');
+
+    return this.getDefault(operation);
+  }
+
+  render(template: Pick<ResolvedPromptTemplate, 'system' | 'template'>, variables: TemplateVariables): RenderedPrompt {
+    return {
+      system: renderTemplate(template.system, variables),
+      prompt: renderTemplate(template.template, variables),
+    };
+  }
+
+  async listActive(workspaceId: string, projectId?: string): Promise<ResolvedPromptTemplate[]> {
+    if (projectId) await this.assertProject(workspaceId, projectId);
+    return Promise.all(AI_OPERATIONS.map((operation) => this.resolve(operation, projectId)));
+  }
+
+  async listVersions(
+    workspaceId: string,
+    operation: AIOperation,
+    projectId?: string
+  ): Promise<PromptTemplate[]> {
+    if (projectId) await this.assertProject(workspaceId, projectId);
+    return promptTemplateRepository.findVersions(operation, projectId ?? null);
+  }
+
+  /**
+   * Save a new version, which becomes active immediately.
+   */
+  async createVersion(
+    workspaceId: string,
+    userId: string,
+    operation: AIOperation,
+    input: PromptTemplateInput
+  ): Promise<PromptTemplate> {
+    if (input.projectId) await this.assertProject(workspaceId, input.projectId);
+    this.validate(operation, input);
+
+    let created: PromptTemplate;
+    try {
+      created = await promptTemplateRepository.create({
+        operation,
+        projectId: input.projectId ?? null,
+        system: input.system,
+        template: input.template,
+        note: input.note,
+        createdById: userId,
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictError('The template was changed by someone else; reload and try again');
+      }
+      throw error;
+    }
+
+    logger.info(
+      { operation, projectId: input.projectId, version: created.version },
+      'Prompt template version created'
+    );
+    return created;
+  }
+
+  /**
+   * Restore an earlier version by saving its content as a new version, so the
+   * history stays linear and angles keep pointing at the version they used.
+   */
+  async rollback(
+    workspaceId: string,
+    userId: string,
+    operation: AIOperation,
+    version: number,
+    projectId?: string
+  ): Promise<PromptTemplate> {
+    if (projectId) await this.assertProject(workspaceId, projectId);
+
+    const target = await promptTemplateRepository.findVersion(operation, projectId ?? null, version);
+    if (!target) {
+      throw new NotFoundError('Prompt template version');
+    }
+
+    return this.createVersion(workspaceId, userId, operation, {
+      system: target.system,
+      template: target.template,
+      note: `Rollback to v${version}`,
+      projectId,
+    });
+  }
+
+  /**
+   * Remove a project's override so it falls back to the global template.
+   */
+  async clearOverride(workspaceId: string, operation: AIOperation, projectId: string): Promise<void> {
+    await this.assertProject(workspaceId, projectId);
+    const removed = await promptTemplateRepository.deleteForProject(operation, projectId);
+    logger.info({ operation, projectId, removed }, 'Prompt template override cleared');
+  }
+
+  /**
+   * Render a draft (or the active template when no draft is given) with the
+   * project's seed data, or sample data without a project.
+   */
+  async preview(
+    workspaceId: string,
+    operation: AIOperation,
+    draft: Partial<PromptTemplateInput>
+  ): Promise<RenderedPrompt & { template: Pick<ResolvedPromptTemplate, 'label' | 'source'> | null }> {
+    let seedData = SAMPLE_SEED_DATA;
+    if (draft.projectId) {
+      const project = await projectRepository.findById(draft.projectId, workspaceId);
+      if (!project) {
+        throw new NotFoundError('Project');
+      }
+      seedData = parseSeedData(project.seedData);
+    }
+
+    const active = await this.resolve(operation, draft.projectId);
+    const template = {
+      system: draft.system ?? active.system,
+      template: draft.template ?? active.template,
+    };
+    this.validate(operation, template);
+
+    const isDraft = draft.system !== undefined || draft.template !== undefined;
+    return {
+      ...this.render(template, { ...seedDataVariables(seedData), ...SAMPLE_VARIABLES[operation] }),
+      template: isDraft ? null : { label: active.label, source: active.source },
+    };
+  }
+
+  private validate(operation: AIOperation, template: Pick<PromptTemplateInput, 'system' | 'template'>) {
+    const allowed = PROMPT_VARIABLES[operation];
+    const errors = [
+      ...findTemplateErrors(template.system, allowed).map((e) => `system: ${e}`),
+      ...findTemplateErrors(template.template, allowed).map((e) => `template: ${e}`),
+    ];
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid prompt template', { errors, allowedVariables: allowed });
+    }
+  }
+
+  private async assertProject(workspaceId: string, projectId: string): Promise<void> {
+    const exists = await projectRepository.exists(projectId, workspaceId);
+    if (!exists) {
+      throw new NotFoundError('Project');
+    }
+  }
+}
+
+export const promptTemplateService = new PromptTemplateService();
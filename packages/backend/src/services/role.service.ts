@@ -0,0 +1,106 @@
+import { roleRepository } from '../repositories/index.js';
+import { createChildLogger } from '../utils/logger.js';
+import { ALL_PERMISSIONS, BUILT_IN_ROLES, PERMISSIONS } from '../utils/permissions.js';
+import { ConflictError, NotFoundError, ValidationError } from '../types/index.js';
+import type { Role } from '@prisma/client';
+import type { RoleWithUserCount, UserWithRole } from '../repositories/index.js';
+
+const logger = createChildLogger('role-service');
+
+class RoleService {
+  async listRoles(): Promise<RoleWithUserCount[]> {
+    return roleRepository.findAll();
+  }
+
+  listPermissions(): string[] {
+    return [ALL_PERMISSIONS, ...PERMISSIONS];
+  }
+
+  async createRole(data: { name: string; permissions: string[] }): Promise<Role> {
+    await this.assertNameAvailable(data.name);
+
+    const role = await roleRepository.create(data);
+    logger.info({ roleId: role.id, name: role.name }, 'Role created');
+    return role;
+  }
+
+  async updateRole(
+    id: string,
+    data: { name?: string; permissions?: string[] }
+  ): Promise<Role> {
+    const role = await this.getRole(id);
+
+    if (data.name && data.name !== role.name) {
+      if (role.name in BUILT_IN_ROLES) {
+        throw new ValidationError(`Built-in role "${role.name}" cannot be renamed`);
+      }
+      await this.assertNameAvailable(data.name);
+    }
+
+    // Keep at least one role able to manage roles
+    if (role.name === 'admin' && data.permissions && !data.permissions.includes(ALL_PERMISSIONS)) {
+      throw new ValidationError('The admin role must keep all permissions');
+    }
+
+    const updated = await roleRepository.update(id, data);
+    logger.info({ roleId: id, permissions: updated.permissions }, 'Role updated');
+    return updated;
+  }
+
+  async deleteRole(id: string): Promise<void> {
+    const role = await this.getRole(id);
+
+    if (role.name in BUILT_IN_ROLES) {
+      throw new ValidationError(`Built-in role "${role.name}" cannot be deleted`);
+    }
+    if (role._count.users > 0) {
+      throw new ValidationError('Reassign users before deleting this role', {
+        users: role._count.users,
+      });
+    }
+
+    await roleRepository.delete(id);
+    logger.info({ roleId: id, name: role.name }, 'Role deleted');
+  }
+
+  async listUsers(options?: {
+    page?: number;
+    limit?: number;
+    roleId?: string;
+  }): Promise<{ users: UserWithRole[]; total: number }> {
+    return roleRepository.findUsers(options);
+  }
+
+  async assignRole(actorId: string, userId: string, roleId: string): Promise<UserWithRole> {
+    if (actorId === userId) {
+      throw new ValidationError('You cannot change your own role');
+    }
+
+    const user = await roleRepository.findUserById(userId);
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+    await this.getRole(roleId);
+
+    const updated = await roleRepository.assignRole(userId, roleId);
+    logger.info({ userId, roleId, actorId }, 'User role changed');
+    return updated;
+  }
+
+  private async getRole(id: string): Promise<RoleWithUserCount> {
+    const role = await roleRepository.findById(id);
+    if (!role) {
+      throw new NotFoundError('Role');
+    }
+    return role;
+  }
+
+  private async assertNameAvailable(name: string): Promise<void> {
+    const existing = await roleRepository.findByName(name);
+    if (existing) {
+      throw new ConflictError(`Role "${name}" already exists`);
+    }
+  }
+}
+
+export const roleService = new RoleService();
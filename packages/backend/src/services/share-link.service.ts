@@ -0,0 +1,199 @@
+import bcrypt from 'bcryptjs';
+import { packRepository, packShareRepository } from '../repositories/index.js';
+import { packService, type DownloadClient, type PackDownload } from './pack.service.js';
+import { config } from '../utils/config.js';
+import { createChildLogger } from '../utils/logger.js';
+import { signShareToken, verifyShareToken } from '../utils/share-token.js';
+import {
+  AuthorizationError,
+  NotFoundError,
+  PackExpiredError,
+  ShareLinkUnavailableError,
+} from '../types/index.js';
+import type { ShareLinkStatus } from '../types/index.js';
+import type { PackDownloadWithUser, ShareLinkWithCreator } from '../repositories/index.js';
+import type { CreateShareLinkInput } from '../validators/index.js';
+import type { PackShareLink } from '@prisma/client';
+
+const logger = createChildLogger('share-link-service');
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// The same fallback as the JWT middleware, so development works unconfigured
+const FALLBACK_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+
+// A share link as shown to workspace members; the password hash stays private
+export interface ShareLinkSummary extends Omit<ShareLinkWithCreator, 'passwordHash'> {
+  hasPassword: boolean;
+  status: ShareLinkStatus;
+  url: string;
+}
+
+// What someone holding a share link sees before downloading
+export interface SharedPackInfo {
+  packName: string;
+  label: string | null;
+  fileSize: number | null;
+  expiresAt: Date;
+  requiresPassword: boolean;
+  // Null when the link has no download limit
+  downloadsLeft: number | null;
+}
+
+class ShareLinkService {
+  private get secret(): string {
+    return config.SHARE_LINK_SECRET ?? FALLBACK_SECRET;
+  }
+
+  private urlFor(link: PackShareLink): string {
+    const base = config.SHARE_LINK_BASE_URL ?? config.CORS_ORIGIN.split(',')[0]?.trim() ?? '';
+    const token = signShareToken({ linkId: link.id, expiresAt: link.expiresAt }, this.secret);
+    return `${base.replace(/\/$/, '')}/share/${token}`;
+  }
+
+  private statusOf(link: PackShareLink, now = new Date()): ShareLinkStatus {
+    if (link.revokedAt) return 'revoked';
+    if (link.expiresAt <= now) return 'expired';
+    if (link.maxDownloads !== null && link.downloadCount >= link.maxDownloads) {
+      return 'exhausted';
+    }
+    return 'active';
+  }
+
+  private summarize(link: ShareLinkWithCreator): ShareLinkSummary {
+    const { passwordHash, ...rest } = link;
+    return {
+      ...rest,
+      hasPassword: passwordHash !== null,
+      status: this.statusOf(link),
+      url: this.urlFor(link),
+    };
+  }
+
+  private async requirePack(workspaceId: string, packId: string) {
+    const pack = await packRepository.findById(packId, workspaceId);
+    if (!pack) {
+      throw new NotFoundError('Pack');
+    }
+    return pack;
+  }
+
+  async createLink(
+    workspaceId: string,
+    packId: string,
+    input: CreateShareLinkInput,
+    userId?: string
+  ): Promise<ShareLinkSummary> {
+    const pack = await this.requirePack(workspaceId, packId);
+    if (pack.expiresAt && pack.expiresAt <= new Date()) {
+      throw new PackExpiredError(pack.expiresAt);
+    }
+
+    // A link never outlives the pack it points at. Tokens carry whole seconds.
+    let expiresAt = new Date(Date.now() + input.expiresInHours * HOUR_MS);
+    if (pack.expiresAt && pack.expiresAt < expiresAt) {
+      expiresAt = pack.expiresAt;
+    }
+    expiresAt.setMilliseconds(0);
+
+    const link = await packShareRepository.createLink({
+      packId,
+      createdById: userId,
+      label: input.label,
+      expiresAt,
+      passwordHash: input.password ? await bcrypt.hash(input.password, 10) : undefined,
+      maxDownloads: input.maxDownloads,
+    });
+
+    logger.info({ packId, linkId: link.id, expiresAt }, 'Share link created');
+    return this.summarize(link);
+  }
+
+  async getLinks(workspaceId: string, packId: string): Promise<ShareLinkSummary[]> {
+    await this.requirePack(workspaceId, packId);
+    const links = await packShareRepository.findLinksByPack(packId);
+    return links.map((link) => this.summarize(link));
+  }
+
+  async revokeLink(workspaceId: string, packId: string, linkId: string): Promise<ShareLinkSummary> {
+    await this.requirePack(workspaceId, packId);
+    const link = await packShareRepository.revokeLink(linkId, packId);
+    if (!link) {
+      throw new NotFoundError('Active share link');
+    }
+
+    logger.info({ packId, linkId }, 'Share link revoked');
+    return this.summarize(link);
+  }
+
+  async getDownloads(
+    workspaceId: string,
+    packId: string,
+    limit: number
+  ): Promise<PackDownloadWithUser[]> {
+    await this.requirePack(workspaceId, packId);
+    return packShareRepository.findDownloads(packId, limit);
+  }
+
+  /**
+   * The link a token was signed for, if it can still be used. Tokens that do
+   * not verify are reported as missing rather than as forged.
+   */
+  private async resolveToken(token: string) {
+    const claims = verifyShareToken(token, this.secret);
+    const link = claims ? await packShareRepository.findLinkWithPack(claims.linkId) : null;
+    if (!claims || !link || link.expiresAt.getTime() !== claims.expiresAt.getTime()) {
+      throw new NotFoundError('Share link');
+    }
+
+    const status = this.statusOf(link);
+    if (status !== 'active') {
+      throw new ShareLinkUnavailableError(status);
+    }
+    if (link.pack.expiresAt && link.pack.expiresAt <= new Date()) {
+      throw new PackExpiredError(link.pack.expiresAt);
+    }
+    return link;
+  }
+
+  async getSharedPack(token: string): Promise<SharedPackInfo> {
+    const link = await this.resolveToken(token);
+    return {
+      packName: link.pack.name,
+      label: link.label,
+      fileSize: link.pack.fileSize === null ? null : Number(link.pack.fileSize),
+      expiresAt: link.expiresAt,
+      requiresPassword: link.passwordHash !== null,
+      downloadsLeft: link.maxDownloads === null ? null : link.maxDownloads - link.downloadCount,
+    };
+  }
+
+  async downloadShared(
+    token: string,
+    password: string | undefined,
+    client: Omit<DownloadClient, 'userId' | 'shareLinkId'>
+  ): Promise<PackDownload> {
+    const link = await this.resolveToken(token);
+
+    if (link.passwordHash) {
+      if (!password || !(await bcrypt.compare(password, link.passwordHash))) {
+        logger.warn({ linkId: link.id, ip: client.ip }, 'Share link password rejected');
+        throw new AuthorizationError(password ? 'Incorrect password' : 'Password required');
+      }
+    }
+
+    // Claimed before streaming so parallel requests cannot pass the limit
+    if (!(await packShareRepository.claimDownload(link))) {
+      throw new ShareLinkUnavailableError(link.maxDownloads === null ? 'revoked' : 'exhausted');
+    }
+
+    try {
+      return await packService.openPack(link.pack, { ...client, shareLinkId: link.id });
+    } catch (error) {
+      await packShareRepository.releaseDownload(link.id);
+      throw error;
+    }
+  }
+}
+
+export const shareLinkService = new ShareLinkService();
@@ -0,0 +1,46 @@
+import { config } from '../../utils/config.js';
+import { StorageError } from '../../types/index.js';
+import { LocalStorage } from './local.storage.js';
+import { S3Storage } from './s3.storage.js';
+import type { StorageBackend } from './types.js';
+
+export { LocalStorage } from './local.storage.js';
+export { S3Storage, signS3Request, type S3StorageOptions } from './s3.storage.js';
+export type {
+  StorageBackend,
+  StorageBackendName,
+  StoredObject,
+  StoredObjectStream,
+} from './types.js';
+
+let storage: StorageBackend | undefined;
+
+function createStorage(): StorageBackend {
+  switch (config.STORAGE_BACKEND) {
+    case 'local':
+      return new LocalStorage(config.STORAGE_PATH);
+
+    case 's3':
+      if (!config.S3_BUCKET || !config.S3_ACCESS_KEY_ID || !config.S3_SECRET_ACCESS_KEY) {
+        throw new StorageError(
+          'S3 storage selected but S3_BUCKET, S3_ACCESS_KEY_ID or S3_SECRET_ACCESS_KEY is not set'
+        );
+      }
+      return new S3Storage({
+        bucket: config.S3_BUCKET,
+        region: config.S3_REGION,
+        endpoint: config.S3_ENDPOINT,
+        accessKeyId: config.S3_ACCESS_KEY_ID,
+        secretAccessKey: config.S3_SECRET_ACCESS_KEY,
+        forcePathStyle: config.S3_FORCE_PATH_STYLE,
+      });
+  }
+}
+
+/**
+ * The configured storage backend, created on first use.
+ */
+export function getStorage(): StorageBackend {
+  storage ??= createStorage();
+  return storage;
+}
@@ -0,0 +1,76 @@
+import { createReadStream } from 'fs';
+import { copyFile, mkdir, readdir, stat, unlink } from 'fs/promises';
+import { dirname, join, relative, resolve, sep } from 'path';
+import { StorageError } from '../../types/index.js';
+import type { StorageBackend, StoredObject, StoredObjectStream } from './types.js';
+
+const isMissing = (error: unknown) => (error as NodeJS.ErrnoException).code === 'ENOENT';
+
+/**
+ * Files under a directory on the API server's disk, STORAGE_PATH by default.
+ */
+export class LocalStorage implements StorageBackend {
+  readonly name = 'local' as const;
+  private root: string;
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  // Keys must stay inside the root
+  private pathFor(key: string): string {
+    const path = resolve(this.root, key);
+    if (!path.startsWith(this.root + sep)) {
+      throw new StorageError(`Invalid storage key "${key}"`);
+    }
+    return path;
+  }
+
+  async putFile(key: string, filePath: string): Promise<void> {
+    const path = this.pathFor(key);
+    await mkdir(dirname(path), { recursive: true });
+    await copyFile(filePath, path);
+  }
+
+  async get(key: string): Promise<StoredObjectStream | null> {
+    const path = this.pathFor(key);
+    try {
+      const { size } = await stat(path);
+      return { stream: createReadStream(path), size };
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await unlink(this.pathFor(key));
+    } catch (error) {
+      if (!isMissing(error)) throw error;
+    }
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const dir = this.pathFor(prefix);
+    let entries: string[];
+    try {
+      entries = await readdir(dir, { recursive: true });
+    } catch (error) {
+      if (isMissing(error)) return [];
+      throw error;
+    }
+
+    const objects: StoredObject[] = [];
+    for (const entry of entries) {
+      const info = await stat(join(dir, entry));
+      if (!info.isFile()) continue;
+      objects.push({
+        key: relative(this.root, join(dir, entry)).split(sep).join('/'),
+        size: info.size,
+        lastModified: info.mtime,
+      });
+    }
+    return objects;
+  }
+}
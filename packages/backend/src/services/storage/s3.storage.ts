@@ -0,0 +1,206 @@
+import { createHash, createHmac } from 'crypto';
+import { readFile } from 'fs/promises';
+import { Readable } from 'stream';
+import type { ReadableStream } from 'stream/web';
+import { StorageError } from '../../types/index.js';
+import type { StorageBackend, StoredObject, StoredObjectStream } from './types.js';
+
+export interface S3StorageOptions {
+  bucket: string;
+  region: string;
+  // e.g. http://localhost:9000 for MinIO; AWS when omitted
+  endpoint?: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;
+}
+
+export interface SignableRequest {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  // Hex SHA-256 of the body
+  payloadHash: string;
+}
+
+const EMPTY_HASH = createHash('sha256').update('').digest('hex');
+
+const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) =>
+  createHmac('sha256', key).update(data).digest();
+
+// RFC 3986 encoding, which SigV4 requires and encodeURIComponent falls short of
+const encodeRfc3986 = (value: string) =>
+  encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+
+/**
+ * Sign a request with AWS Signature Version 4 for the s3 service. Returns the
+ * headers to send, including x-amz-date, x-amz-content-sha256 and
+ * Authorization. `now` is injectable for tests.
+ */
+export function signS3Request(
+  request: SignableRequest,
+  credentials: Pick<S3StorageOptions, 'accessKeyId' | 'secretAccessKey' | 'region'>,
+  now = new Date()
+): Record<string, string> {
+  const amzDate = now
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+  const date = amzDate.slice(0, 8);
+
+  // fetch sets Host itself, but it is always signed
+  const headers: Record<string, string> = {
+    ...request.headers,
+    'x-amz-content-sha256': request.payloadHash,
+    'x-amz-date': amzDate,
+  };
+  const lowered: Record<string, string> = Object.fromEntries(
+    Object.entries({ ...headers, host: request.url.host }).map(([name, value]) => [
+      name.toLowerCase(),
+      value.trim(),
+    ])
+  );
+  const names = Object.keys(lowered).sort();
+  const signedHeaders = names.join(';');
+
+  const query = [...request.url.searchParams]
+    .map(([name, value]) => `${encodeRfc3986(name)}=${encodeRfc3986(value)}`)
+    .sort()
+    .join('&');
+
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname,
+    query,
+    names.map((name) => `${name}:${lowered[name]}\n`).join(''),
+    signedHeaders,
+    request.payloadHash,
+  ].join('\n');
+
+  const scope = `${date}/${credentials.region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+  const signingKey = ['s3', 'aws4_request'].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${credentials.secretAccessKey}`, date), credentials.region)
+  );
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return {
+    ...headers,
+    authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+// The fields of ListObjectsV2 this backend reads
+function parseListing(xml: string): { objects: StoredObject[]; nextToken?: string } {
+  const tag = (block: string, name: string) =>
+    block.match(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`))?.[1];
+  const unescape = (value: string) =>
+    value
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&');
+
+  const objects = [...xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)].map(([, block = '']) => ({
+    key: unescape(tag(block, 'Key') ?? ''),
+    size: Number(tag(block, 'Size') ?? 0),
+    lastModified: new Date(tag(block, 'LastModified') ?? 0),
+  }));
+  const truncated = tag(xml, 'IsTruncated') === 'true';
+  const nextToken = tag(xml, 'NextContinuationToken');
+  return { objects, nextToken: truncated && nextToken ? unescape(nextToken) : undefined };
+}
+
+/**
+ * An S3 bucket, or any server speaking the S3 API such as MinIO or R2. Talks
+ * to the REST API directly with SigV4-signed requests.
+ */
+export class S3Storage implements StorageBackend {
+  readonly name = 's3' as const;
+
+  constructor(private options: S3StorageOptions) {}
+
+  private urlFor(key: string): URL {
+    const { bucket, region, endpoint, forcePathStyle } = this.options;
+    const base = new URL(endpoint ?? `https://s3.${region}.amazonaws.com`);
+    const path = key.split('/').map(encodeRfc3986).join('/');
+    if (forcePathStyle) {
+      return new URL(`${base.origin}/${bucket}/${path}`);
+    }
+    return new URL(`${base.protocol}//${bucket}.${base.host}/${path}`);
+  }
+
+  private async send(
+    method: string,
+    url: URL,
+    body?: Buffer,
+    headers: Record<string, string> = {}
+  ): Promise<Response> {
+    const signed = signS3Request(
+      { method, url, headers, payloadHash: body ? sha256(body) : EMPTY_HASH },
+      this.options
+    );
+    try {
+      return await fetch(url, { method, headers: signed, body });
+    } catch (error) {
+      throw new StorageError(`S3 ${method} ${url.pathname} failed`, {
+        cause: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async fail(response: Response, action: string): Promise<never> {
+    throw new StorageError(`S3 ${action} failed with status ${response.status}`, {
+      body: await response.text(),
+    });
+  }
+
+  async putFile(key: string, filePath: string): Promise<void> {
+    // Packs are small enough to sign in one piece; no multipart upload
+    const body = await readFile(filePath);
+    const response = await this.send('PUT', this.urlFor(key), body, {
+      'content-type': 'application/zip',
+    });
+    if (!response.ok) await this.fail(response, `upload of ${key}`);
+  }
+
+  async get(key: string): Promise<StoredObjectStream | null> {
+    const response = await this.send('GET', this.urlFor(key));
+    if (response.status === 404) return null;
+    if (!response.ok || !response.body) return this.fail(response, `download of ${key}`);
+    return {
+      stream: Readable.fromWeb(response.body as ReadableStream<Uint8Array>),
+      size: Number(response.headers.get('content-length') ?? 0),
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.send('DELETE', this.urlFor(key));
+    if (!response.ok && response.status !== 404) await this.fail(response, `delete of ${key}`);
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    let token: string | undefined;
+    do {
+      const url = this.urlFor('');
+      url.searchParams.set('list-type', '2');
+      url.searchParams.set('prefix', prefix);
+      if (token) url.searchParams.set('continuation-token', token);
+
+      const response = await this.send('GET', url);
+      if (!response.ok) await this.fail(response, `listing of ${prefix}`);
+      const page = parseListing(await response.text());
+      objects.push(...page.objects);
+      token = page.nextToken;
+    } while (token);
+    return objects;
+  }
+}
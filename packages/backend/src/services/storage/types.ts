@@ -0,0 +1,29 @@
+import type { Readable } from 'stream';
+
+export type StorageBackendName = 'local' | 's3';
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+export interface StoredObjectStream {
+  stream: Readable;
+  size: number;
+}
+
+/**
+ * Where pack archives live. Keys are relative, slash-separated paths such as
+ * "packs/pack-1a2b3c4d-1700000000000.zip".
+ */
+export interface StorageBackend {
+  readonly name: StorageBackendName;
+  // Copy a local file into storage; the file is left in place
+  putFile(key: string, filePath: string): Promise<void>;
+  // Null when nothing is stored under the key
+  get(key: string): Promise<StoredObjectStream | null>;
+  // Deleting a missing key is not an error
+  delete(key: string): Promise<void>;
+  list(prefix: string): Promise<StoredObject[]>;
+}
@@ -0,0 +1,189 @@
+import { Prisma } from '@prisma/client';
+import { workspaceRepository } from '../repositories/index.js';
+import { createChildLogger } from '../utils/logger.js';
+import {
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '../types/index.js';
+import type { WorkspaceContext, WorkspaceRole } from '../types/index.js';
+import type { WorkspaceMember } from '@prisma/client';
+import type { WorkspaceWithMembers } from '../repositories/index.js';
+
+const logger = createChildLogger('workspace-service');
+
+// Roles allowed to manage membership and workspace settings
+const MANAGER_ROLES: WorkspaceRole[] = ['owner', 'admin'];
+
+class WorkspaceService {
+  /**
+   * Resolve the workspace a request operates in. An explicit workspace id must be
+   * one the user belongs to; otherwise the user's oldest membership is used, and a
+   * personal workspace is created on first use.
+   */
+  async resolveForUser(
+    user: { id: string; email: string },
+    requestedWorkspaceId?: string
+  ): Promise<WorkspaceContext> {
+    if (requestedWorkspaceId) {
+      const membership = await workspaceRepository.findMembership(requestedWorkspaceId, user.id);
+      if (!membership) {
+        throw new AuthorizationError('You are not a member of this workspace');
+      }
+      return { id: membership.workspaceId, role: membership.role as WorkspaceRole };
+    }
+
+    const membership = await workspaceRepository.findFirstMembership(user.id);
+    if (membership) {
+      return { id: membership.workspaceId, role: membership.role as WorkspaceRole };
+    }
+
+    const workspace = await workspaceRepository.create({
+      name: `${user.email}'s workspace`,
+      ownerId: user.id,
+    });
+    logger.info({ workspaceId: workspace.id, userId: user.id }, 'Personal workspace created');
+
+    return { id: workspace.id, role: 'owner' };
+  }
+
+  async createWorkspace(userId: string, name: string): Promise<WorkspaceWithMembers> {
+    const workspace = await workspaceRepository.create({ name, ownerId: userId });
+    logger.info({ workspaceId: workspace.id, userId }, 'Workspace created');
+    return workspace;
+  }
+
+  async getUserWorkspaces(userId: string): Promise<WorkspaceWithMembers[]> {
+    return workspaceRepository.findByUserId(userId);
+  }
+
+  async getWorkspace(userId: string, id: string): Promise<WorkspaceWithMembers> {
+    const workspace = await workspaceRepository.findById(id);
+    if (!workspace || !workspace.members.some((m) => m.userId === userId)) {
+      throw new NotFoundError('Workspace');
+    }
+    return workspace;
+  }
+
+  async updateWorkspace(userId: string, id: string, data: { name?: string }) {
+    await this.assertManager(userId, id);
+    return workspaceRepository.update(id, data);
+  }
+
+  async deleteWorkspace(userId: string, id: string): Promise<void> {
+    const membership = await workspaceRepository.findMembership(id, userId);
+    if (!membership) {
+      throw new NotFoundError('Workspace');
+    }
+    if (membership.role !== 'owner') {
+      throw new AuthorizationError('Only workspace owners can delete a workspace');
+    }
+
+    await workspaceRepository.delete(id);
+    logger.info({ workspaceId: id, userId }, 'Workspace deleted');
+  }
+
+  /**
+   * Add a user who is not yet a member. Existing members change role through
+   * updateMemberRole, which guards owners.
+   */
+  async addMember(
+    actorId: string,
+    workspaceId: string,
+    userId: string,
+    role: WorkspaceRole
+  ): Promise<WorkspaceMember> {
+    const actor = await this.assertManager(actorId, workspaceId);
+    if (role === 'owner' && actor.role !== 'owner') {
+      throw new AuthorizationError('Only workspace owners can grant the owner role');
+    }
+
+    const existing = await workspaceRepository.findMembership(workspaceId, userId);
+    if (existing) {
+      throw new ConflictError('This user is already a member of the workspace');
+    }
+
+    let member: WorkspaceMember;
+    try {
+      member = await workspaceRepository.addMember(workspaceId, userId, role);
+    } catch (error) {
+      // P2002: added concurrently
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictError('This user is already a member of the workspace');
+      }
+      throw error;
+    }
+    logger.info({ workspaceId, userId, role }, 'Workspace member added');
+    return member;
+  }
+
+  async updateMemberRole(
+    actorId: string,
+    workspaceId: string,
+    userId: string,
+    role: WorkspaceRole
+  ): Promise<WorkspaceMember> {
+    const actor = await this.assertManager(actorId, workspaceId);
+    const member = await workspaceRepository.findMembership(workspaceId, userId);
+    if (!member) {
+      throw new NotFoundError('Workspace member');
+    }
+    if ((role === 'owner' || member.role === 'owner') && actor.role !== 'owner') {
+      throw new AuthorizationError('Only workspace owners can change owner roles');
+    }
+    if (member.role === 'owner' && role !== 'owner') {
+      await this.assertNotLastOwner(workspaceId);
+    }
+
+    return workspaceRepository.updateMemberRole(workspaceId, userId, role);
+  }
+
+  async removeMember(actorId: string, workspaceId: string, userId: string): Promise<void> {
+    // Members may always leave; removing someone else requires a manager role
+    const actor =
+      actorId === userId
+        ? await workspaceRepository.findMembership(workspaceId, actorId)
+        : await this.assertManager(actorId, workspaceId);
+    if (!actor) {
+      throw new NotFoundError('Workspace');
+    }
+
+    const member = await workspaceRepository.findMembership(workspaceId, userId);
+    if (!member) {
+      throw new NotFoundError('Workspace member');
+    }
+    if (member.role === 'owner') {
+      if (actor.role !== 'owner') {
+        throw new AuthorizationError('Only workspace owners can remove an owner');
+      }
+      await this.assertNotLastOwner(workspaceId);
+    }
+
+    await workspaceRepository.removeMember(workspaceId, userId);
+    logger.info({ workspaceId, userId }, 'Workspace member removed');
+  }
+
+  /**
+   * Throws unless the user is an owner or admin of the workspace.
+   */
+  async assertManager(userId: string, workspaceId: string): Promise<WorkspaceMember> {
+    const membership = await workspaceRepository.findMembership(workspaceId, userId);
+    if (!membership) {
+      throw new NotFoundError('Workspace');
+    }
+    if (!MANAGER_ROLES.includes(membership.role as WorkspaceRole)) {
+      throw new AuthorizationError('Only workspace owners and admins can manage the workspace');
+    }
+    return membership;
+  }
+
+  private async assertNotLastOwner(workspaceId: string): Promise<void> {
+    const owners = await workspaceRepository.countOwners(workspaceId);
+    if (owners <= 1) {
+      throw new ValidationError('A workspace must keep at least one owner');
+    }
+  }
+}
+
+export const workspaceService = new WorkspaceService();
@@ -1,12 +1,15 @@
 import type { Request, Response, NextFunction } from 'express';
+import type { Locale } from '../utils/locales.js';
 
 // ============================================
 // Seed Data Types
 // ============================================
 
 export type Tone = 'professional' | 'casual' | 'humorous' | 'urgent' | 'empathetic';
-export type Platform = 'tiktok' | 'instagram' | 'youtube';
-export type Locale = 'en-US' | 'es-ES' | 'fr-FR' | 'de-DE' | 'pt-BR';
+// A platform id from the registry in utils/platforms.ts, e.g. "tiktok" or "snapchat"
+export type Platform = string;
+// Locales are defined by the registry in utils/locales.ts
+export type { Locale };
 
 export interface SeedData {
   product_name: string;
@@ -21,11 +24,24 @@ export interface SeedData {
   unique_selling_points?: string[];
 }
 
+// ============================================
+// Workspace Types
+// ============================================
+
+export type WorkspaceRole = 'owner' | 'admin' | 'member' | 'viewer';
+
+export interface WorkspaceContext {
+  id: string;
+  role: WorkspaceRole;
+}
+
 // ============================================
 // Angle Card Types
 // ============================================
 
-export type AngleStatus = 'draft' | 'approved' | 'rejected' | 'archived';
+export type AngleStatus = 'draft' | 'in_review' | 'approved' | 'rejected' | 'archived';
+
+export type ReviewDecision = 'approved' | 'rejected';
 
 export interface AngleCardData {
   hook: string;
@@ -39,6 +55,8 @@ export interface AngleCardData {
 
 export interface GeneratedAngle extends AngleCardData {
   generationNotes?: string;
+  // Label of the prompt template that produced the angle
+  promptVersion?: string;
 }
 
 // ============================================
@@ -93,6 +111,215 @@ export interface WinnerAnalysis {
   recommendations: string[];
 }
 
+// ============================================
+// Claims Policy Types
+// ============================================
+
+// Angle copy fields a claims policy is checked against
+export type AngleCopyField = 'hook' | 'problemAgitation' | 'solution' | 'cta';
+
+export interface ClaimsRegexRule {
+  pattern: string;
+  flags?: string;
+  message: string;
+  // Fields the rule applies to; all copy fields when omitted
+  fields?: AngleCopyField[];
+}
+
+export interface RequiredDisclaimer {
+  text: string;
+  // Only required when the copy matches this pattern, e.g. "invest|returns"
+  when?: string;
+}
+
+// Stored on Project.claimsPolicy
+export interface ClaimsPolicy {
+  forbiddenPhrases: string[];
+  requiredDisclaimers: RequiredDisclaimer[];
+  regexRules: ClaimsRegexRule[];
+  // Whether copy may name the competitors listed in the project's seed data
+  allowCompetitorMentions: boolean;
+}
+
+export interface ClaimViolation {
+  rule: 'forbidden_phrase' | 'missing_disclaimer' | 'regex' | 'competitor';
+  message: string;
+  // Null for disclaimers, which may appear in any field
+  field: AngleCopyField | null;
+}
+
+// ============================================
+// Revision Types
+// ============================================
+
+export type AngleContentField =
+  | AngleCopyField
+  | 'visualDirection'
+  | 'audioNotes'
+  | 'estimatedDuration';
+
+// Content of an angle at one version
+export type AngleSnapshot = Record<AngleCopyField, string> & {
+  visualDirection: string | null;
+  audioNotes: string | null;
+  estimatedDuration: number | null;
+};
+
+export type AngleRevisionSource = 'original' | 'edit' | 'regenerate' | 'restore';
+
+export type LocalizedContentField =
+  | 'script'
+  | 'captions'
+  | 'onScreenText'
+  | 'culturalNotes'
+  | 'platformAdjustments';
+
+// Content of a localization at one version
+export interface LocalizedContentSnapshot {
+  script: string;
+  captions: Caption[];
+  onScreenText: OnScreenText[];
+  culturalNotes: string | null;
+  platformAdjustments: string | null;
+}
+
+// Whether a localization's content came from the model or a translator
+export type ContentOrigin = 'ai' | 'human';
+
+// Where a localization is in native-speaker review
+export type LocalizationReviewStatus = 'machine' | 'in_review' | 'approved' | 'changes_requested';
+
+export interface FieldChange<F extends string = string> {
+  field: F;
+  from: unknown;
+  to: unknown;
+}
+
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+// A changed field with a word-level diff when both sides are text
+export interface FieldDiff<F extends string = string> extends FieldChange<F> {
+  segments?: DiffSegment[];
+}
+
+// ============================================
+// AI Provider Types
+// ============================================
+
+export type AIProviderName = 'openai' | 'anthropic' | 'local' | 'mock';
+
+export type AIOperation =
+  | 'generate_angles'
+  | 'localize'
+  | 'analyze_patterns'
+  | 'generate_iterations';
+
+export interface AIProviderSelection {
+  provider?: AIProviderName;
+  model?: string;
+}
+
+// Stored on Project.aiSettings; operation entries take precedence over the project default
+export interface ProjectAISettings extends AIProviderSelection {
+  operations?: Partial<Record<AIOperation, AIProviderSelection>>;
+}
+
+// Who an AI call is made for. Calls with a context are metered and budget-checked.
+export interface AIRequestContext {
+  workspaceId: string;
+  projectId?: string;
+  userId?: string;
+  settings?: ProjectAISettings | null;
+}
+
+// ============================================
+// Prompt Template Types
+// ============================================
+
+// Where the active template for an operation comes from, most specific first
+export type PromptTemplateSource = 'project' | 'global' | 'default';
+
+export interface ResolvedPromptTemplate {
+  operation: AIOperation;
+  source: PromptTemplateSource;
+  // null for the file defaults
+  version: number | null;
+  // Recorded on generated content, e.g. "generate_angles@project:v3"
+  label: string;
+  system: string;
+  template: string;
+}
+
+// ============================================
+// AI Usage Types
+// ============================================
+
+export interface AIUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export interface AIUsageDay extends AIUsageTotals {
+  date: string; // YYYY-MM-DD, UTC
+  byOperation: Partial<Record<AIOperation, AIUsageTotals>>;
+}
+
+// Spend for the current calendar month (UTC) against a monthly cap
+export interface AIBudgetStatus {
+  monthlyBudgetUsd: number | null;
+  spentUsd: number;
+  remainingUsd: number | null;
+}
+
+// ============================================
+// Job Types
+// ============================================
+
+export type JobType = 'generate_angles' | 'localize' | 'build_pack' | 'rebuild_pack';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobPayloads {
+  generate_angles: { projectId: string; count: number };
+  localize: { angleId: string; locales: Locale[]; platforms: Platform[] };
+  build_pack: {
+    projectId: string;
+    name: string;
+    angleIds: string[];
+    locales: Locale[];
+    platforms: Platform[];
+    approvedOnly?: boolean;
+    captionFormats?: CaptionFormat[];
+    templateId?: string;
+    includeBrief?: boolean;
+    // Null keeps the pack; the workspace policy applies when omitted
+    expiresInDays?: number | null;
+  };
+  rebuild_pack: {
+    packId: string;
+    // Also write a zip of just the changed files
+    delta?: boolean;
+    name?: string;
+    expiresInDays?: number | null;
+  };
+}
+
+export interface JobError {
+  code: string;
+  message: string;
+  details?: unknown;
+}
+
+// Called by long-running service methods as work completes. Rejects with
+// JobCancelledError once the job has been cancelled, or JobLockLostError once
+// another worker has taken it over.
+export type ProgressReporter = (completed: number, total: number, message?: string) => Promise<void>;
+
 // ============================================
 // API Types
 // ============================================
@@ -162,6 +389,27 @@ export class NotFoundError extends AppError {
   }
 }
 
+export class AuthenticationError extends AppError {
+  constructor(message = 'Authentication required') {
+    super(401, message, 'AUTHENTICATION_ERROR');
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class AuthorizationError extends AppError {
+  constructor(message = 'Insufficient permissions') {
+    super(403, message, 'AUTHORIZATION_ERROR');
+    this.name = 'AuthorizationError';
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string) {
+    super(409, message, 'CONFLICT');
+    this.name = 'ConflictError';
+  }
+}
+
 export class AIServiceError extends AppError {
   constructor(message: string, details?: unknown) {
     super(503, message, 'AI_SERVICE_ERROR', details);
@@ -169,10 +417,92 @@ export class AIServiceError extends AppError {
   }
 }
 
+export class BudgetExceededError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(402, message, 'AI_BUDGET_EXCEEDED', details);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export class ClaimsViolationError extends AppError {
+  constructor(violations: ClaimViolation[]) {
+    super(
+      422,
+      'Angle violates the project claims policy; approve it with an override reason to proceed',
+      'CLAIMS_VIOLATION',
+      { violations }
+    );
+    this.name = 'ClaimsViolationError';
+  }
+}
+
+export class StorageError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(503, message, 'STORAGE_ERROR', details);
+    this.name = 'StorageError';
+  }
+}
+
+export class PackExpiredError extends AppError {
+  constructor(expiredAt: Date) {
+    super(410, 'Pack has expired; rebuild it to download again', 'PACK_EXPIRED', { expiredAt });
+    this.name = 'PackExpiredError';
+  }
+}
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked' | 'exhausted';
+
+export class ShareLinkUnavailableError extends AppError {
+  constructor(status: Exclude<ShareLinkStatus, 'active'>) {
+    const reasons = {
+      expired: 'This share link has expired',
+      revoked: 'This share link has been revoked',
+      exhausted: 'This share link has reached its download limit',
+    };
+    super(410, reasons[status], 'SHARE_LINK_UNAVAILABLE', { status });
+    this.name = 'ShareLinkUnavailableError';
+  }
+}
+
+export class JobCancelledError extends AppError {
+  constructor() {
+    super(409, 'Job was cancelled', 'JOB_CANCELLED');
+    this.name = 'JobCancelledError';
+  }
+}
+
+export class JobLockLostError extends AppError {
+  constructor() {
+    super(409, 'Job was taken over by another worker', 'JOB_LOCK_LOST');
+    this.name = 'JobLockLostError';
+  }
+}
+
 // ============================================
 // Pack Types
 // ============================================
 
+// Caption file formats a pack can include
+export type CaptionFormat = 'srt' | 'vtt' | 'ttml' | 'ass' | 'json';
+
+// Kinds of file a pack template can include
+export type PackFileKind = 'script' | 'captions' | 'overlays' | 'metadata' | 'brief';
+
+export type PackFileType =
+  | 'script'
+  | 'captions'
+  | 'webvtt'
+  | 'ttml'
+  | 'ass'
+  | 'cue_sheet'
+  | 'overlay_track'
+  | 'overlay_ass'
+  | 'overlay_xml'
+  | 'overlay_edl'
+  | 'metadata'
+  | 'brief_html'
+  | 'brief_pdf';
+
 export interface PackManifest {
   version: string;
   created_at: string;
@@ -182,16 +512,71 @@ export interface PackManifest {
     locales: string[];
     platforms: string[];
     total_files: number;
+    caption_formats?: CaptionFormat[];
   };
+  // Layout the archive was built with
+  template?: { id: string; name: string; path_template: string; file_types: PackFileKind[] };
+  // Display name and text direction of each locale folder
+  locale_info?: Record<string, { name: string; direction: 'ltr' | 'rtl' }>;
+  // Delivery specs of each platform folder
+  platform_info?: Record<
+    string,
+    {
+      name: string;
+      aspect_ratio: string;
+      max_duration: number;
+      safe_zone: { top: number; bottom: number; left: number; right: number };
+      captions: { maxCharsPerLine: number; maxLines: number; burnedIn: boolean };
+    }
+  >;
+  // What the pack was built from, so a rebuild can repeat it
+  build?: {
+    angle_ids: string[];
+    locales: string[];
+    platforms: string[];
+    approved_only: boolean;
+    path_template: string;
+    file_types: PackFileKind[];
+  };
+  // 1 for a new pack, then one more for each rebuild
+  pack_version?: number;
+  previous_pack_id?: string;
+  // Set on rebuilds: what changed since the previous version
+  changes?: PackChangeLog;
   files: Array<{
     path: string;
-    type: 'script' | 'captions' | 'metadata';
+    type: PackFileType;
     angle_id: string;
     locale: string;
     platform: string;
+    // The localization the file was written from
+    content_id?: string;
+    // Hex SHA-256 of the file, compared on rebuild
+    sha256?: string;
   }>;
 }
 
+// One localization in a pack changelog, with the paths of its files that
+// were added or changed (or, for removed localizations, dropped)
+export interface PackLocalizationChange {
+  content_id?: string;
+  angle_id: string;
+  locale: string;
+  platform: string;
+  files: string[];
+  // Files the localization no longer has
+  removed_files?: string[];
+}
+
+export interface PackChangeLog {
+  previous_pack_id: string;
+  previous_version: number;
+  added: PackLocalizationChange[];
+  changed: PackLocalizationChange[];
+  removed: PackLocalizationChange[];
+  unchanged: number;
+}
+
 export interface PackRequest {
   name: string;
   angleIds: string[];
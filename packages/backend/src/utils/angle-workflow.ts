@@ -0,0 +1,15 @@
+import type { AngleStatus } from '../types/index.js';
+
+// Status changes that can be made directly. Angles only become approved or
+// rejected through reviewer decisions.
+const MANUAL_TRANSITIONS: Record<AngleStatus, AngleStatus[]> = {
+  draft: ['in_review', 'archived'],
+  in_review: ['draft', 'archived'],
+  approved: ['draft', 'archived'],
+  rejected: ['draft', 'archived'],
+  archived: ['draft'],
+};
+
+export function canChangeStatus(from: string, to: AngleStatus): boolean {
+  return MANUAL_TRANSITIONS[from as AngleStatus]?.includes(to) ?? false;
+}
@@ -0,0 +1,257 @@
+import type { Caption, CaptionFormat, OnScreenText, PackFileType } from '../types/index.js';
+import { applyTextDirection, isRtlLocale } from './locales.js';
+import { wrapCaption, type PlatformInfo } from './platforms.js';
+
+export interface CaptionTrack {
+  locale: string;
+  // Unknown when the platform has been removed from the registry
+  platform?: PlatformInfo;
+  captions: Caption[];
+  onScreenText: OnScreenText[];
+}
+
+interface CaptionWriter {
+  filename: string;
+  // Type of the file in the pack manifest
+  type: PackFileType;
+  write: (track: CaptionTrack) => string;
+}
+
+// Frame size used when a platform's aspect ratio is unknown
+const DEFAULT_FRAME = { width: 1080, height: 1920 };
+
+const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+
+// HH:MM:SS plus milliseconds after the separator
+function clockTime(seconds: number, separator: string): string {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(totalMs % 1000, 3)}`;
+}
+
+// ASS uses H:MM:SS.cc
+function assTime(seconds: number): string {
+  const totalCs = Math.round(seconds * 100);
+  const hours = Math.floor(totalCs / 360_000);
+  const minutes = Math.floor((totalCs % 360_000) / 6000);
+  const secs = Math.floor((totalCs % 6000) / 100);
+  return `${hours}:${pad(minutes)}:${pad(secs)}.${pad(totalCs % 100)}`;
+}
+
+// Wrap to the platform's line length
+function captionLines(text: string, platform?: PlatformInfo): string[] {
+  return (platform ? wrapCaption(text, platform.id) : text).split('\n');
+}
+
+export const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Pixel size of a platform's frame, with 1080 on the short side.
+ */
+export function frameSize(platform?: PlatformInfo): { width: number; height: number } {
+  const match = platform?.aspectRatio.match(/^(\d+):(\d+)$/);
+  if (!match) return DEFAULT_FRAME;
+  const w = Number(match[1]);
+  const h = Number(match[2]);
+  return w <= h
+    ? { width: 1080, height: Math.round((1080 * h) / w) }
+    : { width: Math.round((1080 * w) / h), height: 1080 };
+}
+
+export function toSRT({ locale, platform, captions }: CaptionTrack): string {
+  return captions
+    .map((caption, index) => {
+      const text = applyTextDirection(captionLines(caption.text, platform).join('\n'), locale);
+      return `${index + 1}\n${clockTime(caption.timestamp_start, ',')} --> ${clockTime(caption.timestamp_end, ',')}\n${text}\n`;
+    })
+    .join('\n');
+}
+
+/**
+ * WebVTT with emphasis and whisper captions wrapped in cue classes, styled in
+ * the file's STYLE block.
+ */
+export function toWebVTT({ locale, platform, captions }: CaptionTrack): string {
+  const header = [
+    'WEBVTT',
+    '',
+    'STYLE',
+    '::cue(.emphasis) { font-weight: bold; }',
+    '::cue(.whisper) { font-style: italic; opacity: 0.8; }',
+    '',
+  ];
+  const cues = captions.map((caption, index) => {
+    const lines = captionLines(caption.text, platform).map(escapeVttText);
+    let text = applyTextDirection(lines.join('\n'), locale);
+    if (caption.style && caption.style !== 'normal') {
+      text = `<c.${caption.style}>${text}</c>`;
+    }
+    return `${index + 1}\n${clockTime(caption.timestamp_start, '.')} --> ${clockTime(caption.timestamp_end, '.')}\n${text}\n`;
+  });
+  return [...header, ...cues].join('\n');
+}
+
+function escapeVttText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * TTML (DFXP), which Premiere imports as XML captions. Right-to-left locales
+ * set the direction on the body rather than with control characters.
+ */
+export function toTTML({ locale, platform, captions }: CaptionTrack): string {
+  const rtl = isRtlLocale(locale);
+  const paragraphs = captions.map((caption) => {
+    const text = captionLines(caption.text, platform).map(escapeXml).join('<br/>');
+    return `      <p begin="${clockTime(caption.timestamp_start, '.')}" end="${clockTime(caption.timestamp_end, '.')}" style="${caption.style ?? 'normal'}">${text}</p>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tt xmlns="http://www.w3.org/ns/ttml" xmlns:tts="http://www.w3.org/ns/ttml#styling" xml:lang="${escapeXml(locale)}">`,
+    '  <head>',
+    '    <styling>',
+    '      <style xml:id="normal" tts:textAlign="center"/>',
+    '      <style xml:id="emphasis" tts:textAlign="center" tts:fontWeight="bold"/>',
+    '      <style xml:id="whisper" tts:textAlign="center" tts:fontStyle="italic"/>',
+    '    </styling>',
+    '  </head>',
+    `  <body${rtl ? ' tts:direction="rtl" tts:unicodeBidi="embed"' : ''}>`,
+    '    <div>',
+    ...paragraphs,
+    '    </div>',
+    '  </body>',
+    '</tt>',
+    '',
+  ].join('\n');
+}
+
+// ASS alignment (numpad layout) for each on-screen text position
+const ASS_OVERLAY_STYLES: Record<OnScreenText['position'], { name: string; alignment: number }> = {
+  top: { name: 'OverlayTop', alignment: 8 },
+  center: { name: 'OverlayCenter', alignment: 5 },
+  bottom: { name: 'OverlayBottom', alignment: 2 },
+};
+
+const ASS_CAPTION_STYLES: Record<NonNullable<Caption['style']>, string> = {
+  normal: 'Caption',
+  emphasis: 'Emphasis',
+  whisper: 'Whisper',
+};
+
+// Braces start override blocks and newlines are written as \N
+const escapeAss = (text: string) => text.replace(/\{/g, '(').replace(/\}/g, ')');
+
+/**
+ * ASS/SSA for CapCut and DaVinci. Captions sit above the platform's bottom
+ * safe zone; on-screen text gets a style per position, inset by the safe zone.
+ */
+export function toASS({ locale, platform, captions, onScreenText }: CaptionTrack): string {
+  const { width, height } = frameSize(platform);
+  const zone = platform?.safeZone ?? { top: 0, bottom: 0, left: 0, right: 0 };
+  const marginL = Math.round((zone.left / 100) * width);
+  const marginR = Math.round((zone.right / 100) * width);
+  const marginTop = Math.round((zone.top / 100) * height);
+  const marginBottom = Math.round((zone.bottom / 100) * height);
+  const fontSize = Math.round(height / 24);
+
+  // Name, Fontname, Fontsize, colours, Bold, Italic, ..., Alignment, margins, Encoding
+  const style = (
+    name: string,
+    alignment: number,
+    marginV: number,
+    bold = 0,
+    italic = 0,
+    size = fontSize
+  ) =>
+    `Style: ${name},Arial,${size},&H00FFFFFF,&H000000FF,&H00000000,&H80000000,${bold},${italic},0,0,100,100,0,0,1,3,0,${alignment},${marginL},${marginR},${marginV},1`;
+
+  const events = [
+    ...captions.map((caption) => {
+      const text = applyTextDirection(
+        captionLines(escapeAss(caption.text), platform).join('\n'),
+        locale
+      );
+      return `Dialogue: 0,${assTime(caption.timestamp_start)},${assTime(caption.timestamp_end)},${ASS_CAPTION_STYLES[caption.style ?? 'normal']},,0,0,0,,${text.replace(/\n/g, '\\N')}`;
+    }),
+    ...onScreenText.map((item) => {
+      const fade = item.animation === 'fade' ? '{\\fad(200,200)}' : '';
+      const text = applyTextDirection(escapeAss(item.text), locale);
+      return `Dialogue: 1,${assTime(item.timestamp)},${assTime(item.timestamp + item.duration)},${ASS_OVERLAY_STYLES[item.position].name},,0,0,0,,${fade}${text}`;
+    }),
+  ];
+
+  return [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${width}`,
+    `PlayResY: ${height}`,
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    style('Caption', 2, marginBottom),
+    style('Emphasis', 2, marginBottom, -1),
+    style('Whisper', 2, marginBottom, 0, -1, Math.round(fontSize * 0.85)),
+    style(ASS_OVERLAY_STYLES.top.name, ASS_OVERLAY_STYLES.top.alignment, marginTop, -1),
+    style(ASS_OVERLAY_STYLES.center.name, ASS_OVERLAY_STYLES.center.alignment, 0, -1),
+    style(ASS_OVERLAY_STYLES.bottom.name, ASS_OVERLAY_STYLES.bottom.alignment, marginBottom, -1),
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events,
+    '',
+  ].join('\n');
+}
+
+/**
+ * A JSON cue sheet for motion designers burning captions and on-screen text
+ * into the video by hand.
+ */
+export function toCueSheet({ locale, platform, captions, onScreenText }: CaptionTrack): string {
+  const sheet = {
+    locale,
+    text_direction: isRtlLocale(locale) ? 'rtl' : 'ltr',
+    platform: platform?.id,
+    frame: {
+      aspect_ratio: platform?.aspectRatio,
+      ...frameSize(platform),
+      safe_zone: platform?.safeZone,
+    },
+    caption_limits: platform && {
+      max_chars_per_line: platform.captions.maxCharsPerLine,
+      max_lines: platform.captions.maxLines,
+      burned_in: platform.captions.burnedIn,
+    },
+    cues: captions.map((caption, index) => ({
+      index: index + 1,
+      start: caption.timestamp_start,
+      end: caption.timestamp_end,
+      start_timecode: clockTime(caption.timestamp_start, '.'),
+      end_timecode: clockTime(caption.timestamp_end, '.'),
+      style: caption.style ?? 'normal',
+      text: caption.text,
+      lines: captionLines(caption.text, platform),
+    })),
+    overlays: onScreenText.map((item) => ({
+      start: item.timestamp,
+      end: item.timestamp + item.duration,
+      position: item.position,
+      animation: item.animation ?? null,
+      text: item.text,
+    })),
+  };
+  return JSON.stringify(sheet, null, 2);
+}
+
+export const CAPTION_WRITERS: Record<CaptionFormat, CaptionWriter> = {
+  srt: { filename: 'captions.srt', type: 'captions', write: toSRT },
+  vtt: { filename: 'captions.vtt', type: 'webvtt', write: toWebVTT },
+  ttml: { filename: 'captions.ttml', type: 'ttml', write: toTTML },
+  ass: { filename: 'captions.ass', type: 'ass', write: toASS },
+  json: { filename: 'cues.json', type: 'cue_sheet', write: toCueSheet },
+};
@@ -0,0 +1,174 @@
+import type { Caption } from '../types/index.js';
+
+export type CaptionImportFormat = 'srt' | 'vtt';
+
+export interface CaptionImportIssue {
+  // 1-based cue number in the file
+  cue: number;
+  // Line the cue starts on
+  line: number;
+  message: string;
+}
+
+export interface ParsedCue {
+  cue: number;
+  line: number;
+  caption: Caption;
+}
+
+export interface ParsedCaptions {
+  cues: ParsedCue[];
+  // Cues that could not be imported
+  errors: CaptionImportIssue[];
+  // Cues that were imported but may need a look
+  warnings: CaptionImportIssue[];
+}
+
+// [HH:]MM:SS followed by , or . and milliseconds
+const TIMESTAMP = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})[,.](\d{1,3})$/;
+const TIMING_LINE = /^(\S+)\s+-->\s+(\S+)(?:\s+.*)?$/;
+
+// Direction marks added on export for right-to-left locales
+const DIRECTION_MARKS = /[\u200E\u200F\u202A-\u202E]/g;
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&nbsp;': ' ',
+  '&lrm;': '',
+  '&rlm;': '',
+};
+
+function parseTimestamp(value: string): number | null {
+  const match = value.match(TIMESTAMP);
+  if (!match) return null;
+  const [, hours = '0', minutes = '0', seconds = '0', fraction = '0'] = match;
+  if (Number(minutes) > 59 || Number(seconds) > 59) return null;
+  return (
+    Number(hours) * 3600 +
+    Number(minutes) * 60 +
+    Number(seconds) +
+    Number(fraction.padEnd(3, '0')) / 1000
+  );
+}
+
+/**
+ * Pick the format from the file extension, falling back to the WEBVTT header.
+ */
+export function detectCaptionFormat(filename: string, text: string): CaptionImportFormat {
+  const extension = filename.toLowerCase().split('.').pop();
+  if (extension === 'vtt') return 'vtt';
+  if (extension === 'srt') return 'srt';
+  return stripBom(text).startsWith('WEBVTT') ? 'vtt' : 'srt';
+}
+
+const stripBom = (text: string) => text.replace(/^\uFEFF/, '');
+
+// Bold and emphasis classes map to emphasis, italics and whisper to whisper
+function styleOf(text: string): Caption['style'] {
+  if (/<(?:b|c\.emphasis)[\s.>]/.test(text)) return 'emphasis';
+  if (/<(?:i|c\.whisper)[\s.>]/.test(text)) return 'whisper';
+  return undefined;
+}
+
+// Wrapped lines are joined back into one caption; markup is dropped
+function plainText(lines: string[], format: CaptionImportFormat): string {
+  let text = lines.join(' ').replace(DIRECTION_MARKS, '');
+  text = text.replace(/<[^>]*>/g, '');
+  if (format === 'srt') {
+    // SSA-style positioning tags some editors leave in SRT
+    text = text.replace(/\{\\[^}]*\}/g, '');
+  } else {
+    text = text.replace(/&(?:amp|lt|gt|nbsp|lrm|rlm);/g, (entity) => ENTITIES[entity] ?? entity);
+  }
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Parse an SRT or WebVTT file into captions, the inverse of the pack export.
+ * Malformed cues and cues that end before they start are errors; overlapping
+ * cues are imported with a warning. Cues come back in start order.
+ */
+export function parseCaptionFile(content: string, format: CaptionImportFormat): ParsedCaptions {
+  const lines = stripBom(content).replace(/\r\n?/g, '\n').split('\n');
+  const errors: CaptionImportIssue[] = [];
+  const warnings: CaptionImportIssue[] = [];
+
+  // Blocks of non-blank lines with the line number they start on
+  const cueBlocks: Array<{ line: number; lines: string[] }> = [];
+  let current: { line: number; lines: string[] } | null = null;
+  lines.forEach((text, index) => {
+    if (!text.trim()) {
+      current = null;
+    } else if (current) {
+      current.lines.push(text);
+    } else {
+      current = { line: index + 1, lines: [text] };
+      cueBlocks.push(current);
+    }
+  });
+
+  if (format === 'vtt') {
+    const header = cueBlocks.shift();
+    if (!header?.lines[0]?.startsWith('WEBVTT')) {
+      return {
+        cues: [],
+        errors: [{ cue: 0, line: 1, message: 'A WebVTT file must start with WEBVTT' }],
+        warnings,
+      };
+    }
+  }
+
+  const cues: ParsedCue[] = [];
+  for (const block of cueBlocks) {
+    // WebVTT style, region and comment blocks carry no cues
+    if (format === 'vtt' && /^(?:STYLE|REGION|NOTE)\b/.test(block.lines[0] ?? '')) continue;
+
+    const cue = cues.length + errors.length + 1;
+    const timingIndex = block.lines.findIndex((text) => text.includes('-->'));
+    if (timingIndex === -1 || timingIndex > 1) {
+      errors.push({ cue, line: block.line, message: 'Missing a "start --> end" timing line' });
+      continue;
+    }
+
+    const line = block.line + timingIndex;
+    const timing = block.lines[timingIndex]?.trim().match(TIMING_LINE);
+    const start = timing?.[1] ? parseTimestamp(timing[1]) : null;
+    const end = timing?.[2] ? parseTimestamp(timing[2]) : null;
+    if (start === null || end === null) {
+      errors.push({ cue, line, message: `Invalid timing "${block.lines[timingIndex]?.trim()}"` });
+      continue;
+    }
+    if (end <= start) {
+      errors.push({ cue, line, message: 'The cue ends before it starts' });
+      continue;
+    }
+
+    const textLines = block.lines.slice(timingIndex + 1);
+    const raw = textLines.join('\n');
+    const caption: Caption = {
+      timestamp_start: start,
+      timestamp_end: end,
+      text: plainText(textLines, format),
+    };
+    const style = styleOf(raw);
+    if (style) caption.style = style;
+    cues.push({ caption, cue, line });
+  }
+
+  cues.sort((a, b) => a.caption.timestamp_start - b.caption.timestamp_start);
+  cues.forEach((entry, index) => {
+    const previous = cues[index - 1];
+    if (previous && entry.caption.timestamp_start < previous.caption.timestamp_end) {
+      const overlap = previous.caption.timestamp_end - entry.caption.timestamp_start;
+      warnings.push({
+        cue: entry.cue,
+        line: entry.line,
+        message: `Overlaps cue ${previous.cue} by ${overlap.toFixed(3)}s`,
+      });
+    }
+  });
+
+  return { cues, errors, warnings };
+}
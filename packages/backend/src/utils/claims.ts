@@ -0,0 +1,89 @@
+import type { AngleCopyField, ClaimsPolicy, ClaimViolation } from '../types/index.js';
+import { termPattern } from './content-lint.js';
+import { parseClaimsPolicy } from '../schemas/claimsPolicy.schema.js';
+import { parseSeedData } from '../schemas/seedData.schema.js';
+
+export type AngleCopy = Record<AngleCopyField, string>;
+
+const COPY_FIELDS: AngleCopyField[] = ['hook', 'problemAgitation', 'solution', 'cta'];
+
+const FIELD_LABELS: Record<AngleCopyField, string> = {
+  hook: 'Hook',
+  problemAgitation: 'Problem',
+  solution: 'Solution',
+  cta: 'CTA',
+};
+
+/**
+ * Check an angle's copy against a project's claims policy. Competitor rules
+ * use the competitors named in the project's seed data.
+ */
+export function checkClaims(
+  copy: AngleCopy,
+  policy: ClaimsPolicy,
+  competitors: string[] = []
+): ClaimViolation[] {
+  const violations: ClaimViolation[] = [];
+
+  for (const field of COPY_FIELDS) {
+    const text = copy[field];
+    const label = FIELD_LABELS[field];
+
+    for (const phrase of policy.forbiddenPhrases) {
+      if (termPattern(phrase).test(text)) {
+        violations.push({
+          rule: 'forbidden_phrase',
+          message: `${label} uses the forbidden phrase "${phrase}"`,
+          field,
+        });
+      }
+    }
+
+    for (const rule of policy.regexRules) {
+      if (rule.fields && !rule.fields.includes(field)) continue;
+      if (new RegExp(rule.pattern, rule.flags).test(text)) {
+        violations.push({ rule: 'regex', message: `${label}: ${rule.message}`, field });
+      }
+    }
+
+    if (!policy.allowCompetitorMentions) {
+      for (const competitor of competitors) {
+        if (termPattern(competitor).test(text)) {
+          violations.push({
+            rule: 'competitor',
+            message: `${label} names the competitor "${competitor}"`,
+            field,
+          });
+        }
+      }
+    }
+  }
+
+  // A disclaimer can sit in any field, usually the CTA
+  const allCopy = COPY_FIELDS.map((field) => copy[field]).join('\n');
+  for (const disclaimer of policy.requiredDisclaimers) {
+    if (disclaimer.when && !new RegExp(disclaimer.when, 'i').test(allCopy)) continue;
+    if (!allCopy.toLowerCase().includes(disclaimer.text.toLowerCase())) {
+      violations.push({
+        rule: 'missing_disclaimer',
+        message: `Missing the required disclaimer "${disclaimer.text}"`,
+        field: null,
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Check copy against a project's stored claims policy; projects without a
+ * policy have no violations.
+ */
+export function checkProjectClaims(
+  project: { claimsPolicy: unknown; seedData: unknown },
+  copy: AngleCopy
+): ClaimViolation[] {
+  const policy = parseClaimsPolicy(project.claimsPolicy);
+  if (!policy) return [];
+  return checkClaims(copy, policy, parseSeedData(project.seedData).competitors);
+}
@@ -13,11 +13,46 @@ const configSchema = z.object({
 
   // OpenAI
   OPENAI_API_KEY: z.string().optional(),
+  OPENAI_BASE_URL: z.string().url().optional(),
+  OPENAI_MODEL: z.string().default('gpt-4-turbo-preview'),
   AI_MOCK_MODE: z
     .string()
     .transform((v) => v === 'true')
     .default('true'),
 
+  // AI provider selection. AI_OPERATION_PROVIDERS overrides the default per
+  // operation, e.g. "localize=anthropic,analyze_patterns=local"
+  AI_PROVIDER: z.enum(['openai', 'anthropic', 'local', 'mock']).optional(),
+  AI_OPERATION_PROVIDERS: z.string().optional(),
+  // Re-prompts with the validation errors before giving up on a malformed response
+  AI_REPAIR_ATTEMPTS: z.coerce.number().int().min(0).max(5).default(2),
+  // USD per million prompt/completion tokens for models missing from the built-in
+  // price list, e.g. "llama3.1=0/0,my-model=0.5/1.5"
+  AI_MODEL_PRICING: z.string().optional(),
+
+  // Anthropic-compatible Messages API
+  ANTHROPIC_API_KEY: z.string().optional(),
+  ANTHROPIC_BASE_URL: z.string().url().default('https://api.anthropic.com'),
+  ANTHROPIC_MODEL: z.string().default('claude-3-5-sonnet-latest'),
+  ANTHROPIC_MAX_TOKENS: z.coerce.number().int().positive().default(4096),
+
+  // Local OpenAI-compatible server (Ollama, vLLM, LM Studio, ...)
+  LOCAL_AI_BASE_URL: z.string().url().default('http://localhost:11434/v1'),
+  LOCAL_AI_MODEL: z.string().default('llama3.1'),
+  LOCAL_AI_API_KEY: z.string().optional(),
+
+  // Background jobs. The API process runs a worker unless JOB_WORKER_ENABLED is
+  // false, in which case `npm run worker` must be running.
+  JOB_WORKER_ENABLED: z
+    .string()
+    .transform((v) => v === 'true')
+    .default('true'),
+  JOB_WORKER_CONCURRENCY: z.coerce.number().int().min(1).max(20).default(2),
+  JOB_POLL_INTERVAL_MS: z.coerce.number().int().min(100).default(1000),
+  // Running jobs whose worker has not reported progress for this long are requeued
+  JOB_LOCK_TIMEOUT_MS: z.coerce.number().int().min(1000).default(600000),
+  LOCALIZATION_CONCURRENCY: z.coerce.number().int().min(1).max(10).default(3),
+
   // CORS
   CORS_ORIGIN: z.string().default('http://localhost:5173'),
 
@@ -25,9 +60,36 @@ const configSchema = z.object({
   RATE_LIMIT_WINDOW_MS: z.coerce.number().default(60000),
   RATE_LIMIT_MAX_REQUESTS: z.coerce.number().default(100),
 
-  // File Storage
+  // JSON file of extra platforms or overrides for built-in ones
+  PLATFORM_REGISTRY_PATH: z.string().optional(),
+
+  // Unicode TrueType font for PDF briefs; the built-in font only covers Latin scripts
+  BRIEF_FONT_PATH: z.string().optional(),
+
+  // File Storage. Packs are kept under STORAGE_PATH, or in an S3-compatible
+  // bucket (AWS, MinIO, R2, ...) when STORAGE_BACKEND is s3
   STORAGE_PATH: z.string().default('./storage'),
   MAX_FILE_SIZE_MB: z.coerce.number().default(50),
+  STORAGE_BACKEND: z.enum(['local', 's3']).default('local'),
+  S3_BUCKET: z.string().optional(),
+  S3_REGION: z.string().default('us-east-1'),
+  // Defaults to AWS; set for MinIO and other S3-compatible servers
+  S3_ENDPOINT: z.string().url().optional(),
+  S3_ACCESS_KEY_ID: z.string().optional(),
+  S3_SECRET_ACCESS_KEY: z.string().optional(),
+  // MinIO and most self-hosted servers need bucket-in-path URLs
+  S3_FORCE_PATH_STYLE: z
+    .string()
+    .transform((v) => v === 'true')
+    .default('false'),
+  // Signs pack share links; falls back to JWT_SECRET. Changing it invalidates
+  // every link already handed out
+  SHARE_LINK_SECRET: z.string().min(32).optional(),
+  // Where the frontend is served, for building share URLs; defaults to the
+  // first CORS_ORIGIN
+  SHARE_LINK_BASE_URL: z.string().url().optional(),
+  // How often expired packs and orphaned files are swept; 0 turns sweeping off
+  PACK_SWEEP_INTERVAL_MS: z.coerce.number().int().min(0).default(3600000),
 });
 
 function loadConfig() {
@@ -0,0 +1,321 @@
+import type { Caption, OnScreenText } from '../types/index.js';
+import { wrapCaption, type PlatformInfo } from './platforms.js';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export type LintField = 'script' | 'captions' | 'onScreenText' | 'duration';
+
+export interface LintIssue {
+  rule: string;
+  severity: LintSeverity;
+  message: string;
+  field: LintField;
+  // Index into captions or onScreenText
+  itemIndex?: number;
+}
+
+export interface LintTarget {
+  script: string;
+  captions: Caption[];
+  onScreenText: OnScreenText[];
+}
+
+export interface LintContext {
+  platform: PlatformInfo;
+  // The angle's estimated length in seconds, when known
+  estimatedDuration?: number;
+}
+
+type LintRule = (content: LintTarget, context: LintContext) => LintIssue[];
+
+// Phrases ad policies reject outright
+const PROHIBITED_TERMS = [
+  'miracle cure',
+  'get rich quick',
+  'guaranteed income',
+  'guaranteed weight loss',
+  'lose weight fast',
+  'before and after',
+];
+
+// Claims that need substantiation before they can run
+const CLAIM_RISK_TERMS = [
+  'guarantee',
+  'guaranteed',
+  'cure',
+  'cures',
+  'risk-free',
+  '100%',
+  'clinically proven',
+  'scientifically proven',
+  'doctor recommended',
+  'fda approved',
+  'no side effects',
+  'instant results',
+  'permanent results',
+  '#1',
+  'best in the world',
+];
+
+// Vertical band (percent of frame height from the top) where editors
+// conventionally place on-screen text for each position
+const POSITION_BANDS: Record<OnScreenText['position'], { top: number; bottom: number }> = {
+  top: { top: 5, bottom: 15 },
+  center: { top: 45, bottom: 55 },
+  bottom: { top: 80, bottom: 90 },
+};
+
+/**
+ * Case-insensitive match for a phrase as a whole word. \b does not work
+ * around "%" or "#" or outside ASCII, so letters and digits are checked instead.
+ */
+export function termPattern(term: string): RegExp {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'iu');
+}
+
+const PROHIBITED_PATTERNS = PROHIBITED_TERMS.map((term) => ({ term, pattern: termPattern(term) }));
+const CLAIM_RISK_PATTERNS = CLAIM_RISK_TERMS.map((term) => ({ term, pattern: termPattern(term) }));
+
+// Every piece of text a viewer sees or hears, with where it came from
+function textSources(content: LintTarget): Array<{ field: LintField; itemIndex?: number; text: string }> {
+  return [
+    { field: 'script', text: content.script },
+    ...content.captions.map((caption, itemIndex) => ({
+      field: 'captions' as const,
+      itemIndex,
+      text: caption.text,
+    })),
+    ...content.onScreenText.map((item, itemIndex) => ({
+      field: 'onScreenText' as const,
+      itemIndex,
+      text: item.text,
+    })),
+  ];
+}
+
+function describe(field: LintField, itemIndex?: number): string {
+  if (itemIndex === undefined) return field === 'script' ? 'Script' : field;
+  return `${field === 'captions' ? 'Caption' : 'On-screen text'} ${itemIndex + 1}`;
+}
+
+const characterLimit: LintRule = ({ script }, { platform }) =>
+  script.length > platform.limits.caption
+    ? [
+        {
+          rule: 'character_limit',
+          severity: 'error',
+          message: `Script is ${script.length} characters; ${platform.name} allows ${platform.limits.caption}`,
+          field: 'script',
+        },
+      ]
+    : [];
+
+const hashtagCount: LintRule = ({ script }, { platform }) => {
+  const max = platform.limits.hashtags;
+  const count = script.match(/(?<![\p{L}\p{N}_])#[\p{L}\p{N}_]+/gu)?.length ?? 0;
+  return max !== undefined && count > max
+    ? [
+        {
+          rule: 'hashtag_count',
+          severity: 'warning',
+          message: `Script has ${count} hashtags; ${platform.name} recommends at most ${max}`,
+          field: 'script',
+        },
+      ]
+    : [];
+};
+
+const captionTiming: LintRule = ({ captions }) => {
+  const issues: LintIssue[] = [];
+  const ordered = captions
+    .map((caption, itemIndex) => ({ caption, itemIndex }))
+    .sort((a, b) => a.caption.timestamp_start - b.caption.timestamp_start);
+
+  ordered.forEach(({ caption, itemIndex }, position) => {
+    if (caption.timestamp_end <= caption.timestamp_start) {
+      issues.push({
+        rule: 'caption_timing',
+        severity: 'error',
+        message: `Caption ${itemIndex + 1} ends before it starts`,
+        field: 'captions',
+        itemIndex,
+      });
+    }
+    const previous = ordered[position - 1];
+    if (previous && caption.timestamp_start < previous.caption.timestamp_end) {
+      issues.push({
+        rule: 'caption_overlap',
+        severity: 'error',
+        message: `Caption ${itemIndex + 1} starts before caption ${previous.itemIndex + 1} ends`,
+        field: 'captions',
+        itemIndex,
+      });
+    }
+  });
+
+  return issues;
+};
+
+const captionReadingSpeed: LintRule = ({ captions }, { platform }) => {
+  const { maxCharsPerSecond } = platform.captions;
+  return captions.flatMap((caption, itemIndex): LintIssue[] => {
+    const seconds = caption.timestamp_end - caption.timestamp_start;
+    if (seconds <= 0) return [];
+    const speed = caption.text.replace(/\s+/g, ' ').trim().length / seconds;
+    return speed > maxCharsPerSecond
+      ? [
+          {
+            rule: 'caption_reading_speed',
+            severity: 'warning',
+            message: `Caption ${itemIndex + 1} needs ${speed.toFixed(1)} characters per second; keep it under ${maxCharsPerSecond}`,
+            field: 'captions',
+            itemIndex,
+          },
+        ]
+      : [];
+  });
+};
+
+const captionLineLength: LintRule = ({ captions }, { platform }) => {
+  const { maxCharsPerLine, maxLines } = platform.captions;
+  return captions.flatMap((caption, itemIndex): LintIssue[] => {
+    const lines = wrapCaption(caption.text, platform.id).split('\n');
+    const longest = Math.max(...lines.map((line) => line.length));
+    if (longest > maxCharsPerLine) {
+      return [
+        {
+          rule: 'caption_line_length',
+          severity: 'warning',
+          message: `Caption ${itemIndex + 1} has an unbreakable line of ${longest} characters; ${platform.name} fits ${maxCharsPerLine}`,
+          field: 'captions',
+          itemIndex,
+        },
+      ];
+    }
+    if (lines.length > maxLines) {
+      return [
+        {
+          rule: 'caption_line_length',
+          severity: 'warning',
+          message: `Caption ${itemIndex + 1} wraps to ${lines.length} lines; ${platform.name} shows ${maxLines}`,
+          field: 'captions',
+          itemIndex,
+        },
+      ];
+    }
+    return [];
+  });
+};
+
+const duration: LintRule = ({ captions, onScreenText }, { platform, estimatedDuration }) => {
+  const end = Math.max(
+    estimatedDuration ?? 0,
+    ...captions.map((caption) => caption.timestamp_end),
+    ...onScreenText.map((item) => item.timestamp + item.duration)
+  );
+  if (end <= 0) return [];
+
+  const { min, max } = platform.recommendedDuration;
+  if (end > platform.maxDuration) {
+    return [
+      {
+        rule: 'duration',
+        severity: 'error',
+        message: `Runs ${end}s; ${platform.name} allows at most ${platform.maxDuration}s`,
+        field: 'duration',
+      },
+    ];
+  }
+  if (end < min || end > max) {
+    return [
+      {
+        rule: 'recommended_duration',
+        severity: 'info',
+        message: `Runs ${end}s; ${min}-${max}s performs best on ${platform.name}`,
+        field: 'duration',
+      },
+    ];
+  }
+  return [];
+};
+
+const onScreenOverlap: LintRule = ({ onScreenText }) => {
+  const issues: LintIssue[] = [];
+  onScreenText.forEach((item, itemIndex) => {
+    const clash = onScreenText.findIndex(
+      (other, otherIndex) =>
+        otherIndex < itemIndex &&
+        other.position === item.position &&
+        item.timestamp < other.timestamp + other.duration &&
+        other.timestamp < item.timestamp + item.duration
+    );
+    if (clash >= 0) {
+      issues.push({
+        rule: 'on_screen_overlap',
+        severity: 'warning',
+        message: `On-screen text ${itemIndex + 1} overlaps on-screen text ${clash + 1} at the ${item.position} of the frame`,
+        field: 'onScreenText',
+        itemIndex,
+      });
+    }
+  });
+  return issues;
+};
+
+const safeZone: LintRule = ({ onScreenText }, { platform }) => {
+  const zone = platform.safeZone;
+  return onScreenText.flatMap((item, itemIndex): LintIssue[] => {
+    const band = POSITION_BANDS[item.position];
+    const covered = band.top < zone.top || band.bottom > 100 - zone.bottom;
+    return covered
+      ? [
+          {
+            rule: 'safe_zone',
+            severity: 'warning',
+            message: `On-screen text ${itemIndex + 1} at the ${item.position} may be covered by the ${platform.name} interface (top ${zone.top}%, bottom ${zone.bottom}% unsafe)`,
+            field: 'onScreenText',
+            itemIndex,
+          },
+        ]
+      : [];
+  });
+};
+
+const restrictedTerms: LintRule = (content) =>
+  textSources(content).flatMap(({ field, itemIndex, text }): LintIssue[] => [
+    ...PROHIBITED_PATTERNS.filter(({ pattern }) => pattern.test(text)).map(({ term }) => ({
+      rule: 'prohibited_term',
+      severity: 'error' as const,
+      message: `${describe(field, itemIndex)} uses "${term}", which ad policies prohibit`,
+      field,
+      itemIndex,
+    })),
+    ...CLAIM_RISK_PATTERNS.filter(({ pattern }) => pattern.test(text)).map(({ term }) => ({
+      rule: 'claim_risk',
+      severity: 'warning' as const,
+      message: `${describe(field, itemIndex)} claims "${term}"; make sure it can be substantiated`,
+      field,
+      itemIndex,
+    })),
+  ]);
+
+const RULES: LintRule[] = [
+  characterLimit,
+  hashtagCount,
+  captionTiming,
+  captionReadingSpeed,
+  captionLineLength,
+  duration,
+  onScreenOverlap,
+  safeZone,
+  restrictedTerms,
+];
+
+/**
+ * Check localized content against its platform's rules. Findings come back in
+ * rule order; an empty list means the content is clean.
+ */
+export function lintContent(content: LintTarget, context: LintContext): LintIssue[] {
+  return RULES.flatMap((rule) => rule(content, context));
+}
@@ -0,0 +1,249 @@
+import PDFDocument from 'pdfkit';
+import type { Caption, OnScreenText } from '../types/index.js';
+import { escapeXml } from './caption-formats.js';
+import type { TextDirection } from './locales.js';
+
+export type BriefFormat = 'html' | 'pdf';
+
+export interface CreativeBrief {
+  projectName: string;
+  angle: {
+    id: string;
+    version: number;
+    hook: string;
+    problemAgitation: string;
+    solution: string;
+    cta: string;
+    visualDirection: string | null;
+    audioNotes: string | null;
+    // Seconds
+    estimatedDuration: number | null;
+  };
+  // The localization the brief is for; the source angle only when omitted
+  localization?: {
+    locale: string;
+    localeName: string;
+    direction: TextDirection;
+    platform: string;
+    platformName: string;
+    maxDuration?: number;
+    script: string;
+    captions: Caption[];
+    onScreenText: OnScreenText[];
+    culturalNotes: string | null;
+    platformAdjustments: string | null;
+  };
+  generatedAt: Date;
+}
+
+// A brief is laid out as titled sections of paragraphs and timed rows, which
+// the HTML and PDF writers render the same way
+interface BriefSection {
+  title: string;
+  // Paragraphs, with an optional label in front
+  fields: Array<{ label?: string; text: string; localized?: boolean }>;
+  rows?: Array<{ time: string; text: string; note?: string }>;
+}
+
+// M:SS.s, the precision editors work to on short-form video
+export function briefTime(seconds: number): string {
+  const tenths = Math.round(seconds * 10);
+  const minutes = Math.floor(tenths / 600);
+  const rest = (tenths % 600) / 10;
+  return `${minutes}:${rest.toFixed(1).padStart(4, '0')}`;
+}
+
+function briefTitle(brief: CreativeBrief): string {
+  const target = brief.localization
+    ? ` · ${brief.localization.localeName} · ${brief.localization.platformName}`
+    : '';
+  return `${brief.projectName} · Angle ${brief.angle.id.slice(0, 8)} v${brief.angle.version}${target}`;
+}
+
+function briefSections({ angle, localization }: CreativeBrief): BriefSection[] {
+  const duration = [
+    angle.estimatedDuration ? `About ${angle.estimatedDuration}s` : 'Not set',
+    localization?.maxDuration
+      ? `${localization.platformName} allows up to ${localization.maxDuration}s`
+      : '',
+  ]
+    .filter(Boolean)
+    .join('; ');
+
+  const sections: BriefSection[] = [
+    {
+      title: 'Angle',
+      fields: [
+        { label: 'Hook', text: angle.hook },
+        { label: 'Problem / agitation', text: angle.problemAgitation },
+        { label: 'Solution', text: angle.solution },
+        { label: 'Call to action', text: angle.cta },
+      ],
+    },
+    {
+      title: 'Production',
+      fields: [
+        { label: 'Visual direction', text: angle.visualDirection || 'None given' },
+        { label: 'Audio notes', text: angle.audioNotes || 'None given' },
+        { label: 'Duration', text: duration },
+      ],
+    },
+  ];
+  if (!localization) return sections;
+
+  sections.push({
+    title: `Script (${localization.localeName})`,
+    fields: [{ text: localization.script, localized: true }],
+  });
+  if (localization.captions.length > 0) {
+    sections.push({
+      title: 'Caption timings',
+      fields: [],
+      rows: localization.captions.map((caption) => ({
+        time: `${briefTime(caption.timestamp_start)} – ${briefTime(caption.timestamp_end)}`,
+        text: caption.text,
+        note: caption.style && caption.style !== 'normal' ? caption.style : undefined,
+      })),
+    });
+  }
+  if (localization.onScreenText.length > 0) {
+    sections.push({
+      title: 'On-screen text',
+      fields: [],
+      rows: localization.onScreenText.map((overlay) => ({
+        time: `${briefTime(overlay.timestamp)} – ${briefTime(overlay.timestamp + overlay.duration)}`,
+        text: overlay.text,
+        note: overlay.position,
+      })),
+    });
+  }
+  sections.push({
+    title: 'Cultural notes',
+    fields: [
+      { text: localization.culturalNotes || 'None given' },
+      ...(localization.platformAdjustments
+        ? [{ label: 'Platform adjustments', text: localization.platformAdjustments }]
+        : []),
+    ],
+  });
+  return sections;
+}
+
+const HTML_STYLE = `
+  @page { size: A4; margin: 16mm; }
+  body { font: 11pt/1.45 -apple-system, "Segoe UI", Roboto, "Noto Sans", Arial, sans-serif; color: #111827; max-width: 800px; margin: 24px auto; padding: 0 16px; }
+  h1 { font-size: 18pt; margin: 0 0 4px; }
+  .meta { color: #6b7280; font-size: 9pt; margin: 0 0 16px; }
+  h2 { font-size: 12pt; border-bottom: 1px solid #e5e7eb; padding-bottom: 2px; margin: 18px 0 6px; }
+  p { margin: 4px 0; white-space: pre-wrap; }
+  .label { font-weight: 600; }
+  table { border-collapse: collapse; width: 100%; font-size: 10pt; }
+  td { padding: 3px 6px; border-bottom: 1px solid #f3f4f6; vertical-align: top; }
+  td.time { font-family: ui-monospace, Menlo, monospace; white-space: nowrap; color: #374151; }
+  td.note { color: #6b7280; font-style: italic; white-space: nowrap; }
+  @media print { body { margin: 0; max-width: none; } }`;
+
+/**
+ * A self-contained HTML brief that prints to one or two A4 pages. Localized
+ * text carries its language and direction so browsers shape it correctly.
+ */
+export function toBriefHTML(brief: CreativeBrief): string {
+  const { localization } = brief;
+  const localized = localization
+    ? ` lang="${escapeXml(localization.locale)}" dir="${localization.direction}"`
+    : '';
+
+  const sections = briefSections(brief).map((section) => {
+    const fields = section.fields.map(({ label, text, localized: isLocalized }) => {
+      const prefix = label ? `<span class="label">${escapeXml(label)}:</span> ` : '';
+      return `    <p${isLocalized ? localized : ''}>${prefix}${escapeXml(text)}</p>`;
+    });
+    const rows = section.rows?.length
+      ? [
+          '    <table>',
+          ...section.rows.map(
+            (row) =>
+              `      <tr><td class="time">${escapeXml(row.time)}</td><td${localized}>${escapeXml(row.text)}</td><td class="note">${escapeXml(row.note ?? '')}</td></tr>`
+          ),
+          '    </table>',
+        ]
+      : [];
+    return [
+      '  <section>',
+      `    <h2>${escapeXml(section.title)}</h2>`,
+      ...fields,
+      ...rows,
+      '  </section>',
+    ];
+  });
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '  <meta charset="utf-8">',
+    `  <title>${escapeXml(briefTitle(brief))}</title>`,
+    `  <style>${HTML_STYLE}\n  </style>`,
+    '</head>',
+    '<body>',
+    `  <h1>${escapeXml(brief.projectName)}</h1>`,
+    `  <p class="meta">${escapeXml(briefTitle(brief))} · Generated ${brief.generatedAt.toISOString().slice(0, 10)}</p>`,
+    ...sections.flat(),
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * The same brief as an A4 PDF, rendered in-process. The built-in Helvetica
+ * only covers Latin scripts, so fontPath should point at a Unicode TrueType
+ * font (e.g. Noto Sans) when briefs include other scripts.
+ */
+export function toBriefPDF(brief: CreativeBrief, fontPath?: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: 40,
+      // A fixed creation date keeps the file identical across rebuilds
+      info: { Title: briefTitle(brief), CreationDate: brief.generatedAt },
+    });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    let regular = 'Helvetica';
+    let bold = 'Helvetica-Bold';
+    if (fontPath) {
+      doc.registerFont('Brief', fontPath);
+      regular = bold = 'Brief';
+    }
+    const align = brief.localization?.direction === 'rtl' ? 'right' : 'left';
+
+    doc.font(bold).fontSize(16).text(brief.projectName);
+    doc
+      .font(regular)
+      .fontSize(8)
+      .fillColor('#6b7280')
+      .text(`${briefTitle(brief)} · Generated ${brief.generatedAt.toISOString().slice(0, 10)}`)
+      .fillColor('#111827');
+
+    for (const section of briefSections(brief)) {
+      doc.moveDown(0.8).font(bold).fontSize(11).text(section.title);
+      doc.fontSize(9);
+      for (const field of section.fields) {
+        if (field.label) {
+          doc.font(bold).text(`${field.label}: `, { continued: true });
+        }
+        doc.font(regular).text(field.text, { align: field.localized ? align : 'left' });
+      }
+      for (const row of section.rows ?? []) {
+        const note = row.note ? `  (${row.note})` : '';
+        doc.font(regular).text(`${row.time}   ${row.text}${note}`, { align });
+      }
+    }
+
+    doc.end();
+  });
+}
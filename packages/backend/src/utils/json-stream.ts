@@ -0,0 +1,100 @@
+/**
+ * Incrementally scans a JSON document of the form `{"<key>": [{...}, {...}], ...}`
+ * as it arrives in chunks and returns each element of the array as soon as
+ * its closing brace is seen, so callers can act on items before the document
+ * is complete. Only object elements are emitted; anything outside the array
+ * is skipped without being parsed.
+ */
+export class JsonArrayStreamParser {
+  private buffer = '';
+  private position = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  // Last string closed directly inside the root object, i.e. the current key
+  private lastKey: string | null = null;
+  // Depth of the target array's elements while the array is open
+  private arrayDepth: number | null = null;
+  private itemStart = -1;
+  private closed = false;
+
+  constructor(private key: string) {}
+
+  /**
+   * Feed the next chunk of text and get the array items it completed.
+   */
+  push(chunk: string): unknown[] {
+    this.buffer += chunk;
+    const items: unknown[] = [];
+
+    for (; this.position < this.buffer.length; this.position++) {
+      const char = this.buffer[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          if (this.depth === 1) {
+            this.lastKey = this.parseString(this.stringStart, this.position + 1);
+          }
+        }
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          this.inString = true;
+          this.stringStart = this.position;
+          break;
+
+        case '{':
+        case '[':
+          if (char === '{' && this.depth === this.arrayDepth) {
+            this.itemStart = this.position;
+          }
+          if (char === '[' && this.depth === 1 && this.lastKey === this.key && !this.closed) {
+            this.arrayDepth = this.depth + 1;
+          }
+          this.depth++;
+          break;
+
+        case '}':
+        case ']':
+          this.depth--;
+          if (char === '}' && this.depth === this.arrayDepth && this.itemStart >= 0) {
+            const item = this.parseItem(this.itemStart, this.position + 1);
+            if (item !== undefined) items.push(item);
+            this.itemStart = -1;
+          }
+          if (char === ']' && this.arrayDepth !== null && this.depth === this.arrayDepth - 1) {
+            this.arrayDepth = null;
+            this.closed = true;
+          }
+          break;
+      }
+    }
+
+    return items;
+  }
+
+  // Malformed items are dropped; the complete document is validated afterwards
+  private parseItem(start: number, end: number): unknown {
+    try {
+      return JSON.parse(this.buffer.slice(start, end));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private parseString(start: number, end: number): string | null {
+    try {
+      return JSON.parse(this.buffer.slice(start, end)) as string;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,191 @@
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface LocaleDefinition {
+  name: string;
+  nativeName: string;
+  direction: TextDirection;
+  // Date pattern audiences expect in copy and on-screen text
+  dateFormat: string;
+  // Passed to the model when localizing into this locale
+  culturalGuidance: string;
+}
+
+/**
+ * Every locale content can be localized into. Adding an entry here makes it
+ * valid in requests, available in the UI pickers and a folder in packs.
+ */
+export const LOCALE_REGISTRY = {
+  'en-US': {
+    name: 'English (US)',
+    nativeName: 'English (US)',
+    direction: 'ltr',
+    dateFormat: 'MM/DD/YYYY',
+    culturalGuidance: 'Direct, benefit-led copy works well. Use US spelling and dollar pricing.',
+  },
+  'en-GB': {
+    name: 'English (UK)',
+    nativeName: 'English (UK)',
+    direction: 'ltr',
+    dateFormat: 'DD/MM/YYYY',
+    culturalGuidance:
+      'Use British spelling and pound pricing. Audiences respond to understatement and dry humour more than hype.',
+  },
+  'es-ES': {
+    name: 'Spanish (Spain)',
+    nativeName: 'Español (España)',
+    direction: 'ltr',
+    dateFormat: 'DD/MM/YYYY',
+    culturalGuidance: 'Use Castilian vocabulary and the informal "tú" unless the tone is professional.',
+  },
+  'es-MX': {
+    name: 'Spanish (Mexico)',
+    nativeName: 'Español (México)',
+    direction: 'ltr',
+    dateFormat: 'DD/MM/YYYY',
+    culturalGuidance: 'Use Mexican Spanish vocabulary, "ustedes" for plural address and peso pricing.',
+  },
+  'fr-FR': {
+    name: 'French (France)',
+    nativeName: 'Français (France)',
+    direction: 'ltr',
+    dateFormat: 'DD/MM/YYYY',
+    culturalGuidance:
+      'Prefer "vous" for brands unless the tone is casual. Put a non-breaking space before : ; ! and ?.',
+  },
+  'de-DE': {
+    name: 'German (Germany)',
+    nativeName: 'Deutsch (Deutschland)',
+    direction: 'ltr',
+    dateFormat: 'DD.MM.YYYY',
+    culturalGuidance:
+      'Claims need to be concrete and verifiable. German runs about 30% longer than English, so keep on-screen text short.',
+  },
+  'it-IT': {
+    name: 'Italian (Italy)',
+    nativeName: 'Italiano (Italia)',
+    direction: 'ltr',
+    dateFormat: 'DD/MM/YYYY',
+    culturalGuidance: 'Warm, expressive copy works well. Use "tu" for casual tones and euro pricing.',
+  },
+  'nl-NL': {
+    name: 'Dutch (Netherlands)',
+    nativeName: 'Nederlands (Nederland)',
+    direction: 'ltr',
+    dateFormat: 'DD-MM-YYYY',
+    culturalGuidance:
+      'Audiences value directness and distrust exaggeration. Use "je" for casual tones and keep claims modest.',
+  },
+  'pt-BR': {
+    name: 'Portuguese (Brazil)',
+    nativeName: 'Português (Brasil)',
+    direction: 'ltr',
+    dateFormat: 'DD/MM/YYYY',
+    culturalGuidance: 'Use Brazilian Portuguese and "você". Friendly, energetic copy performs well.',
+  },
+  'pl-PL': {
+    name: 'Polish (Poland)',
+    nativeName: 'Polski (Polska)',
+    direction: 'ltr',
+    dateFormat: 'DD.MM.YYYY',
+    culturalGuidance: 'Polish has several plural forms; make sure numbers and nouns agree.',
+  },
+  'tr-TR': {
+    name: 'Turkish (Turkey)',
+    nativeName: 'Türkçe (Türkiye)',
+    direction: 'ltr',
+    dateFormat: 'DD.MM.YYYY',
+    culturalGuidance: 'Use "sen" for casual tones and "siz" for professional ones.',
+  },
+  'ja-JP': {
+    name: 'Japanese (Japan)',
+    nativeName: '日本語 (日本)',
+    direction: 'ltr',
+    dateFormat: 'YYYY/MM/DD',
+    culturalGuidance:
+      'Use polite desu/masu forms and avoid aggressive hard-sell CTAs. Keep caption lines under 16 characters.',
+  },
+  'ko-KR': {
+    name: 'Korean (South Korea)',
+    nativeName: '한국어 (대한민국)',
+    direction: 'ltr',
+    dateFormat: 'YYYY.MM.DD',
+    culturalGuidance: 'Use the polite -요 speech level and keep caption lines short.',
+  },
+  'zh-CN': {
+    name: 'Chinese (Simplified)',
+    nativeName: '简体中文',
+    direction: 'ltr',
+    dateFormat: 'YYYY-MM-DD',
+    culturalGuidance: 'Use Simplified characters and mainland vocabulary. Keep caption lines under 16 characters.',
+  },
+  'ar-SA': {
+    name: 'Arabic (Saudi Arabia)',
+    nativeName: 'العربية (السعودية)',
+    direction: 'rtl',
+    dateFormat: 'DD/MM/YYYY',
+    culturalGuidance:
+      'Use Modern Standard Arabic with a Gulf-friendly register. Keep visuals and claims modest and respectful of local norms.',
+  },
+  'ar-AE': {
+    name: 'Arabic (UAE)',
+    nativeName: 'العربية (الإمارات)',
+    direction: 'rtl',
+    dateFormat: 'DD/MM/YYYY',
+    culturalGuidance: 'Use Modern Standard Arabic. Product names and prices may stay in Latin script and digits.',
+  },
+  'he-IL': {
+    name: 'Hebrew (Israel)',
+    nativeName: 'עברית (ישראל)',
+    direction: 'rtl',
+    dateFormat: 'DD.MM.YYYY',
+    culturalGuidance: 'Informal, direct copy is normal. Address the viewer in a gender-neutral way where possible.',
+  },
+} as const satisfies Record<string, LocaleDefinition>;
+
+export type Locale = keyof typeof LOCALE_REGISTRY;
+
+export const LOCALE_CODES = Object.keys(LOCALE_REGISTRY) as [Locale, ...Locale[]];
+
+export interface LocaleInfo extends LocaleDefinition {
+  code: Locale;
+  // CLDR plural categories, e.g. ["one", "few", "many", "other"] for Polish
+  pluralCategories: string[];
+}
+
+export function isLocale(value: string): value is Locale {
+  return value in LOCALE_REGISTRY;
+}
+
+export function getLocaleInfo(code: Locale): LocaleInfo {
+  const definition: LocaleDefinition = LOCALE_REGISTRY[code];
+  return {
+    code,
+    ...definition,
+    pluralCategories: new Intl.PluralRules(code).resolvedOptions().pluralCategories,
+  };
+}
+
+export function listLocales(): LocaleInfo[] {
+  return LOCALE_CODES.map(getLocaleInfo);
+}
+
+export function isRtlLocale(code: string): boolean {
+  return isLocale(code) && LOCALE_REGISTRY[code].direction === 'rtl';
+}
+
+// Right-to-left embedding and pop directional formatting
+const RLE = '\u202B';
+const PDF = '\u202C';
+
+/**
+ * Wrap each line of right-to-left text in an RTL embedding so players that
+ * default to LTR keep punctuation and Latin-script words in the right place.
+ * Text in left-to-right locales is returned unchanged.
+ */
+export function applyTextDirection(text: string, code: string): string {
+  if (!isRtlLocale(code)) return text;
+  return text
+    .split('\n')
+    .map((line) => (line ? `${RLE}${line}${PDF}` : line))
+    .join('\n');
+}
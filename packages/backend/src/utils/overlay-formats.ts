@@ -0,0 +1,159 @@
+import type { OnScreenText, PackFileType } from '../types/index.js';
+import { escapeXml, frameSize, toASS } from './caption-formats.js';
+import { isRtlLocale } from './locales.js';
+import type { PlatformInfo } from './platforms.js';
+
+export interface OverlayTrack {
+  // Sequence name shown in the editor
+  title: string;
+  locale: string;
+  platform?: PlatformInfo;
+  onScreenText: OnScreenText[];
+}
+
+interface OverlayWriter {
+  filename: string;
+  type: PackFileType;
+  write: (track: OverlayTrack) => string;
+}
+
+// Marker timecodes are whole frames at this non-drop rate
+export const OVERLAY_FPS = 30;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+const toFrames = (seconds: number) => Math.round(seconds * OVERLAY_FPS);
+
+// HH:MM:SS:FF
+function timecode(seconds: number): string {
+  const frames = toFrames(seconds);
+  const totalSeconds = Math.floor(frames / OVERLAY_FPS);
+  return [
+    Math.floor(totalSeconds / 3600),
+    Math.floor((totalSeconds % 3600) / 60),
+    totalSeconds % 60,
+    frames % OVERLAY_FPS,
+  ]
+    .map(pad)
+    .join(':');
+}
+
+// Overlays in the order they appear
+const sorted = (items: OnScreenText[]) => [...items].sort((a, b) => a.timestamp - b.timestamp);
+
+/**
+ * Overlay track as JSON, with the frame and the safe area the overlays
+ * should stay inside, in pixels.
+ */
+export function toOverlayJSON({ title, locale, platform, onScreenText }: OverlayTrack): string {
+  const { width, height } = frameSize(platform);
+  const zone = platform?.safeZone ?? { top: 0, bottom: 0, left: 0, right: 0 };
+  const left = Math.round((zone.left / 100) * width);
+  const top = Math.round((zone.top / 100) * height);
+
+  const track = {
+    title,
+    locale,
+    text_direction: isRtlLocale(locale) ? 'rtl' : 'ltr',
+    platform: platform?.id,
+    fps: OVERLAY_FPS,
+    frame: { width, height },
+    safe_area: {
+      x: left,
+      y: top,
+      width: width - left - Math.round((zone.right / 100) * width),
+      height: height - top - Math.round((zone.bottom / 100) * height),
+    },
+    overlays: sorted(onScreenText).map((item, index) => ({
+      index: index + 1,
+      start: item.timestamp,
+      end: item.timestamp + item.duration,
+      duration: item.duration,
+      start_timecode: timecode(item.timestamp),
+      end_timecode: timecode(item.timestamp + item.duration),
+      position: item.position,
+      animation: item.animation ?? null,
+      text: item.text,
+    })),
+  };
+  return JSON.stringify(track, null, 2);
+}
+
+// An ASS track with only the overlay styles' events
+export function toOverlayASS({ locale, platform, onScreenText }: OverlayTrack): string {
+  return toASS({ locale, platform, captions: [], onScreenText });
+}
+
+const markerComment = (item: OnScreenText) =>
+  [`position: ${item.position}`, item.animation && `animation: ${item.animation}`]
+    .filter(Boolean)
+    .join(', ');
+
+/**
+ * Final Cut Pro 7 XML (xmeml), which Premiere Pro, Final Cut and Resolve
+ * import. Each overlay is a sequence marker spanning its duration.
+ */
+export function toOverlayXML({ title, platform, onScreenText }: OverlayTrack): string {
+  const { width, height } = frameSize(platform);
+  const items = sorted(onScreenText);
+  const duration = Math.max(0, ...items.map((item) => toFrames(item.timestamp + item.duration)));
+
+  const markers = items.flatMap((item) => [
+    '    <marker>',
+    `      <name>${escapeXml(item.text)}</name>`,
+    `      <comment>${escapeXml(markerComment(item))}</comment>`,
+    `      <in>${toFrames(item.timestamp)}</in>`,
+    `      <out>${toFrames(item.timestamp + item.duration)}</out>`,
+    '    </marker>',
+  ]);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE xmeml>',
+    '<xmeml version="5">',
+    '  <sequence>',
+    `    <name>${escapeXml(title)}</name>`,
+    `    <duration>${duration}</duration>`,
+    `    <rate><timebase>${OVERLAY_FPS}</timebase><ntsc>FALSE</ntsc></rate>`,
+    '    <media>',
+    '      <video>',
+    '        <format>',
+    '          <samplecharacteristics>',
+    `            <width>${width}</width>`,
+    `            <height>${height}</height>`,
+    '          </samplecharacteristics>',
+    '        </format>',
+    '      </video>',
+    '    </media>',
+    ...markers,
+    '  </sequence>',
+    '</xmeml>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * CMX 3600 EDL with one black event per overlay, located by a LOC marker
+ * carrying the text. Line breaks are flattened since EDL lines are single.
+ */
+export function toOverlayEDL({ title, onScreenText }: OverlayTrack): string {
+  const oneLine = (text: string) => text.replace(/\s*\n\s*/g, ' ');
+  const events = sorted(onScreenText).flatMap((item, index) => {
+    const start = timecode(item.timestamp);
+    const end = timecode(item.timestamp + item.duration);
+    return [
+      `${String(index + 1).padStart(3, '0')}  BL       V     C        ${start} ${end} ${start} ${end}`,
+      `* LOC: ${start} YELLOW  ${oneLine(item.text)}`,
+      `* COMMENT: ${markerComment(item)}`,
+      '',
+    ];
+  });
+  return [`TITLE: ${oneLine(title)}`, 'FCM: NON-DROP FRAME', '', ...events].join('\n');
+}
+
+export const OVERLAY_WRITERS: OverlayWriter[] = [
+  { filename: 'overlays.json', type: 'overlay_track', write: toOverlayJSON },
+  { filename: 'overlays.ass', type: 'overlay_ass', write: toOverlayASS },
+  { filename: 'overlays.xml', type: 'overlay_xml', write: toOverlayXML },
+  { filename: 'overlays.edl', type: 'overlay_edl', write: toOverlayEDL },
+];
@@ -0,0 +1,136 @@
+import type { PackChangeLog, PackLocalizationChange, PackManifest } from '../types/index.js';
+
+type ManifestFile = PackManifest['files'][number];
+
+// A localization is identified by where it goes, so one that was deleted and
+// generated again still matches
+const localizationKey = (file: ManifestFile) => `${file.angle_id}|${file.locale}|${file.platform}`;
+
+function groupByLocalization(files: ManifestFile[]): Map<string, Map<string, ManifestFile>> {
+  const groups = new Map<string, Map<string, ManifestFile>>();
+  for (const file of files) {
+    const key = localizationKey(file);
+    const group = groups.get(key) ?? new Map<string, ManifestFile>();
+    // Each localization has at most one file of each type
+    group.set(file.type, file);
+    groups.set(key, group);
+  }
+  return groups;
+}
+
+function describe(files: ManifestFile[]): Omit<PackLocalizationChange, 'files'> {
+  const [first] = files;
+  return {
+    content_id: files.find((file) => file.content_id)?.content_id,
+    angle_id: first?.angle_id ?? '',
+    locale: first?.locale ?? '',
+    platform: first?.platform ?? '',
+  };
+}
+
+/**
+ * Compare the files of a new pack version with the previous version's
+ * manifest. A file counts as changed when its hash or path differs; files
+ * of packs built before hashes were recorded always count as changed.
+ */
+export function diffPackFiles(
+  previous: Pick<PackManifest, 'files'>,
+  current: ManifestFile[],
+  since: { packId: string; version: number }
+): PackChangeLog {
+  const before = groupByLocalization(previous.files);
+  const after = groupByLocalization(current);
+  const changes: PackChangeLog = {
+    previous_pack_id: since.packId,
+    previous_version: since.version,
+    added: [],
+    changed: [],
+    removed: [],
+    unchanged: 0,
+  };
+
+  for (const [key, files] of after) {
+    const list = [...files.values()];
+    const old = before.get(key);
+    if (!old) {
+      changes.added.push({ ...describe(list), files: list.map((file) => file.path) });
+      continue;
+    }
+
+    const touched = list.filter((file) => {
+      const match = old.get(file.type);
+      return !match?.sha256 || match.sha256 !== file.sha256 || match.path !== file.path;
+    });
+    // A file that moved is listed as removed from its old path too
+    const gone = [...old.values()].filter((file) => files.get(file.type)?.path !== file.path);
+    if (touched.length > 0 || gone.length > 0) {
+      changes.changed.push({
+        ...describe(list),
+        files: touched.map((file) => file.path),
+        ...(gone.length > 0 && { removed_files: gone.map((file) => file.path) }),
+      });
+    } else {
+      changes.unchanged += 1;
+    }
+  }
+
+  for (const [key, files] of before) {
+    if (!after.has(key)) {
+      const list = [...files.values()];
+      changes.removed.push({ ...describe(list), files: list.map((file) => file.path) });
+    }
+  }
+
+  return changes;
+}
+
+export function hasPackChanges(changes: PackChangeLog): boolean {
+  return changes.added.length + changes.changed.length + changes.removed.length > 0;
+}
+
+// Paths a delta zip needs: every file that is new or different
+export function changedPackPaths(changes: PackChangeLog): Set<string> {
+  return new Set([...changes.added, ...changes.changed].flatMap((change) => change.files));
+}
+
+/**
+ * CHANGELOG.md for a delta zip, for people unpacking it over the previous
+ * version by hand.
+ */
+export function toChangelogMarkdown(
+  changes: PackChangeLog,
+  pack: { name: string; version: number; createdAt: string }
+): string {
+  const label = (change: PackLocalizationChange) =>
+    `${change.locale} / ${change.platform} (angle ${change.angle_id.slice(0, 8)})`;
+  const lines = [
+    `# ${pack.name}: version ${pack.version}`,
+    '',
+    `Changes since version ${changes.previous_version}, built ${pack.createdAt}.`,
+    'This archive holds only new and changed files. Copy it over the previous',
+    'version and delete the files listed as removed.',
+  ];
+
+  const section = (
+    title: string,
+    entries: PackLocalizationChange[],
+    paths: (change: PackLocalizationChange) => string[]
+  ) => {
+    if (entries.length === 0) return;
+    lines.push('', `## ${title}`, '');
+    for (const change of entries) {
+      lines.push(`- ${label(change)}`);
+      for (const path of paths(change)) lines.push(`  - ${path}`);
+    }
+  };
+
+  section('Added', changes.added, (change) => change.files);
+  section('Changed', changes.changed, (change) => [
+    ...change.files,
+    ...(change.removed_files ?? []).map((path) => `${path} (removed)`),
+  ]);
+  section('Removed', changes.removed, (change) => change.files.map((path) => `${path} (removed)`));
+
+  lines.push('', `${changes.unchanged} localization(s) unchanged.`, '');
+  return lines.join('\n');
+}
@@ -0,0 +1,106 @@
+import type { PackFileKind } from '../types/index.js';
+
+export const PACK_FILE_KINDS: PackFileKind[] = [
+  'script',
+  'captions',
+  'overlays',
+  'metadata',
+  'brief',
+];
+
+// What packs hold without a template; briefs are opt-in
+export const DEFAULT_FILE_KINDS: PackFileKind[] = ['script', 'captions', 'overlays', 'metadata'];
+
+// The layout packs had before templates: one folder per localization
+export const DEFAULT_PATH_TEMPLATE = '{locale}/{platform}/{angle}/{file}';
+
+export const PACK_PATH_TOKENS = {
+  project: 'Project name',
+  pack: 'Pack name',
+  date: 'Build date (YYYY-MM-DD)',
+  locale: 'Locale code, e.g. fr-FR',
+  language: 'Language code, e.g. fr',
+  platform: 'Platform id, e.g. tiktok',
+  angle: 'First 8 characters of the angle id',
+  angle_id: 'Full angle id',
+  angle_index: 'Position of the angle in the pack, from 01',
+  file: 'Default file name, e.g. captions.srt',
+  name: 'File name without extension, e.g. captions',
+  ext: 'File extension, e.g. srt',
+  type: 'Manifest file type, e.g. webvtt',
+} as const;
+
+export type PackPathToken = keyof typeof PACK_PATH_TOKENS;
+
+export type PackPathValues = Record<PackPathToken, string>;
+
+const TOKEN = /\{([a-z_]+)\}/g;
+
+// Tokens that tell one localization's files from another's
+const ANGLE_TOKENS: PackPathToken[] = ['angle', 'angle_id', 'angle_index'];
+
+const isToken = (name: string): name is PackPathToken => name in PACK_PATH_TOKENS;
+
+/**
+ * Problems with a path template, empty when it is usable. Every localization
+ * and file needs a distinct path, so the locale, platform, angle and file
+ * name must all appear.
+ */
+export function checkPathTemplate(template: string): string[] {
+  const problems: string[] = [];
+  const used = new Set<string>();
+  for (const [, name = ''] of template.matchAll(TOKEN)) {
+    if (!isToken(name)) problems.push(`Unknown token {${name}}`);
+    used.add(name);
+  }
+
+  if (!used.has('locale')) problems.push('The template needs {locale}');
+  if (!used.has('platform')) problems.push('The template needs {platform}');
+  if (!ANGLE_TOKENS.some((token) => used.has(token))) {
+    problems.push('The template needs {angle}, {angle_id} or {angle_index}');
+  }
+  if (!used.has('file') && !(used.has('name') && used.has('ext'))) {
+    problems.push('The template needs {file}, or {name} and {ext}');
+  }
+
+  if (template.startsWith('/') || template.includes('\\')) {
+    problems.push('Paths must be relative and use forward slashes');
+  }
+  if (
+    template.split('/').some((segment) => segment === '..' || segment === '.' || segment === '')
+  ) {
+    problems.push('Path segments cannot be empty, "." or ".."');
+  }
+  return problems;
+}
+
+// Keep token values to one safe path segment
+function slug(value: string): string {
+  return (
+    value
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^A-Za-z0-9._-]+/g, '-')
+      .replace(/^[-.]+|-+$/g, '')
+      .slice(0, 60) || 'untitled'
+  );
+}
+
+/**
+ * Fill a path template. Project and pack names are slugged so they cannot
+ * add folders.
+ */
+export function renderPackPath(template: string, values: PackPathValues): string {
+  return template.replace(TOKEN, (match, name: string) => {
+    if (!isToken(name)) return match;
+    return name === 'project' || name === 'pack' ? slug(values[name]) : values[name];
+  });
+}
+
+// Split a default file name such as "cues.json" into name and extension
+export function fileNameParts(filename: string): { name: string; ext: string } {
+  const dot = filename.lastIndexOf('.');
+  return dot === -1
+    ? { name: filename, ext: '' }
+    : { name: filename.slice(0, dot), ext: filename.slice(dot + 1) };
+}
@@ -0,0 +1,89 @@
+import type { JobType, WorkspaceRole } from '../types/index.js';
+
+export const PERMISSIONS = [
+  'projects:read',
+  'projects:write',
+  'projects:delete',
+  'angles:read',
+  'angles:write',
+  'angles:review',
+  'angles:generate',
+  'angles:delete',
+  'localizations:read',
+  'localizations:write',
+  'localizations:review',
+  'localizations:generate',
+  'localizations:delete',
+  'packs:read',
+  'packs:create',
+  'packs:download',
+  'packs:share',
+  'packs:delete',
+  'performance:read',
+  'performance:import',
+  'prompts:manage',
+  'roles:manage',
+  'users:manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+// Grants every permission, including ones added later
+export const ALL_PERMISSIONS = '*';
+
+const READ_PERMISSIONS: Permission[] = [
+  'projects:read',
+  'angles:read',
+  'localizations:read',
+  'packs:read',
+  'performance:read',
+];
+
+// Instance-wide settings that affect every workspace
+const ADMIN_PERMISSIONS: Permission[] = ['prompts:manage', 'roles:manage', 'users:manage'];
+
+const CONTENT_PERMISSIONS: Permission[] = PERMISSIONS.filter(
+  (p) => !ADMIN_PERMISSIONS.includes(p)
+);
+
+// Built-in roles seeded by migration. `user` is assigned on registration.
+export const BUILT_IN_ROLES: Record<string, string[]> = {
+  admin: [ALL_PERMISSIONS],
+  editor: CONTENT_PERMISSIONS,
+  user: CONTENT_PERMISSIONS,
+  reviewer: [...READ_PERMISSIONS, 'angles:review', 'localizations:review'],
+};
+
+export const DEFAULT_ROLE = 'user';
+
+// Viewing a background job needs read access to what it produces; cancelling
+// it needs the permission that was required to start it
+export const JOB_PERMISSIONS: Record<JobType, { read: Permission; cancel: Permission }> = {
+  generate_angles: { read: 'angles:read', cancel: 'angles:generate' },
+  localize: { read: 'localizations:read', cancel: 'localizations:generate' },
+  build_pack: { read: 'packs:read', cancel: 'packs:create' },
+  rebuild_pack: { read: 'packs:read', cancel: 'packs:create' },
+};
+
+// Workspace viewers can read and download but change nothing, whatever their role grants
+const VIEWER_PERMISSIONS: Permission[] = [...READ_PERMISSIONS, 'packs:download'];
+
+/**
+ * The permissions a user has inside a workspace: their role's permissions,
+ * narrowed to read-only for workspace viewers. Instance-wide admin
+ * permissions are not tied to a workspace and are kept.
+ */
+export function workspacePermissions(granted: string[], role: WorkspaceRole): string[] {
+  if (role !== 'viewer') return granted;
+
+  const allowed: Permission[] = [...VIEWER_PERMISSIONS, ...ADMIN_PERMISSIONS];
+  return granted.includes(ALL_PERMISSIONS)
+    ? allowed
+    : granted.filter((permission) => allowed.includes(permission as Permission));
+}
+
+export function hasPermissions(granted: string[] | undefined, required: Permission[]): boolean {
+  if (!granted) return false;
+  if (granted.includes(ALL_PERMISSIONS)) return true;
+  return required.every((permission) => granted.includes(permission));
+}
@@ -0,0 +1,127 @@
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { config } from './config.js';
+
+// Built-in platforms, at packages/backend/platforms.json from both src and dist
+const DEFAULT_REGISTRY = new URL('../../platforms.json', import.meta.url);
+
+const platformDefinitionSchema = z.object({
+  name: z.string().min(1),
+  // Tone and pacing guidance passed to the model when localizing
+  style: z.string().min(1),
+  aspectRatio: z.string().regex(/^\d+:\d+$/),
+  maxDuration: z.number().positive(), // seconds
+  recommendedDuration: z.object({ min: z.number().min(0), max: z.number().positive() }),
+  limits: z.object({
+    caption: z.number().int().positive(),
+    description: z.number().int().positive(),
+    title: z.number().int().positive().optional(),
+    // Most hashtags a post should carry; unlimited when omitted
+    hashtags: z.number().int().min(0).optional(),
+  }),
+  // Percent of the frame on each edge covered by the app's UI
+  safeZone: z.object({
+    top: z.number().min(0).max(50),
+    bottom: z.number().min(0).max(50),
+    left: z.number().min(0).max(50),
+    right: z.number().min(0).max(50),
+  }),
+  captions: z.object({
+    maxCharsPerLine: z.number().int().positive(),
+    maxLines: z.number().int().positive(),
+    // Fastest comfortable reading speed
+    maxCharsPerSecond: z.number().positive().default(17),
+    // Whether captions should be rendered into the video rather than uploaded
+    burnedIn: z.boolean(),
+  }),
+});
+
+// Ids are stored in varchar(50) columns and used as pack folder names
+const registrySchema = z.record(z.string().regex(/^[a-z][a-z0-9_]{0,49}$/), platformDefinitionSchema);
+
+export type PlatformDefinition = z.infer<typeof platformDefinitionSchema>;
+
+export interface PlatformInfo extends PlatformDefinition {
+  id: string;
+}
+
+function readRegistry(path: string | URL): Record<string, PlatformDefinition> {
+  const result = registrySchema.safeParse(JSON.parse(readFileSync(path, 'utf8')));
+  if (!result.success) {
+    const errors = result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Invalid platform registry ${String(path)}:\n${errors.join('\n')}`);
+  }
+  return result.data;
+}
+
+/**
+ * The built-in platforms, plus any from PLATFORM_REGISTRY_PATH. Entries in that
+ * file add platforms or replace built-in ones with the same id.
+ */
+function loadRegistry(): ReadonlyMap<string, PlatformInfo> {
+  const definitions = {
+    ...readRegistry(DEFAULT_REGISTRY),
+    ...(config.PLATFORM_REGISTRY_PATH && readRegistry(config.PLATFORM_REGISTRY_PATH)),
+  };
+  return new Map(Object.entries(definitions).map(([id, definition]) => [id, { id, ...definition }]));
+}
+
+const registry = loadRegistry();
+
+export function isPlatform(value: string): boolean {
+  return registry.has(value);
+}
+
+export function getPlatform(id: string): PlatformInfo {
+  const platform = registry.get(id);
+  if (!platform) {
+    throw new Error(`Unknown platform: ${id}`);
+  }
+  return platform;
+}
+
+export function listPlatforms(): PlatformInfo[] {
+  return [...registry.values()];
+}
+
+export function getCharacterLimit(platform: string, type: 'caption' | 'description' | 'title'): number {
+  const { limits } = getPlatform(platform);
+  return type === 'title' ? (limits.title ?? limits.caption) : limits[type];
+}
+
+export function validateContentLength(
+  content: string,
+  platform: string,
+  type: 'caption' | 'description' | 'title'
+): { valid: boolean; limit: number; current: number } {
+  const limit = getCharacterLimit(platform, type);
+  const current = content.length;
+  return {
+    valid: current <= limit,
+    limit,
+    current,
+  };
+}
+
+/**
+ * Break caption text into lines no longer than the platform's limit, at word
+ * boundaries. Words longer than a line (or unspaced scripts such as Japanese)
+ * are kept whole rather than split mid-word.
+ */
+export function wrapCaption(text: string, platform: string): string {
+  const { maxCharsPerLine } = getPlatform(platform).captions;
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + 1 + word.length > maxCharsPerLine) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+
+  return lines.join('\n');
+}
@@ -0,0 +1,38 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export interface ShareTokenClaims {
+  linkId: string;
+  expiresAt: Date;
+}
+
+const signature = (payload: string, secret: string) =>
+  createHmac('sha256', secret).update(payload).digest('base64url');
+
+/**
+ * Token for a pack share link: `<linkId>.<expiry in unix seconds>.<HMAC>`.
+ * The expiry is signed with the id so it cannot be extended by editing the
+ * URL; revocation and download limits are checked against the stored link.
+ */
+export function signShareToken(claims: ShareTokenClaims, secret: string): string {
+  const payload = `${claims.linkId}.${Math.floor(claims.expiresAt.getTime() / 1000)}`;
+  return `${payload}.${signature(payload, secret)}`;
+}
+
+/**
+ * The claims of a token signed with `secret`, or null if it is malformed or
+ * its signature does not match. Expiry is left to the caller.
+ */
+export function verifyShareToken(token: string, secret: string): ShareTokenClaims | null {
+  const [linkId, expiry, provided, ...rest] = token.split('.');
+  if (!linkId || !expiry || !provided || rest.length > 0 || !/^\d+$/.test(expiry)) {
+    return null;
+  }
+
+  const expected = Buffer.from(signature(`${linkId}.${expiry}`, secret));
+  const actual = Buffer.from(provided);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  return { linkId, expiresAt: new Date(Number(expiry) * 1000) };
+}
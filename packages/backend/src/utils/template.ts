@@ -0,0 +1,77 @@
+/**
+ * Minimal template syntax for prompts: `{{name}}` inserts a variable (arrays are
+ * joined with ", ") and `{{#if name}}...{{/if}}` keeps its body only when the
+ * variable is non-empty. Sections may nest.
+ */
+
+export type TemplateValue = string | number | string[] | null | undefined;
+export type TemplateVariables = Record<string, TemplateValue>;
+
+const TAG = /\{\{\s*(?:#if\s+(\w+)|(\/if)|(\w+))\s*\}\}/g;
+
+function isPresent(value: TemplateValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== '';
+}
+
+function format(value: TemplateValue): string {
+  if (Array.isArray(value)) return value.join(', ');
+  return value === undefined || value === null ? '' : String(value);
+}
+
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+  let output = '';
+  let lastIndex = 0;
+  // One entry per open section: whether its body is rendered
+  const sections: boolean[] = [];
+  const rendering = () => sections.every(Boolean);
+
+  for (const match of template.matchAll(TAG)) {
+    const [tag, ifName, endIf, name] = match;
+    if (rendering()) {
+      output += template.slice(lastIndex, match.index);
+    }
+    lastIndex = (match.index ?? 0) + tag.length;
+
+    if (ifName) {
+      sections.push(isPresent(variables[ifName]));
+    } else if (endIf) {
+      sections.pop();
+    } else if (name && rendering()) {
+      output += format(variables[name]);
+    }
+  }
+
+  if (rendering()) {
+    output += template.slice(lastIndex);
+  }
+  return output;
+}
+
+/**
+ * Problems that would make a template render incorrectly: unknown variables
+ * and unbalanced sections.
+ */
+export function findTemplateErrors(template: string, allowed: readonly string[]): string[] {
+  const errors: string[] = [];
+  let depth = 0;
+
+  for (const match of template.matchAll(TAG)) {
+    const [, ifName, endIf, name] = match;
+    const variable = ifName ?? name;
+
+    if (variable && !allowed.includes(variable)) {
+      errors.push(`Unknown variable "${variable}"`);
+    }
+    if (ifName) depth++;
+    if (endIf && --depth < 0) {
+      errors.push('{{/if}} without a matching {{#if}}');
+      depth = 0;
+    }
+  }
+
+  if (depth > 0) {
+    errors.push(`${depth} {{#if}} section(s) not closed with {{/if}}`);
+  }
+  return [...new Set(errors)];
+}
@@ -0,0 +1,84 @@
+import type { DiffSegment, FieldChange, FieldDiff } from '../types/index.js';
+
+// Words and runs of whitespace as separate tokens, so joined segments
+// reproduce the text and a word matches whatever follows it
+function tokenize(text: string): string[] {
+  return text.match(/\S+|\s+/g) ?? [];
+}
+
+/**
+ * Word-level diff of two strings via the longest common subsequence. Adjacent
+ * tokens of the same type are merged into one segment.
+ */
+export function diffWords(from: string, to: string): DiffSegment[] {
+  const a = tokenize(from);
+  const b = tokenize(to);
+
+  // LCS length of a[i..] and b[j..], stored row-major
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  const lcs = (i: number, j: number) => lengths[i * width + j] ?? 0;
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j] ? lcs(i + 1, j + 1) + 1 : Math.max(lcs(i + 1, j), lcs(i, j + 1));
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], text = '') => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs(i + 1, j) >= lcs(i, j + 1)) {
+      push('delete', a[i++]);
+    } else {
+      push('insert', b[j++]);
+    }
+  }
+  while (i < a.length) push('delete', a[i++]);
+  while (j < b.length) push('insert', b[j++]);
+
+  return segments;
+}
+
+/**
+ * The fields whose values differ between two versions of a record.
+ */
+export function diffFields<T extends object, F extends keyof T & string>(
+  from: T,
+  to: T,
+  fields: readonly F[]
+): FieldChange<F>[] {
+  return fields
+    .filter((field) => JSON.stringify(from[field]) !== JSON.stringify(to[field]))
+    .map((field) => ({ field, from: from[field] ?? null, to: to[field] ?? null }));
+}
+
+/**
+ * Changed fields with a word-level diff for text values. `toText` renders
+ * other values (such as caption lists) as text so they can be diffed too.
+ */
+export function describeChanges<F extends string>(
+  changes: FieldChange<F>[],
+  toText?: (field: F, value: unknown) => string | null
+): FieldDiff<F>[] {
+  return changes.map((change) => {
+    const from = typeof change.from === 'string' ? change.from : toText?.(change.field, change.from);
+    const to = typeof change.to === 'string' ? change.to : toText?.(change.field, change.to);
+    return typeof from === 'string' && typeof to === 'string'
+      ? { ...change, segments: diffWords(from, to) }
+      : change;
+  });
+}
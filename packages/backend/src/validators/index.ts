@@ -1,4 +1,8 @@
 import { z } from 'zod';
+import { ALL_PERMISSIONS, PERMISSIONS } from '../utils/permissions.js';
+import { LOCALE_CODES } from '../utils/locales.js';
+import { isPlatform } from '../utils/platforms.js';
+import { checkPathTemplate } from '../utils/pack-layout.js';
 
 // ============================================
 // Common Validators
@@ -23,9 +27,9 @@ export const toneSchema = z.enum([
   'empathetic',
 ]);
 
-export const platformSchema = z.enum(['tiktok', 'instagram', 'youtube']);
+export const platformSchema = z.string().refine(isPlatform, { message: 'Unknown platform' });
 
-export const localeSchema = z.enum(['en-US', 'es-ES', 'fr-FR', 'de-DE', 'pt-BR']);
+export const localeSchema = z.enum(LOCALE_CODES);
 
 export const seedDataSchema = z.object({
   product_name: z
@@ -52,12 +56,223 @@ export const seedDataSchema = z.object({
   platforms: z
     .array(platformSchema)
     .min(1, 'At least one platform is required')
-    .max(3),
+    .max(10),
   brand_guidelines: z.string().max(1000).optional(),
   competitors: z.array(z.string().max(100)).max(5).optional(),
   unique_selling_points: z.array(z.string().max(200)).max(5).optional(),
 });
 
+// ============================================
+// Auth Validators
+// ============================================
+
+export const emailSchema = z.string().trim().toLowerCase().email('Invalid email format');
+
+export const registerSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(1, 'Password is required').max(128),
+  name: z.string().min(1).max(255).optional(),
+});
+
+export const loginSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(1, 'Password is required'),
+});
+
+export const verifyTwoFactorSchema = z.object({
+  userId: uuidSchema,
+  code: z.string().min(1, 'Code is required'),
+});
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required'),
+});
+
+export const logoutSchema = z.object({
+  refreshToken: z.string().min(1).optional(),
+  sessionToken: z.string().min(1).optional(),
+});
+
+export const forgotPasswordSchema = z.object({
+  email: emailSchema,
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+  newPassword: z.string().min(1, 'New password is required').max(128),
+});
+
+export const disableTwoFactorSchema = z.object({
+  password: z.string().min(1, 'Password is required to disable 2FA'),
+});
+
+// ============================================
+// Role Validators
+// ============================================
+
+export const permissionSchema = z.enum([ALL_PERMISSIONS, ...PERMISSIONS]);
+
+export const createRoleSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Role name is required')
+    .max(50, 'Role name must be 50 characters or less')
+    .regex(/^[a-z0-9_-]+$/, 'Role name may only contain lowercase letters, numbers, - and _'),
+  permissions: z.array(permissionSchema).transform((p) => [...new Set(p)]),
+});
+
+export const updateRoleSchema = createRoleSchema.partial();
+
+export const assignUserRoleSchema = z.object({
+  roleId: uuidSchema,
+});
+
+// ============================================
+// Workspace Validators
+// ============================================
+
+export const workspaceRoleSchema = z.enum(['owner', 'admin', 'member', 'viewer']);
+
+export const createWorkspaceSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Workspace name is required')
+    .max(255, 'Workspace name must be 255 characters or less'),
+});
+
+export const updateWorkspaceSchema = createWorkspaceSchema.partial();
+
+export const addWorkspaceMemberSchema = z.object({
+  userId: uuidSchema,
+  role: workspaceRoleSchema.default('member'),
+});
+
+export const updateWorkspaceMemberSchema = z.object({
+  role: workspaceRoleSchema,
+});
+
+// ============================================
+// AI Settings Validators
+// ============================================
+
+export const aiProviderSchema = z.enum(['openai', 'anthropic', 'local', 'mock']);
+
+const aiProviderSelectionSchema = z
+  .object({
+    provider: aiProviderSchema.optional(),
+    model: z.string().min(1).max(100).optional(),
+  })
+  .refine((selection) => !selection.model || selection.provider, {
+    message: 'A model can only be set together with a provider',
+    path: ['model'],
+  });
+
+export const projectAISettingsSchema = z
+  .object({
+    provider: aiProviderSchema.optional(),
+    model: z.string().min(1).max(100).optional(),
+    operations: z
+      .object({
+        generate_angles: aiProviderSelectionSchema.optional(),
+        localize: aiProviderSelectionSchema.optional(),
+        analyze_patterns: aiProviderSelectionSchema.optional(),
+        generate_iterations: aiProviderSelectionSchema.optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .refine((settings) => !settings.model || settings.provider, {
+    message: 'A model can only be set together with a provider',
+    path: ['model'],
+  });
+
+function isValidRegex(pattern: string, flags?: string): boolean {
+  try {
+    new RegExp(pattern, flags);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const angleCopyFieldSchema = z.enum(['hook', 'problemAgitation', 'solution', 'cta']);
+
+export const claimsPolicySchema = z.object({
+  forbiddenPhrases: z.array(z.string().trim().min(1).max(200)).max(200).default([]),
+  requiredDisclaimers: z
+    .array(
+      z
+        .object({
+          text: z.string().trim().min(1).max(500),
+          when: z.string().min(1).max(200).optional(),
+        })
+        .refine((d) => !d.when || isValidRegex(d.when, 'i'), {
+          message: 'Invalid regular expression',
+          path: ['when'],
+        })
+    )
+    .max(20)
+    .default([]),
+  regexRules: z
+    .array(
+      z
+        .object({
+          pattern: z.string().min(1).max(200),
+          flags: z.string().regex(/^[imsu]*$/, 'Only the i, m, s and u flags are allowed').optional(),
+          message: z.string().min(1).max(300),
+          fields: z.array(angleCopyFieldSchema).min(1).optional(),
+        })
+        .refine((rule) => isValidRegex(rule.pattern, rule.flags), {
+          message: 'Invalid regular expression',
+          path: ['pattern'],
+        })
+    )
+    .max(50)
+    .default([]),
+  allowCompetitorMentions: z.boolean().default(false),
+});
+
+// ============================================
+// Prompt Template Validators
+// ============================================
+
+export const aiOperationSchema = z.enum([
+  'generate_angles',
+  'localize',
+  'analyze_patterns',
+  'generate_iterations',
+]);
+
+// Omitting projectId targets the global template
+export const promptTemplateScopeSchema = z.object({
+  projectId: uuidSchema.optional(),
+});
+
+export const createPromptTemplateSchema = promptTemplateScopeSchema.extend({
+  system: z.string().min(1).max(10000),
+  template: z.string().min(1).max(50000),
+  note: z.string().max(500).optional(),
+});
+
+export const previewPromptTemplateSchema = createPromptTemplateSchema.partial();
+
+export const rollbackPromptTemplateSchema = promptTemplateScopeSchema.extend({
+  version: z.number().int().positive(),
+});
+
+// ============================================
+// AI Usage Validators
+// ============================================
+
+export const aiUsageQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(366).default(30),
+});
+
+export const aiBudgetSchema = z.object({
+  // null removes the cap
+  monthlyBudgetUsd: z.number().min(0).max(1_000_000).multipleOf(0.01).nullable(),
+});
+
 // ============================================
 // Project Validators
 // ============================================
@@ -69,19 +284,38 @@ export const createProjectSchema = z.object({
     .max(255, 'Project name must be 255 characters or less'),
   description: z.string().max(1000).optional(),
   seedData: seedDataSchema,
+  aiSettings: projectAISettingsSchema.optional(),
+  claimsPolicy: claimsPolicySchema.optional(),
+  // Reviewer approvals an angle needs before it is approved
+  requiredApprovals: z.number().int().min(1).max(10).optional(),
 });
 
 export const updateProjectSchema = z.object({
   name: z.string().min(1).max(255).optional(),
   description: z.string().max(1000).optional(),
   seedData: seedDataSchema.optional(),
+  // null clears the project's overrides
+  aiSettings: projectAISettingsSchema.nullable().optional(),
+  // null removes the project's claims policy
+  claimsPolicy: claimsPolicySchema.nullable().optional(),
+  requiredApprovals: z.number().int().min(1).max(10).optional(),
 });
 
 // ============================================
 // Angle Card Validators
 // ============================================
 
-export const angleStatusSchema = z.enum(['draft', 'approved', 'rejected', 'archived']);
+export const angleStatusSchema = z.enum(['draft', 'in_review', 'approved', 'rejected', 'archived']);
+
+export const angleContentFieldSchema = z.enum([
+  'hook',
+  'problemAgitation',
+  'solution',
+  'cta',
+  'visualDirection',
+  'audioNotes',
+  'estimatedDuration',
+]);
 
 export const generateAnglesSchema = z.object({
   count: z.coerce.number().int().min(1).max(10).default(3),
@@ -98,6 +332,41 @@ export const updateAngleSchema = z.object({
   status: angleStatusSchema.optional(),
 });
 
+export const updateAngleStatusSchema = z.object({
+  status: angleStatusSchema,
+  // Recorded in the angle's status history
+  reason: z.string().trim().max(1000).optional(),
+});
+
+export const setAngleReviewersSchema = z.object({
+  userIds: z.array(uuidSchema).max(10, 'Maximum 10 reviewers'),
+});
+
+export const submitAngleReviewSchema = z
+  .object({
+    decision: z.enum(['approved', 'rejected']),
+    reason: z.string().trim().max(1000).optional(),
+    // Approves an angle despite claims policy violations
+    overrideReason: z.string().trim().min(10).max(1000).optional(),
+  })
+  .refine((review) => review.decision === 'approved' || !!review.reason, {
+    message: 'A reason is required when rejecting',
+    path: ['reason'],
+  });
+
+export const createAngleCommentSchema = z.object({
+  body: z.string().trim().min(1).max(2000),
+  // Anchors the comment to a field and, optionally, a passage in it
+  field: angleContentFieldSchema.optional(),
+  quote: z.string().min(1).max(500).optional(),
+  // Replies join the thread of the comment they answer
+  parentId: uuidSchema.optional(),
+});
+
+export const updateAngleCommentSchema = z.object({
+  resolved: z.boolean(),
+});
+
 // ============================================
 // Localization Validators
 // ============================================
@@ -119,7 +388,7 @@ export const onScreenTextSchema = z.object({
 
 export const localizeRequestSchema = z.object({
   locales: z.array(localeSchema).min(1).max(5),
-  platforms: z.array(platformSchema).min(1).max(3),
+  platforms: z.array(platformSchema).min(1).max(5),
 });
 
 export const updateLocalizedContentSchema = z.object({
@@ -130,17 +399,153 @@ export const updateLocalizedContentSchema = z.object({
   platformAdjustments: z.string().max(1000).optional().nullable(),
 });
 
+export const setLocaleReviewersSchema = z.object({
+  userIds: z.array(uuidSchema).max(10, 'Maximum 10 reviewers per locale'),
+});
+
+export const submitLocalizationReviewSchema = z.object({
+  // Defaults to the first reviewer assigned to the locale
+  reviewerId: uuidSchema.optional(),
+});
+
+export const reviewLocalizationSchema = z
+  .object({
+    decision: z.enum(['approved', 'changes_requested']),
+    note: z.string().trim().max(2000).optional(),
+  })
+  .refine((review) => review.decision === 'approved' || !!review.note, {
+    message: 'A note is required when requesting changes',
+    path: ['note'],
+  });
+
+// ============================================
+// AI Response Validators
+// ============================================
+
+// Responses are held to the same limits as manual edits so nothing the model
+// returns could not also have been saved through the API.
+export const generatedAngleSchema = updateAngleSchema
+  .omit({ status: true, visualDirection: true, audioNotes: true, estimatedDuration: true })
+  .required()
+  .extend({
+    visualDirection: z.string().max(500).optional(),
+    audioNotes: z.string().max(500).optional(),
+    estimatedDuration: z.number().int().min(5).max(180).optional(),
+    generationNotes: z.string().max(1000).optional(),
+  });
+
+export const generatedAnglesResponseSchema = z.object({
+  angles: z.array(generatedAngleSchema).min(1, 'At least one angle is required'),
+});
+
+export const localizedContentResponseSchema = updateLocalizedContentSchema
+  .pick({ script: true, captions: true, onScreenText: true })
+  .required()
+  .extend({
+    culturalNotes: z.string().max(1000).optional(),
+    platformAdjustments: z.string().max(1000).optional(),
+  });
+
+export const patternAnalysisResponseSchema = z.object({
+  patterns: z.array(z.string().min(1).max(500)).min(1, 'At least one pattern is required'),
+  recommendations: z.array(z.string().min(1).max(500)),
+});
+
 // ============================================
 // Creative Pack Validators
 // ============================================
 
+export const captionFormatSchema = z.enum(['srt', 'vtt', 'ttml', 'ass', 'json']);
+
+export const packRetentionDaysSchema = z.number().int().min(1).max(365).nullable();
+
+export const packRetentionSchema = z.object({
+  // null keeps packs until they are deleted
+  packRetentionDays: packRetentionDaysSchema,
+});
+
 export const createPackSchema = z.object({
   name: z.string().min(1).max(255),
   angleIds: z.array(uuidSchema).min(1).max(50),
   locales: z.array(localeSchema).min(1),
   platforms: z.array(platformSchema).min(1),
+  // Fail unless every selected localization passed native-speaker review
+  approvedOnly: z.boolean().optional(),
+  // Caption files written for each localization; SRT when omitted
+  captionFormats: z.array(captionFormatSchema).min(1).optional(),
+  // Archive layout; the default layout when omitted
+  templateId: uuidSchema.optional(),
+  // Add an HTML and PDF creative brief to each localization's files
+  includeBrief: z.boolean().optional(),
+  // Overrides the workspace retention policy; null keeps the pack until deleted
+  expiresInDays: packRetentionDaysSchema.optional(),
 });
 
+export const rebuildPackSchema = z.object({
+  // Also write a zip of only the new and changed files, with a changelog
+  delta: z.boolean().default(true),
+  name: z.string().min(1).max(255).optional(),
+  expiresInDays: packRetentionDaysSchema.optional(),
+});
+
+export const packDownloadQuerySchema = z.object({
+  variant: z.enum(['full', 'delta']).default('full'),
+});
+
+export const createShareLinkSchema = z.object({
+  label: z.string().min(1).max(100).optional(),
+  // Capped at the pack's own expiry
+  expiresInHours: z.number().int().min(1).max(24 * 90).default(72),
+  password: z.string().min(6).max(128).optional(),
+  maxDownloads: z.number().int().min(1).max(1000).optional(),
+});
+
+// Format only; the signature is checked by the share link service
+export const shareTokenSchema = z
+  .string()
+  .max(200)
+  .regex(/^[\w-]+\.\d+\.[\w-]+$/, 'Invalid share link');
+
+export const shareDownloadSchema = z.object({
+  password: z.string().max(128).optional(),
+});
+
+export const packFileKindSchema = z.enum(['script', 'captions', 'overlays', 'metadata', 'brief']);
+
+export const briefQuerySchema = z
+  .object({
+    format: z.enum(['html', 'pdf']).default('pdf'),
+    locale: localeSchema.optional(),
+    platform: platformSchema.optional(),
+  })
+  .refine((query) => !query.locale === !query.platform, {
+    message: 'Pass both locale and platform, or neither',
+    path: ['locale'],
+  });
+
+export const pathTemplateSchema = z
+  .string()
+  .min(1)
+  .max(500)
+  .superRefine((template, ctx) => {
+    for (const message of checkPathTemplate(template)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    }
+  });
+
+export const createPackTemplateSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional().nullable(),
+  pathTemplate: pathTemplateSchema,
+  fileTypes: z.array(packFileKindSchema).min(1),
+  captionFormats: z.array(captionFormatSchema).min(1).default(['srt']),
+});
+
+export const updatePackTemplateSchema = createPackTemplateSchema
+  .omit({ captionFormats: true })
+  .partial()
+  .extend({ captionFormats: z.array(captionFormatSchema).min(1).optional() });
+
 // ============================================
 // Performance Import Validators
 // ============================================
@@ -167,12 +572,35 @@ export const generateIterationSchema = z.object({
 // Type Exports
 // ============================================
 
+export type RegisterInput = z.infer<typeof registerSchema>;
+export type LoginInput = z.infer<typeof loginSchema>;
+export type CreateRoleInput = z.infer<typeof createRoleSchema>;
+export type UpdateRoleInput = z.infer<typeof updateRoleSchema>;
+export type CreateWorkspaceInput = z.infer<typeof createWorkspaceSchema>;
+export type UpdateWorkspaceInput = z.infer<typeof updateWorkspaceSchema>;
+export type AddWorkspaceMemberInput = z.infer<typeof addWorkspaceMemberSchema>;
+export type AIBudgetInput = z.infer<typeof aiBudgetSchema>;
+export type CreatePromptTemplateInput = z.infer<typeof createPromptTemplateSchema>;
+export type PreviewPromptTemplateInput = z.infer<typeof previewPromptTemplateSchema>;
+export type RollbackPromptTemplateInput = z.infer<typeof rollbackPromptTemplateSchema>;
 export type CreateProjectInput = z.infer<typeof createProjectSchema>;
 export type UpdateProjectInput = z.infer<typeof updateProjectSchema>;
 export type SeedDataInput = z.infer<typeof seedDataSchema>;
 export type UpdateAngleInput = z.infer<typeof updateAngleSchema>;
+export type UpdateAngleStatusInput = z.infer<typeof updateAngleStatusSchema>;
+export type SubmitAngleReviewInput = z.infer<typeof submitAngleReviewSchema>;
+export type CreateAngleCommentInput = z.infer<typeof createAngleCommentSchema>;
+export type ReviewLocalizationInput = z.infer<typeof reviewLocalizationSchema>;
+export type ClaimsPolicyInput = z.infer<typeof claimsPolicySchema>;
 export type LocalizeRequestInput = z.infer<typeof localizeRequestSchema>;
 export type UpdateLocalizedContentInput = z.infer<typeof updateLocalizedContentSchema>;
 export type CreatePackInput = z.infer<typeof createPackSchema>;
+export type PackRetentionInput = z.infer<typeof packRetentionSchema>;
+export type RebuildPackInput = z.infer<typeof rebuildPackSchema>;
+export type CreateShareLinkInput = z.infer<typeof createShareLinkSchema>;
+export type ShareDownloadInput = z.infer<typeof shareDownloadSchema>;
+export type BriefQueryInput = z.infer<typeof briefQuerySchema>;
+export type CreatePackTemplateInput = z.infer<typeof createPackTemplateSchema>;
+export type UpdatePackTemplateInput = z.infer<typeof updatePackTemplateSchema>;
 export type CSVRowInput = z.infer<typeof csvRowSchema>;
 export type GenerateIterationInput = z.infer<typeof generateIterationSchema>;
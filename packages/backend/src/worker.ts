@@ -0,0 +1,31 @@
+import { jobWorker } from './jobs/worker.js';
+import { packSweeper } from './jobs/pack-sweeper.js';
+import { logger } from './utils/logger.js';
+import { validateEnvironment } from './utils/env-validator.js';
+import { connectDatabase, disconnectDatabase } from './repositories/prisma-client.js';
+
+// Standalone job worker for deployments that run the API with JOB_WORKER_ENABLED=false
+
+async function shutdown(signal: string) {
+  logger.info({ signal }, 'Shutdown signal received');
+  await Promise.all([jobWorker.stop(), packSweeper.stop()]);
+  await disconnectDatabase();
+  process.exit(0);
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
+
+async function start() {
+  try {
+    validateEnvironment();
+    await connectDatabase();
+    jobWorker.start();
+    packSweeper.start();
+  } catch (error) {
+    logger.error({ error }, 'Failed to start job worker');
+    process.exit(1);
+  }
+}
+
+start();
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CAPTION_WRITERS,
+  frameSize,
+  toASS,
+  toCueSheet,
+  toSRT,
+  toTTML,
+  toWebVTT,
+  type CaptionTrack,
+} from '../src/utils/caption-formats.js';
+import { getPlatform } from '../src/utils/platforms.js';
+
+const track: CaptionTrack = {
+  locale: 'en-US',
+  platform: getPlatform('tiktok'),
+  captions: [
+    { timestamp_start: 0, timestamp_end: 2.5, text: 'Tired skin?' },
+    { timestamp_start: 2.5, timestamp_end: 5, text: 'Meet <Glow> & co', style: 'emphasis' },
+  ],
+  onScreenText: [
+    { timestamp: 1, duration: 2, text: '50% OFF', position: 'top', animation: 'fade' },
+  ],
+};
+
+describe('Caption formats', () => {
+  it('should write SRT with comma-separated milliseconds', () => {
+    expect(toSRT(track)).toContain('1\n00:00:00,000 --> 00:00:02,500\nTired skin?\n');
+  });
+
+  it('should map caption styles to WebVTT cue classes and escape markup', () => {
+    const vtt = toWebVTT(track);
+    expect(vtt.startsWith('WEBVTT\n')).toBe(true);
+    expect(vtt).toContain('::cue(.emphasis)');
+    expect(vtt).toContain(
+      '00:00:02.500 --> 00:00:05.000\n<c.emphasis>Meet &lt;Glow&gt; &amp; co</c>'
+    );
+  });
+
+  it('should set the TTML language and direction for right-to-left locales', () => {
+    const ttml = toTTML({ ...track, locale: 'ar-SA' });
+    expect(ttml).toContain('xml:lang="ar-SA"');
+    expect(ttml).toContain('tts:direction="rtl"');
+    expect(ttml).toContain('style="emphasis">Meet &lt;Glow&gt; &amp; co</p>');
+  });
+
+  it('should position ASS overlays inside the platform safe zone', () => {
+    const ass = toASS(track);
+    const { height } = frameSize(track.platform);
+    const marginTop = Math.round(((track.platform?.safeZone.top ?? 0) / 100) * height);
+    expect(ass).toContain('PlayResX: 1080\nPlayResY: 1920');
+    expect(ass).toMatch(new RegExp(`Style: OverlayTop,.*,8,\\d+,\\d+,${marginTop},1`));
+    expect(ass).toContain(
+      'Dialogue: 1,0:00:01.00,0:00:03.00,OverlayTop,,0,0,0,,{\\fad(200,200)}50% OFF'
+    );
+    expect(ass).toContain('0:00:02.50,0:00:05.00,Emphasis,');
+  });
+
+  it('should describe the frame and every cue in the JSON cue sheet', () => {
+    const sheet = JSON.parse(toCueSheet(track));
+    expect(sheet.frame).toMatchObject({ aspect_ratio: '9:16', width: 1080, height: 1920 });
+    expect(sheet.cues).toHaveLength(2);
+    expect(sheet.cues[1]).toMatchObject({ index: 2, start: 2.5, style: 'emphasis' });
+    expect(sheet.overlays[0]).toMatchObject({ start: 1, end: 3, position: 'top' });
+  });
+
+  it('should give each format its own file name', () => {
+    const names = Object.values(CAPTION_WRITERS).map((writer) => writer.filename);
+    expect(new Set(names).size).toBe(names.length);
+  });
+});
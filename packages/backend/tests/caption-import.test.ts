@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { detectCaptionFormat, parseCaptionFile } from '../src/utils/caption-import.js';
+import { toSRT, toWebVTT, type CaptionTrack } from '../src/utils/caption-formats.js';
+import { getPlatform } from '../src/utils/platforms.js';
+
+const track: CaptionTrack = {
+  locale: 'ar-SA',
+  platform: getPlatform('tiktok'),
+  captions: [
+    { timestamp_start: 0, timestamp_end: 2.5, text: 'هل بشرتك متعبة بعد أسبوع طويل من العمل؟' },
+    { timestamp_start: 2.5, timestamp_end: 5.04, text: 'Glow & co', style: 'emphasis' },
+  ],
+  onScreenText: [],
+};
+
+describe('Caption import', () => {
+  it('should read back exported SRT and WebVTT captions', () => {
+    const srt = parseCaptionFile(toSRT(track), 'srt');
+    expect(srt.errors).toEqual([]);
+    expect(srt.cues.map(({ caption }) => caption.text)).toEqual(
+      track.captions.map((caption) => caption.text)
+    );
+
+    const vtt = parseCaptionFile(toWebVTT(track), 'vtt');
+    expect(vtt.cues.map(({ caption }) => caption)).toEqual(track.captions);
+  });
+
+  it('should report cues with bad timing by cue and line', () => {
+    const file = [
+      '1',
+      '00:00:01,000 --> 00:00:03,000',
+      'First',
+      '',
+      '2',
+      '00:00:05,000 --> 00:00:04,000',
+      'Backwards',
+      '',
+      '3',
+      '00:00:02,500 --> 00:00:06,000',
+      'Overlapping',
+      '',
+      '4',
+      '00:00:61,000 --> 00:01:02,000',
+      'Bad seconds',
+    ].join('\r\n');
+
+    const { cues, errors, warnings } = parseCaptionFile(file, 'srt');
+    expect(cues).toHaveLength(2);
+    expect(errors).toEqual([
+      { cue: 2, line: 6, message: 'The cue ends before it starts' },
+      { cue: 4, line: 14, message: 'Invalid timing "00:00:61,000 --> 00:01:02,000"' },
+    ]);
+    expect(warnings).toEqual([{ cue: 3, line: 10, message: 'Overlaps cue 1 by 0.500s' }]);
+  });
+
+  it('should require the WEBVTT header and skip note blocks', () => {
+    expect(parseCaptionFile('00:01.000 --> 00:02.000\nHi', 'vtt').errors).toHaveLength(1);
+
+    const { cues } = parseCaptionFile(
+      'WEBVTT\n\nNOTE from the editor\n\nintro\n00:01.000 --> 00:02.000 align:center\n<i>Hi</i> there',
+      'vtt'
+    );
+    expect(cues).toEqual([
+      {
+        cue: 1,
+        line: 6,
+        caption: { timestamp_start: 1, timestamp_end: 2, text: 'Hi there', style: 'whisper' },
+      },
+    ]);
+  });
+
+  it('should detect the format from the extension or header', () => {
+    expect(detectCaptionFormat('final.VTT', '')).toBe('vtt');
+    expect(detectCaptionFormat('captions.txt', 'WEBVTT\n')).toBe('vtt');
+    expect(detectCaptionFormat('captions.txt', '1\n00:00:00,000 --> 00:00:01,000\nHi')).toBe('srt');
+  });
+});
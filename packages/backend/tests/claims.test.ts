@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { checkClaims } from '../src/utils/claims.js';
+import { claimsPolicySchema } from '../src/validators/index.js';
+
+const copy = {
+  hook: 'Double your savings this year',
+  problemAgitation: 'Banks like MegaBank pay almost nothing on deposits.',
+  solution: 'Our app invests your spare change automatically.',
+  cta: 'Start investing today.',
+};
+
+const policy = claimsPolicySchema.parse({
+  forbiddenPhrases: ['double your'],
+  requiredDisclaimers: [{ text: 'Capital at risk', when: 'invest' }],
+  regexRules: [{ pattern: '\\d+% returns?', flags: 'i', message: 'Return figures need approval' }],
+});
+
+describe('Claims policy', () => {
+  it('should report forbidden phrases, competitor names and missing disclaimers', () => {
+    expect(checkClaims(copy, policy, ['MegaBank']).map((v) => [v.rule, v.field])).toEqual([
+      ['forbidden_phrase', 'hook'],
+      ['competitor', 'problemAgitation'],
+      ['missing_disclaimer', null],
+    ]);
+  });
+
+  it('should apply regex rules and only require disclaimers when triggered', () => {
+    const violations = checkClaims(
+      { ...copy, hook: 'Earn 8% returns', solution: 'Save automatically.', cta: 'Start saving.' },
+      policy
+    );
+    expect(violations.map((v) => v.rule)).toEqual(['regex']);
+  });
+
+  it('should allow competitor mentions when the policy does', () => {
+    const permissive = { ...policy, forbiddenPhrases: [], allowCompetitorMentions: true };
+    const compliant = { ...copy, cta: 'Start investing today. Capital at risk.' };
+    expect(checkClaims(compliant, permissive, ['MegaBank'])).toEqual([]);
+  });
+
+  it('should reject invalid regular expressions in the policy', () => {
+    const result = claimsPolicySchema.safeParse({
+      regexRules: [{ pattern: '(unclosed', message: 'Broken' }],
+    });
+    expect(result.success).toBe(false);
+  });
+});
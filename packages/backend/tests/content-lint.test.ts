@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { lintContent, type LintTarget } from '../src/utils/content-lint.js';
+import { getPlatform } from '../src/utils/platforms.js';
+
+const clean: LintTarget = {
+  script: 'Tired skin? GlowSerum brightens in two weeks. #skincare',
+  captions: [
+    { timestamp_start: 0, timestamp_end: 3, text: 'Tired skin?' },
+    { timestamp_start: 3, timestamp_end: 6, text: 'Brighter in two weeks' },
+  ],
+  onScreenText: [{ timestamp: 0, duration: 3, text: 'Glow up', position: 'center' }],
+};
+
+function rules(content: Partial<LintTarget>, platform = 'tiktok', estimatedDuration = 20) {
+  return lintContent(
+    { ...clean, ...content },
+    { platform: getPlatform(platform), estimatedDuration }
+  ).map((issue) => issue.rule);
+}
+
+describe('Content lint', () => {
+  it('should pass content that follows the platform rules', () => {
+    expect(rules({})).toEqual([]);
+  });
+
+  it('should flag overlapping, inverted and fast captions', () => {
+    expect(
+      rules({
+        captions: [
+          { timestamp_start: 0, timestamp_end: 3, text: 'Tired skin?' },
+          { timestamp_start: 2, timestamp_end: 4, text: 'This caption is far too long to read in two seconds and will not fit on two lines' },
+          { timestamp_start: 6, timestamp_end: 5, text: 'Backwards' },
+        ],
+      })
+    ).toEqual(['caption_overlap', 'caption_timing', 'caption_reading_speed', 'caption_line_length']);
+  });
+
+  it('should check duration against the platform limits', () => {
+    expect(rules({}, 'tiktok', 200)).toEqual(['duration']);
+    expect(rules({}, 'tiktok', 5)).toEqual(['recommended_duration']);
+  });
+
+  it('should flag on-screen text that overlaps or sits in the unsafe zone', () => {
+    expect(
+      rules({
+        onScreenText: [
+          { timestamp: 0, duration: 3, text: 'Glow up', position: 'bottom' },
+          { timestamp: 1, duration: 3, text: 'Shop now', position: 'bottom' },
+        ],
+      })
+    ).toEqual(['on_screen_overlap', 'safe_zone', 'safe_zone']);
+  });
+
+  it('should flag prohibited terms, risky claims and too many hashtags', () => {
+    const issues = rules({ script: 'Clinically proven miracle cure #a #b #c' }, 'x');
+    expect(issues).toEqual(['hashtag_count', 'prohibited_term', 'claim_risk', 'claim_risk']);
+    // Terms only match whole words
+    expect(rules({ script: 'Keep your skin secure' })).toEqual([]);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  briefTime,
+  toBriefHTML,
+  toBriefPDF,
+  type CreativeBrief,
+} from '../src/utils/creative-brief.js';
+
+const brief: CreativeBrief = {
+  projectName: 'Glow <Serum>',
+  angle: {
+    id: 'abcd1234-0000-4000-8000-000000000000',
+    version: 2,
+    hook: 'Tired skin after a long week?',
+    problemAgitation: 'Concealer only hides it & dries it out.',
+    solution: 'Glow Serum brings the light back overnight.',
+    cta: 'Try it for 30 days',
+    visualDirection: 'Close-ups in morning light',
+    audioNotes: null,
+    estimatedDuration: 30,
+  },
+  localization: {
+    locale: 'ar-SA',
+    localeName: 'Arabic (Saudi Arabia)',
+    direction: 'rtl',
+    platform: 'tiktok',
+    platformName: 'TikTok',
+    maxDuration: 60,
+    script: 'هل بشرتك متعبة؟',
+    captions: [
+      { timestamp_start: 0, timestamp_end: 2.5, text: 'هل بشرتك متعبة؟', style: 'emphasis' },
+    ],
+    onScreenText: [],
+    culturalNotes: 'Avoid before/after imagery',
+    platformAdjustments: null,
+  },
+  generatedAt: new Date('2026-10-19T09:00:00Z'),
+};
+
+describe('Creative brief', () => {
+  it('should format timings to a tenth of a second', () => {
+    expect(briefTime(0)).toBe('0:00.0');
+    expect(briefTime(2.54)).toBe('0:02.5');
+    expect(briefTime(75.25)).toBe('1:15.3');
+  });
+
+  it('should escape text and mark localized text with its direction', () => {
+    const html = toBriefHTML(brief);
+    expect(html).toContain('<h1>Glow &lt;Serum&gt;</h1>');
+    expect(html).toContain('Concealer only hides it &amp; dries it out.');
+    expect(html).toContain('<p lang="ar-SA" dir="rtl">هل بشرتك متعبة؟</p>');
+    expect(html).toContain('<td class="time">0:00.0 – 0:02.5</td>');
+    expect(html).toContain('About 30s; TikTok allows up to 60s');
+    expect(html).not.toContain('On-screen text');
+  });
+
+  it('should leave out localized sections for the source angle', () => {
+    const html = toBriefHTML({ ...brief, localization: undefined });
+    expect(html).toContain('Call to action');
+    expect(html).not.toContain('Caption timings');
+  });
+
+  it('should render the same PDF for the same brief', async () => {
+    const source = { ...brief, localization: undefined };
+    const first = await toBriefPDF(source);
+    expect(first.subarray(0, 5).toString()).toBe('%PDF-');
+    expect((await toBriefPDF(source)).equals(first)).toBe(true);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import request from 'supertest';
+import type { Express } from 'express';
+import type { PrismaClient } from '@prisma/client';
+
+// These tests exercise the real auth stack and need a migrated Postgres database.
+// Point TEST_DATABASE_URL at it (e.g. after `npm run db:push`) to enable them.
+const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL;
+
+vi.unmock('../../src/repositories/prisma-client.js');
+
+describe.skipIf(!TEST_DATABASE_URL)('Auth flow (integration)', () => {
+  const email = `auth-flow-${Date.now()}@example.com`;
+  const password = 'Str0ng!Passw0rd';
+
+  let app: Express;
+  let prisma: PrismaClient;
+
+  beforeAll(async () => {
+    // Must be set before the Prisma client module is first imported
+    process.env.DATABASE_URL = TEST_DATABASE_URL;
+    ({ app } = await import('../../src/app.js'));
+    ({ prisma } = await import('../../src/repositories/prisma-client.js'));
+  });
+
+  afterAll(async () => {
+    if (!prisma) return;
+    const user = await prisma.user.findUnique({ where: { email } });
+    if (user) {
+      await prisma.revokedToken.deleteMany({ where: { userId: user.id } });
+      await prisma.user.delete({ where: { id: user.id } });
+    }
+    await prisma.$disconnect();
+  });
+
+  it('rejects API requests without a bearer token', async () => {
+    const res = await request(app).get('/api/projects');
+
+    expect(res.status).toBe(401);
+    expect(res.body.error.code).toBe('AUTHENTICATION_ERROR');
+  });
+
+  it('runs register → verify-email → login → refresh → logout', async () => {
+    // Register
+    const registerRes = await request(app)
+      .post('/api/auth/register')
+      .send({ email, password, name: 'Flow Test' });
+
+    expect(registerRes.status).toBe(201);
+    expect(registerRes.body.data.user).toMatchObject({ email, emailVerified: false });
+    expect(registerRes.body.data.accessToken).toEqual(expect.any(String));
+
+    const duplicateRes = await request(app)
+      .post('/api/auth/register')
+      .send({ email, password });
+    expect(duplicateRes.status).toBe(409);
+
+    // Verify email with the token that would have been emailed
+    const userId = registerRes.body.data.user.id as string;
+    const verification = await prisma.verificationToken.findFirstOrThrow({
+      where: { userId, type: 'EMAIL' },
+    });
+
+    const verifyRes = await request(app).get(`/api/auth/verify-email/${verification.token}`);
+    expect(verifyRes.status).toBe(200);
+
+    const reusedVerifyRes = await request(app).get(
+      `/api/auth/verify-email/${verification.token}`
+    );
+    expect(reusedVerifyRes.status).toBe(401);
+
+    // Login
+    const badLoginRes = await request(app)
+      .post('/api/auth/login')
+      .send({ email, password: 'wrong-password' });
+    expect(badLoginRes.status).toBe(401);
+
+    const loginRes = await request(app).post('/api/auth/login').send({ email, password });
+    expect(loginRes.status).toBe(200);
+
+    const { accessToken, refreshToken, sessionToken } = loginRes.body.data;
+    expect(loginRes.body.data.user.emailVerified).toBe(true);
+
+    const meRes = await request(app)
+      .get('/api/auth/me')
+      .set('Authorization', `Bearer ${accessToken}`);
+    expect(meRes.status).toBe(200);
+    expect(meRes.body.data).toMatchObject({ id: userId, email, emailVerified: true });
+
+    // Refresh tokens cannot be used as access tokens
+    const refreshAsAccessRes = await request(app)
+      .get('/api/auth/me')
+      .set('Authorization', `Bearer ${refreshToken}`);
+    expect(refreshAsAccessRes.status).toBe(401);
+
+    // Refresh rotates the token and revokes the presented one
+    const refreshRes = await request(app).post('/api/auth/refresh').send({ refreshToken });
+    expect(refreshRes.status).toBe(200);
+
+    const rotated = refreshRes.body.data as { accessToken: string; refreshToken: string };
+    expect(rotated.refreshToken).not.toBe(refreshToken);
+
+    const replayRes = await request(app).post('/api/auth/refresh').send({ refreshToken });
+    expect(replayRes.status).toBe(401);
+
+    // Logout revokes the refresh token and destroys the session
+    const logoutRes = await request(app)
+      .post('/api/auth/logout')
+      .set('Authorization', `Bearer ${rotated.accessToken}`)
+      .send({ refreshToken: rotated.refreshToken, sessionToken });
+    expect(logoutRes.status).toBe(200);
+
+    const postLogoutRefreshRes = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: rotated.refreshToken });
+    expect(postLogoutRefreshRes.status).toBe(401);
+
+    const session = await prisma.session.findUnique({ where: { token: sessionToken } });
+    expect(session).toBeNull();
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { JobWorker } from '../../src/jobs/worker.js';
+import { jobHandlers } from '../../src/jobs/handlers.js';
+import { jobRepository } from '../../src/repositories/index.js';
+import { mapWithConcurrency } from '../../src/utils/concurrency.js';
+import type { Job } from '@prisma/client';
+
+vi.mock('../../src/jobs/handlers.js', () => ({
+  jobHandlers: {
+    generate_angles: vi.fn(),
+  },
+}));
+
+function makeJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: 'job-1',
+    workspaceId: 'workspace-1',
+    createdById: 'user-1',
+    type: 'generate_angles',
+    status: 'running',
+    payload: { projectId: 'project-1', count: 3 },
+    result: null,
+    error: null,
+    progress: 0,
+    progressMessage: null,
+    cancelRequested: false,
+    attempts: 1,
+    maxAttempts: 3,
+    lockedBy: 'worker',
+    lockedAt: new Date(),
+    startedAt: new Date(),
+    finishedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('JobWorker', () => {
+  const handler = vi.mocked(jobHandlers.generate_angles);
+  let worker: JobWorker;
+
+  beforeEach(() => {
+    worker = new JobWorker({ concurrency: 1, pollIntervalMs: 10, lockTimeoutMs: 60000 });
+    vi.spyOn(jobRepository, 'recoverStale').mockResolvedValue({ requeued: 0, failed: 0 });
+    vi.spyOn(jobRepository, 'claimNext')
+      .mockResolvedValueOnce(makeJob())
+      .mockResolvedValue(null);
+  });
+
+  afterEach(async () => {
+    await worker.stop();
+    vi.restoreAllMocks();
+    handler.mockReset();
+  });
+
+  it('should run a claimed job and store its result', async () => {
+    const markSucceeded = vi.spyOn(jobRepository, 'markSucceeded').mockResolvedValue(true);
+    handler.mockResolvedValue({ projectId: 'project-1', count: 3 });
+
+    worker.start();
+
+    await vi.waitFor(() => expect(markSucceeded).toHaveBeenCalled());
+    expect(handler).toHaveBeenCalledWith(
+      { projectId: 'project-1', count: 3 },
+      expect.objectContaining({ jobId: 'job-1', workspaceId: 'workspace-1' })
+    );
+    expect(markSucceeded).toHaveBeenCalledWith('job-1', worker.id, {
+      projectId: 'project-1',
+      count: 3,
+    });
+  });
+
+  it('should record the error code when the handler fails', async () => {
+    const markFailed = vi.spyOn(jobRepository, 'markFailed').mockResolvedValue(true);
+    handler.mockRejectedValue(new Error('boom'));
+
+    worker.start();
+
+    await vi.waitFor(() => expect(markFailed).toHaveBeenCalled());
+    expect(markFailed).toHaveBeenCalledWith('job-1', worker.id, {
+      code: 'INTERNAL_ERROR',
+      message: 'boom',
+    });
+  });
+
+  it('should stop at the next progress update once cancellation is requested', async () => {
+    vi.spyOn(jobRepository, 'updateProgress').mockResolvedValue({
+      owned: true,
+      cancelRequested: true,
+    });
+    const markCancelled = vi.spyOn(jobRepository, 'markCancelled').mockResolvedValue(true);
+    const markSucceeded = vi.spyOn(jobRepository, 'markSucceeded');
+    handler.mockImplementation(async (_payload, { reportProgress }) => {
+      await reportProgress(1, 2);
+      return 'unreachable';
+    });
+
+    worker.start();
+
+    await vi.waitFor(() => expect(markCancelled).toHaveBeenCalledWith('job-1', worker.id));
+    expect(markSucceeded).not.toHaveBeenCalled();
+  });
+
+  it('should keep the lock fresh while a handler runs without reporting progress', async () => {
+    worker = new JobWorker({ concurrency: 1, pollIntervalMs: 10, lockTimeoutMs: 40 });
+    const refreshLock = vi.spyOn(jobRepository, 'refreshLock').mockResolvedValue(true);
+    const markSucceeded = vi.spyOn(jobRepository, 'markSucceeded').mockResolvedValue(true);
+    // Longer than the lock timeout, like a slow AI call
+    handler.mockImplementation(
+      () => new Promise((resolve) => setTimeout(() => resolve('done'), 100))
+    );
+
+    worker.start();
+
+    await vi.waitFor(() => expect(markSucceeded).toHaveBeenCalled());
+    expect(refreshLock.mock.calls.length).toBeGreaterThanOrEqual(3);
+    expect(refreshLock).toHaveBeenCalledWith('job-1', worker.id);
+  });
+
+  it('should stop at the next progress update once another worker took the job', async () => {
+    vi.spyOn(jobRepository, 'updateProgress').mockResolvedValue({
+      owned: false,
+      cancelRequested: false,
+    });
+    const markFailed = vi.spyOn(jobRepository, 'markFailed');
+    const markSucceeded = vi.spyOn(jobRepository, 'markSucceeded');
+    const afterProgress = vi.fn();
+    handler.mockImplementation(async (_payload, { reportProgress }) => {
+      await reportProgress(1, 2).finally(afterProgress);
+      return 'unreachable';
+    });
+
+    worker.start();
+
+    await vi.waitFor(() => expect(afterProgress).toHaveBeenCalled());
+    await worker.stop();
+    expect(markSucceeded).not.toHaveBeenCalled();
+    expect(markFailed).not.toHaveBeenCalled();
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('should keep input order and cap calls in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 5], 2, async (delay) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      inFlight--;
+      return delay * 2;
+    });
+
+    expect(results).toEqual([60, 20, 40, 10]);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('should not start new calls after a failure', async () => {
+    const fn = vi.fn(async (item: number) => {
+      if (item === 1) throw new Error('failed');
+      return item;
+    });
+
+    await expect(mapWithConcurrency([1, 2, 3], 1, fn)).rejects.toThrow('failed');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
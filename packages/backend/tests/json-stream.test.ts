@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { JsonArrayStreamParser } from '../src/utils/json-stream.js';
+
+// Feed a document in fixed-size chunks and collect what each chunk completed
+function feed(document: string, chunkSize: number): unknown[][] {
+  const parser = new JsonArrayStreamParser('angles');
+  const batches: unknown[][] = [];
+  for (let i = 0; i < document.length; i += chunkSize) {
+    batches.push(parser.push(document.slice(i, i + chunkSize)));
+  }
+  return batches;
+}
+
+describe('JsonArrayStreamParser', () => {
+  const angles = [
+    { hook: 'Braces {in} strings [are] fine', tags: ['a', 'b'] },
+    { hook: 'Escaped \\"quotes\\" too', nested: { depth: 2 } },
+  ];
+
+  it('should emit every item regardless of how the text is chunked', () => {
+    const document = JSON.stringify({ angles }, null, 2);
+
+    for (const size of [1, 7, document.length]) {
+      expect(feed(document, size).flat()).toEqual(angles);
+    }
+  });
+
+  it('should emit an item as soon as its closing brace arrives', () => {
+    const document = JSON.stringify({ angles });
+    const firstEnd = document.indexOf('},{') + 1;
+    const parser = new JsonArrayStreamParser('angles');
+
+    expect(parser.push(document.slice(0, firstEnd))).toEqual([angles[0]]);
+    expect(parser.push(document.slice(firstEnd))).toEqual([angles[1]]);
+  });
+
+  it('should ignore arrays under other keys', () => {
+    const document = JSON.stringify({ notes: [{ hook: 'not an angle' }], angles: [angles[0]], extra: [{}] });
+
+    expect(feed(document, 5).flat()).toEqual([angles[0]]);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { applyTextDirection, getLocaleInfo, isLocale, listLocales } from '../src/utils/locales.js';
+
+describe('Locale registry', () => {
+  it('should describe each locale with its plural categories', () => {
+    expect(getLocaleInfo('pl-PL').pluralCategories).toEqual(
+      expect.arrayContaining(['one', 'few', 'many', 'other'])
+    );
+    expect(getLocaleInfo('ja-JP').pluralCategories).toEqual(['other']);
+    expect(listLocales().every((locale) => locale.name && locale.culturalGuidance)).toBe(true);
+  });
+
+  it('should only recognise registered codes', () => {
+    expect(isLocale('ar-SA')).toBe(true);
+    expect(isLocale('en-UK')).toBe(false);
+  });
+
+  it('should embed right-to-left text line by line and leave left-to-right text alone', () => {
+    expect(applyTextDirection('مرحبا\nعالم', 'ar-SA')).toBe(
+      '‫مرحبا‬\n‫عالم‬'
+    );
+    expect(applyTextDirection('Hello', 'en-US')).toBe('Hello');
+  });
+});
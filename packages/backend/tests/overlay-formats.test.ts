@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toOverlayASS,
+  toOverlayEDL,
+  toOverlayJSON,
+  toOverlayXML,
+  type OverlayTrack,
+} from '../src/utils/overlay-formats.js';
+import { getPlatform } from '../src/utils/platforms.js';
+
+const track: OverlayTrack = {
+  title: 'abc12345 en-US tiktok',
+  locale: 'en-US',
+  platform: getPlatform('tiktok'),
+  onScreenText: [
+    { timestamp: 4, duration: 1.5, text: 'Shop now', position: 'bottom' },
+    { timestamp: 1, duration: 2, text: '50% OFF\n<today>', position: 'top', animation: 'fade' },
+  ],
+};
+
+describe('Overlay formats', () => {
+  it('should list overlays in order with timecodes and the safe area', () => {
+    const json = JSON.parse(toOverlayJSON(track));
+    expect(json.overlays.map((item: { text: string }) => item.text)).toEqual([
+      '50% OFF\n<today>',
+      'Shop now',
+    ]);
+    expect(json.overlays[1]).toMatchObject({
+      start: 4,
+      end: 5.5,
+      start_timecode: '00:00:04:00',
+      end_timecode: '00:00:05:15',
+    });
+    expect(json.safe_area.y).toBeGreaterThan(0);
+    expect(json.safe_area.y + json.safe_area.height).toBeLessThan(json.frame.height);
+  });
+
+  it('should write an ASS track with overlay events only', () => {
+    const ass = toOverlayASS(track);
+    expect(ass).not.toMatch(/Dialogue: 0,/);
+    expect(ass).toContain('OverlayBottom,,0,0,0,,Shop now');
+  });
+
+  it('should write sequence markers in frames for editors', () => {
+    const xml = toOverlayXML(track);
+    expect(xml).toContain('<timebase>30</timebase>');
+    expect(xml).toContain('<duration>165</duration>');
+    expect(xml).toContain('<name>50% OFF\n&lt;today&gt;</name>');
+    expect(xml).toContain('<comment>position: top, animation: fade</comment>');
+    expect(xml).toContain('<in>30</in>');
+  });
+
+  it('should write one EDL event per overlay with a locator', () => {
+    const edl = toOverlayEDL(track);
+    expect(edl).toContain('FCM: NON-DROP FRAME');
+    expect(edl).toContain(
+      '001  BL       V     C        00:00:01:00 00:00:03:00 00:00:01:00 00:00:03:00'
+    );
+    expect(edl).toContain('* LOC: 00:00:01:00 YELLOW  50% OFF <today>');
+    expect(edl).toContain('002  BL');
+  });
+});
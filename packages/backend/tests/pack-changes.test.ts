@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  changedPackPaths,
+  diffPackFiles,
+  hasPackChanges,
+  toChangelogMarkdown,
+} from '../src/utils/pack-changes.js';
+import type { PackFileType, PackManifest } from '../src/types/index.js';
+
+type ManifestFile = PackManifest['files'][number];
+
+const angle = 'abcd1234-0000-4000-8000-000000000000';
+const since = { packId: 'previous-pack', version: 1 };
+
+const file = (
+  locale: string,
+  type: PackFileType,
+  sha256?: string,
+  path?: string
+): ManifestFile => ({
+  path: path ?? `${locale}/tiktok/abcd1234/${type}`,
+  type,
+  angle_id: angle,
+  locale,
+  platform: 'tiktok',
+  content_id: `content-${locale}`,
+  sha256,
+});
+
+describe('Pack changes', () => {
+  it('should sort localizations into added, changed, removed and unchanged', () => {
+    const previous = [
+      file('fr-FR', 'script', 'a'),
+      file('fr-FR', 'captions', 'b'),
+      file('de-DE', 'script', 'c'),
+      file('es-ES', 'script', 'd'),
+    ];
+    const current = [
+      file('fr-FR', 'script', 'a'),
+      file('fr-FR', 'captions', 'B'),
+      file('de-DE', 'script', 'c'),
+      file('ja-JP', 'script', 'e'),
+    ];
+
+    const changes = diffPackFiles({ files: previous }, current, since);
+
+    expect(changes.added.map((change) => change.locale)).toEqual(['ja-JP']);
+    expect(changes.changed).toEqual([
+      {
+        content_id: 'content-fr-FR',
+        angle_id: angle,
+        locale: 'fr-FR',
+        platform: 'tiktok',
+        files: ['fr-FR/tiktok/abcd1234/captions'],
+      },
+    ]);
+    expect(changes.removed.map((change) => change.locale)).toEqual(['es-ES']);
+    expect(changes.unchanged).toBe(1);
+    expect([...changedPackPaths(changes)]).toEqual([
+      'ja-JP/tiktok/abcd1234/script',
+      'fr-FR/tiktok/abcd1234/captions',
+    ]);
+  });
+
+  it('should treat moved, dropped and unhashed files as changes', () => {
+    const changes = diffPackFiles(
+      {
+        files: [
+          file('fr-FR', 'script', 'a'),
+          file('fr-FR', 'metadata', 'm'),
+          file('de-DE', 'script'),
+        ],
+      },
+      [file('fr-FR', 'script', 'a', 'fr-FR/script.txt'), file('de-DE', 'script', 'c')],
+      since
+    );
+
+    expect(changes.changed.find((change) => change.locale === 'fr-FR')).toMatchObject({
+      files: ['fr-FR/script.txt'],
+      removed_files: ['fr-FR/tiktok/abcd1234/script', 'fr-FR/tiktok/abcd1234/metadata'],
+    });
+    expect(changes.changed.find((change) => change.locale === 'de-DE')?.files).toEqual([
+      'de-DE/tiktok/abcd1234/script',
+    ]);
+  });
+
+  it('should report no changes for an identical build and write a changelog', () => {
+    const files = [file('fr-FR', 'script', 'a')];
+    expect(hasPackChanges(diffPackFiles({ files }, files, since))).toBe(false);
+
+    const changes = diffPackFiles({ files: [] }, files, since);
+    const changelog = toChangelogMarkdown(changes, {
+      name: 'Spring Drop',
+      version: 2,
+      createdAt: '2026-10-19T12:00:00.000Z',
+    });
+    expect(changelog).toContain('# Spring Drop: version 2');
+    expect(changelog).toContain(
+      '## Added\n\n- fr-FR / tiktok (angle abcd1234)\n  - fr-FR/tiktok/abcd1234/script'
+    );
+    expect(changelog).toContain('0 localization(s) unchanged.');
+  });
+});
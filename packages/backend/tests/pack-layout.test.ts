@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_PATH_TEMPLATE,
+  checkPathTemplate,
+  fileNameParts,
+  renderPackPath,
+  type PackPathValues,
+} from '../src/utils/pack-layout.js';
+
+const values: PackPathValues = {
+  project: 'Glow Serum / Q4',
+  pack: 'Agency Drop',
+  date: '2026-10-19',
+  locale: 'fr-FR',
+  language: 'fr',
+  platform: 'tiktok',
+  angle: 'abcd1234',
+  angle_id: 'abcd1234-0000-4000-8000-000000000000',
+  angle_index: '03',
+  file: 'captions.vtt',
+  name: 'captions',
+  ext: 'vtt',
+  type: 'webvtt',
+};
+
+describe('Pack layout', () => {
+  it('should keep the default layout', () => {
+    expect(checkPathTemplate(DEFAULT_PATH_TEMPLATE)).toEqual([]);
+    expect(renderPackPath(DEFAULT_PATH_TEMPLATE, values)).toBe(
+      'fr-FR/tiktok/abcd1234/captions.vtt'
+    );
+  });
+
+  it('should render flat names and slug project and pack names', () => {
+    const template = '{platform}/{project}_{angle_index}_{locale}_{name}.{ext}';
+    expect(checkPathTemplate(template)).toEqual([]);
+    expect(renderPackPath(template, values)).toBe('tiktok/Glow-Serum-Q4_03_fr-FR_captions.vtt');
+  });
+
+  it('should reject templates that could put two files at one path', () => {
+    expect(checkPathTemplate('{locale}/{platform}/{name}')).toEqual([
+      'The template needs {angle}, {angle_id} or {angle_index}',
+      'The template needs {file}, or {name} and {ext}',
+    ]);
+    expect(checkPathTemplate('{locale}/{platform}/{angle}/{filename}')).toContain(
+      'Unknown token {filename}'
+    );
+    expect(checkPathTemplate('../{locale}/{platform}/{angle}/{file}')).toContain(
+      'Path segments cannot be empty, "." or ".."'
+    );
+  });
+
+  it('should split file names into name and extension', () => {
+    expect(fileNameParts('cues.json')).toEqual({ name: 'cues', ext: 'json' });
+  });
+});
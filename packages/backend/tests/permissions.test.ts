@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Request, Response } from 'express';
+import { requirePermission, type AuthRequest } from '../src/middleware/auth.js';
+import { resolveWorkspace } from '../src/middleware/workspace.js';
+import { workspaceService } from '../src/services/index.js';
+import {
+  BUILT_IN_ROLES,
+  hasPermissions,
+  workspacePermissions,
+} from '../src/utils/permissions.js';
+import { AuthenticationError, AuthorizationError } from '../src/types/index.js';
+
+function runMiddleware(user: AuthRequest['user'], ...permissions: Parameters<typeof requirePermission>) {
+  const next = vi.fn();
+  requirePermission(...permissions)({ user } as Request, {} as Response, next);
+  return next;
+}
+
+describe('Permissions', () => {
+  describe('hasPermissions', () => {
+    it('should require every listed permission', () => {
+      expect(hasPermissions(['angles:read', 'angles:review'], ['angles:read'])).toBe(true);
+      expect(hasPermissions(['angles:read'], ['angles:read', 'angles:generate'])).toBe(false);
+    });
+
+    it('should treat * as granting everything', () => {
+      expect(hasPermissions(['*'], ['roles:manage', 'packs:delete'])).toBe(true);
+    });
+
+    it('should deny when no permissions are granted', () => {
+      expect(hasPermissions(undefined, ['projects:read'])).toBe(false);
+    });
+  });
+
+  describe('built-in roles', () => {
+    it('should let reviewers review angles without spending AI budget or deleting packs', () => {
+      const reviewer = BUILT_IN_ROLES.reviewer;
+      expect(hasPermissions(reviewer, ['angles:read', 'angles:review'])).toBe(true);
+      expect(hasPermissions(reviewer, ['angles:generate'])).toBe(false);
+      expect(hasPermissions(reviewer, ['localizations:generate'])).toBe(false);
+      expect(hasPermissions(reviewer, ['packs:delete'])).toBe(false);
+    });
+
+    it('should not let regular users manage roles', () => {
+      expect(hasPermissions(BUILT_IN_ROLES.user, ['angles:generate'])).toBe(true);
+      expect(hasPermissions(BUILT_IN_ROLES.user, ['roles:manage'])).toBe(false);
+    });
+  });
+
+  describe('requirePermission', () => {
+    const user = { id: 'u1', email: 'a@example.com', role: 'reviewer', permissions: BUILT_IN_ROLES.reviewer };
+
+    it('should call next without error when permitted', () => {
+      const next = runMiddleware(user, 'angles:review');
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it('should forward an AuthorizationError when a permission is missing', () => {
+      const next = runMiddleware(user, 'packs:delete');
+      expect(next.mock.calls[0][0]).toBeInstanceOf(AuthorizationError);
+    });
+
+    it('should forward an AuthenticationError without a user', () => {
+      const next = runMiddleware(undefined, 'projects:read');
+      expect(next.mock.calls[0][0]).toBeInstanceOf(AuthenticationError);
+    });
+  });
+
+  describe('workspace roles', () => {
+    it('should hold workspace viewers to read access whatever their role grants', () => {
+      for (const granted of [BUILT_IN_ROLES.editor ?? [], ['*']]) {
+        const viewer = workspacePermissions(granted, 'viewer');
+        expect(hasPermissions(viewer, ['projects:read', 'packs:download'])).toBe(true);
+        expect(hasPermissions(viewer, ['projects:write'])).toBe(false);
+        expect(hasPermissions(viewer, ['angles:generate'])).toBe(false);
+        expect(hasPermissions(viewer, ['packs:delete'])).toBe(false);
+      }
+      expect(workspacePermissions(['*'], 'viewer')).toContain('roles:manage');
+      expect(workspacePermissions(BUILT_IN_ROLES.editor ?? [], 'member')).toEqual(
+        BUILT_IN_ROLES.editor
+      );
+    });
+
+    it('should refuse writes from a workspace viewer on content routes', async () => {
+      vi.spyOn(workspaceService, 'resolveForUser').mockResolvedValue({ id: 'w1', role: 'viewer' });
+      const req = {
+        user: { id: 'u1', email: 'a@example.com', role: 'editor', permissions: BUILT_IN_ROLES.editor },
+        get: () => undefined,
+      } as unknown as Request;
+      const resolved = vi.fn();
+      await resolveWorkspace()(req, {} as Response, resolved);
+      expect(resolved).toHaveBeenCalledWith();
+
+      const next = vi.fn();
+      requirePermission('projects:write')(req, {} as Response, next);
+      expect(next.mock.calls[0][0]).toBeInstanceOf(AuthorizationError);
+      vi.restoreAllMocks();
+    });
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { getCharacterLimit, getPlatform, isPlatform, listPlatforms, wrapCaption } from '../src/utils/platforms.js';
+
+describe('Platform registry', () => {
+  it('should load the built-in platforms', () => {
+    const ids = listPlatforms().map((platform) => platform.id);
+    expect(ids).toEqual(expect.arrayContaining(['tiktok', 'meta_reels', 'snapchat', 'pinterest', 'x']));
+    expect(isPlatform('myspace')).toBe(false);
+    expect(() => getPlatform('myspace')).toThrow('Unknown platform');
+  });
+
+  it('should fall back to the caption limit for platforms without titles', () => {
+    expect(getCharacterLimit('x', 'title')).toBe(getPlatform('x').limits.caption);
+  });
+
+  it('should wrap captions at word boundaries to the platform line length', () => {
+    const { maxCharsPerLine } = getPlatform('tiktok').captions;
+    const wrapped = wrapCaption('Stop scrolling if your skin looks tired and dull after a long week', 'tiktok');
+    expect(wrapped.split('\n').length).toBeGreaterThan(1);
+    expect(wrapped.split('\n').every((line) => line.length <= maxCharsPerLine)).toBe(true);
+    expect(wrapCaption('短いキャプションです', 'tiktok')).toBe('短いキャプションです');
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma } from '../../src/repositories/prisma-client.js';
+import { aiService } from '../../src/services/ai.service.js';
+import { aiUsageService } from '../../src/services/ai-usage.service.js';
+import {
+  DEFAULT_MODEL_PRICING,
+  estimateCostUsd,
+  parseModelPricing,
+} from '../../src/services/ai-providers/index.js';
+import { BudgetExceededError } from '../../src/types/index.js';
+import type { SeedData } from '../../src/types/index.js';
+
+const workspaceId = '00000000-0000-4000-8000-000000000001';
+const projectId = '00000000-0000-4000-8000-000000000002';
+
+function mockBudgets(project: number | null, workspace: number | null, spent: number) {
+  vi.mocked(prisma.project.findUnique).mockResolvedValue({
+    id: projectId,
+    aiMonthlyBudgetUsd: project === null ? null : new Decimal(project),
+  } as never);
+  vi.mocked(prisma.workspace.findUnique).mockResolvedValue({
+    id: workspaceId,
+    aiMonthlyBudgetUsd: workspace === null ? null : new Decimal(workspace),
+  } as never);
+  vi.mocked(prisma.aIUsage.aggregate).mockResolvedValue({
+    _sum: { costUsd: new Decimal(spent) },
+  } as never);
+}
+
+describe('AI pricing', () => {
+  it('should price dated model snapshots by their longest matching prefix', () => {
+    // gpt-4o-mini, not gpt-4o or gpt-4
+    expect(estimateCostUsd('gpt-4o-mini-2024-07-18', 1_000_000, 0, DEFAULT_MODEL_PRICING)).toBe(
+      0.15
+    );
+    expect(estimateCostUsd('claude-3-5-sonnet-20241022', 1000, 1000, DEFAULT_MODEL_PRICING)).toBe(
+      0.018
+    );
+  });
+
+  it('should return undefined for unpriced models', () => {
+    expect(estimateCostUsd('llama3.1', 1000, 1000, DEFAULT_MODEL_PRICING)).toBeUndefined();
+  });
+
+  it('should parse AI_MODEL_PRICING and reject malformed entries', () => {
+    expect(parseModelPricing('llama3.1=0/0, my-model=0.5/1.5')).toEqual({
+      'llama3.1': { input: 0, output: 0 },
+      'my-model': { input: 0.5, output: 1.5 },
+    });
+    expect(() => parseModelPricing('my-model=0.5')).toThrow();
+    expect(() => parseModelPricing('my-model=-1/2')).toThrow();
+  });
+});
+
+describe('AIUsageService budgets', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should allow calls while spend is under every budget', async () => {
+    mockBudgets(10, 100, 9.99);
+    await expect(
+      aiUsageService.assertWithinBudget(workspaceId, projectId)
+    ).resolves.toBeUndefined();
+  });
+
+  it('should skip the spend lookup when no budget is set', async () => {
+    mockBudgets(null, null, 1000);
+    await aiUsageService.assertWithinBudget(workspaceId, projectId);
+    expect(prisma.aIUsage.aggregate).not.toHaveBeenCalled();
+  });
+
+  it('should refuse with a 402 once the project budget is reached', async () => {
+    mockBudgets(10, null, 10);
+
+    const error = await aiUsageService
+      .assertWithinBudget(workspaceId, projectId)
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect((error as BudgetExceededError).statusCode).toBe(402);
+    expect((error as BudgetExceededError).details).toMatchObject({
+      scope: 'project',
+      monthlyBudgetUsd: 10,
+      remainingUsd: 0,
+    });
+  });
+
+  it('should refuse once the workspace budget is reached', async () => {
+    mockBudgets(null, 50, 75);
+
+    const error = await aiUsageService
+      .assertWithinBudget(workspaceId, projectId)
+      .catch((e: unknown) => e);
+
+    expect((error as BudgetExceededError).details).toMatchObject({ scope: 'workspace' });
+  });
+});
+
+describe('AIService metering', () => {
+  const seedData: SeedData = {
+    product_name: 'TestProduct',
+    product_description: 'A revolutionary test product',
+    target_audience: 'Developers and testers',
+    key_benefits: ['Easy to use'],
+    pain_points: ['Slow testing'],
+    tone: 'professional',
+    platforms: ['tiktok'],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should record a usage row for each completion made with a context', async () => {
+    mockBudgets(null, null, 0);
+
+    await aiService.generateAngles(seedData, 1, { workspaceId, projectId, userId: 'user-1' });
+
+    expect(prisma.aIUsage.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        workspaceId,
+        projectId,
+        userId: 'user-1',
+        operation: 'generate_angles',
+        provider: 'mock',
+        costUsd: 0,
+      }),
+    });
+  });
+
+  it('should not call the provider when over budget', async () => {
+    mockBudgets(5, null, 5);
+
+    await expect(
+      aiService.generateIterations([], [], seedData, 1, { workspaceId, projectId })
+    ).rejects.toBeInstanceOf(BudgetExceededError);
+    expect(prisma.aIUsage.create).not.toHaveBeenCalled();
+  });
+});
@@ -1,5 +1,8 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import { aiService } from '../../src/services/ai.service.js';
+import { aiUsageService } from '../../src/services/ai-usage.service.js';
+import { getAIProvider, parseOperationProviders } from '../../src/services/ai-providers/index.js';
+import { AIServiceError } from '../../src/types/index.js';
 import type { SeedData, GeneratedAngle } from '../../src/types/index.js';
 
 describe('AIService', () => {
@@ -54,6 +57,69 @@ describe('AIService', () => {
     });
   });
 
+  describe('streamAngles', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    async function collect(stream: AsyncIterable<GeneratedAngle>): Promise<GeneratedAngle[]> {
+      const angles: GeneratedAngle[] = [];
+      for await (const angle of stream) angles.push(angle);
+      return angles;
+    }
+
+    it('should yield each angle with the prompt version that produced it', async () => {
+      const angles = await collect(aiService.streamAngles(mockSeedData, 3));
+
+      expect(angles).toHaveLength(3);
+      expect(angles[0]?.hook).toContain(mockSeedData.product_name);
+      expect(angles[0]?.promptVersion).toMatch(/^generate_angles@default:/);
+    });
+
+    it('should skip invalid angles and keep the valid ones', async () => {
+      const [valid] = await aiService.generateAngles(mockSeedData, 1);
+      vi.spyOn(getAIProvider('mock'), 'complete').mockResolvedValueOnce({
+        content: JSON.stringify({ angles: [{ hook: 'Missing the rest' }, valid] }),
+        model: 'mock',
+      });
+
+      const angles = await collect(aiService.streamAngles(mockSeedData, 2));
+
+      expect(angles).toHaveLength(1);
+      expect(angles[0]?.cta).toBe(valid?.cta);
+    });
+
+    it('should fail when the response has no valid angles', async () => {
+      vi.spyOn(getAIProvider('mock'), 'complete').mockResolvedValueOnce({
+        content: JSON.stringify({ angles: [{ hook: 'Missing the rest' }] }),
+        model: 'mock',
+      });
+
+      await expect(collect(aiService.streamAngles(mockSeedData, 1))).rejects.toThrow(AIServiceError);
+    });
+
+    it('should meter estimated usage when the consumer stops before the stream is done', async () => {
+      const record = vi.spyOn(aiUsageService, 'record').mockResolvedValue();
+      const context = { workspaceId: 'workspace', projectId: 'project', userId: 'user' };
+
+      for await (const angle of aiService.streamAngles(mockSeedData, 3, context)) {
+        expect(angle.hook).toContain(mockSeedData.product_name);
+        break;
+      }
+
+      expect(record).toHaveBeenCalledTimes(1);
+      expect(record).toHaveBeenCalledWith(
+        context,
+        expect.objectContaining({
+          operation: 'generate_angles',
+          promptTokens: expect.any(Number),
+          completionTokens: expect.any(Number),
+        })
+      );
+      expect(record.mock.calls[0]?.[1].completionTokens).toBeGreaterThan(0);
+    });
+  });
+
   describe('localizeContent', () => {
     const mockAngle: GeneratedAngle = {
       hook: 'Test hook',
@@ -212,4 +278,87 @@ describe('AIService', () => {
       expect(iteration?.hook).toContain('[ITERATION]');
     });
   });
+
+  describe('resolveProvider', () => {
+    it('should use the mock provider in mock mode regardless of project settings', () => {
+      const { provider } = aiService.resolveProvider('localize', {
+        provider: 'anthropic',
+        operations: { localize: { provider: 'openai', model: 'gpt-4o' } },
+      });
+
+      expect(provider.name).toBe('mock');
+    });
+  });
+
+  describe('parseOperationProviders', () => {
+    it('should map operations to providers', () => {
+      expect(parseOperationProviders('localize=anthropic, analyze_patterns=local')).toEqual({
+        localize: 'anthropic',
+        analyze_patterns: 'local',
+      });
+    });
+
+    it('should return an empty map when unset', () => {
+      expect(parseOperationProviders(undefined)).toEqual({});
+    });
+
+    it('should reject unknown operations and providers', () => {
+      expect(() => parseOperationProviders('translate=openai')).toThrow();
+      expect(() => parseOperationProviders('localize=gemini')).toThrow();
+    });
+  });
+
+  describe('response validation', () => {
+    const invalidAngles = {
+      content: JSON.stringify({ angles: [{ hook: 'Missing the rest', estimatedDuration: '30' }] }),
+      model: 'mock',
+    };
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should re-prompt with the validation errors and return the repaired response', async () => {
+      const provider = getAIProvider('mock');
+      const spy = vi.spyOn(provider, 'complete').mockResolvedValueOnce(invalidAngles);
+
+      const angles = await aiService.generateAngles(mockSeedData, 1);
+
+      expect(angles[0]?.cta).toBeTruthy();
+      expect(spy).toHaveBeenCalledTimes(2);
+
+      const repairRequest = spy.mock.calls[1]?.[0];
+      expect(repairRequest?.followUps?.[0]).toEqual({
+        role: 'assistant',
+        content: invalidAngles.content,
+      });
+      expect(repairRequest?.followUps?.[1]?.content).toContain('angles.0.cta');
+      expect(repairRequest?.followUps?.[1]?.content).toContain('angles.0.estimatedDuration');
+    });
+
+    it('should treat unparseable JSON as a validation failure', async () => {
+      const provider = getAIProvider('mock');
+      const spy = vi
+        .spyOn(provider, 'complete')
+        .mockResolvedValueOnce({ content: 'Sure! Here are your angles:', model: 'mock' });
+
+      const analysis = await aiService.analyzeWinnerPatterns([]);
+
+      expect(analysis.patterns.length).toBeGreaterThan(0);
+      expect(spy.mock.calls[1]?.[0].followUps?.[1]?.content).toContain('not valid JSON');
+    });
+
+    it('should raise AIServiceError with the issues once repair attempts are exhausted', async () => {
+      const provider = getAIProvider('mock');
+      const spy = vi.spyOn(provider, 'complete').mockResolvedValue(invalidAngles);
+
+      const error = await aiService.generateAngles(mockSeedData, 1).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(AIServiceError);
+      const details = (error as AIServiceError).details as { issues: Array<{ path: unknown[] }> };
+      expect(details.issues.map((issue) => issue.path)).toContainEqual(['angles', 0, 'cta']);
+      // Default AI_REPAIR_ATTEMPTS is 2
+      expect(spy).toHaveBeenCalledTimes(3);
+    });
+  });
 });
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../src/repositories/prisma-client.js';
+import { angleReviewService } from '../../src/services/angle-review.service.js';
+import { AuthorizationError, ClaimsViolationError, ValidationError } from '../../src/types/index.js';
+
+const workspaceId = '00000000-0000-4000-8000-000000000001';
+const angleId = '00000000-0000-4000-8000-000000000002';
+
+const angle = {
+  id: angleId,
+  projectId: '00000000-0000-4000-8000-000000000003',
+  status: 'in_review',
+  hook: 'Save money every day',
+  problemAgitation: 'Prices keep rising',
+  solution: 'Our app rounds up purchases',
+  cta: 'Download now',
+};
+
+const seedData = {
+  product_name: 'Roundup',
+  product_description: 'An app that saves your spare change',
+  target_audience: 'Young savers',
+  key_benefits: ['Automatic saving'],
+  pain_points: ['Saving is hard'],
+  tone: 'casual',
+  platforms: ['tiktok'],
+};
+
+const reviewer = (id: string, userId: string, decision: string | null = null) => ({
+  id,
+  angleId,
+  userId,
+  decision,
+});
+
+describe('Angle reviews', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.angleCard.findUnique).mockResolvedValue(angle as never);
+    vi.mocked(prisma.project.findUnique).mockResolvedValue({
+      id: angle.projectId,
+      seedData: {},
+      claimsPolicy: null,
+      requiredApprovals: 2,
+    } as never);
+    vi.mocked(prisma.angleCard.update).mockImplementation(((args: { data: object }) =>
+      Promise.resolve({ ...angle, ...args.data })) as never);
+  });
+
+  it('should only approve once the required number of reviewers approve', async () => {
+    vi.mocked(prisma.angleReviewer.findMany).mockResolvedValue([
+      reviewer('r1', 'alice'),
+      reviewer('r2', 'bob'),
+    ] as never);
+    vi.mocked(prisma.angleReviewer.count).mockResolvedValue(1);
+
+    await angleReviewService.submitReview(workspaceId, angleId, 'alice', { decision: 'approved' });
+    expect(vi.mocked(prisma.angleCard.update).mock.calls[0]?.[0].data).not.toHaveProperty('status');
+
+    vi.mocked(prisma.angleReviewer.findMany).mockResolvedValue([
+      reviewer('r1', 'alice', 'approved'),
+      reviewer('r2', 'bob'),
+    ] as never);
+    vi.mocked(prisma.angleReviewer.count).mockResolvedValue(2);
+
+    const approved = await angleReviewService.submitReview(workspaceId, angleId, 'bob', {
+      decision: 'approved',
+    });
+    expect(approved.status).toBe('approved');
+    expect(vi.mocked(prisma.angleCard.update).mock.calls[1]?.[0].data).toMatchObject({
+      statusEvents: { create: { fromStatus: 'in_review', toStatus: 'approved', userId: 'bob' } },
+    });
+    expect(vi.mocked(prisma.angleCard.update).mock.calls[1]?.[0].where).toEqual({
+      id: angleId,
+      status: 'in_review',
+    });
+  });
+
+  it('should approve when two reviewers approve at the same time', async () => {
+    // Bob read the reviewers before Alice's approval was saved
+    vi.mocked(prisma.angleReviewer.findMany).mockResolvedValue([
+      reviewer('r1', 'alice'),
+      reviewer('r2', 'bob'),
+    ] as never);
+    vi.mocked(prisma.angleReviewer.count).mockResolvedValue(2);
+
+    const approved = await angleReviewService.submitReview(workspaceId, angleId, 'bob', {
+      decision: 'approved',
+    });
+    expect(approved.status).toBe('approved');
+
+    // Alice's status change loses the race to Bob's and returns his result
+    vi.mocked(prisma.angleCard.update).mockRejectedValueOnce(
+      new Prisma.PrismaClientKnownRequestError('Record not found', {
+        code: 'P2025',
+        clientVersion: Prisma.prismaVersion.client,
+      })
+    );
+    vi.mocked(prisma.angleCard.findUnique)
+      .mockResolvedValueOnce(angle as never)
+      .mockResolvedValueOnce({ ...angle, status: 'approved' } as never);
+
+    const raced = await angleReviewService.submitReview(workspaceId, angleId, 'alice', {
+      decision: 'approved',
+    });
+    expect(raced.status).toBe('approved');
+    expect(prisma.angleReviewer.update).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject with the reviewer reason', async () => {
+    vi.mocked(prisma.angleReviewer.findMany).mockResolvedValue([reviewer('r1', 'alice')] as never);
+
+    const rejected = await angleReviewService.submitReview(workspaceId, angleId, 'alice', {
+      decision: 'rejected',
+      reason: 'Hook is off-brand',
+    });
+    expect(rejected).toMatchObject({ status: 'rejected', rejectionReason: 'Hook is off-brand' });
+  });
+
+  it('should refuse reviews from users who are not assigned', async () => {
+    vi.mocked(prisma.angleReviewer.findMany).mockResolvedValue([reviewer('r1', 'alice')] as never);
+
+    await expect(
+      angleReviewService.submitReview(workspaceId, angleId, 'mallory', { decision: 'approved' })
+    ).rejects.toBeInstanceOf(AuthorizationError);
+  });
+
+  it('should need an override reason to approve copy that breaks the claims policy', async () => {
+    vi.mocked(prisma.project.findUnique).mockResolvedValue({
+      id: angle.projectId,
+      seedData,
+      claimsPolicy: {
+        forbiddenPhrases: ['every day'],
+        requiredDisclaimers: [],
+        regexRules: [],
+        allowCompetitorMentions: true,
+      },
+      requiredApprovals: 1,
+    } as never);
+    vi.mocked(prisma.angleReviewer.findMany).mockResolvedValue([reviewer('r1', 'alice')] as never);
+    vi.mocked(prisma.angleReviewer.count).mockResolvedValue(1);
+
+    await expect(
+      angleReviewService.submitReview(workspaceId, angleId, 'alice', { decision: 'approved' })
+    ).rejects.toBeInstanceOf(ClaimsViolationError);
+    expect(prisma.angleReviewer.update).not.toHaveBeenCalled();
+
+    const approved = await angleReviewService.submitReview(workspaceId, angleId, 'alice', {
+      decision: 'approved',
+      overrideReason: 'Legal signed off on this wording',
+    });
+    expect(approved).toMatchObject({
+      status: 'approved',
+      claimsOverrideReason: 'Legal signed off on this wording',
+      claimsOverriddenById: 'alice',
+    });
+  });
+
+  it('should only accept quotes that appear in the anchored field', async () => {
+    await expect(
+      angleReviewService.addComment(
+        workspaceId,
+        angleId,
+        { body: 'Too generic', field: 'hook', quote: 'Spend less' },
+        'alice'
+      )
+    ).rejects.toBeInstanceOf(ValidationError);
+
+    await angleReviewService.addComment(
+      workspaceId,
+      angleId,
+      { body: 'Too generic', field: 'hook', quote: 'every day' },
+      'alice'
+    );
+    expect(prisma.angleComment.create).toHaveBeenCalled();
+  });
+});
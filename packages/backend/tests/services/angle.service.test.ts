@@ -0,0 +1,44 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { prisma } from '../../src/repositories/prisma-client.js';
+import { angleService } from '../../src/services/angle.service.js';
+import { ConflictError } from '../../src/types/index.js';
+
+const workspaceId = '00000000-0000-4000-8000-000000000001';
+const angleId = '00000000-0000-4000-8000-000000000002';
+
+describe('Angle winners', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.angleCard.update).mockImplementation(((args: { data: object }) =>
+      Promise.resolve({ id: angleId, status: 'approved', ...args.data })) as never);
+  });
+
+  it.each(['draft', 'in_review', 'rejected'])(
+    'should not approve a %s angle by marking it as a winner',
+    async (status) => {
+      vi.mocked(prisma.angleCard.findUnique).mockResolvedValue({
+        id: angleId,
+        status,
+        claimViolations: [{ rule: 'guaranteed results' }],
+      } as never);
+
+      await expect(angleService.markAsWinner(workspaceId, angleId, 'alice')).rejects.toThrow(
+        ConflictError
+      );
+      expect(prisma.angleCard.update).not.toHaveBeenCalled();
+    }
+  );
+
+  it('should only flag an approved angle, leaving its status alone', async () => {
+    vi.mocked(prisma.angleCard.findUnique).mockResolvedValue({
+      id: angleId,
+      status: 'approved',
+    } as never);
+
+    await angleService.markAsWinner(workspaceId, angleId, 'alice');
+    expect(prisma.angleCard.update).toHaveBeenCalledWith({
+      where: { id: angleId },
+      data: { isWinner: true },
+    });
+  });
+});
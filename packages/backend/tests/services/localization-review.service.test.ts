@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { prisma } from '../../src/repositories/prisma-client.js';
+import { localizationReviewService } from '../../src/services/localization-review.service.js';
+import { packService } from '../../src/services/pack.service.js';
+import { AuthorizationError, ConflictError, ValidationError } from '../../src/types/index.js';
+
+const workspaceId = '00000000-0000-4000-8000-000000000001';
+const angleId = '00000000-0000-4000-8000-000000000002';
+const contentId = '00000000-0000-4000-8000-000000000003';
+const projectId = '00000000-0000-4000-8000-000000000004';
+
+const content = {
+  id: contentId,
+  angleId,
+  locale: 'de-DE',
+  platform: 'tiktok',
+  reviewStatus: 'machine',
+  reviewerId: null,
+};
+
+const localeReviewer = (userId: string) => ({
+  id: `lr-${userId}`,
+  projectId,
+  locale: 'de-DE',
+  userId,
+  user: { id: userId, name: null, email: `${userId}@example.com` },
+});
+
+describe('Localization review', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.angleCard.findUnique).mockResolvedValue({ id: angleId, projectId } as never);
+    vi.mocked(prisma.localizedContent.update).mockImplementation(((args: { data: object }) =>
+      Promise.resolve({ ...content, ...args.data })) as never);
+  });
+
+  it('should assign the first reviewer for the locale when none is chosen', async () => {
+    vi.mocked(prisma.localizedContent.findUnique).mockResolvedValue(content as never);
+    vi.mocked(prisma.localeReviewer.findMany).mockResolvedValue([
+      localeReviewer('anna'),
+      localeReviewer('ben'),
+    ] as never);
+
+    await localizationReviewService.submitForReview(workspaceId, contentId);
+
+    expect(vi.mocked(prisma.localizedContent.update).mock.calls[0]?.[0].data).toMatchObject({
+      reviewStatus: 'in_review',
+      reviewer: { connect: { id: 'anna' } },
+    });
+  });
+
+  it('should refuse reviewers who do not cover the locale', async () => {
+    vi.mocked(prisma.localizedContent.findUnique).mockResolvedValue(content as never);
+    vi.mocked(prisma.localeReviewer.findMany).mockResolvedValue([localeReviewer('anna')] as never);
+
+    await expect(
+      localizationReviewService.submitForReview(workspaceId, contentId, 'carl')
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('should only take decisions from the assigned reviewer on content in review', async () => {
+    vi.mocked(prisma.localizedContent.findUnique).mockResolvedValue({
+      ...content,
+      reviewStatus: 'in_review',
+      reviewerId: 'anna',
+    } as never);
+
+    await expect(
+      localizationReviewService.review(workspaceId, contentId, 'ben', { decision: 'approved' })
+    ).rejects.toBeInstanceOf(AuthorizationError);
+
+    const reviewed = await localizationReviewService.review(workspaceId, contentId, 'anna', {
+      decision: 'changes_requested',
+      note: 'The CTA reads too formally',
+    });
+    expect(reviewed).toMatchObject({
+      reviewStatus: 'changes_requested',
+      reviewNote: 'The CTA reads too formally',
+    });
+
+    vi.mocked(prisma.localizedContent.findUnique).mockResolvedValue(content as never);
+    await expect(
+      localizationReviewService.review(workspaceId, contentId, 'anna', { decision: 'approved' })
+    ).rejects.toBeInstanceOf(ConflictError);
+  });
+
+  it('should refuse to build an approved-only pack from unapproved localizations', async () => {
+    vi.mocked(prisma.project.findUnique).mockResolvedValue({ id: projectId, name: 'Roundup' } as never);
+    vi.mocked(prisma.localizedContent.findMany).mockResolvedValue([
+      { ...content, reviewStatus: 'approved' },
+      { ...content, id: 'fr', locale: 'fr-FR', reviewStatus: 'in_review' },
+    ] as never);
+
+    const build = packService.createPack({
+      workspaceId,
+      projectId,
+      name: 'Launch',
+      angleIds: [angleId],
+      locales: ['de-DE', 'fr-FR'],
+      platforms: ['tiktok'],
+      approvedOnly: true,
+    });
+
+    await expect(build).rejects.toMatchObject({
+      message: '1 localization(s) are not approved: fr-FR/tiktok (in review)',
+      details: {
+        unapproved: [{ id: 'fr', angleId, locale: 'fr-FR', platform: 'tiktok', reviewStatus: 'in_review' }],
+      },
+    });
+    expect(prisma.creativePack.create).not.toHaveBeenCalled();
+  });
+});
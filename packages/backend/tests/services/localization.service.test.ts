@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { prisma } from '../../src/repositories/prisma-client.js';
+import { localizationService } from '../../src/services/localization.service.js';
+import { aiService } from '../../src/services/ai.service.js';
+import { ConflictError, ValidationError } from '../../src/types/index.js';
+
+const workspaceId = '00000000-0000-4000-8000-000000000001';
+const angleId = '00000000-0000-4000-8000-000000000002';
+const contentId = '00000000-0000-4000-8000-000000000003';
+
+const content = {
+  id: contentId,
+  angleId,
+  locale: 'de-DE',
+  platform: 'tiktok',
+  script: 'Spare jeden Tag Geld',
+  captions: [{ timestamp_start: 0, timestamp_end: 2, text: 'Spare Geld' }],
+  onScreenText: [],
+  culturalNotes: null,
+  platformAdjustments: null,
+  version: 1,
+  origin: 'ai',
+};
+
+describe('Localization revisions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.angleCard.findUnique).mockResolvedValue({
+      id: angleId,
+      projectId: '00000000-0000-4000-8000-000000000004',
+      hook: 'Save money every day',
+      problemAgitation: 'Prices keep rising',
+      solution: 'Our app rounds up purchases',
+      cta: 'Download now',
+      estimatedDuration: 30,
+    } as never);
+    vi.mocked(prisma.project.findUnique).mockResolvedValue({ id: 'project', seedData: {} } as never);
+    vi.mocked(prisma.localizedContent.update).mockImplementation(((args: { data: object }) =>
+      Promise.resolve({ ...content, ...args.data, lintFindings: [] })) as never);
+  });
+
+  it('should record a translator edit as a human revision of the changed fields', async () => {
+    vi.mocked(prisma.localizedContent.findUnique).mockResolvedValue(content as never);
+
+    await localizationService.updateLocalizedContent(
+      workspaceId,
+      contentId,
+      { script: 'Spare jeden Tag bares Geld' },
+      'translator'
+    );
+
+    const [args] = vi.mocked(prisma.localizedContent.update).mock.calls[0] as unknown as [
+      { where: { version?: number }; data: { version: number; origin: string; revisions: { create: object } } },
+    ];
+    expect(args.where.version).toBe(1);
+    expect(args.data).toMatchObject({ version: 2, origin: 'human' });
+    expect(args.data.revisions.create).toMatchObject({
+      version: 2,
+      origin: 'human',
+      createdById: 'translator',
+      changes: [{ field: 'script', from: 'Spare jeden Tag Geld', to: 'Spare jeden Tag bares Geld' }],
+    });
+  });
+
+  it('should refuse to regenerate over human edits unless forced', async () => {
+    vi.mocked(prisma.localizedContent.findUnique).mockResolvedValue({
+      ...content,
+      origin: 'human',
+    } as never);
+    const localize = vi.spyOn(aiService, 'localizeContent');
+
+    await expect(
+      localizationService.regenerateLocalization(workspaceId, angleId, 'de-DE', 'tiktok')
+    ).rejects.toBeInstanceOf(ConflictError);
+    expect(localize).not.toHaveBeenCalled();
+  });
+
+  it('should import re-timed captions as a human edit and refuse files with bad cues', async () => {
+    vi.mocked(prisma.localizedContent.findUnique).mockResolvedValue(content as never);
+
+    await expect(
+      localizationService.importCaptions(workspaceId, contentId, {
+        filename: 'captions.srt',
+        content: '1\n00:00:02,000 --> 00:00:01,000\nSpare Geld\n',
+      })
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(prisma.localizedContent.update).not.toHaveBeenCalled();
+
+    const result = await localizationService.importCaptions(
+      workspaceId,
+      contentId,
+      { filename: 'captions.vtt', content: 'WEBVTT\n\n00:00.500 --> 00:02.250\nSpare Geld\n' },
+      'editor'
+    );
+
+    expect(result.imported).toBe(1);
+    expect(result.content.captions).toEqual([
+      { timestamp_start: 0.5, timestamp_end: 2.25, text: 'Spare Geld' },
+    ]);
+    expect(result.content.origin).toBe('human');
+  });
+});
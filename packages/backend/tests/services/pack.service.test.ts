@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { prisma } from '../../src/repositories/prisma-client.js';
+import { packService } from '../../src/services/pack.service.js';
+import { PackExpiredError, ValidationError } from '../../src/types/index.js';
+import type { PackManifest } from '../../src/types/index.js';
+import type { StoredObject } from '../../src/services/storage/index.js';
+
+const storage = vi.hoisted(() => ({
+  name: 'local' as const,
+  putFile: vi.fn(),
+  get: vi.fn(),
+  delete: vi.fn(),
+  list: vi.fn(),
+}));
+
+vi.mock('../../src/services/storage/index.js', () => ({ getStorage: () => storage }));
+
+const workspaceId = '00000000-0000-4000-8000-000000000001';
+const now = new Date('2026-10-19T12:00:00Z');
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+const stored = (key: string, lastModified: Date): StoredObject => ({ key, size: 10, lastModified });
+
+const projectId = '00000000-0000-4000-8000-000000000002';
+const angleId = '00000000-0000-4000-8000-000000000003';
+
+const localization = (locale: string, script: string) => ({
+  id: `content-${locale}`,
+  angleId,
+  locale,
+  platform: 'tiktok',
+  script,
+  captions: [],
+  onScreenText: [],
+  culturalNotes: null,
+  platformAdjustments: null,
+  characterCount: script.length,
+  wordCount: 2,
+  reviewStatus: 'approved',
+  createdAt: new Date('2026-10-01T00:00:00Z'),
+});
+
+// Saved packs echo what was created, so a build can be rebuilt
+function mockPackSaves() {
+  let saved = 0;
+  vi.mocked(prisma.creativePack.create).mockImplementation((({ data }: { data: object }) =>
+    Promise.resolve({ id: `pack-${++saved}`, version: 1, ...data })) as never);
+  vi.mocked(prisma.creativePack.update).mockImplementation((({ where }: { where: object }) =>
+    Promise.resolve(where)) as never);
+  vi.mocked(prisma.packAngle.createMany).mockResolvedValue({ count: 1 } as never);
+}
+
+describe('Pack storage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage.delete.mockResolvedValue(undefined);
+  });
+
+  it('should sweep expired packs and old orphaned files', async () => {
+    vi.mocked(prisma.creativePack.findMany)
+      .mockResolvedValueOnce([{ id: 'expired', filePath: 'packs/expired.zip' }] as never)
+      .mockResolvedValueOnce([{ filePath: 'packs/live.zip' }] as never);
+    storage.list.mockResolvedValue([
+      stored('packs/live.zip', hoursAgo(48)),
+      stored('packs/orphan.zip', hoursAgo(48)),
+      // Possibly a build that has not saved its pack yet
+      stored('packs/building.zip', hoursAgo(0.1)),
+    ]);
+
+    await expect(packService.sweepStorage(now)).resolves.toEqual({ expired: 1, orphaned: 1 });
+    expect(prisma.creativePack.delete).toHaveBeenCalledWith({ where: { id: 'expired' } });
+    expect(storage.delete.mock.calls).toEqual([['packs/expired.zip'], ['packs/orphan.zip']]);
+  });
+
+  it('should refuse to download an expired pack', async () => {
+    vi.mocked(prisma.creativePack.findUnique).mockResolvedValue({
+      id: 'pack',
+      name: 'Drop',
+      filePath: 'packs/pack.zip',
+      expiresAt: hoursAgo(1),
+    } as never);
+
+    await expect(packService.downloadPack(workspaceId, 'pack')).rejects.toThrow(PackExpiredError);
+    expect(storage.get).not.toHaveBeenCalled();
+    expect(prisma.creativePack.update).not.toHaveBeenCalled();
+  });
+
+  it('should rebuild only when localizations changed, with a delta zip', async () => {
+    mockPackSaves();
+    vi.mocked(prisma.project.findUnique).mockResolvedValue({
+      id: projectId,
+      name: 'Glow',
+    } as never);
+    vi.mocked(prisma.angleCard.findUnique).mockResolvedValue({ id: angleId, projectId } as never);
+    vi.mocked(prisma.localizedContent.findMany).mockResolvedValue([
+      localization('fr-FR', 'Bonjour tout'),
+      localization('de-DE', 'Hallo alle'),
+    ] as never);
+
+    await packService.createPack({
+      workspaceId,
+      projectId,
+      name: 'Drop',
+      angleIds: [angleId],
+      locales: ['fr-FR', 'de-DE'],
+      platforms: ['tiktok'],
+    });
+    const { data: first } = vi.mocked(prisma.creativePack.create).mock.calls[0]?.[0] as {
+      data: { manifest: PackManifest };
+    };
+    const previous = { id: 'pack-1', name: 'Drop', projectId, version: 1, ...first };
+    vi.mocked(prisma.creativePack.findUnique).mockResolvedValue(previous as never);
+
+    await expect(packService.rebuildPack(workspaceId, 'pack-1', { delta: true })).rejects.toThrow(
+      ValidationError
+    );
+
+    vi.mocked(prisma.localizedContent.findMany).mockResolvedValue([
+      localization('fr-FR', 'Salut tout'),
+      localization('de-DE', 'Hallo alle'),
+    ] as never);
+    storage.putFile.mockClear();
+    await packService.rebuildPack(workspaceId, 'pack-1', { delta: true });
+
+    const { data: second } = vi.mocked(prisma.creativePack.create).mock.calls[1]?.[0] as {
+      data: { manifest: PackManifest; version: number; previousPackId: string };
+    };
+    expect(second).toMatchObject({ version: 2, previousPackId: 'pack-1' });
+    expect(second.manifest.changes).toMatchObject({
+      previous_version: 1,
+      changed: [
+        {
+          locale: 'fr-FR',
+          files: ['fr-FR/tiktok/00000000/script.txt', 'fr-FR/tiktok/00000000/metadata.json'],
+        },
+      ],
+      unchanged: 1,
+    });
+    expect(storage.putFile.mock.calls.map(([key]) => key)).toEqual([
+      expect.stringMatching(/^packs\/pack-pack-2-\d+\.zip$/),
+      expect.stringMatching(/^packs\/pack-pack-2-\d+-delta\.zip$/),
+    ]);
+  });
+});
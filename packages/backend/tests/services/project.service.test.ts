@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { prisma } from '../../src/repositories/prisma-client.js';
+import { projectService } from '../../src/services/project.service.js';
+import { angleService } from '../../src/services/angle.service.js';
+import { NotFoundError } from '../../src/types/index.js';
+
+const ownWorkspace = '00000000-0000-4000-8000-000000000001';
+const otherWorkspace = '00000000-0000-4000-8000-000000000009';
+const projectId = '00000000-0000-4000-8000-000000000002';
+const angleId = '00000000-0000-4000-8000-000000000003';
+
+const project = { id: projectId, workspaceId: ownWorkspace, name: 'Roundup' };
+
+// Behave like the database: rows only match when the workspace filter does
+function mockWorkspaceRows() {
+  vi.mocked(prisma.project.findUnique).mockImplementation(((args: {
+    where: { id: string; workspaceId?: string };
+  }) =>
+    Promise.resolve(
+      args.where.id === projectId && args.where.workspaceId === ownWorkspace ? project : null
+    )) as never);
+  vi.mocked(prisma.project.count).mockImplementation(((args: {
+    where: { id: string; workspaceId?: string };
+  }) =>
+    Promise.resolve(
+      args.where.id === projectId && args.where.workspaceId === ownWorkspace ? 1 : 0
+    )) as never);
+  vi.mocked(prisma.angleCard.findUnique).mockImplementation(((args: {
+    where: { id: string; project?: { workspaceId: string } };
+  }) =>
+    Promise.resolve(
+      args.where.id === angleId && args.where.project?.workspaceId === ownWorkspace
+        ? { id: angleId, projectId }
+        : null
+    )) as never);
+}
+
+describe('Workspace scoping', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockWorkspaceRows();
+  });
+
+  it('should find a project only in its own workspace', async () => {
+    await expect(projectService.getProject(ownWorkspace, projectId)).resolves.toEqual(project);
+    await expect(projectService.getProject(otherWorkspace, projectId)).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+  });
+
+  it('should not change or delete a project from another workspace', async () => {
+    await expect(
+      projectService.updateProject(otherWorkspace, projectId, { name: 'Taken' })
+    ).rejects.toBeInstanceOf(NotFoundError);
+    await expect(projectService.deleteProject(otherWorkspace, projectId)).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+    expect(prisma.project.update).not.toHaveBeenCalled();
+    expect(prisma.project.delete).not.toHaveBeenCalled();
+  });
+
+  it("should hide another workspace's angles as not found", async () => {
+    await expect(angleService.getAngle(ownWorkspace, angleId)).resolves.toMatchObject({
+      id: angleId,
+    });
+    await expect(angleService.getAngle(otherWorkspace, angleId)).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+  });
+});
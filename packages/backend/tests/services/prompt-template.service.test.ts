@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { prisma } from '../../src/repositories/prisma-client.js';
+import { promptTemplateService } from '../../src/services/prompt-template.service.js';
+import { findTemplateErrors, renderTemplate } from '../../src/utils/template.js';
+import { ValidationError } from '../../src/types/index.js';
+
+const workspaceId = '00000000-0000-4000-8000-000000000001';
+const projectId = '00000000-0000-4000-8000-000000000002';
+
+describe('Prompt templates', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.promptTemplate.findFirst).mockResolvedValue(null);
+  });
+
+  it('should render variables and drop sections for empty values', () => {
+    const template = 'Product: {{product_name}}\n{{#if competitors}}Rivals: {{competitors}}\n{{/if}}Tone: {{tone}}';
+
+    expect(renderTemplate(template, { product_name: 'Glow', competitors: ['A', 'B'], tone: 'casual' })).toBe(
+      'Product: Glow\nRivals: A, B\nTone: casual'
+    );
+    expect(renderTemplate(template, { product_name: 'Glow', competitors: [], tone: 'casual' })).toBe(
+      'Product: Glow\nTone: casual'
+    );
+  });
+
+  it('should report unknown variables and unbalanced sections', () => {
+    expect(findTemplateErrors('{{#if tone}}{{mood}}', ['tone'])).toEqual([
+      'Unknown variable "mood"',
+      '1 {{#if}} section(s) not closed with {{/if}}',
+    ]);
+  });
+
+  it('should fall back to the file default labelled with its content hash', async () => {
+    const resolved = await promptTemplateService.resolve('generate_angles', projectId);
+
+    expect(resolved.source).toBe('default');
+    expect(resolved.label).toMatch(/^generate_angles@default:[0-9a-f]{8}$/);
+    expect(resolved.template).toContain('{{product_name}}');
+  });
+
+  it('should prefer a project override over the global template', async () => {
+    vi.mocked(prisma.promptTemplate.findFirst).mockImplementation(((args: {
+      where: { projectId: string | null };
+    }) =>
+      Promise.resolve({
+        operation: 'localize',
+        projectId: args.where.projectId,
+        version: args.where.projectId ? 3 : 7,
+        system: 'system',
+        template: 'template',
+      })) as never);
+
+    const resolved = await promptTemplateService.resolve('localize', projectId);
+
+    expect(resolved.label).toBe('localize@project:v3');
+  });
+
+  it('should reject templates that use variables the operation does not bind', async () => {
+    await expect(
+      promptTemplateService.createVersion(workspaceId, 'user-1', 'analyze_patterns', {
+        system: 'You analyze ads',
+        template: 'Winners for {{product_name}}:\n{{winners}}',
+      })
+    ).rejects.toThrow(ValidationError);
+    expect(prisma.promptTemplate.create).not.toHaveBeenCalled();
+  });
+});
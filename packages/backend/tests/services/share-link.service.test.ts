@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Readable } from 'stream';
+import { prisma } from '../../src/repositories/prisma-client.js';
+import { shareLinkService } from '../../src/services/share-link.service.js';
+import { signShareToken, verifyShareToken } from '../../src/utils/share-token.js';
+import {
+  AuthorizationError,
+  NotFoundError,
+  ShareLinkUnavailableError,
+} from '../../src/types/index.js';
+
+const storage = vi.hoisted(() => ({
+  name: 'local' as const,
+  putFile: vi.fn(),
+  get: vi.fn(),
+  delete: vi.fn(),
+  list: vi.fn(),
+}));
+
+vi.mock('../../src/services/storage/index.js', () => ({ getStorage: () => storage }));
+
+const workspaceId = '00000000-0000-4000-8000-000000000001';
+const packId = '00000000-0000-4000-8000-000000000002';
+const linkId = '00000000-0000-4000-8000-000000000003';
+const client = { ip: '203.0.113.7', userAgent: 'curl/8.0' };
+
+const pack = {
+  id: packId,
+  name: 'Spring Drop',
+  filePath: 'packs/pack.zip',
+  fileSize: BigInt(9),
+  expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+};
+
+// Create a link through the service and return it with the token from its URL
+async function createLink(input: { password?: string; maxDownloads?: number } = {}) {
+  vi.mocked(prisma.creativePack.findUnique).mockResolvedValue(pack as never);
+  vi.mocked(prisma.packShareLink.create).mockImplementation((({ data }: { data: object }) =>
+    Promise.resolve({
+      id: linkId,
+      label: null,
+      passwordHash: null,
+      maxDownloads: null,
+      downloadCount: 0,
+      revokedAt: null,
+      createdBy: null,
+      ...data,
+    })) as never);
+
+  const link = await shareLinkService.createLink(workspaceId, packId, {
+    expiresInHours: 72,
+    ...input,
+  });
+  const stored = await vi.mocked(prisma.packShareLink.create).mock.results[0]?.value;
+  vi.mocked(prisma.packShareLink.findUnique).mockResolvedValue({ ...stored, pack } as never);
+  return { link, token: link.url.split('/share/')[1] ?? '' };
+}
+
+describe('Pack share links', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage.get.mockResolvedValue({ stream: Readable.from(['zip bytes']), size: 9 });
+    vi.mocked(prisma.packShareLink.updateMany).mockResolvedValue({ count: 1 } as never);
+  });
+
+  it('should reject tokens whose expiry or signature was altered', () => {
+    const expiresAt = new Date('2026-10-20T12:00:00Z');
+    const token = signShareToken({ linkId, expiresAt }, 'secret');
+
+    expect(verifyShareToken(token, 'secret')).toEqual({ linkId, expiresAt });
+    expect(verifyShareToken(token.replace('.1792', '.1892'), 'secret')).toBeNull();
+    expect(verifyShareToken(token, 'other secret')).toBeNull();
+    expect(verifyShareToken(`${token}x`, 'secret')).toBeNull();
+  });
+
+  it('should cap a link at the expiry of its pack and hide the password hash', async () => {
+    const { link } = await createLink({ password: 'open sesame' });
+
+    expect(link.expiresAt.getTime()).toBe(Math.floor(pack.expiresAt.getTime() / 1000) * 1000);
+    expect(link.hasPassword).toBe(true);
+    expect(link.status).toBe('active');
+    expect(link).not.toHaveProperty('passwordHash');
+  });
+
+  it('should download through a password-protected link and log the download', async () => {
+    const { token } = await createLink({ password: 'open sesame' });
+
+    await expect(shareLinkService.downloadShared(token, 'wrong', client)).rejects.toThrow(
+      AuthorizationError
+    );
+    expect(prisma.packShareLink.updateMany).not.toHaveBeenCalled();
+
+    const download = await shareLinkService.downloadShared(token, 'open sesame', client);
+    expect(download.filename).toBe('Spring_Drop.zip');
+    expect(prisma.packDownloadEvent.create).toHaveBeenCalledWith({
+      data: { packId, shareLinkId: linkId, ...client },
+    });
+  });
+
+  it('should stop serving a link once its download limit is used up', async () => {
+    const { token } = await createLink({ maxDownloads: 1 });
+    vi.mocked(prisma.packShareLink.updateMany).mockResolvedValue({ count: 0 } as never);
+
+    await expect(shareLinkService.downloadShared(token, undefined, client)).rejects.toThrow(
+      ShareLinkUnavailableError
+    );
+    expect(storage.get).not.toHaveBeenCalled();
+    await expect(shareLinkService.getSharedPack('forged.1792000000.abc')).rejects.toThrow(
+      NotFoundError
+    );
+  });
+});
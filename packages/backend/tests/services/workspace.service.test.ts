@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { prisma } from '../../src/repositories/prisma-client.js';
+import { workspaceService } from '../../src/services/workspace.service.js';
+import {
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '../../src/types/index.js';
+import type { WorkspaceRole } from '../../src/types/index.js';
+
+const workspaceId = '00000000-0000-4000-8000-000000000001';
+
+const membership = (userId: string, role: WorkspaceRole) => ({
+  id: `member-${userId}`,
+  workspaceId,
+  userId,
+  role,
+  createdAt: new Date('2026-10-01T00:00:00Z'),
+});
+
+// Memberships by user id; users not listed are not members
+function mockMembers(members: Record<string, WorkspaceRole>) {
+  vi.mocked(prisma.workspaceMember.findUnique).mockImplementation(((args: {
+    where: { workspaceId_userId: { userId: string } };
+  }) => {
+    const { userId } = args.where.workspaceId_userId;
+    const role = members[userId];
+    return Promise.resolve(role ? membership(userId, role) : null);
+  }) as never);
+  vi.mocked(prisma.workspaceMember.count).mockResolvedValue(
+    Object.values(members).filter((role) => role === 'owner').length
+  );
+}
+
+describe('Workspace membership', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.workspaceMember.create).mockImplementation((({ data }: { data: object }) =>
+      Promise.resolve({ id: 'member-new', createdAt: new Date(), ...data })) as never);
+  });
+
+  it('should not let adding an existing owner demote them', async () => {
+    mockMembers({ admin: 'admin', owner: 'owner' });
+
+    await expect(
+      workspaceService.addMember('admin', workspaceId, 'owner', 'viewer')
+    ).rejects.toBeInstanceOf(ConflictError);
+    expect(prisma.workspaceMember.create).not.toHaveBeenCalled();
+    expect(prisma.workspaceMember.update).not.toHaveBeenCalled();
+  });
+
+  it('should add a user who is not yet a member', async () => {
+    mockMembers({ admin: 'admin', owner: 'owner' });
+
+    await expect(
+      workspaceService.addMember('admin', workspaceId, 'newcomer', 'member')
+    ).resolves.toMatchObject({ userId: 'newcomer', role: 'member' });
+  });
+
+  it('should only let owners grant the owner role and hide the workspace from outsiders', async () => {
+    mockMembers({ admin: 'admin', owner: 'owner' });
+
+    await expect(
+      workspaceService.addMember('admin', workspaceId, 'newcomer', 'owner')
+    ).rejects.toBeInstanceOf(AuthorizationError);
+    await expect(
+      workspaceService.addMember('member', workspaceId, 'newcomer', 'member')
+    ).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('should keep admins from changing owner roles', async () => {
+    mockMembers({ admin: 'admin', owner: 'owner', member: 'member' });
+
+    await expect(
+      workspaceService.updateMemberRole('admin', workspaceId, 'owner', 'member')
+    ).rejects.toBeInstanceOf(AuthorizationError);
+    await expect(
+      workspaceService.updateMemberRole('admin', workspaceId, 'member', 'owner')
+    ).rejects.toBeInstanceOf(AuthorizationError);
+    expect(prisma.workspaceMember.update).not.toHaveBeenCalled();
+  });
+
+  it('should keep at least one owner', async () => {
+    mockMembers({ owner: 'owner', member: 'member' });
+
+    await expect(
+      workspaceService.updateMemberRole('owner', workspaceId, 'owner', 'admin')
+    ).rejects.toBeInstanceOf(ValidationError);
+    await expect(
+      workspaceService.removeMember('owner', workspaceId, 'owner')
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(prisma.workspaceMember.delete).not.toHaveBeenCalled();
+
+    mockMembers({ owner: 'owner', coowner: 'owner' });
+    await workspaceService.removeMember('owner', workspaceId, 'coowner');
+    expect(prisma.workspaceMember.delete).toHaveBeenCalledWith({
+      where: { workspaceId_userId: { workspaceId, userId: 'coowner' } },
+    });
+  });
+
+  it('should let members leave but only managers remove others', async () => {
+    mockMembers({ owner: 'owner', member: 'member', viewer: 'viewer' });
+
+    await expect(
+      workspaceService.removeMember('member', workspaceId, 'viewer')
+    ).rejects.toBeInstanceOf(AuthorizationError);
+    await workspaceService.removeMember('viewer', workspaceId, 'viewer');
+    expect(prisma.workspaceMember.delete).toHaveBeenCalledTimes(1);
+  });
+});
@@ -11,6 +11,21 @@ process.env.STORAGE_PATH = './storage';
 // Mock Prisma client
 vi.mock('../src/repositories/prisma-client.js', () => ({
   prisma: {
+    workspace: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    workspaceMember: {
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+      count: vi.fn(),
+    },
     project: {
       create: vi.fn(),
       findUnique: vi.fn(),
@@ -29,6 +44,15 @@ vi.mock('../src/repositories/prisma-client.js', () => ({
       count: vi.fn(),
       aggregate: vi.fn(),
     },
+    angleReviewer: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+      count: vi.fn(),
+    },
+    angleComment: {
+      findFirst: vi.fn(),
+      create: vi.fn(),
+    },
     localizedContent: {
       create: vi.fn(),
       createMany: vi.fn(),
@@ -39,6 +63,13 @@ vi.mock('../src/repositories/prisma-client.js', () => ({
       deleteMany: vi.fn(),
       upsert: vi.fn(),
     },
+    localeReviewer: {
+      findMany: vi.fn(),
+      count: vi.fn(),
+    },
+    lintFinding: {
+      findMany: vi.fn(),
+    },
     creativePack: {
       create: vi.fn(),
       findUnique: vi.fn(),
@@ -47,6 +78,17 @@ vi.mock('../src/repositories/prisma-client.js', () => ({
       delete: vi.fn(),
       count: vi.fn(),
     },
+    packShareLink: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    packDownloadEvent: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+    },
     packAngle: {
       createMany: vi.fn(),
     },
@@ -61,6 +103,23 @@ vi.mock('../src/repositories/prisma-client.js', () => ({
       findMany: vi.fn(),
       update: vi.fn(),
     },
+    job: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      fields: { maxAttempts: 'max_attempts' },
+    },
+    aIUsage: {
+      create: vi.fn(),
+      aggregate: vi.fn(),
+    },
+    promptTemplate: {
+      create: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
     $connect: vi.fn(),
     $disconnect: vi.fn(),
     $queryRaw: vi.fn(),
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { describeChanges, diffFields, diffWords } from '../src/utils/text-diff.js';
+
+describe('Text diff', () => {
+  it('should mark inserted and deleted words and reproduce both texts', () => {
+    const from = 'Stop wasting money on coffee';
+    const to = 'Stop wasting time on coffee today';
+    const segments = diffWords(from, to);
+
+    expect(segments.filter((s) => s.type !== 'insert').map((s) => s.text).join('')).toBe(from);
+    expect(segments.filter((s) => s.type !== 'delete').map((s) => s.text).join('')).toBe(to);
+    expect(segments.filter((s) => s.type === 'delete').map((s) => s.text)).toEqual(['money']);
+  });
+
+  it('should only report fields that changed', () => {
+    const changes = diffFields(
+      { hook: 'Old hook', cta: 'Buy now', estimatedDuration: 30 },
+      { hook: 'New hook', cta: 'Buy now', estimatedDuration: 45 },
+      ['hook', 'cta', 'estimatedDuration']
+    );
+
+    expect(changes).toEqual([
+      { field: 'hook', from: 'Old hook', to: 'New hook' },
+      { field: 'estimatedDuration', from: 30, to: 45 },
+    ]);
+    const [hook, duration] = describeChanges(changes);
+    expect(hook?.segments).toEqual([
+      { type: 'delete', text: 'Old' },
+      { type: 'insert', text: 'New' },
+      { type: 'equal', text: ' hook' },
+    ]);
+    expect(duration?.segments).toBeUndefined();
+  });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect } from 'vitest';
 import {
   seedDataSchema,
   createProjectSchema,
+  projectAISettingsSchema,
   updateAngleSchema,
   localizeRequestSchema,
   csvRowSchema,
@@ -124,6 +125,32 @@ describe('Validators', () => {
     });
   });
 
+  describe('projectAISettingsSchema', () => {
+    it('should accept a project default with per-operation overrides', () => {
+      const result = projectAISettingsSchema.safeParse({
+        provider: 'anthropic',
+        operations: {
+          localize: { provider: 'local', model: 'llama3.1' },
+        },
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject a model without a provider', () => {
+      const result = projectAISettingsSchema.safeParse({
+        operations: { generate_angles: { model: 'gpt-4o' } },
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject unknown operations', () => {
+      const result = projectAISettingsSchema.safeParse({
+        operations: { translate: { provider: 'openai' } },
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
   describe('updateAngleSchema', () => {
     it('should validate partial angle update', () => {
       const validUpdate = {
@@ -192,6 +219,14 @@ describe('Validators', () => {
       const result = localizeRequestSchema.safeParse(invalidRequest);
       expect(result.success).toBe(false);
     });
+
+    it('should accept any locale in the registry', () => {
+      const result = localizeRequestSchema.safeParse({
+        locales: ['ja-JP', 'ar-SA', 'nl-NL'],
+        platforms: ['tiktok'],
+      });
+      expect(result.success).toBe(true);
+    });
   });
 
   describe('csvRowSchema', () => {
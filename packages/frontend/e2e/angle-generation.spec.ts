@@ -179,7 +179,10 @@ async function generateAngles(page: Page, projectId: string) {
     anglesJson = await anglesResp.json();
   } catch {
     // If 304, json() can be empty; fetch directly
-    const direct = await page.request.get(`${BASE_URL}/api/angles/projects/${projectId}/angles`);
+    const token = await page.evaluate(() => localStorage.getItem('teruxa.accessToken'));
+    const direct = await page.request.get(`${BASE_URL}/api/angles/projects/${projectId}/angles`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
     anglesJson = await direct.json().catch(() => null);
   }
 
@@ -0,0 +1,43 @@
+import { request, type FullConfig } from '@playwright/test';
+import fs from 'fs';
+import path from 'path';
+
+// Relative to the frontend package, where playwright is run from
+export const STORAGE_STATE = 'e2e/.auth/user.json';
+
+// The API requires a signed-in user: register a throwaway account once and
+// hand its tokens to every test through localStorage
+export default async function globalSetup(config: FullConfig) {
+  const baseURL = config.projects[0].use.baseURL as string;
+  const context = await request.newContext({ baseURL });
+
+  const res = await context.post('/api/auth/register', {
+    data: {
+      email: `e2e-${Date.now()}@example.com`,
+      password: 'E2e!Passw0rd',
+      name: 'E2E',
+    },
+  });
+  if (!res.ok()) {
+    throw new Error(`E2E user registration failed: ${res.status()} ${await res.text()}`);
+  }
+  const { data } = await res.json();
+  await context.dispose();
+
+  fs.mkdirSync(path.dirname(STORAGE_STATE), { recursive: true });
+  fs.writeFileSync(
+    STORAGE_STATE,
+    JSON.stringify({
+      cookies: [],
+      origins: [
+        {
+          origin: new URL(baseURL).origin,
+          localStorage: [
+            { name: 'teruxa.accessToken', value: data.accessToken },
+            { name: 'teruxa.refreshToken', value: data.refreshToken },
+          ],
+        },
+      ],
+    })
+  );
+}
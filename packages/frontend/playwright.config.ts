@@ -1,4 +1,5 @@
 import { defineConfig, devices } from '@playwright/test';
+import { STORAGE_STATE } from './e2e/global-setup';
 
 const PORT = Number(process.env.E2E_PORT || 5173);
 
@@ -12,6 +13,7 @@ export default defineConfig({
   testDir: './e2e',
   // Exclude debug tests from default runs
   testIgnore: '**/e2e/_debug/**',
+  globalSetup: './e2e/global-setup.ts',
   fullyParallel: true,
   retries: CI ? 2 : 0,
   workers: CI ? 2 : undefined,
@@ -27,6 +29,8 @@ export default defineConfig({
 
   use: {
     baseURL: BASE_URL,
+    // Signed-in user created by globalSetup
+    storageState: STORAGE_STATE,
     // Capture traces and screenshots on failure
     trace: 'on-first-retry',
     screenshot: 'only-on-failure',
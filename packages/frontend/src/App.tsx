@@ -6,12 +6,16 @@ import { AnglesPage } from './pages/AnglesPage';
 import { LocalizationsPage } from './pages/LocalizationsPage';
 import { PacksPage } from './pages/PacksPage';
 import { PerformancePage } from './pages/PerformancePage';
+import { LoginPage } from './pages/LoginPage';
+import { SharedPackPage } from './pages/SharedPackPage';
 import { ErrorBoundary } from './components/ErrorBoundary';
 
 export default function App() {
   return (
     <ErrorBoundary>
       <Routes>
+        <Route path="/login" element={<LoginPage />} />
+        <Route path="/share/:token" element={<SharedPackPage />} />
         <Route path="/" element={<Layout />}>
           <Route index element={<Navigate to="/projects" replace />} />
           <Route path="projects" element={<ProjectsPage />} />
@@ -0,0 +1,69 @@
+import { useQuery } from '@tanstack/react-query';
+import { projectsApi } from '../services/api';
+import type { AIBudgetStatus } from '../types';
+
+interface AIUsagePanelProps {
+  projectId: string;
+}
+
+const formatUsd = (value: number) => `$${value.toFixed(2)}`;
+
+function BudgetRow({ label, status }: { label: string; status: AIBudgetStatus }) {
+  const { monthlyBudgetUsd, spentUsd } = status;
+  const percent = monthlyBudgetUsd ? Math.min((spentUsd / monthlyBudgetUsd) * 100, 100) : 0;
+
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-1">
+        <span className="text-gray-500">{label}</span>
+        <span className="text-gray-900">
+          {formatUsd(spentUsd)}
+          {monthlyBudgetUsd !== null ? ` of ${formatUsd(monthlyBudgetUsd)}` : ' (no budget)'}
+        </span>
+      </div>
+      {monthlyBudgetUsd !== null && (
+        <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+          <div
+            className={`h-full ${percent >= 100 ? 'bg-red-600' : 'bg-primary-600'}`}
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function AIUsagePanel({ projectId }: AIUsagePanelProps) {
+  const { data: usage } = useQuery({
+    queryKey: ['ai-usage', projectId],
+    queryFn: () => projectsApi.getAIUsage(projectId),
+  });
+
+  if (!usage) return null;
+
+  return (
+    <div className="card mb-8" data-testid="ai-usage">
+      <h2 className="text-lg font-semibold mb-4">AI Usage</h2>
+      <div className="grid gap-4 md:grid-cols-3 mb-4">
+        <div>
+          <h4 className="text-sm font-medium text-gray-500">Calls (30 days)</h4>
+          <p className="text-gray-900">{usage.totals.calls}</p>
+        </div>
+        <div>
+          <h4 className="text-sm font-medium text-gray-500">Tokens (30 days)</h4>
+          <p className="text-gray-900">
+            {(usage.totals.promptTokens + usage.totals.completionTokens).toLocaleString()}
+          </p>
+        </div>
+        <div>
+          <h4 className="text-sm font-medium text-gray-500">Estimated cost (30 days)</h4>
+          <p className="text-gray-900">{formatUsd(usage.totals.costUsd)}</p>
+        </div>
+      </div>
+      <div className="space-y-3">
+        <BudgetRow label="Project this month" status={usage.budget.project} />
+        <BudgetRow label="Workspace this month" status={usage.budget.workspace} />
+      </div>
+    </div>
+  );
+}
@@ -9,10 +9,13 @@ interface AngleCardProps {
   onDelete?: () => void;
   onMarkWinner?: () => void;
   onRegenerate?: () => void;
+  onHistory?: () => void;
+  onReview?: () => void;
 }
 
 const statusColors: Record<AngleStatus, string> = {
   draft: 'bg-gray-100 text-gray-800',
+  in_review: 'bg-blue-100 text-blue-800',
   approved: 'bg-green-100 text-green-800',
   rejected: 'bg-red-100 text-red-800',
   archived: 'bg-yellow-100 text-yellow-800',
@@ -26,18 +29,28 @@ export function AngleCardComponent({
   onDelete,
   onMarkWinner,
   onRegenerate,
+  onHistory,
+  onReview,
 }: AngleCardProps) {
+  const approvals = angle.reviewers?.filter((reviewer) => reviewer.decision === 'approved').length ?? 0;
+  const openComments = angle._count?.comments ?? 0;
+
   return (
     <div className="card hover:shadow-md transition-shadow" data-testid="angle-card">
       <div className="flex items-start justify-between mb-4">
         <div className="flex items-center gap-2">
           <span className={clsx('badge', statusColors[angle.status])}>
-            {angle.status}
+            {angle.status.replace('_', ' ')}
           </span>
           {angle.isWinner && (
             <span className="badge-winner">Winner</span>
           )}
           <span className="text-xs text-gray-500">v{angle.version}</span>
+          {angle.status === 'in_review' && !!angle.reviewers?.length && (
+            <span className="text-xs text-gray-500" data-testid="angle-approvals">
+              {approvals}/{angle.reviewers.length} approved
+            </span>
+          )}
         </div>
         {angle.estimatedDuration && (
           <span className="text-sm text-gray-500">{angle.estimatedDuration}s</span>
@@ -66,6 +79,35 @@ export function AngleCardComponent({
         </div>
       </div>
 
+      {angle.status === 'rejected' && angle.rejectionReason && (
+        <div className="mt-4 rounded-md bg-red-50 p-3 text-sm text-red-700" data-testid="angle-rejection">
+          <h4 className="font-medium mb-1">Rejected</h4>
+          <p>{angle.rejectionReason}</p>
+        </div>
+      )}
+
+      {!!angle.claimViolations?.length && (
+        <div
+          className={clsx(
+            'mt-4 rounded-md p-3 text-sm',
+            angle.claimsOverrideReason ? 'bg-yellow-50 text-yellow-800' : 'bg-red-50 text-red-700'
+          )}
+          data-testid="angle-claim-violations"
+        >
+          <h4 className="font-medium mb-1">
+            {angle.claimsOverrideReason ? 'Claims policy overridden' : 'Claims policy violations'}
+          </h4>
+          <ul className="list-disc list-inside space-y-0.5">
+            {angle.claimViolations.map((violation, i) => (
+              <li key={i}>{violation.message}</li>
+            ))}
+          </ul>
+          {angle.claimsOverrideReason && (
+            <p className="mt-2 italic">Reason: {angle.claimsOverrideReason}</p>
+          )}
+        </div>
+      )}
+
       <div className="mt-4 pt-4 border-t flex flex-wrap gap-2">
         {onMarkWinner && (
           <button
@@ -92,28 +134,38 @@ export function AngleCardComponent({
             Edit
           </button>
         )}
+        {onHistory && angle.version > 1 && (
+          <button onClick={onHistory} className="btn-secondary text-xs" aria-label="Angle history">
+            History
+          </button>
+        )}
         {onLocalize && (
           <button onClick={onLocalize} className="btn-primary text-xs" aria-label="Localize angle">
             Localize
           </button>
         )}
+        {onReview && (
+          <button onClick={onReview} className="btn-secondary text-xs" aria-label="Review angle">
+            Review{openComments > 0 && ` (${openComments})`}
+          </button>
+        )}
         {onStatusChange && angle.status === 'draft' && (
-          <>
-            <button
-              onClick={() => onStatusChange('approved')}
-              className="btn text-xs bg-green-100 text-green-700 hover:bg-green-200"
-              aria-label="Approve angle"
-            >
-              Approve
-            </button>
-            <button
-              onClick={() => onStatusChange('rejected')}
-              className="btn text-xs bg-red-100 text-red-700 hover:bg-red-200"
-              aria-label="Reject angle"
-            >
-              Reject
-            </button>
-          </>
+          <button
+            onClick={() => onStatusChange('in_review')}
+            className="btn text-xs bg-blue-100 text-blue-700 hover:bg-blue-200"
+            aria-label="Submit angle for review"
+          >
+            Submit for Review
+          </button>
+        )}
+        {onStatusChange && (angle.status === 'in_review' || angle.status === 'rejected') && (
+          <button
+            onClick={() => onStatusChange('draft')}
+            className="btn-secondary text-xs"
+            aria-label="Move angle back to draft"
+          >
+            {angle.status === 'in_review' ? 'Withdraw' : 'Back to Draft'}
+          </button>
         )}
         {onDelete && (
           <button onClick={onDelete} className="btn-danger text-xs" aria-label="Delete angle">
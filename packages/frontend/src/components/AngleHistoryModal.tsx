@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { clsx } from 'clsx';
+import toast from 'react-hot-toast';
+import { anglesApi } from '../services/api';
+import { Modal } from './Modal';
+import { FieldDiffList } from './FieldDiffList';
+import type { AngleCard, AngleContentField, AngleRevision } from '../types';
+
+interface AngleHistoryModalProps {
+  angle: AngleCard | null;
+  onClose: () => void;
+}
+
+export const ANGLE_FIELD_LABELS: Record<AngleContentField, string> = {
+  hook: 'Hook',
+  problemAgitation: 'Problem',
+  solution: 'Solution',
+  cta: 'CTA',
+  visualDirection: 'Visual Direction',
+  audioNotes: 'Audio Notes',
+  estimatedDuration: 'Duration',
+};
+
+const SOURCE_LABELS: Record<AngleRevision['source'], string> = {
+  original: 'Original',
+  edit: 'Edited',
+  regenerate: 'Regenerated',
+  restore: 'Restored',
+};
+
+export function AngleHistoryModal({ angle, onClose }: AngleHistoryModalProps) {
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<number | null>(null);
+
+  const { data: revisions = [], isLoading } = useQuery({
+    queryKey: ['angle-revisions', angle?.id],
+    queryFn: () => anglesApi.listRevisions(angle?.id ?? ''),
+    enabled: !!angle,
+  });
+
+  // Compare the selected version with the one before it
+  const latest = revisions[0]?.version;
+  const version = selected ?? latest;
+  const previous = revisions.find((revision) => version !== undefined && revision.version < version);
+
+  const { data: diff } = useQuery({
+    queryKey: ['angle-revision-diff', angle?.id, previous?.version, version],
+    queryFn: () => anglesApi.diffRevisions(angle?.id ?? '', previous?.version ?? 1, version ?? 1),
+    enabled: !!angle && !!previous && version !== undefined,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (restoreVersion: number) => anglesApi.restoreRevision(angle?.id ?? '', restoreVersion),
+    onSuccess: (restored) => {
+      queryClient.invalidateQueries({ queryKey: ['angles', angle?.projectId] });
+      queryClient.invalidateQueries({ queryKey: ['angle-revisions', angle?.id] });
+      setSelected(null);
+      toast.success(restored ? `Restored as version ${restored.version}` : 'Version restored');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const handleClose = () => {
+    setSelected(null);
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={!!angle} onClose={handleClose} title="Angle History" size="xl">
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading history...</p>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-gray-500">This angle has not been edited yet.</p>
+      ) : (
+        <div className="grid gap-6 md:grid-cols-3" data-testid="angle-history">
+          <ul className="space-y-1">
+            {revisions.map((revision) => (
+              <li key={revision.id}>
+                <button
+                  type="button"
+                  onClick={() => setSelected(revision.version)}
+                  className={clsx(
+                    'w-full text-left rounded-md px-3 py-2 text-sm',
+                    revision.version === version ? 'bg-primary-50 text-primary-700' : 'hover:bg-gray-50'
+                  )}
+                >
+                  <span className="font-medium">v{revision.version}</span>{' '}
+                  <span className="text-gray-500">{SOURCE_LABELS[revision.source]}</span>
+                  <span className="block text-xs text-gray-400">
+                    {new Date(revision.createdAt).toLocaleString()}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="md:col-span-2 space-y-4">
+            {!previous ? (
+              <p className="text-sm text-gray-500">The first recorded version; nothing to compare.</p>
+            ) : diff?.changes.length === 0 ? (
+              <p className="text-sm text-gray-500">No content changes from v{previous.version}.</p>
+            ) : (
+              diff && <FieldDiffList changes={diff.changes} labels={ANGLE_FIELD_LABELS} />
+            )}
+
+            {version !== undefined && version !== latest && (
+              <div className="flex justify-end pt-4 border-t">
+                <button
+                  type="button"
+                  onClick={() => {
+                    if (confirm(`Restore version ${version}? It will be saved as a new version.`)) {
+                      restoreMutation.mutate(version);
+                    }
+                  }}
+                  disabled={restoreMutation.isPending}
+                  className="btn-primary"
+                >
+                  {restoreMutation.isPending ? 'Restoring...' : `Restore v${version}`}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
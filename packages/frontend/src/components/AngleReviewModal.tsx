@@ -0,0 +1,332 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { clsx } from 'clsx';
+import toast from 'react-hot-toast';
+import { anglesApi } from '../services/api';
+import { Modal } from './Modal';
+import { ANGLE_FIELD_LABELS } from './AngleHistoryModal';
+import type {
+  AngleCard,
+  AngleCommentThread,
+  AngleContentField,
+  ReviewDecision,
+  UserSummary,
+} from '../types';
+
+interface AngleReviewModalProps {
+  angle: AngleCard | null;
+  onClose: () => void;
+}
+
+const displayName = (user: UserSummary | null) => (user ? (user.name ?? user.email) : 'Deleted user');
+
+const DECISION_STYLES: Record<ReviewDecision, string> = {
+  approved: 'text-green-700',
+  rejected: 'text-red-700',
+};
+
+export function AngleReviewModal({ angle, onClose }: AngleReviewModalProps) {
+  const queryClient = useQueryClient();
+  const angleId = angle?.id ?? '';
+  const [assigned, setAssigned] = useState<string[] | null>(null);
+
+  const { data: review } = useQuery({
+    queryKey: ['angle-review', angleId],
+    queryFn: () => anglesApi.getReview(angleId),
+    enabled: !!angle,
+  });
+
+  // The stored claims findings decide whether approval needs an override reason
+  const { data: current } = useQuery({
+    queryKey: ['angle', angleId],
+    queryFn: () => anglesApi.get(angleId),
+    enabled: !!angle,
+  });
+
+  const { data: threads = [] } = useQuery({
+    queryKey: ['angle-comments', angleId],
+    queryFn: () => anglesApi.listComments(angleId),
+    enabled: !!angle,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['angles', angle?.projectId] });
+    queryClient.invalidateQueries({ queryKey: ['angle', angleId] });
+    queryClient.invalidateQueries({ queryKey: ['angle-review', angleId] });
+  };
+
+  const reviewersMutation = useMutation({
+    mutationFn: (userIds: string[]) => anglesApi.setReviewers(angleId, userIds),
+    onSuccess: () => {
+      refresh();
+      setAssigned(null);
+      toast.success('Reviewers updated');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const decisionMutation = useMutation({
+    mutationFn: (decision: { decision: ReviewDecision; reason?: string; overrideReason?: string }) =>
+      anglesApi.submitReview(angleId, decision),
+    onSuccess: (updated) => {
+      refresh();
+      toast.success(updated?.status === 'in_review' ? 'Approval recorded' : `Angle ${updated?.status}`);
+    },
+    onError: (error: Error) => {
+      // A refused approval stores the violations, so the next attempt asks for a reason
+      refresh();
+      toast.error(error.message);
+    },
+  });
+
+  const commentMutation = useMutation({
+    mutationFn: (comment: { body: string; field?: AngleContentField; quote?: string; parentId?: string }) =>
+      anglesApi.addComment(angleId, comment),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['angle-comments', angleId] });
+      queryClient.invalidateQueries({ queryKey: ['angles', angle?.projectId] });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: ({ commentId, resolved }: { commentId: string; resolved: boolean }) =>
+      anglesApi.resolveComment(angleId, commentId, resolved),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['angle-comments', angleId] });
+      queryClient.invalidateQueries({ queryKey: ['angles', angle?.projectId] });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const approve = () => {
+    const violations = current?.claimViolations?.length ?? 0;
+    if (violations === 0) {
+      decisionMutation.mutate({ decision: 'approved' });
+      return;
+    }
+    const overrideReason = prompt(
+      `This angle has ${violations} claims policy violation(s). Why should it be approved anyway?`
+    );
+    if (overrideReason === null) return;
+    if (overrideReason.trim().length < 10) {
+      toast.error('Give a reason of at least 10 characters');
+      return;
+    }
+    decisionMutation.mutate({ decision: 'approved', overrideReason: overrideReason.trim() });
+  };
+
+  const reject = () => {
+    const reason = prompt('Why is this angle rejected?');
+    if (reason === null) return;
+    if (!reason.trim()) {
+      toast.error('Give a reason for the rejection');
+      return;
+    }
+    decisionMutation.mutate({ decision: 'rejected', reason: reason.trim() });
+  };
+
+  const handleComment = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    const field = String(formData.get('field') ?? '') as AngleContentField | '';
+    const quote = String(formData.get('quote') ?? '').trim();
+    commentMutation.mutate(
+      {
+        body: String(formData.get('body') ?? '').trim(),
+        field: field || undefined,
+        quote: quote || undefined,
+      },
+      { onSuccess: () => form.reset() }
+    );
+  };
+
+  const handleClose = () => {
+    setAssigned(null);
+    onClose();
+  };
+
+  const selected = assigned ?? review?.reviewers.map((reviewer) => reviewer.userId) ?? [];
+  const toggleReviewer = (userId: string) =>
+    setAssigned(selected.includes(userId) ? selected.filter((id) => id !== userId) : [...selected, userId]);
+
+  return (
+    <Modal isOpen={!!angle} onClose={handleClose} title="Review" size="xl">
+      {!review ? (
+        <p className="text-sm text-gray-500">Loading review...</p>
+      ) : (
+        <div className="grid gap-6 md:grid-cols-2" data-testid="angle-review">
+          <div className="space-y-6">
+            <section>
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">Reviewers</h3>
+              <p className="text-xs text-gray-500 mb-2">
+                {review.approvals} of {review.requiredApprovals} required approval(s)
+              </p>
+              {review.eligibleReviewers.length === 0 ? (
+                <p className="text-sm text-gray-500">No workspace members can review angles.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {review.eligibleReviewers.map((user) => {
+                    const decision = review.reviewers.find((r) => r.userId === user.id)?.decision;
+                    return (
+                      <li key={user.id} className="flex items-center justify-between text-sm">
+                        <label className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={selected.includes(user.id)}
+                            onChange={() => toggleReviewer(user.id)}
+                            disabled={review.status === 'approved'}
+                          />
+                          {displayName(user)}
+                        </label>
+                        {decision && <span className={DECISION_STYLES[decision]}>{decision}</span>}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+              {assigned && (
+                <button
+                  type="button"
+                  onClick={() => reviewersMutation.mutate(assigned)}
+                  disabled={reviewersMutation.isPending}
+                  className="btn-primary text-xs mt-2"
+                >
+                  {reviewersMutation.isPending ? 'Saving...' : 'Save Reviewers'}
+                </button>
+              )}
+            </section>
+
+            {review.isReviewer && review.status === 'in_review' && (
+              <section className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={approve}
+                  disabled={decisionMutation.isPending}
+                  className="btn text-xs bg-green-100 text-green-700 hover:bg-green-200"
+                  aria-label="Approve angle"
+                >
+                  Approve
+                </button>
+                <button
+                  type="button"
+                  onClick={reject}
+                  disabled={decisionMutation.isPending}
+                  className="btn text-xs bg-red-100 text-red-700 hover:bg-red-200"
+                  aria-label="Reject angle"
+                >
+                  Reject
+                </button>
+              </section>
+            )}
+
+            <section>
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">Status History</h3>
+              {review.history.length === 0 ? (
+                <p className="text-sm text-gray-500">No status changes yet.</p>
+              ) : (
+                <ol className="space-y-2" data-testid="angle-status-history">
+                  {review.history.map((event) => (
+                    <li key={event.id} className="text-sm">
+                      <span className="font-medium">
+                        {event.fromStatus.replace('_', ' ')} → {event.toStatus.replace('_', ' ')}
+                      </span>{' '}
+                      <span className="text-gray-500">by {displayName(event.user)}</span>
+                      {event.reason && <p className="text-gray-600 italic">{event.reason}</p>}
+                      <span className="block text-xs text-gray-400">
+                        {new Date(event.createdAt).toLocaleString()}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </section>
+          </div>
+
+          <section>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">Comments</h3>
+            <div className="space-y-3 mb-4" data-testid="angle-comments">
+              {threads.length === 0 && <p className="text-sm text-gray-500">No comments yet.</p>}
+              {threads.map((thread) => (
+                <CommentThread
+                  key={thread.id}
+                  thread={thread}
+                  onReply={(body) => commentMutation.mutate({ body, parentId: thread.id })}
+                  onResolve={(resolved) => resolveMutation.mutate({ commentId: thread.id, resolved })}
+                />
+              ))}
+            </div>
+            <form onSubmit={handleComment} className="space-y-2">
+              <div className="flex gap-2">
+                <select name="field" className="input text-sm" defaultValue="">
+                  <option value="">Whole angle</option>
+                  {Object.entries(ANGLE_FIELD_LABELS).map(([field, label]) => (
+                    <option key={field} value={field}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <input name="quote" placeholder="Quoted text (optional)" className="input text-sm" />
+              </div>
+              <textarea name="body" required placeholder="Add a comment" className="input text-sm" rows={2} />
+              <div className="flex justify-end">
+                <button type="submit" disabled={commentMutation.isPending} className="btn-primary text-xs">
+                  Comment
+                </button>
+              </div>
+            </form>
+          </section>
+        </div>
+      )}
+    </Modal>
+  );
+}
+
+interface CommentThreadProps {
+  thread: AngleCommentThread;
+  onReply: (body: string) => void;
+  onResolve: (resolved: boolean) => void;
+}
+
+function CommentThread({ thread, onReply, onResolve }: CommentThreadProps) {
+  const [reply, setReply] = useState('');
+  const resolved = !!thread.resolvedAt;
+
+  return (
+    <div className={clsx('rounded-md border p-3 text-sm', resolved && 'opacity-60')}>
+      {thread.field && (
+        <p className="text-xs text-gray-500 mb-1">
+          {ANGLE_FIELD_LABELS[thread.field]}
+          {thread.quote && <span className="italic"> — “{thread.quote}”</span>}
+        </p>
+      )}
+      {[thread, ...thread.replies].map((comment) => (
+        <div key={comment.id} className={clsx(comment.parentId && 'ml-4 mt-2')}>
+          <span className="font-medium">{displayName(comment.author)}</span>{' '}
+          <span className="text-xs text-gray-400">{new Date(comment.createdAt).toLocaleString()}</span>
+          <p className="text-gray-700 whitespace-pre-wrap">{comment.body}</p>
+        </div>
+      ))}
+      <div className="flex gap-2 mt-2">
+        {!resolved && (
+          <input
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && reply.trim()) {
+                onReply(reply.trim());
+                setReply('');
+              }
+            }}
+            placeholder="Reply"
+            className="input text-xs flex-1"
+          />
+        )}
+        <button type="button" onClick={() => onResolve(!resolved)} className="btn-secondary text-xs">
+          {resolved ? 'Reopen' : 'Resolve'}
+        </button>
+      </div>
+    </div>
+  );
+}
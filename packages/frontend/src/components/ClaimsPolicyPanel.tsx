@@ -0,0 +1,131 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { projectsApi } from '../services/api';
+import type { ClaimsPolicy, Project } from '../types';
+
+interface ClaimsPolicyPanelProps {
+  project: Project;
+}
+
+const lines = (value: FormDataEntryValue | null) =>
+  String(value ?? '')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+// One entry per line: "text" or "text | when-pattern". Only the first "|"
+// separates, so the pattern can use alternation.
+function parseDisclaimers(value: FormDataEntryValue | null): ClaimsPolicy['requiredDisclaimers'] {
+  return lines(value).map((line) => {
+    const separator = line.indexOf('|');
+    if (separator < 0) return { text: line };
+    const text = line.slice(0, separator).trim();
+    const when = line.slice(separator + 1).trim();
+    return when ? { text, when } : { text };
+  });
+}
+
+// One rule per line: "pattern => message"; patterns are case-insensitive
+function parseRules(value: FormDataEntryValue | null): ClaimsPolicy['regexRules'] {
+  return lines(value).map((line) => {
+    const separator = line.lastIndexOf('=>');
+    if (separator < 0) return { pattern: line, flags: 'i', message: 'Matches a restricted pattern' };
+    return {
+      pattern: line.slice(0, separator).trim(),
+      flags: 'i',
+      message: line.slice(separator + 2).trim() || 'Matches a restricted pattern',
+    };
+  });
+}
+
+export function ClaimsPolicyPanel({ project }: ClaimsPolicyPanelProps) {
+  const queryClient = useQueryClient();
+  const policy = project.claimsPolicy;
+
+  const saveMutation = useMutation({
+    mutationFn: (claimsPolicy: ClaimsPolicy | null) => projectsApi.update(project.id, { claimsPolicy }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['project', project.id] });
+      toast.success('Claims policy saved');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    saveMutation.mutate({
+      forbiddenPhrases: lines(formData.get('forbiddenPhrases')),
+      requiredDisclaimers: parseDisclaimers(formData.get('requiredDisclaimers')),
+      regexRules: parseRules(formData.get('regexRules')),
+      allowCompetitorMentions: formData.get('allowCompetitorMentions') === 'on',
+    });
+  };
+
+  return (
+    <div className="card mb-8" data-testid="claims-policy">
+      <h2 className="text-lg font-semibold mb-1">Claims Policy</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Angles that break these rules cannot be approved without an override reason.
+      </p>
+      <form key={project.updatedAt} onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-3">
+          <div>
+            <label className="label">Forbidden phrases (one per line)</label>
+            <textarea
+              name="forbiddenPhrases"
+              defaultValue={policy?.forbiddenPhrases.join('\n')}
+              className="input text-sm"
+              rows={4}
+            />
+          </div>
+          <div>
+            <label className="label">Required disclaimers (text | when)</label>
+            <textarea
+              name="requiredDisclaimers"
+              defaultValue={policy?.requiredDisclaimers
+                .map((d) => (d.when ? `${d.text} | ${d.when}` : d.text))
+                .join('\n')}
+              placeholder="Capital at risk | invest|returns"
+              className="input text-sm"
+              rows={4}
+            />
+          </div>
+          <div>
+            <label className="label">Pattern rules (pattern =&gt; message)</label>
+            <textarea
+              name="regexRules"
+              defaultValue={policy?.regexRules.map((r) => `${r.pattern} => ${r.message}`).join('\n')}
+              placeholder="\d+% returns? => Return figures need approval"
+              className="input font-mono text-sm"
+              rows={4}
+            />
+          </div>
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            name="allowCompetitorMentions"
+            defaultChecked={policy?.allowCompetitorMentions ?? false}
+          />
+          Allow naming competitors from the seed data
+        </label>
+        <div className="flex justify-end gap-3">
+          {policy && (
+            <button
+              type="button"
+              onClick={() => saveMutation.mutate(null)}
+              disabled={saveMutation.isPending}
+              className="btn-secondary"
+            >
+              Remove Policy
+            </button>
+          )}
+          <button type="submit" disabled={saveMutation.isPending} className="btn-primary">
+            {saveMutation.isPending ? 'Saving...' : 'Save Policy'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import type { DiffSegment, FieldDiff } from '../types';
+
+interface FieldDiffListProps<F extends string> {
+  changes: FieldDiff<F>[];
+  labels: Record<F, string>;
+  dir?: 'ltr' | 'rtl';
+}
+
+const SEGMENT_STYLES: Record<DiffSegment['type'], string> = {
+  equal: 'text-gray-700',
+  insert: 'bg-green-100 text-green-800',
+  delete: 'bg-red-100 text-red-700 line-through',
+};
+
+function formatValue(value: unknown): string {
+  return value === null || value === undefined || value === '' ? '(empty)' : String(value);
+}
+
+export function FieldDiffList<F extends string>({ changes, labels, dir }: FieldDiffListProps<F>) {
+  return (
+    <div className="space-y-4">
+      {changes.map((change) => (
+        <div key={change.field}>
+          <h4 className="text-sm font-medium text-gray-500">{labels[change.field]}</h4>
+          {change.segments ? (
+            <p dir={dir} className="text-sm whitespace-pre-wrap">
+              {change.segments.map((segment, i) => (
+                <span key={i} className={SEGMENT_STYLES[segment.type]}>
+                  {segment.text}
+                </span>
+              ))}
+            </p>
+          ) : (
+            <p dir={dir} className="text-sm">
+              <span className={SEGMENT_STYLES.delete}>{formatValue(change.from)}</span>{' '}
+              <span className={SEGMENT_STYLES.insert}>{formatValue(change.to)}</span>
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
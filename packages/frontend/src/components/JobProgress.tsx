@@ -0,0 +1,39 @@
+import type { Job } from '../types';
+
+interface JobProgressProps {
+  job?: Job;
+  label: string;
+  onCancel?: () => void;
+}
+
+export function JobProgress({ job, label, onCancel }: JobProgressProps) {
+  const progress = job?.progress ?? 0;
+  const isQueued = !job || job.status === 'queued';
+
+  return (
+    <div className="card" role="status" data-testid="job-progress">
+      <div className="flex justify-between items-center mb-2 text-sm">
+        <span className="font-medium text-gray-900">{label}</span>
+        <span className="text-gray-600">{isQueued ? 'Queued' : `${progress}%`}</span>
+      </div>
+      <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-primary-600 transition-all"
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+      {job?.progressMessage && (
+        <p className="text-xs text-gray-500 mt-2">{job.progressMessage}</p>
+      )}
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          disabled={job?.cancelRequested}
+          className="btn-secondary text-sm mt-3"
+        >
+          {job?.cancelRequested ? 'Cancelling...' : 'Cancel'}
+        </button>
+      )}
+    </div>
+  );
+}
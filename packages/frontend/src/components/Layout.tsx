@@ -1,5 +1,7 @@
-import { Outlet, Link, useLocation } from 'react-router-dom';
+import { Outlet, Link, Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
 import { clsx } from 'clsx';
+import { authApi, isAuthenticated } from '../services/api';
 
 const navigation = [
   { name: 'Projects', href: '/projects' },
@@ -7,6 +9,18 @@ const navigation = [
 
 export function Layout() {
   const location = useLocation();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  if (!isAuthenticated()) {
+    return <Navigate to="/login" replace />;
+  }
+
+  const handleSignOut = async () => {
+    await authApi.logout().catch(() => undefined);
+    queryClient.clear();
+    navigate('/login', { replace: true });
+  };
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -34,6 +48,14 @@ export function Layout() {
                 ))}
               </div>
             </div>
+            <div className="flex items-center">
+              <button
+                onClick={handleSignOut}
+                className="px-3 py-2 text-sm font-medium text-gray-600 hover:text-gray-900"
+              >
+                Sign out
+              </button>
+            </div>
           </div>
         </div>
       </nav>
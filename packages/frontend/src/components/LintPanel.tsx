@@ -0,0 +1,49 @@
+import { useQuery } from '@tanstack/react-query';
+import { clsx } from 'clsx';
+import { localizationsApi } from '../services/api';
+import type { LintSeverity } from '../types';
+
+interface LintPanelProps {
+  contentId: string;
+}
+
+const SEVERITY_STYLES: Record<LintSeverity, string> = {
+  error: 'bg-red-100 text-red-700',
+  warning: 'bg-yellow-100 text-yellow-800',
+  info: 'bg-blue-100 text-blue-700',
+};
+
+export function LintPanel({ contentId }: LintPanelProps) {
+  const { data: report } = useQuery({
+    queryKey: ['lint', contentId],
+    queryFn: () => localizationsApi.getLint(contentId),
+  });
+
+  if (!report) return null;
+
+  if (report.findings.length === 0) {
+    return (
+      <p className="text-sm text-green-700" data-testid="lint-panel">
+        Passes all platform compliance checks
+      </p>
+    );
+  }
+
+  return (
+    <div data-testid="lint-panel">
+      <h4 className="text-sm font-medium text-gray-700 mb-2">
+        Compliance: {report.summary.error} error(s), {report.summary.warning} warning(s)
+      </h4>
+      <ul className="space-y-1 max-h-40 overflow-y-auto">
+        {report.findings.map((finding) => (
+          <li key={finding.id} className="flex items-start gap-2 text-sm">
+            <span className={clsx('badge shrink-0', SEVERITY_STYLES[finding.severity])}>
+              {finding.severity}
+            </span>
+            <span className="text-gray-700">{finding.message}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { localizationsApi } from '../services/api';
+import { useLocales } from '../hooks/useLocales';
+import type { Locale, UserSummary } from '../types';
+
+interface LocaleReviewersPanelProps {
+  projectId: string;
+}
+
+const displayName = (user: UserSummary) => user.name ?? user.email;
+
+export function LocaleReviewersPanel({ projectId }: LocaleReviewersPanelProps) {
+  const queryClient = useQueryClient();
+  const { locales, labelFor } = useLocales();
+  const [locale, setLocale] = useState<Locale | ''>('');
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const { data } = useQuery({
+    queryKey: ['locale-reviewers', projectId],
+    queryFn: () => localizationsApi.getLocaleReviewers(projectId),
+  });
+  const reviewers = data?.reviewers ?? [];
+
+  const saveMutation = useMutation({
+    mutationFn: ({ locale, userIds }: { locale: Locale; userIds: string[] }) =>
+      localizationsApi.setLocaleReviewers(projectId, locale, userIds),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['locale-reviewers', projectId] });
+      toast.success('Reviewers saved');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const chooseLocale = (code: Locale | '') => {
+    setLocale(code);
+    setSelected(reviewers.filter((r) => r.locale === code).map((r) => r.userId));
+  };
+
+  const toggle = (userId: string) =>
+    setSelected(selected.includes(userId) ? selected.filter((id) => id !== userId) : [...selected, userId]);
+
+  // Assigned reviewers, grouped by locale
+  const byLocale = reviewers.reduce<Record<string, string[]>>((acc, reviewer) => {
+    acc[reviewer.locale] = [...(acc[reviewer.locale] ?? []), displayName(reviewer.user)];
+    return acc;
+  }, {});
+
+  return (
+    <div className="card mb-8" data-testid="locale-reviewers">
+      <h2 className="text-lg font-semibold mb-1">Translation Reviewers</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Native speakers who approve localizations in each locale.
+      </p>
+
+      {Object.keys(byLocale).length > 0 && (
+        <ul className="text-sm mb-4 space-y-1">
+          {Object.entries(byLocale).map(([code, names]) => (
+            <li key={code}>
+              <span className="font-medium">{labelFor(code as Locale)}:</span> {names.join(', ')}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-start gap-6">
+        <div>
+          <label className="label" htmlFor="reviewerLocale">
+            Locale
+          </label>
+          <select
+            id="reviewerLocale"
+            value={locale}
+            onChange={(e) => chooseLocale(e.target.value as Locale | '')}
+            className="input w-48"
+          >
+            <option value="">Choose a locale</option>
+            {locales.map((info) => (
+              <option key={info.code} value={info.code}>
+                {info.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {locale && (
+          <div className="space-y-1">
+            <span className="label">Reviewers</span>
+            {data?.eligibleReviewers.length === 0 && (
+              <p className="text-sm text-gray-500">No workspace members can review localizations.</p>
+            )}
+            {data?.eligibleReviewers.map((user) => (
+              <label key={user.id} className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={selected.includes(user.id)} onChange={() => toggle(user.id)} />
+                {displayName(user)}
+              </label>
+            ))}
+            <button
+              type="button"
+              onClick={() => saveMutation.mutate({ locale, userIds: selected })}
+              disabled={saveMutation.isPending}
+              className="btn-primary text-xs mt-2"
+            >
+              {saveMutation.isPending ? 'Saving...' : 'Save Reviewers'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
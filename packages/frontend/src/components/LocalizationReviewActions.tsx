@@ -0,0 +1,96 @@
+import { useMutation } from '@tanstack/react-query';
+import { clsx } from 'clsx';
+import toast from 'react-hot-toast';
+import { localizationsApi } from '../services/api';
+import type { LocalizationReviewStatus, LocalizedContent } from '../types';
+
+interface LocalizationReviewActionsProps {
+  content: LocalizedContent;
+  onChange: () => void;
+}
+
+const STATUS_STYLES: Record<LocalizationReviewStatus, { label: string; className: string }> = {
+  machine: { label: 'Machine', className: 'bg-gray-100 text-gray-700' },
+  in_review: { label: 'In review', className: 'bg-blue-100 text-blue-700' },
+  approved: { label: 'Approved', className: 'bg-green-100 text-green-700' },
+  changes_requested: { label: 'Changes requested', className: 'bg-orange-100 text-orange-700' },
+};
+
+export function LocalizationReviewActions({ content, onChange }: LocalizationReviewActionsProps) {
+  const status = STATUS_STYLES[content.reviewStatus];
+
+  const submitMutation = useMutation({
+    mutationFn: () => localizationsApi.submitForReview(content.id),
+    onSuccess: () => {
+      onChange();
+      toast.success('Sent for review');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ decision, note }: { decision: 'approved' | 'changes_requested'; note?: string }) =>
+      localizationsApi.review(content.id, decision, note),
+    onSuccess: (_content, { decision }) => {
+      onChange();
+      toast.success(decision === 'approved' ? 'Localization approved' : 'Changes requested');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const requestChanges = () => {
+    const note = prompt('What should the translator change?');
+    if (note === null) return;
+    if (!note.trim()) {
+      toast.error('Describe the changes needed');
+      return;
+    }
+    reviewMutation.mutate({ decision: 'changes_requested', note: note.trim() });
+  };
+
+  return (
+    <div className="mb-3 text-xs" data-testid="localization-review">
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className={clsx('badge', status.className)}>{status.label}</span>
+        {content.reviewer && content.reviewStatus !== 'machine' && (
+          <span className="text-gray-500">{content.reviewer.name ?? content.reviewer.email}</span>
+        )}
+      </div>
+      {content.reviewStatus === 'changes_requested' && content.reviewNote && (
+        <p className="mt-1 text-orange-700 italic">{content.reviewNote}</p>
+      )}
+      <div className="flex gap-2 mt-2">
+        {(content.reviewStatus === 'machine' || content.reviewStatus === 'changes_requested') && (
+          <button
+            type="button"
+            onClick={() => submitMutation.mutate()}
+            disabled={submitMutation.isPending}
+            className="btn text-xs bg-blue-100 text-blue-700 hover:bg-blue-200"
+          >
+            Send for Review
+          </button>
+        )}
+        {content.reviewStatus === 'in_review' && (
+          <>
+            <button
+              type="button"
+              onClick={() => reviewMutation.mutate({ decision: 'approved' })}
+              disabled={reviewMutation.isPending}
+              className="btn text-xs bg-green-100 text-green-700 hover:bg-green-200"
+            >
+              Approve
+            </button>
+            <button
+              type="button"
+              onClick={requestChanges}
+              disabled={reviewMutation.isPending}
+              className="btn text-xs bg-orange-100 text-orange-700 hover:bg-orange-200"
+            >
+              Request Changes
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { packsApi } from '../services/api';
+import { Modal } from './Modal';
+import type { CreativePack, Job, PackLocalizationChange } from '../types';
+
+interface PackRebuildModalProps {
+  pack: CreativePack | null;
+  onClose: () => void;
+  // Called with the queued job; track it with useJob
+  onQueued: (job: Job) => void;
+}
+
+const SECTIONS = [
+  { key: 'added', title: 'Added', className: 'text-green-700' },
+  { key: 'changed', title: 'Changed', className: 'text-yellow-700' },
+  { key: 'removed', title: 'Removed', className: 'text-red-700' },
+] as const;
+
+const describe = (change: PackLocalizationChange) =>
+  `${change.locale} / ${change.platform} · angle ${change.angle_id.slice(0, 8)}`;
+
+export function PackRebuildModal({ pack, onClose, onQueued }: PackRebuildModalProps) {
+  const packId = pack?.id ?? '';
+
+  // Always fresh: the point is to see edits made since the modal last opened
+  const { data: changes, isLoading } = useQuery({
+    queryKey: ['pack-changes', packId],
+    queryFn: () => packsApi.changes(packId),
+    enabled: !!pack,
+    staleTime: 0,
+  });
+
+  const rebuildMutation = useMutation({
+    mutationFn: (data: Parameters<typeof packsApi.rebuild>[1]) => packsApi.rebuild(packId, data),
+    onSuccess: (job) => {
+      if (job) onQueued(job);
+      onClose();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const changedCount = changes
+    ? changes.added.length + changes.changed.length + changes.removed.length
+    : 0;
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    rebuildMutation.mutate({
+      delta: formData.get('delta') === 'on',
+      name: String(formData.get('name') ?? '').trim() || undefined,
+    });
+  };
+
+  return (
+    <Modal isOpen={!!pack} onClose={onClose} title={`Rebuild ${pack?.name ?? 'Pack'}`} size="lg">
+      <p className="text-sm text-gray-600 mb-4">
+        Builds version {(pack?.version ?? 1) + 1} from the current localizations, with the same
+        angles, locales, platforms and layout as version {pack?.version ?? 1}.
+      </p>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500 mb-4">Checking for changes...</p>
+      ) : !changes || changedCount === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">
+          Nothing has changed since version {pack?.version ?? 1}.
+        </p>
+      ) : (
+        <div className="border rounded-lg max-h-64 overflow-y-auto p-3 mb-4 space-y-3 text-sm">
+          {SECTIONS.map(
+            ({ key, title, className }) =>
+              changes[key].length > 0 && (
+                <div key={key}>
+                  <h4 className={`font-medium ${className}`}>
+                    {title} ({changes[key].length})
+                  </h4>
+                  <ul className="mt-1 space-y-1">
+                    {changes[key].map((change) => (
+                      <li key={`${key}-${describe(change)}`}>
+                        <p>{describe(change)}</p>
+                        <p className="text-xs text-gray-500">
+                          {[...change.files, ...(change.removed_files ?? [])].join(', ')}
+                        </p>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )
+          )}
+          <p className="text-xs text-gray-500">{changes.unchanged} localization(s) unchanged</p>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label className="label" htmlFor="rebuild-name">
+            Name (optional)
+          </label>
+          <input
+            id="rebuild-name"
+            name="name"
+            maxLength={255}
+            className="input"
+            placeholder={pack?.name}
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" name="delta" defaultChecked />
+          Also build a zip of only the changed files, with a changelog
+        </label>
+        <div className="flex justify-end gap-3">
+          <button type="button" onClick={onClose} className="btn-secondary">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={rebuildMutation.isPending || changedCount === 0}
+            className="btn-primary"
+          >
+            {rebuildMutation.isPending ? 'Queueing...' : 'Rebuild Pack'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
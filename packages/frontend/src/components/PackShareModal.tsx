@@ -0,0 +1,222 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { clsx } from 'clsx';
+import toast from 'react-hot-toast';
+import { packsApi } from '../services/api';
+import { Modal } from './Modal';
+import type { CreativePack, ShareLinkStatus } from '../types';
+
+interface PackShareModalProps {
+  pack: CreativePack | null;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ShareLinkStatus, string> = {
+  active: 'bg-green-100 text-green-700',
+  expired: 'bg-gray-100 text-gray-600',
+  revoked: 'bg-red-100 text-red-700',
+  exhausted: 'bg-yellow-100 text-yellow-700',
+};
+
+const copyLink = (url: string) =>
+  navigator.clipboard
+    .writeText(url)
+    .then(() => toast.success('Link copied'))
+    .catch(() => toast.error('Could not copy the link'));
+
+export function PackShareModal({ pack, onClose }: PackShareModalProps) {
+  const queryClient = useQueryClient();
+  const packId = pack?.id ?? '';
+
+  const { data: links = [], isLoading } = useQuery({
+    queryKey: ['pack-share-links', packId],
+    queryFn: () => packsApi.listShareLinks(packId),
+    enabled: !!pack,
+  });
+
+  const { data: downloads = [] } = useQuery({
+    queryKey: ['pack-downloads', packId],
+    queryFn: () => packsApi.listDownloads(packId, 20),
+    enabled: !!pack,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (data: Parameters<typeof packsApi.createShareLink>[1]) =>
+      packsApi.createShareLink(packId, data),
+    onSuccess: (link) => {
+      queryClient.invalidateQueries({ queryKey: ['pack-share-links', packId] });
+      if (link) void copyLink(link.url);
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (linkId: string) => packsApi.revokeShareLink(packId, linkId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pack-share-links', packId] });
+      toast.success('Link revoked');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    const maxDownloads = Number(formData.get('maxDownloads') ?? 0);
+
+    createMutation.mutate(
+      {
+        label: String(formData.get('label') ?? '').trim() || undefined,
+        expiresInHours: Number(formData.get('expiresInHours')),
+        password: String(formData.get('password') ?? '') || undefined,
+        maxDownloads: maxDownloads > 0 ? maxDownloads : undefined,
+      },
+      { onSuccess: () => form.reset() }
+    );
+  };
+
+  return (
+    <Modal isOpen={!!pack} onClose={onClose} title={`Share ${pack?.name ?? 'Pack'}`} size="lg">
+      <form onSubmit={handleSubmit} className="grid gap-4 md:grid-cols-2 mb-6">
+        <div>
+          <label className="label" htmlFor="share-label">
+            Label
+          </label>
+          <input
+            id="share-label"
+            name="label"
+            maxLength={100}
+            className="input"
+            placeholder="Agency name"
+          />
+        </div>
+        <div>
+          <label className="label" htmlFor="share-expires">
+            Valid For
+          </label>
+          <select id="share-expires" name="expiresInHours" className="input" defaultValue="72">
+            <option value="24">1 day</option>
+            <option value="72">3 days</option>
+            <option value="168">7 days</option>
+            <option value="720">30 days</option>
+          </select>
+        </div>
+        <div>
+          <label className="label" htmlFor="share-password">
+            Password (optional)
+          </label>
+          <input
+            id="share-password"
+            name="password"
+            type="password"
+            minLength={6}
+            autoComplete="new-password"
+            className="input"
+          />
+        </div>
+        <div>
+          <label className="label" htmlFor="share-max">
+            Download Limit (optional)
+          </label>
+          <input
+            id="share-max"
+            name="maxDownloads"
+            type="number"
+            min={1}
+            max={1000}
+            className="input"
+          />
+        </div>
+        <p className="text-xs text-gray-500 md:col-span-2">
+          Links never outlive the pack. Anyone with the link (and password) can download without an
+          account.
+        </p>
+        <div className="md:col-span-2 flex justify-end">
+          <button type="submit" disabled={createMutation.isPending} className="btn-primary">
+            {createMutation.isPending ? 'Creating...' : 'Create & Copy Link'}
+          </button>
+        </div>
+      </form>
+
+      <h3 className="font-medium text-gray-900 mb-2">Links</h3>
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading links...</p>
+      ) : links.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-6">No share links yet.</p>
+      ) : (
+        <ul className="divide-y border rounded-lg mb-6" data-testid="share-links">
+          {links.map((link) => (
+            <li key={link.id} className="flex items-center justify-between gap-3 p-3 text-sm">
+              <div className="min-w-0">
+                <p className="font-medium truncate">
+                  {link.label ?? 'Untitled link'}{' '}
+                  <span className={clsx('badge text-xs', STATUS_STYLES[link.status])}>
+                    {link.status}
+                  </span>
+                </p>
+                <p className="text-xs text-gray-500">
+                  {link.downloadCount}
+                  {link.maxDownloads !== null && ` / ${link.maxDownloads}`} downloads · expires{' '}
+                  {new Date(link.expiresAt).toLocaleString()}
+                  {link.hasPassword && ' · password'}
+                </p>
+              </div>
+              {link.status === 'active' && (
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => copyLink(link.url)}
+                    className="btn-secondary text-xs"
+                  >
+                    Copy
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      if (confirm('Revoke this link? It stops working immediately.')) {
+                        revokeMutation.mutate(link.id);
+                      }
+                    }}
+                    className="btn-danger text-xs"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <h3 className="font-medium text-gray-900 mb-2">Recent Downloads</h3>
+      {downloads.length === 0 ? (
+        <p className="text-sm text-gray-500">Nobody has downloaded this pack yet.</p>
+      ) : (
+        <table className="w-full text-xs text-left">
+          <thead className="text-gray-500">
+            <tr>
+              <th className="py-1">When</th>
+              <th className="py-1">By</th>
+              <th className="py-1">IP</th>
+            </tr>
+          </thead>
+          <tbody>
+            {downloads.map((download) => (
+              <tr key={download.id} className="border-t" title={download.userAgent ?? undefined}>
+                <td className="py-1">{new Date(download.createdAt).toLocaleString()}</td>
+                <td className="py-1">
+                  {download.user
+                    ? (download.user.name ?? download.user.email)
+                    : download.shareLink
+                      ? `Link: ${download.shareLink.label ?? 'untitled'}`
+                      : '—'}
+                </td>
+                <td className="py-1">{download.ip ?? '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,173 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { packTemplatesApi } from '../services/api';
+import type { CaptionFormat, PackFileKind } from '../types';
+
+export const CAPTION_FORMAT_OPTIONS: Array<{ value: CaptionFormat; label: string }> = [
+  { value: 'srt', label: 'SRT' },
+  { value: 'vtt', label: 'WebVTT' },
+  { value: 'ttml', label: 'TTML' },
+  { value: 'ass', label: 'ASS' },
+  { value: 'json', label: 'JSON cue sheet' },
+];
+
+const FILE_KIND_LABELS: Record<PackFileKind, string> = {
+  script: 'Script',
+  captions: 'Captions',
+  overlays: 'Overlays',
+  metadata: 'Metadata',
+  brief: 'Creative brief',
+};
+
+export function PackTemplatesPanel() {
+  const queryClient = useQueryClient();
+
+  const { data: templates = [] } = useQuery({
+    queryKey: ['pack-templates'],
+    queryFn: packTemplatesApi.list,
+  });
+
+  const { data: options } = useQuery({
+    queryKey: ['pack-template-options'],
+    queryFn: packTemplatesApi.options,
+    staleTime: Infinity,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: packTemplatesApi.create,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pack-templates'] });
+      toast.success('Template saved');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: packTemplatesApi.delete,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pack-templates'] });
+      toast.success('Template deleted');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    const fileTypes = formData.getAll('fileTypes') as PackFileKind[];
+    const captionFormats = formData.getAll('captionFormats') as CaptionFormat[];
+    if (fileTypes.length === 0 || captionFormats.length === 0) {
+      toast.error('Select at least one file type and caption format');
+      return;
+    }
+    createMutation.mutate(
+      {
+        name: String(formData.get('name') ?? '').trim(),
+        description: String(formData.get('description') ?? '').trim() || null,
+        pathTemplate: String(formData.get('pathTemplate') ?? '').trim(),
+        fileTypes,
+        captionFormats,
+      },
+      { onSuccess: () => form.reset() }
+    );
+  };
+
+  return (
+    <div className="card mb-8" data-testid="pack-templates">
+      <h2 className="text-lg font-semibold mb-1">Pack Templates</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Templates set the folder layout, file names and files of a pack for each agency you deliver
+        to.
+      </p>
+
+      {templates.length > 0 && (
+        <ul className="divide-y mb-4">
+          {templates.map((template) => (
+            <li key={template.id} className="flex items-start justify-between py-2 text-sm">
+              <div>
+                <p className="font-medium">{template.name}</p>
+                <p className="font-mono text-xs text-gray-600">{template.pathTemplate}</p>
+                <p className="text-xs text-gray-500">
+                  {template.fileTypes.map((kind) => FILE_KIND_LABELS[kind]).join(', ')} ·{' '}
+                  {template.captionFormats.join(', ').toUpperCase()}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => {
+                  if (confirm(`Delete the ${template.name} template?`)) {
+                    deleteMutation.mutate(template.id);
+                  }
+                }}
+                className="btn-danger text-xs"
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div className="grid gap-3 md:grid-cols-2">
+          <input name="name" required placeholder="Template name" className="input text-sm" />
+          <input
+            name="description"
+            placeholder="Description (optional)"
+            className="input text-sm"
+          />
+        </div>
+        <input
+          key={options?.defaultPathTemplate}
+          name="pathTemplate"
+          required
+          defaultValue={options?.defaultPathTemplate}
+          className="input text-sm font-mono"
+          aria-label="Path template"
+        />
+        {options && (
+          <p className="text-xs text-gray-500">
+            Tokens:{' '}
+            {Object.entries(options.tokens).map(([token, description]) => (
+              <span key={token} title={description} className="font-mono mr-2">
+                {`{${token}}`}
+              </span>
+            ))}
+          </p>
+        )}
+        <div className="flex flex-wrap gap-4 text-sm">
+          {(options?.fileTypes ?? []).map((kind) => (
+            <label key={kind} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                name="fileTypes"
+                value={kind}
+                defaultChecked={kind !== 'brief'}
+              />
+              {FILE_KIND_LABELS[kind]}
+            </label>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-4 text-sm">
+          {CAPTION_FORMAT_OPTIONS.map((format) => (
+            <label key={format.value} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                name="captionFormats"
+                value={format.value}
+                defaultChecked={format.value === 'srt'}
+              />
+              {format.label}
+            </label>
+          ))}
+        </div>
+        <div className="flex justify-end">
+          <button type="submit" disabled={createMutation.isPending} className="btn-primary text-sm">
+            {createMutation.isPending ? 'Saving...' : 'Add Template'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { projectsApi } from '../services/api';
+import type { Project } from '../types';
+
+interface ReviewSettingsPanelProps {
+  project: Project;
+}
+
+export function ReviewSettingsPanel({ project }: ReviewSettingsPanelProps) {
+  const queryClient = useQueryClient();
+
+  const saveMutation = useMutation({
+    mutationFn: (requiredApprovals: number) => projectsApi.update(project.id, { requiredApprovals }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['project', project.id] });
+      toast.success('Review settings saved');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    saveMutation.mutate(Number(formData.get('requiredApprovals')));
+  };
+
+  return (
+    <div className="card mb-8" data-testid="review-settings">
+      <h2 className="text-lg font-semibold mb-1">Review</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Angles are approved once this many assigned reviewers approve them. One rejection sends an
+        angle back.
+      </p>
+      <form key={project.updatedAt} onSubmit={handleSubmit} className="flex items-end gap-3">
+        <div>
+          <label className="label" htmlFor="requiredApprovals">
+            Required approvals
+          </label>
+          <input
+            id="requiredApprovals"
+            name="requiredApprovals"
+            type="number"
+            min={1}
+            max={10}
+            defaultValue={project.requiredApprovals}
+            className="input w-24"
+          />
+        </div>
+        <button type="submit" disabled={saveMutation.isPending} className="btn-primary">
+          {saveMutation.isPending ? 'Saving...' : 'Save'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { useQuery } from '@tanstack/react-query';
+import { localizationsApi } from '../services/api';
+import { FieldDiffList } from './FieldDiffList';
+import type { LocalizedContent, LocalizedContentField } from '../types';
+
+interface TranslatorChangesPanelProps {
+  content: LocalizedContent;
+  dir?: 'ltr' | 'rtl';
+}
+
+const FIELD_LABELS: Record<LocalizedContentField, string> = {
+  script: 'Script',
+  captions: 'Captions',
+  onScreenText: 'On-Screen Text',
+  culturalNotes: 'Cultural Notes',
+  platformAdjustments: 'Platform Adjustments',
+};
+
+// What the translator changed from the latest machine output
+export function TranslatorChangesPanel({ content, dir }: TranslatorChangesPanelProps) {
+  const { data: diff } = useQuery({
+    queryKey: ['localization-diff', content.id, content.version],
+    queryFn: () => localizationsApi.diffRevisions(content.id),
+    enabled: content.origin === 'human',
+  });
+
+  if (content.origin !== 'human' || !diff?.changes.length) return null;
+
+  return (
+    <details className="rounded-md border p-3" data-testid="translator-changes">
+      <summary className="text-sm font-medium text-gray-700 cursor-pointer">
+        Translator changes since machine output (v{diff.from} → v{diff.to})
+      </summary>
+      <div className="mt-3">
+        <FieldDiffList changes={diff.changes} labels={FIELD_LABELS} dir={dir} />
+      </div>
+    </details>
+  );
+}
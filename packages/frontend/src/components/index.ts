@@ -3,3 +3,11 @@ export { ErrorBoundary } from './ErrorBoundary';
 export { Loading, PageLoading } from './Loading';
 export { Modal } from './Modal';
 export { AngleCardComponent } from './AngleCard';
+export { AngleHistoryModal } from './AngleHistoryModal';
+export { FieldDiffList } from './FieldDiffList';
+export { JobProgress } from './JobProgress';
+export { AIUsagePanel } from './AIUsagePanel';
+export { LintPanel } from './LintPanel';
+export { TranslatorChangesPanel } from './TranslatorChangesPanel';
+export { ClaimsPolicyPanel } from './ClaimsPolicyPanel';
+export { PackShareModal } from './PackShareModal';
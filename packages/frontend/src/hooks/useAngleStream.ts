@@ -0,0 +1,57 @@
+import { useEffect, useRef, useState } from 'react';
+import { anglesApi } from '../services/api';
+import type { AngleCard } from '../types';
+
+interface UseAngleStreamOptions {
+  onDone?: (count: number) => void;
+  onError?: (error: Error) => void;
+  onCancelled?: () => void;
+}
+
+/**
+ * Generate angles over the streaming endpoint. `angles` fills in as each card
+ * is saved; the cards stay until the next `start` so they can be shown while
+ * the angle list refetches.
+ */
+export function useAngleStream(projectId: string, options: UseAngleStreamOptions = {}) {
+  const [angles, setAngles] = useState<AngleCard[]>([]);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // Stop an in-flight stream when the page unmounts
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const start = async (count: number) => {
+    if (controllerRef.current) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setAngles([]);
+    setIsStreaming(true);
+
+    try {
+      const created = await anglesApi.generateStream(projectId, count, {
+        onAngle: (angle) => setAngles((current) => [...current, angle]),
+        signal: controller.signal,
+      });
+      optionsRef.current.onDone?.(created);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        optionsRef.current.onCancelled?.();
+      } else {
+        optionsRef.current.onError?.(error as Error);
+      }
+    } finally {
+      controllerRef.current = null;
+      setIsStreaming(false);
+    }
+  };
+
+  return {
+    angles,
+    isStreaming,
+    start,
+    cancel: () => controllerRef.current?.abort(),
+  };
+}
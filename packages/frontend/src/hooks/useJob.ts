@@ -0,0 +1,56 @@
+import { useEffect, useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { jobsApi } from '../services/api';
+import type { Job, JobStatus } from '../types';
+
+const POLL_INTERVAL_MS = 1000;
+
+const FINISHED_STATUSES: JobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+interface UseJobOptions<TResult> {
+  onSuccess?: (job: Job<TResult>) => void;
+  onFailure?: (job: Job<TResult>) => void;
+  onCancelled?: (job: Job<TResult>) => void;
+}
+
+/**
+ * Poll a background job until it finishes. Call `track` with the job returned
+ * by the endpoint that queued it; exactly one callback fires at the end.
+ */
+export function useJob<TResult = unknown>(options: UseJobOptions<TResult> = {}) {
+  const [jobId, setJobId] = useState<string | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const { data: job } = useQuery({
+    queryKey: ['job', jobId],
+    queryFn: () => jobsApi.get<TResult>(jobId ?? ''),
+    enabled: !!jobId,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status && FINISHED_STATUSES.includes(status) ? false : POLL_INTERVAL_MS;
+    },
+  });
+
+  useEffect(() => {
+    if (!job || job.id !== jobId || !FINISHED_STATUSES.includes(job.status)) return;
+
+    setJobId(null);
+    if (job.status === 'succeeded') {
+      optionsRef.current.onSuccess?.(job);
+    } else if (job.status === 'failed') {
+      optionsRef.current.onFailure?.(job);
+    } else {
+      optionsRef.current.onCancelled?.(job);
+    }
+  }, [job, jobId]);
+
+  return {
+    job: jobId ? job : undefined,
+    isRunning: !!jobId,
+    track: (queued: Job | undefined) => setJobId(queued?.id ?? null),
+    cancel: async () => {
+      if (jobId) await jobsApi.cancel(jobId);
+    },
+  };
+}
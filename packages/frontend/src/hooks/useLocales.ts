@@ -0,0 +1,25 @@
+import { useQuery } from '@tanstack/react-query';
+import { localesApi } from '../services/api';
+import type { Locale, LocaleInfo } from '../types';
+
+/**
+ * The locale registry from the backend. It only changes with a deploy, so it
+ * is fetched once per session.
+ */
+export function useLocales() {
+  const { data: locales = [], isLoading } = useQuery({
+    queryKey: ['locales'],
+    queryFn: localesApi.list,
+    staleTime: Infinity,
+  });
+
+  const byCode = new Map<Locale, LocaleInfo>(locales.map((locale) => [locale.code, locale]));
+
+  return {
+    locales,
+    isLoading,
+    // Falls back to the code for locales removed from the registry
+    labelFor: (code: Locale) => byCode.get(code)?.name ?? code,
+    directionFor: (code: Locale) => byCode.get(code)?.direction ?? 'ltr',
+  };
+}
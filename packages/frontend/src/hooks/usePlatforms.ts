@@ -0,0 +1,24 @@
+import { useQuery } from '@tanstack/react-query';
+import { platformsApi } from '../services/api';
+import type { Platform, PlatformInfo } from '../types';
+
+/**
+ * The platform registry from the backend. It only changes with a deploy, so it
+ * is fetched once per session.
+ */
+export function usePlatforms() {
+  const { data: platforms = [], isLoading } = useQuery({
+    queryKey: ['platforms'],
+    queryFn: platformsApi.list,
+    staleTime: Infinity,
+  });
+
+  const byId = new Map<Platform, PlatformInfo>(platforms.map((platform) => [platform.id, platform]));
+
+  return {
+    platforms,
+    isLoading,
+    // Falls back to the id for platforms removed from the registry
+    labelFor: (id: Platform) => byId.get(id)?.name ?? id,
+  };
+}
@@ -2,28 +2,42 @@ import { useState } from 'react';
 import { Link, useParams } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import toast from 'react-hot-toast';
-import { anglesApi, localizationsApi } from '../services/api';
+import { anglesApi, localizationsApi, projectsApi } from '../services/api';
 import { AngleCardComponent } from '../components/AngleCard';
 import { Modal } from '../components/Modal';
+import { AngleHistoryModal } from '../components/AngleHistoryModal';
+import { AngleReviewModal } from '../components/AngleReviewModal';
 import { PageLoading } from '../components/Loading';
-import type { AngleCard, AngleStatus, Locale, Platform } from '../types';
+import { JobProgress } from '../components/JobProgress';
+import { useJob } from '../hooks/useJob';
+import { useAngleStream } from '../hooks/useAngleStream';
+import { useLocales } from '../hooks/useLocales';
+import { usePlatforms } from '../hooks/usePlatforms';
+import type { AngleCard, AngleStatus, Locale, Platform, LocalizationResult } from '../types';
 
-const LOCALES: { value: Locale; label: string }[] = [
-  { value: 'en-US', label: 'English (US)' },
-  { value: 'es-ES', label: 'Spanish (Spain)' },
-  { value: 'fr-FR', label: 'French (France)' },
-  { value: 'de-DE', label: 'German (Germany)' },
-  { value: 'pt-BR', label: 'Portuguese (Brazil)' },
-];
+// Match the backend's per-request limits
+const MAX_LOCALES_PER_REQUEST = 5;
+const MAX_PLATFORMS_PER_REQUEST = 5;
 
-const PLATFORMS: Platform[] = ['tiktok', 'instagram', 'youtube'];
+const GENERATE_COUNT = 3;
 
 export function AnglesPage() {
   const { projectId } = useParams<{ projectId: string }>();
   const queryClient = useQueryClient();
   const [selectedAngle, setSelectedAngle] = useState<AngleCard | null>(null);
   const [localizeModal, setLocalizeModal] = useState<AngleCard | null>(null);
+  const [historyAngle, setHistoryAngle] = useState<AngleCard | null>(null);
+  const [reviewAngle, setReviewAngle] = useState<AngleCard | null>(null);
   const [statusFilter, setStatusFilter] = useState<AngleStatus | 'all'>('all');
+  const { locales: localeOptions } = useLocales();
+  const { platforms: platformOptions } = usePlatforms();
+
+  // The localize dialog preselects the project's own platforms
+  const { data: project } = useQuery({
+    queryKey: ['project', projectId],
+    queryFn: () => projectsApi.get(projectId ?? ''),
+    enabled: !!projectId,
+  });
 
   const { data, isLoading } = useQuery({
     queryKey: ['angles', projectId, statusFilter],
@@ -34,18 +48,35 @@ export function AnglesPage() {
     enabled: !!projectId,
   });
 
-  const generateMutation = useMutation({
-    mutationFn: (count: number) => anglesApi.generate(projectId ?? '', count),
-    onSuccess: () => {
+    // Angles already saved are kept whether the stream finishes, fails or is cancelled
+  const generateStream = useAngleStream(projectId ?? '', {
+    onDone: () => {
       queryClient.invalidateQueries({ queryKey: ['angles', projectId] });
       toast.success('Angles generated successfully');
     },
-    onError: (error: Error) => toast.error(error.message),
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ['angles', projectId] });
+      toast.error(error.message);
+    },
+    onCancelled: () => {
+      queryClient.invalidateQueries({ queryKey: ['angles', projectId] });
+      toast('Angle generation cancelled');
+    },
   });
 
+  const isGenerating = generateStream.isStreaming;
+
+  // Streamed cards show ahead of the list until a refetch includes them. They
+  // are always drafts, so other status filters leave them out.
+  const listedIds = new Set(data?.data.map((angle) => angle.id));
+  const streamedAngles =
+    statusFilter === 'all' || statusFilter === 'draft'
+      ? generateStream.angles.filter((angle) => !listedIds.has(angle.id)).reverse()
+      : [];
+  const angles = [...streamedAngles, ...(data?.data ?? [])];
+
   const statusMutation = useMutation({
-    mutationFn: ({ id, status }: { id: string; status: AngleStatus }) =>
-      anglesApi.updateStatus(id, status),
+    mutationFn: ({ id, status }: { id: string; status: AngleStatus }) => anglesApi.updateStatus(id, status),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['angles', projectId] });
       toast.success('Status updated');
@@ -62,6 +93,20 @@ export function AnglesPage() {
     onError: (error: Error) => toast.error(error.message),
   });
 
+  const localizeJob = useJob<LocalizationResult>({
+    onSuccess: (job) => {
+      queryClient.invalidateQueries({ queryKey: ['angles', projectId] });
+      const warnings = job.result?.warnings.length ?? 0;
+      if (warnings > 0) {
+        toast(`Localization complete with ${warnings} warning(s)`);
+      } else {
+        toast.success('Localization complete');
+      }
+    },
+    onFailure: (job) => toast.error(job.error?.message ?? 'Localization failed'),
+    onCancelled: () => toast('Localization cancelled'),
+  });
+
   const localizeMutation = useMutation({
     mutationFn: ({
       angleId,
@@ -72,10 +117,9 @@ export function AnglesPage() {
       locales: Locale[];
       platforms: Platform[];
     }) => localizationsApi.localize(angleId, locales, platforms),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['angles', projectId] });
+    onSuccess: (job) => {
+      localizeJob.track(job);
       setLocalizeModal(null);
-      toast.success('Localization complete');
     },
     onError: (error: Error) => toast.error(error.message),
   });
@@ -122,6 +166,14 @@ export function AnglesPage() {
       toast.error('Select at least one locale and platform');
       return;
     }
+    if (locales.length > MAX_LOCALES_PER_REQUEST) {
+      toast.error(`Select up to ${MAX_LOCALES_PER_REQUEST} locales at a time`);
+      return;
+    }
+    if (platforms.length > MAX_PLATFORMS_PER_REQUEST) {
+      toast.error(`Select up to ${MAX_PLATFORMS_PER_REQUEST} platforms at a time`);
+      return;
+    }
 
     localizeMutation.mutate({
       angleId: localizeModal.id,
@@ -160,20 +212,42 @@ export function AnglesPage() {
             <p className="text-gray-600 mt-1">{data?.meta?.total ?? 0} total angles</p>
           </div>
           <button
-            onClick={() => generateMutation.mutate(3)}
-            disabled={generateMutation.isPending}
+            onClick={() => generateStream.start(GENERATE_COUNT)}
+            disabled={isGenerating}
             className="btn-primary"
             data-testid="generate-angles"
             aria-label="Generate angles"
           >
-            {generateMutation.isPending ? 'Generating...' : 'Generate 3 Angles'}
+            {isGenerating ? 'Generating...' : `Generate ${GENERATE_COUNT} Angles`}
           </button>
         </div>
       </div>
 
+      {(isGenerating || localizeJob.isRunning) && (
+        <div className="mb-6 space-y-4">
+          {isGenerating && (
+            <div className="card flex justify-between items-center" role="status" data-testid="angle-stream-progress">
+              <span className="text-sm font-medium text-gray-900">
+                Generating angles... {generateStream.angles.length} of {GENERATE_COUNT} ready
+              </span>
+              <button onClick={generateStream.cancel} className="btn-secondary text-sm">
+                Cancel
+              </button>
+            </div>
+          )}
+          {localizeJob.isRunning && (
+            <JobProgress
+              job={localizeJob.job}
+              label="Localizing angle"
+              onCancel={() => localizeJob.cancel().catch((error: Error) => toast.error(error.message))}
+            />
+          )}
+        </div>
+      )}
+
       <div className="mb-6">
         <div className="flex gap-2">
-          {(['all', 'draft', 'approved', 'rejected', 'archived'] as const).map((status) => (
+          {(['all', 'draft', 'in_review', 'approved', 'rejected', 'archived'] as const).map((status) => (
             <button
               key={status}
               onClick={() => setStatusFilter(status)}
@@ -181,19 +255,19 @@ export function AnglesPage() {
                 statusFilter === status ? 'btn-primary' : 'btn-secondary'
               }`}
             >
-              {status.charAt(0).toUpperCase() + status.slice(1)}
+              {status.charAt(0).toUpperCase() + status.slice(1).replace('_', ' ')}
             </button>
           ))}
         </div>
       </div>
 
-      {data?.data.length === 0 ? (
+      {angles.length === 0 ? (
         <div className="card text-center py-12">
           <h3 className="text-lg font-medium text-gray-900 mb-2">No angles yet</h3>
           <p className="text-gray-600 mb-4">Generate angles to get started</p>
           <button
-            onClick={() => generateMutation.mutate(3)}
-            disabled={generateMutation.isPending}
+            onClick={() => generateStream.start(GENERATE_COUNT)}
+            disabled={isGenerating}
             className="btn-primary"
           >
             Generate Angles
@@ -201,7 +275,7 @@ export function AnglesPage() {
         </div>
       ) : (
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-          {data?.data.map((angle) => (
+          {angles.map((angle) => (
             <AngleCardComponent
               key={angle.id}
               angle={angle}
@@ -213,8 +287,14 @@ export function AnglesPage() {
                   deleteMutation.mutate(angle.id);
                 }
               }}
-              onMarkWinner={() => winnerMutation.mutate({ id: angle.id, isWinner: !angle.isWinner })}
+              onMarkWinner={
+                angle.status === 'approved'
+                  ? () => winnerMutation.mutate({ id: angle.id, isWinner: !angle.isWinner })
+                  : undefined
+              }
               onRegenerate={() => regenerateMutation.mutate(angle.id)}
+              onHistory={() => setHistoryAngle(angle)}
+              onReview={() => setReviewAngle(angle)}
             />
           ))}
         </div>
@@ -288,11 +368,19 @@ export function AnglesPage() {
         <form onSubmit={handleLocalizeSubmit} className="space-y-4">
           <div>
             <label className="label">Select Locales</label>
-            <div className="space-y-2">
-              {LOCALES.map((locale) => (
-                <label key={locale.value} className="flex items-center gap-2">
-                  <input type="checkbox" name="locales" value={locale.value} defaultChecked />
-                  <span>{locale.label}</span>
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {localeOptions.map((locale) => (
+                <label key={locale.code} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    name="locales"
+                    value={locale.code}
+                    defaultChecked={locale.code === 'en-US'}
+                  />
+                  <span>{locale.name}</span>
+                  {locale.direction === 'rtl' && (
+                    <span className="badge bg-gray-100 text-gray-600 text-xs">RTL</span>
+                  )}
                 </label>
               ))}
             </div>
@@ -300,10 +388,15 @@ export function AnglesPage() {
           <div>
             <label className="label">Select Platforms</label>
             <div className="space-y-2">
-              {PLATFORMS.map((platform) => (
-                <label key={platform} className="flex items-center gap-2">
-                  <input type="checkbox" name="platforms" value={platform} defaultChecked />
-                  <span className="capitalize">{platform}</span>
+              {platformOptions.map((platform) => (
+                <label key={platform.id} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    name="platforms"
+                    value={platform.id}
+                    defaultChecked={project?.seedData.platforms.includes(platform.id)}
+                  />
+                  <span>{platform.name}</span>
                 </label>
               ))}
             </div>
@@ -318,6 +411,9 @@ export function AnglesPage() {
           </div>
         </form>
       </Modal>
+
+      <AngleHistoryModal angle={historyAngle} onClose={() => setHistoryAngle(null)} />
+      <AngleReviewModal angle={reviewAngle} onClose={() => setReviewAngle(null)} />
     </div>
   );
 }
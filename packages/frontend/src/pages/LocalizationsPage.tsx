@@ -5,23 +5,22 @@ import toast from 'react-hot-toast';
 import { anglesApi, localizationsApi } from '../services/api';
 import { Modal } from '../components/Modal';
 import { PageLoading } from '../components/Loading';
+import { LintPanel } from '../components/LintPanel';
+import { TranslatorChangesPanel } from '../components/TranslatorChangesPanel';
+import { LocalizationReviewActions } from '../components/LocalizationReviewActions';
+import { useLocales } from '../hooks/useLocales';
+import { usePlatforms } from '../hooks/usePlatforms';
 import type { LocalizedContent, Locale, Platform } from '../types';
 import { clsx } from 'clsx';
 
-const LOCALE_LABELS: Record<Locale, string> = {
-  'en-US': 'English (US)',
-  'es-ES': 'Spanish',
-  'fr-FR': 'French',
-  'de-DE': 'German',
-  'pt-BR': 'Portuguese',
-};
-
 export function LocalizationsPage() {
   const { projectId } = useParams<{ projectId: string }>();
   const queryClient = useQueryClient();
   const [selectedContent, setSelectedContent] = useState<LocalizedContent | null>(null);
   const [filterLocale, setFilterLocale] = useState<Locale | 'all'>('all');
   const [filterPlatform, setFilterPlatform] = useState<Platform | 'all'>('all');
+  const { locales, labelFor, directionFor } = useLocales();
+  const { platforms, labelFor: labelPlatform } = usePlatforms();
 
   const { data: anglesData, isLoading } = useQuery({
     queryKey: ['angles', projectId],
@@ -45,14 +44,46 @@ export function LocalizationsPage() {
   const updateMutation = useMutation({
     mutationFn: ({ id, data }: { id: string; data: Partial<LocalizedContent> }) =>
       localizationsApi.update(id, data),
-    onSuccess: () => {
+    onSuccess: (_content, { id }) => {
       queryClient.invalidateQueries({ queryKey: ['localizations', projectId] });
+      queryClient.invalidateQueries({ queryKey: ['lint', id] });
       setSelectedContent(null);
       toast.success('Content updated');
     },
     onError: (error: Error) => toast.error(error.message),
   });
 
+  const regenerateMutation = useMutation({
+    mutationFn: (content: LocalizedContent) =>
+      localizationsApi.regenerate(
+        content.angleId,
+        content.locale,
+        content.platform,
+        content.origin === 'human'
+      ),
+    onSuccess: (content) => {
+      queryClient.invalidateQueries({ queryKey: ['localizations', projectId] });
+      if (content) queryClient.invalidateQueries({ queryKey: ['lint', content.id] });
+      toast.success('Localization regenerated');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const importCaptionsMutation = useMutation({
+    mutationFn: ({ id, file }: { id: string; file: File }) => localizationsApi.importCaptions(id, file),
+    onSuccess: (result, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['localizations', projectId] });
+      queryClient.invalidateQueries({ queryKey: ['lint', id] });
+      const overlaps = result?.warnings.length ?? 0;
+      if (overlaps > 0) {
+        toast(`Imported ${result?.imported ?? 0} captions; ${overlaps} overlap the cue before`);
+      } else {
+        toast.success(`Imported ${result?.imported ?? 0} captions`);
+      }
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
   const deleteMutation = useMutation({
     mutationFn: localizationsApi.delete,
     onSuccess: () => {
@@ -115,9 +146,9 @@ export function LocalizationsPage() {
             className="input w-48"
           >
             <option value="all">All Locales</option>
-            {Object.entries(LOCALE_LABELS).map(([value, label]) => (
-              <option key={value} value={value}>
-                {label}
+            {locales.map((locale) => (
+              <option key={locale.code} value={locale.code}>
+                {locale.name}
               </option>
             ))}
           </select>
@@ -130,9 +161,11 @@ export function LocalizationsPage() {
             className="input w-48"
           >
             <option value="all">All Platforms</option>
-            <option value="tiktok">TikTok</option>
-            <option value="instagram">Instagram</option>
-            <option value="youtube">YouTube</option>
+            {platforms.map((platform) => (
+              <option key={platform.id} value={platform.id}>
+                {platform.name}
+              </option>
+            ))}
           </select>
         </div>
       </div>
@@ -161,23 +194,35 @@ export function LocalizationsPage() {
                     >
                       <div className="flex items-center justify-between mb-2">
                         <span className="badge bg-gray-100 text-gray-800">
-                          {LOCALE_LABELS[content.locale]}
+                          {labelFor(content.locale)}
                         </span>
                         <span className={clsx(
                           'badge',
                           content.platform === 'tiktok' && 'bg-pink-100 text-pink-700',
                           content.platform === 'instagram' && 'bg-purple-100 text-purple-700',
-                          content.platform === 'youtube' && 'bg-red-100 text-red-700'
+                          content.platform === 'youtube' && 'bg-red-100 text-red-700',
+                          !['tiktok', 'instagram', 'youtube'].includes(content.platform) &&
+                            'bg-gray-100 text-gray-700'
                         )}>
-                          {content.platform}
+                          {labelPlatform(content.platform)}
                         </span>
                       </div>
-                      <p className="text-sm text-gray-700 line-clamp-4 mb-3">
+                      <p
+                        dir={directionFor(content.locale)}
+                        className="text-sm text-gray-700 line-clamp-4 mb-3"
+                      >
                         {content.script}
                       </p>
                       <div className="text-xs text-gray-500 mb-3">
-                        {content.characterCount} chars / {content.wordCount} words
+                        {content.characterCount} chars / {content.wordCount} words · v{content.version}
+                        {content.origin === 'human' && (
+                          <span className="badge bg-blue-100 text-blue-700 ml-2">Translator edited</span>
+                        )}
                       </div>
+                      <LocalizationReviewActions
+                        content={content}
+                        onChange={() => queryClient.invalidateQueries({ queryKey: ['localizations', projectId] })}
+                      />
                       <div className="flex gap-2">
                         <button
                           onClick={() => setSelectedContent(content)}
@@ -185,6 +230,34 @@ export function LocalizationsPage() {
                         >
                           Edit
                         </button>
+                        <label className="btn-secondary text-xs cursor-pointer">
+                          Import Captions
+                          <input
+                            type="file"
+                            accept=".srt,.vtt"
+                            className="hidden"
+                            disabled={importCaptionsMutation.isPending}
+                            onChange={(e) => {
+                              const file = e.target.files?.[0];
+                              if (file) importCaptionsMutation.mutate({ id: content.id, file });
+                              e.target.value = '';
+                            }}
+                          />
+                        </label>
+                        <button
+                          onClick={() => {
+                            if (
+                              content.origin !== 'human' ||
+                              confirm('Regenerating replaces the translator\'s edits. Continue?')
+                            ) {
+                              regenerateMutation.mutate(content);
+                            }
+                          }}
+                          disabled={regenerateMutation.isPending}
+                          className="btn-secondary text-xs"
+                        >
+                          Regenerate
+                        </button>
                         <button
                           onClick={() => {
                             if (confirm('Delete this localization?')) {
@@ -196,6 +269,25 @@ export function LocalizationsPage() {
                           Delete
                         </button>
                       </div>
+                      <div className="flex gap-2 mt-2 text-xs">
+                        <span className="text-gray-500">Brief:</span>
+                        {(['pdf', 'html'] as const).map((format) => (
+                          <button
+                            key={format}
+                            onClick={() => {
+                              anglesApi
+                                .downloadBrief(content.angleId, format, {
+                                  locale: content.locale,
+                                  platform: content.platform,
+                                })
+                                .catch((error: Error) => toast.error(error.message));
+                            }}
+                            className="text-primary-600 hover:underline"
+                          >
+                            {format.toUpperCase()}
+                          </button>
+                        ))}
+                      </div>
                     </div>
                   ))}
                 </div>
@@ -213,10 +305,16 @@ export function LocalizationsPage() {
       >
         {selectedContent && (
           <form onSubmit={handleEditSubmit} className="space-y-4">
+            <LintPanel contentId={selectedContent.id} />
+            <TranslatorChangesPanel
+              content={selectedContent}
+              dir={directionFor(selectedContent.locale)}
+            />
             <div>
               <label className="label">Script</label>
               <textarea
                 name="script"
+                dir={directionFor(selectedContent.locale)}
                 defaultValue={selectedContent.script}
                 required
                 className="input font-mono text-sm"
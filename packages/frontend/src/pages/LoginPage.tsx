@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useMutation } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { authApi } from '../services/api';
+
+type Mode = 'login' | 'register';
+
+export function LoginPage() {
+  const [mode, setMode] = useState<Mode>('login');
+  const navigate = useNavigate();
+
+  const authMutation = useMutation({
+    mutationFn: ({ email, password, name }: { email: string; password: string; name?: string }) =>
+      mode === 'login' ? authApi.login(email, password) : authApi.register(email, password, name),
+    onSuccess: () => {
+      if (mode === 'register') {
+        toast.success('Account created. Check your email to verify it.');
+      }
+      navigate('/projects', { replace: true });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+
+    authMutation.mutate({
+      email: formData.get('email') as string,
+      password: formData.get('password') as string,
+      name: (formData.get('name') as string) || undefined,
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <div className="card w-full max-w-sm">
+        <h1 className="text-xl font-bold text-primary-600 mb-1">Teruxa</h1>
+        <p className="text-gray-600 text-sm mb-6">
+          {mode === 'login' ? 'Sign in to your account' : 'Create an account'}
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {mode === 'register' && (
+            <div>
+              <label className="label">Name (optional)</label>
+              <input name="name" className="input" autoComplete="name" />
+            </div>
+          )}
+
+          <div>
+            <label className="label">Email</label>
+            <input name="email" type="email" required className="input" autoComplete="email" />
+          </div>
+
+          <div>
+            <label className="label">Password</label>
+            <input
+              name="password"
+              type="password"
+              required
+              className="input"
+              autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+            />
+            {mode === 'register' && (
+              <p className="text-xs text-gray-500 mt-1">
+                At least 8 characters with upper and lower case letters, a number and one of !@#$%^&*
+              </p>
+            )}
+          </div>
+
+          <button type="submit" disabled={authMutation.isPending} className="btn-primary w-full">
+            {authMutation.isPending
+              ? 'Please wait...'
+              : mode === 'login'
+                ? 'Sign in'
+                : 'Create account'}
+          </button>
+        </form>
+
+        <button
+          type="button"
+          onClick={() => setMode(mode === 'login' ? 'register' : 'login')}
+          className="mt-4 text-sm text-primary-600 hover:underline"
+        >
+          {mode === 'login' ? "Don't have an account? Register" : 'Already registered? Sign in'}
+        </button>
+      </div>
+    </div>
+  );
+}
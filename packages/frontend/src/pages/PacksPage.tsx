@@ -2,25 +2,36 @@ import { useState } from 'react';
 import { Link, useParams } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import toast from 'react-hot-toast';
-import { anglesApi, packsApi } from '../services/api';
+import { anglesApi, packTemplatesApi, packsApi } from '../services/api';
 import { Modal } from '../components/Modal';
 import { PageLoading } from '../components/Loading';
-import type { Locale, Platform, CreativePack } from '../types';
+import { JobProgress } from '../components/JobProgress';
+import { PackShareModal } from '../components/PackShareModal';
+import { PackRebuildModal } from '../components/PackRebuildModal';
+import { useJob } from '../hooks/useJob';
+import { useLocales } from '../hooks/useLocales';
+import { usePlatforms } from '../hooks/usePlatforms';
+import { CAPTION_FORMAT_OPTIONS, PackTemplatesPanel } from '../components/PackTemplatesPanel';
+import type { CaptionFormat, Locale, Platform, CreativePack } from '../types';
+import { clsx } from 'clsx';
 
-const LOCALES: { value: Locale; label: string }[] = [
-  { value: 'en-US', label: 'English (US)' },
-  { value: 'es-ES', label: 'Spanish' },
-  { value: 'fr-FR', label: 'French' },
-  { value: 'de-DE', label: 'German' },
-  { value: 'pt-BR', label: 'Portuguese' },
-];
+const isExpired = (pack: CreativePack) =>
+  pack.expiresAt !== null && new Date(pack.expiresAt) <= new Date();
 
-const PLATFORMS: Platform[] = ['tiktok', 'instagram', 'youtube'];
+// Empty uses the workspace policy, "never" keeps the pack
+const parseExpiry = (value: string): number | null | undefined => {
+  if (!value) return undefined;
+  return value === 'never' ? null : Number(value);
+};
 
 export function PacksPage() {
   const { projectId } = useParams<{ projectId: string }>();
   const queryClient = useQueryClient();
   const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [sharingPack, setSharingPack] = useState<CreativePack | null>(null);
+  const [rebuildingPack, setRebuildingPack] = useState<CreativePack | null>(null);
+  const { locales: localeOptions } = useLocales();
+  const { platforms: platformOptions } = usePlatforms();
 
   const { data: packsData, isLoading: packsLoading } = useQuery({
     queryKey: ['packs', projectId],
@@ -34,14 +45,47 @@ export function PacksPage() {
     enabled: !!projectId && isCreateOpen,
   });
 
-  const createMutation = useMutation({
-    mutationFn: (data: { name: string; angleIds: string[]; locales: Locale[]; platforms: Platform[] }) =>
-      packsApi.create(projectId ?? '', data),
+  const { data: templates = [] } = useQuery({
+    queryKey: ['pack-templates'],
+    queryFn: packTemplatesApi.list,
+    enabled: isCreateOpen,
+  });
+
+  const buildJob = useJob({
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['packs', projectId] });
-      setIsCreateOpen(false);
       toast.success('Pack created successfully');
     },
+    onFailure: (job) => toast.error(job.error?.message ?? 'Pack build failed'),
+    onCancelled: () => toast('Pack build cancelled'),
+  });
+
+  const rebuildJob = useJob({
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['packs', projectId] });
+      toast.success('New pack version built');
+    },
+    onFailure: (job) => toast.error(job.error?.message ?? 'Pack rebuild failed'),
+    onCancelled: () => toast('Pack rebuild cancelled'),
+  });
+  const isBuilding = buildJob.isRunning || rebuildJob.isRunning;
+
+  const createMutation = useMutation({
+    mutationFn: (data: {
+      name: string;
+      angleIds: string[];
+      locales: Locale[];
+      platforms: Platform[];
+      approvedOnly: boolean;
+      captionFormats?: CaptionFormat[];
+      templateId?: string;
+      includeBrief: boolean;
+      expiresInDays?: number | null;
+    }) => packsApi.create(projectId ?? '', data),
+    onSuccess: (job) => {
+      buildJob.track(job);
+      setIsCreateOpen(false);
+    },
     onError: (error: Error) => toast.error(error.message),
   });
 
@@ -61,6 +105,7 @@ export function PacksPage() {
     const angleIds = formData.getAll('angles') as string[];
     const locales = formData.getAll('locales') as Locale[];
     const platforms = formData.getAll('platforms') as Platform[];
+    const captionFormats = formData.getAll('captionFormats') as CaptionFormat[];
 
     if (angleIds.length === 0) {
       toast.error('Select at least one angle');
@@ -76,10 +121,16 @@ export function PacksPage() {
       angleIds,
       locales,
       platforms,
+      approvedOnly: formData.get('approvedOnly') === 'on',
+      // None chosen: the template's formats, or SRT
+      captionFormats: captionFormats.length > 0 ? captionFormats : undefined,
+      templateId: String(formData.get('templateId') ?? '') || undefined,
+      includeBrief: formData.get('includeBrief') === 'on',
+      expiresInDays: parseExpiry(String(formData.get('expiresInDays') ?? '')),
     });
   };
 
-  const formatFileSize = (bytes: number | undefined) => {
+  const formatFileSize = (bytes: number | null | undefined) => {
     if (!bytes) return 'Unknown';
     if (bytes < 1024) return `${bytes} B`;
     if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
@@ -99,12 +150,38 @@ export function PacksPage() {
             <h1 className="text-2xl font-bold text-gray-900">Creative Packs</h1>
             <p className="text-gray-600 mt-1">{packsData?.data.length ?? 0} packs created</p>
           </div>
-          <button onClick={() => setIsCreateOpen(true)} className="btn-primary">
+          <button
+            onClick={() => setIsCreateOpen(true)}
+            disabled={isBuilding}
+            className="btn-primary"
+          >
             Create Pack
           </button>
         </div>
       </div>
 
+      {buildJob.isRunning && (
+        <div className="mb-6">
+          <JobProgress
+            job={buildJob.job}
+            label="Building pack"
+            onCancel={() => buildJob.cancel().catch((error: Error) => toast.error(error.message))}
+          />
+        </div>
+      )}
+
+      {rebuildJob.isRunning && (
+        <div className="mb-6">
+          <JobProgress
+            job={rebuildJob.job}
+            label="Rebuilding pack"
+            onCancel={() => rebuildJob.cancel().catch((error: Error) => toast.error(error.message))}
+          />
+        </div>
+      )}
+
+      <PackTemplatesPanel />
+
       {packsData?.data.length === 0 ? (
         <div className="card text-center py-12">
           <h3 className="text-lg font-medium text-gray-900 mb-2">No packs yet</h3>
@@ -117,11 +194,28 @@ export function PacksPage() {
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
           {packsData?.data.map((pack: CreativePack) => (
             <div key={pack.id} className="card">
-              <h3 className="font-semibold text-gray-900 mb-2">{pack.name}</h3>
+              <h3 className="font-semibold text-gray-900 mb-2">
+                {pack.name}{' '}
+                <span className="badge bg-gray-100 text-gray-700 text-xs">v{pack.version}</span>
+              </h3>
               <div className="text-sm text-gray-600 mb-4">
                 <p>Size: {formatFileSize(pack.fileSize)}</p>
                 <p>Downloads: {pack.downloadCount}</p>
                 <p>Files: {pack.manifest.contents.total_files}</p>
+                {pack.manifest.template && <p>Layout: {pack.manifest.template.name}</p>}
+                {pack.manifest.changes && (
+                  <p>
+                    Since v{pack.manifest.changes.previous_version}:{' '}
+                    {pack.manifest.changes.added.length} added,{' '}
+                    {pack.manifest.changes.changed.length} changed,{' '}
+                    {pack.manifest.changes.removed.length} removed
+                  </p>
+                )}
+                <p className={clsx(isExpired(pack) && 'text-red-600')}>
+                  {pack.expiresAt
+                    ? `${isExpired(pack) ? 'Expired' : 'Expires'} ${new Date(pack.expiresAt).toLocaleDateString()}`
+                    : 'Kept until deleted'}
+                </p>
               </div>
               <div className="flex flex-wrap gap-1 mb-4">
                 {pack.manifest.contents.locales.map((locale) => (
@@ -135,13 +229,38 @@ export function PacksPage() {
                   </span>
                 ))}
               </div>
-              <div className="flex gap-2">
+              <div className="flex flex-wrap gap-2">
                 <button
                   onClick={() => packsApi.download(pack.id)}
+                  disabled={isExpired(pack)}
                   className="btn-primary text-sm"
                 >
                   Download
                 </button>
+                {!!pack.deltaFileSize && (
+                  <button
+                    onClick={() => packsApi.download(pack.id, 'delta')}
+                    disabled={isExpired(pack)}
+                    title={`Only files changed since the previous version (${formatFileSize(pack.deltaFileSize)})`}
+                    className="btn-secondary text-sm"
+                  >
+                    Changes Only
+                  </button>
+                )}
+                <button
+                  onClick={() => setRebuildingPack(pack)}
+                  disabled={isBuilding}
+                  className="btn-secondary text-sm"
+                >
+                  Rebuild
+                </button>
+                <button
+                  onClick={() => setSharingPack(pack)}
+                  disabled={isExpired(pack)}
+                  className="btn-secondary text-sm"
+                >
+                  Share
+                </button>
                 <button
                   onClick={() => {
                     if (confirm('Delete this pack?')) {
@@ -158,6 +277,13 @@ export function PacksPage() {
         </div>
       )}
 
+      <PackShareModal pack={sharingPack} onClose={() => setSharingPack(null)} />
+      <PackRebuildModal
+        pack={rebuildingPack}
+        onClose={() => setRebuildingPack(null)}
+        onQueued={rebuildJob.track}
+      />
+
       {/* Create Pack Modal */}
       <Modal
         isOpen={isCreateOpen}
@@ -202,11 +328,11 @@ export function PacksPage() {
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="label">Locales</label>
-              <div className="space-y-2">
-                {LOCALES.map((locale) => (
-                  <label key={locale.value} className="flex items-center gap-2">
-                    <input type="checkbox" name="locales" value={locale.value} defaultChecked />
-                    <span className="text-sm">{locale.label}</span>
+              <div className="space-y-2 max-h-64 overflow-y-auto">
+                {localeOptions.map((locale) => (
+                  <label key={locale.code} className="flex items-center gap-2">
+                    <input type="checkbox" name="locales" value={locale.code} defaultChecked />
+                    <span className="text-sm">{locale.name}</span>
                   </label>
                 ))}
               </div>
@@ -214,16 +340,69 @@ export function PacksPage() {
             <div>
               <label className="label">Platforms</label>
               <div className="space-y-2">
-                {PLATFORMS.map((platform) => (
-                  <label key={platform} className="flex items-center gap-2">
-                    <input type="checkbox" name="platforms" value={platform} defaultChecked />
-                    <span className="text-sm capitalize">{platform}</span>
+                {platformOptions.map((platform) => (
+                  <label key={platform.id} className="flex items-center gap-2">
+                    <input type="checkbox" name="platforms" value={platform.id} defaultChecked />
+                    <span className="text-sm">{platform.name}</span>
                   </label>
                 ))}
               </div>
             </div>
           </div>
 
+          <div>
+            <label className="label" htmlFor="templateId">
+              Layout
+            </label>
+            <select id="templateId" name="templateId" className="input" defaultValue="">
+              <option value="">Default (locale/platform/angle folders)</option>
+              {templates.map((template) => (
+                <option key={template.id} value={template.id}>
+                  {template.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="label" htmlFor="expiresInDays">
+              Keep For
+            </label>
+            <select id="expiresInDays" name="expiresInDays" className="input" defaultValue="">
+              <option value="">Workspace default</option>
+              <option value="1">1 day</option>
+              <option value="7">7 days</option>
+              <option value="30">30 days</option>
+              <option value="90">90 days</option>
+              <option value="never">Until deleted</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="label">Caption Formats</label>
+            <p className="text-xs text-gray-500 mb-2">
+              Leave all unchecked to use the template formats, or SRT without a template.
+            </p>
+            <div className="flex flex-wrap gap-4">
+              {CAPTION_FORMAT_OPTIONS.map((format) => (
+                <label key={format.value} className="flex items-center gap-2">
+                  <input type="checkbox" name="captionFormats" value={format.value} />
+                  <span className="text-sm">{format.label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" name="approvedOnly" />
+            Only include localizations approved by a reviewer
+          </label>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" name="includeBrief" />
+            Add an HTML and PDF creative brief for each localization
+          </label>
+
           <div className="flex justify-end gap-3 pt-4">
             <button type="button" onClick={() => setIsCreateOpen(false)} className="btn-secondary">
               Cancel
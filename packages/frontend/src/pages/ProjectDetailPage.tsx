@@ -3,11 +3,19 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import toast from 'react-hot-toast';
 import { projectsApi, anglesApi } from '../services/api';
 import { PageLoading } from '../components/Loading';
+import { JobProgress } from '../components/JobProgress';
+import { AIUsagePanel } from '../components/AIUsagePanel';
+import { ClaimsPolicyPanel } from '../components/ClaimsPolicyPanel';
+import { ReviewSettingsPanel } from '../components/ReviewSettingsPanel';
+import { LocaleReviewersPanel } from '../components/LocaleReviewersPanel';
+import { useJob } from '../hooks/useJob';
+import { usePlatforms } from '../hooks/usePlatforms';
 
 export function ProjectDetailPage() {
   const { projectId } = useParams<{ projectId: string }>();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
+  const { labelFor: labelPlatform } = usePlatforms();
 
   const { data: project, isLoading } = useQuery({
     queryKey: ['project', projectId],
@@ -21,17 +29,30 @@ export function ProjectDetailPage() {
     enabled: !!projectId,
   });
 
-  const generateMutation = useMutation({
-    mutationFn: () => anglesApi.generate(projectId ?? '', 3),
+  const generateJob = useJob({
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['angles', projectId] });
+      queryClient.invalidateQueries({ queryKey: ['ai-usage', projectId] });
       toast.success('Angles generated successfully');
     },
+    onFailure: (job) => {
+      toast.error(job.error?.message ?? 'Angle generation failed');
+    },
+    onCancelled: () => {
+      toast('Angle generation cancelled');
+    },
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: () => anglesApi.generate(projectId ?? '', 3),
+    onSuccess: (job) => generateJob.track(job),
     onError: (error: Error) => {
       toast.error(error.message);
     },
   });
 
+  const isGenerating = generateMutation.isPending || generateJob.isRunning;
+
   const deleteMutation = useMutation({
     mutationFn: () => projectsApi.delete(projectId ?? ''),
     onSuccess: () => {
@@ -115,7 +136,7 @@ export function ProjectDetailPage() {
             <div className="flex gap-2 mt-1">
               {project.seedData.platforms.map((p) => (
                 <span key={p} className="badge bg-primary-100 text-primary-700">
-                  {p}
+                  {labelPlatform(p)}
                 </span>
               ))}
             </div>
@@ -139,17 +160,34 @@ export function ProjectDetailPage() {
         </div>
       </div>
 
+      <AIUsagePanel projectId={project.id} />
+
+      <ClaimsPolicyPanel project={project} />
+
+      <ReviewSettingsPanel project={project} />
+
+      <LocaleReviewersPanel projectId={project.id} />
+
       <div className="card">
         <div className="flex justify-between items-center mb-4">
           <h2 className="text-lg font-semibold">Quick Actions</h2>
         </div>
+        {generateJob.isRunning && (
+          <div className="mb-4">
+            <JobProgress
+              job={generateJob.job}
+              label="Generating angles"
+              onCancel={() => generateJob.cancel().catch((error: Error) => toast.error(error.message))}
+            />
+          </div>
+        )}
         <div className="flex flex-wrap gap-4">
           <button
             onClick={() => generateMutation.mutate()}
-            disabled={generateMutation.isPending}
+            disabled={isGenerating}
             className="btn-primary"
           >
-            {generateMutation.isPending ? 'Generating...' : 'Generate 3 Angles'}
+            {isGenerating ? 'Generating...' : 'Generate 3 Angles'}
           </button>
           <Link to={`/projects/${projectId}/angles`} className="btn-secondary">
             Manage Angles
@@ -5,14 +5,15 @@ import toast from 'react-hot-toast';
 import { projectsApi } from '../services/api';
 import { Modal } from '../components/Modal';
 import { PageLoading } from '../components/Loading';
+import { usePlatforms } from '../hooks/usePlatforms';
 import type { SeedData, Tone, Platform } from '../types';
 
 const TONES: Tone[] = ['professional', 'casual', 'humorous', 'urgent', 'empathetic'];
-const PLATFORMS: Platform[] = ['tiktok', 'instagram', 'youtube'];
 
 export function ProjectsPage() {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const queryClient = useQueryClient();
+  const { platforms, labelFor } = usePlatforms();
 
   const { data, isLoading } = useQuery({
     queryKey: ['projects'],
@@ -94,7 +95,7 @@ export function ProjectsPage() {
               <div className="mt-3 flex flex-wrap gap-1">
                 {project.seedData.platforms.map((platform) => (
                   <span key={platform} className="badge bg-primary-100 text-primary-700">
-                    {platform}
+                    {labelFor(platform)}
                   </span>
                 ))}
               </div>
@@ -185,11 +186,11 @@ export function ProjectsPage() {
             </div>
             <div>
               <label className="label">Platforms</label>
-              <div className="flex gap-4 mt-2">
-                {PLATFORMS.map((platform) => (
-                  <label key={platform} className="flex items-center gap-2">
-                    <input type="checkbox" name="platforms" value={platform} defaultChecked />
-                    <span className="text-sm">{platform}</span>
+              <div className="flex flex-wrap gap-4 mt-2">
+                {platforms.map((platform) => (
+                  <label key={platform.id} className="flex items-center gap-2">
+                    <input type="checkbox" name="platforms" value={platform.id} defaultChecked />
+                    <span className="text-sm">{platform.name}</span>
                   </label>
                 ))}
               </div>
@@ -0,0 +1,89 @@
+import { useParams } from 'react-router-dom';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { shareApi } from '../services/api';
+import { PageLoading } from '../components/Loading';
+
+const formatFileSize = (bytes: number | null) => {
+  if (!bytes) return 'Unknown size';
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Public landing page for a pack share link; works without signing in
+export function SharedPackPage() {
+  const { token = '' } = useParams<{ token: string }>();
+
+  const {
+    data: pack,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery({
+    queryKey: ['shared-pack', token],
+    queryFn: () => shareApi.get(token),
+    retry: false,
+  });
+
+  const downloadMutation = useMutation({
+    mutationFn: (password?: string) => shareApi.download(token, password),
+    // Refresh the remaining download count, or the reason the link stopped working
+    onSettled: () => void refetch(),
+    onError: (err: Error) => toast.error(err.message),
+  });
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const password = new FormData(e.currentTarget).get('password');
+    downloadMutation.mutate(password ? String(password) : undefined);
+  };
+
+  if (isLoading) return <PageLoading />;
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <div className="card w-full max-w-sm">
+        {!pack ? (
+          <>
+            <h1 className="text-xl font-bold text-gray-900 mb-2">Link unavailable</h1>
+            <p className="text-sm text-gray-600">
+              {(error as Error | null)?.message ?? 'This share link is not valid.'} Ask the sender
+              for a new link.
+            </p>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <h1 className="text-xl font-bold text-gray-900">{pack.packName}</h1>
+              {pack.label && <p className="text-sm text-gray-500">Shared with {pack.label}</p>}
+            </div>
+            <div className="text-sm text-gray-600">
+              <p>{formatFileSize(pack.fileSize)}</p>
+              <p>Available until {new Date(pack.expiresAt).toLocaleString()}</p>
+              {pack.downloadsLeft !== null && (
+                <p>
+                  {pack.downloadsLeft} download{pack.downloadsLeft === 1 ? '' : 's'} left
+                </p>
+              )}
+            </div>
+            {pack.requiresPassword && (
+              <div>
+                <label className="label" htmlFor="password">
+                  Password
+                </label>
+                <input id="password" name="password" type="password" required className="input" />
+              </div>
+            )}
+            <button
+              type="submit"
+              disabled={downloadMutation.isPending}
+              className="btn-primary w-full"
+            >
+              {downloadMutation.isPending ? 'Downloading...' : 'Download Pack'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,3 +4,5 @@ export { AnglesPage } from './AnglesPage';
 export { LocalizationsPage } from './LocalizationsPage';
 export { PacksPage } from './PacksPage';
 export { PerformancePage } from './PerformancePage';
+export { LoginPage } from './LoginPage';
+export { SharedPackPage } from './SharedPackPage';
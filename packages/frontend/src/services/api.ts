@@ -1,4 +1,4 @@
-import axios, { AxiosError } from 'axios';
+import axios, { AxiosError, type InternalAxiosRequestConfig } from 'axios';
 import type {
   Project,
   AngleCard,
@@ -11,7 +11,35 @@ import type {
   SeedData,
   Locale,
   Platform,
+  CaptionFormat,
+  BriefFormat,
+  PackFileKind,
+  PackLayoutOptions,
+  PackTemplate,
+  PackShareLink,
+  PackDownloadEvent,
+  SharedPackInfo,
+  PackChangeLog,
   AngleStatus,
+  AngleReview,
+  AngleComment,
+  AngleCommentThread,
+  ReviewDecision,
+  LocaleReviewer,
+  LocaleReviewers,
+  CaptionImportResult,
+  Workspace,
+  AuthSession,
+  Job,
+  ProjectAIUsage,
+  LocaleInfo,
+  PlatformInfo,
+  LintReport,
+  ClaimsPolicy,
+  AngleRevision,
+  AngleContentField,
+  LocalizedContentField,
+  RevisionDiff,
 } from '../types';
 
 const api = axios.create({
@@ -21,15 +49,222 @@ const api = axios.create({
   },
 });
 
-// Error handling
+export const ACCESS_TOKEN_KEY = 'teruxa.accessToken';
+export const REFRESH_TOKEN_KEY = 'teruxa.refreshToken';
+export const SESSION_TOKEN_KEY = 'teruxa.sessionToken';
+export const WORKSPACE_KEY = 'teruxa.workspaceId';
+
+export function isAuthenticated(): boolean {
+  return localStorage.getItem(ACCESS_TOKEN_KEY) !== null;
+}
+
+function storeSession(
+  session: Pick<AuthSession, 'accessToken' | 'refreshToken' | 'sessionToken'> | undefined
+): void {
+  // Logins that still need a second factor come back without tokens
+  if (!session?.accessToken) {
+    throw new Error('Authentication failed');
+  }
+  localStorage.setItem(ACCESS_TOKEN_KEY, session.accessToken);
+  localStorage.setItem(REFRESH_TOKEN_KEY, session.refreshToken);
+  if (session.sessionToken) {
+    localStorage.setItem(SESSION_TOKEN_KEY, session.sessionToken);
+  }
+}
+
+function clearSession() {
+  [ACCESS_TOKEN_KEY, REFRESH_TOKEN_KEY, SESSION_TOKEN_KEY, WORKSPACE_KEY].forEach((key) =>
+    localStorage.removeItem(key)
+  );
+}
+
+// Attach credentials and the selected workspace to every request
+api.interceptors.request.use((request) => {
+  const token = localStorage.getItem(ACCESS_TOKEN_KEY);
+  if (token) {
+    request.headers.set('Authorization', `Bearer ${token}`);
+  }
+  const workspaceId = localStorage.getItem(WORKSPACE_KEY);
+  if (workspaceId) {
+    request.headers.set('X-Workspace-Id', workspaceId);
+  }
+  return request;
+});
+
+// Concurrent 401s share a single refresh request
+let refreshing: Promise<string> | null = null;
+
+async function refreshAccessToken(): Promise<string> {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!refreshToken) {
+    throw new Error('Not signed in');
+  }
+  // Use a bare client so the refresh call itself never triggers this interceptor
+  const res = await axios.post<ApiResponse<Pick<AuthSession, 'accessToken' | 'refreshToken'>>>(
+    '/api/auth/refresh',
+    { refreshToken }
+  );
+  const tokens = res.data.data;
+  if (!tokens) {
+    throw new Error('Token refresh failed');
+  }
+  storeSession(tokens);
+  return tokens.accessToken;
+}
+
+// Error handling: retry once after refreshing an expired access token,
+// otherwise surface the API error message
 api.interceptors.response.use(
   (response) => response,
-  (error: AxiosError<ApiResponse<never>>) => {
+  async (error: AxiosError<ApiResponse<never>>) => {
+    const original = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined;
+    const isAuthCall = original?.url?.startsWith('/auth/');
+
+    if (error.response?.status === 401 && original && !original._retried && !isAuthCall) {
+      original._retried = true;
+      try {
+        refreshing ??= refreshAccessToken().finally(() => {
+          refreshing = null;
+        });
+        await refreshing;
+        return api(original);
+      } catch {
+        clearSession();
+        window.location.assign('/login');
+      }
+    }
+
     const message = error.response?.data?.error?.message ?? error.message;
     throw new Error(message);
   }
 );
 
+// Fetched through axios so the Authorization header is sent, then saved via an object URL
+async function saveDownload(
+  path: string,
+  fallbackName: string,
+  params?: Record<string, string>
+): Promise<void> {
+  const res = await api.get<Blob>(path, { params, responseType: 'blob' });
+  saveBlob(res.data, String(res.headers['content-disposition'] ?? ''), fallbackName);
+}
+
+function saveBlob(blob: Blob, disposition: string, fallbackName: string): void {
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? fallbackName;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Share links are used signed out, so these bypass the credentials and refresh interceptors
+async function shareRequest(path: string, init?: RequestInit): Promise<Response> {
+  const res = await fetch(`/api/share/packs/${path}`, init);
+  if (!res.ok) {
+    const body = (await res.json().catch(() => undefined)) as ApiResponse<never> | undefined;
+    throw new Error(body?.error?.message ?? `Request failed with status ${res.status}`);
+  }
+  return res;
+}
+
+// Server-Sent Events over fetch, since EventSource cannot send the auth headers
+async function streamEvents(
+  path: string,
+  onEvent: (event: string, data: unknown) => void,
+  signal?: AbortSignal,
+  retried = false
+): Promise<void> {
+  const headers: Record<string, string> = { Accept: 'text/event-stream' };
+  const token = localStorage.getItem(ACCESS_TOKEN_KEY);
+  if (token) headers.Authorization = `Bearer ${token}`;
+  const workspaceId = localStorage.getItem(WORKSPACE_KEY);
+  if (workspaceId) headers['X-Workspace-Id'] = workspaceId;
+
+  const res = await fetch(`/api${path}`, { method: 'POST', headers, signal });
+
+  if (res.status === 401 && !retried) {
+    refreshing ??= refreshAccessToken().finally(() => {
+      refreshing = null;
+    });
+    await refreshing;
+    return streamEvents(path, onEvent, signal, true);
+  }
+  if (!res.ok || !res.body) {
+    const body = (await res.json().catch(() => undefined)) as ApiResponse<never> | undefined;
+    throw new Error(body?.error?.message ?? `Request failed with status ${res.status}`);
+  }
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    // Events are separated by a blank line; lines starting with ':' are heartbeats
+    const blocks = buffer.split('\n\n');
+    buffer = blocks.pop() ?? '';
+    for (const block of blocks) {
+      let event = 'message';
+      let data = '';
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event: ')) event = line.slice(7);
+        else if (line.startsWith('data: ')) data += line.slice(6);
+      }
+      if (data) onEvent(event, JSON.parse(data));
+    }
+  }
+}
+
+// Auth
+export const authApi = {
+  login: async (email: string, password: string) => {
+    const res = await api.post<ApiResponse<AuthSession>>('/auth/login', { email, password });
+    storeSession(res.data.data);
+    return res.data.data?.user;
+  },
+
+  register: async (email: string, password: string, name?: string) => {
+    const res = await api.post<ApiResponse<AuthSession>>('/auth/register', {
+      email,
+      password,
+      name,
+    });
+    storeSession(res.data.data);
+    return res.data.data?.user;
+  },
+
+  logout: async () => {
+    try {
+      await api.post('/auth/logout', {
+        refreshToken: localStorage.getItem(REFRESH_TOKEN_KEY) ?? undefined,
+        sessionToken: localStorage.getItem(SESSION_TOKEN_KEY) ?? undefined,
+      });
+    } finally {
+      clearSession();
+    }
+  },
+};
+
+// Workspaces
+export const workspacesApi = {
+  list: async () => {
+    const res = await api.get<ApiResponse<Workspace[]>>('/workspaces');
+    return res.data.data ?? [];
+  },
+
+  create: async (name: string) => {
+    const res = await api.post<ApiResponse<Workspace>>('/workspaces', { name });
+    return res.data.data;
+  },
+
+  select: (id: string) => {
+    localStorage.setItem(WORKSPACE_KEY, id);
+  },
+};
+
 // Projects
 export const projectsApi = {
   list: async (page = 1, limit = 20) => {
@@ -49,7 +284,16 @@ export const projectsApi = {
     return res.data.data;
   },
 
-  update: async (id: string, data: Partial<{ name: string; description: string; seedData: SeedData }>) => {
+  update: async (
+    id: string,
+    data: Partial<{
+      name: string;
+      description: string;
+      seedData: SeedData;
+      claimsPolicy: ClaimsPolicy | null;
+      requiredApprovals: number;
+    }>
+  ) => {
     const res = await api.put<ApiResponse<Project>>(`/projects/${id}`, data);
     return res.data.data;
   },
@@ -57,19 +301,60 @@ export const projectsApi = {
   delete: async (id: string) => {
     await api.delete(`/projects/${id}`);
   },
+
+  getAIUsage: async (id: string, days = 30) => {
+    const res = await api.get<ApiResponse<ProjectAIUsage>>(`/projects/${id}/ai-usage`, {
+      params: { days },
+    });
+    return res.data.data;
+  },
+
+  // Requires the workspace owner or admin role; null removes the cap
+  setAIBudget: async (id: string, monthlyBudgetUsd: number | null) => {
+    const res = await api.put<ApiResponse<Project>>(`/projects/${id}/ai-budget`, {
+      monthlyBudgetUsd,
+    });
+    return res.data.data;
+  },
 };
 
 // Angles
 export const anglesApi = {
+  // Queues a background job; track it with useJob
   generate: async (projectId: string, count = 3) => {
-    const res = await api.post<ApiResponse<{ angles: AngleCard[] }>>(
+    const res = await api.post<ApiResponse<Job>>(
       `/angles/projects/${projectId}/generate`,
       {},
       { params: { count } }
     );
-    return res.data.data?.angles ?? [];
+    return res.data.data;
   },
 
+  // Streams angles as they are generated and saved; resolves with the count
+  generateStream: (
+    projectId: string,
+    count: number,
+    options: { onAngle: (angle: AngleCard) => void; signal?: AbortSignal }
+  ) =>
+    new Promise<number>((resolve, reject) => {
+      streamEvents(
+        `/angles/projects/${projectId}/generate/stream?count=${count}`,
+        (event, data) => {
+          if (event === 'angle') {
+            options.onAngle(data as AngleCard);
+          } else if (event === 'done') {
+            resolve((data as { count: number }).count);
+          } else if (event === 'error') {
+            reject(new Error((data as { message: string }).message));
+          }
+        },
+        options.signal
+      )
+        // A stream that closes without a final event was cut off
+        .then(() => reject(new Error('Angle generation was interrupted')))
+        .catch(reject);
+    }),
+
   list: async (projectId: string, options?: { status?: AngleStatus; isWinner?: boolean; page?: number; limit?: number }) => {
     const res = await api.get<ApiResponse<AngleCard[]>>(`/angles/projects/${projectId}/angles`, {
       params: options,
@@ -87,8 +372,48 @@ export const anglesApi = {
     return res.data.data;
   },
 
-  updateStatus: async (id: string, status: AngleStatus) => {
-    const res = await api.patch<ApiResponse<AngleCard>>(`/angles/${id}/status`, { status });
+  // Submit, withdraw or archive; approval and rejection go through submitReview
+  updateStatus: async (id: string, status: AngleStatus, reason?: string) => {
+    const res = await api.patch<ApiResponse<AngleCard>>(`/angles/${id}/status`, { status, reason });
+    return res.data.data;
+  },
+
+  getReview: async (id: string) => {
+    const res = await api.get<ApiResponse<AngleReview>>(`/angles/${id}/review`);
+    return res.data.data;
+  },
+
+  setReviewers: async (id: string, userIds: string[]) => {
+    const res = await api.put<ApiResponse<AngleReview>>(`/angles/${id}/reviewers`, { userIds });
+    return res.data.data;
+  },
+
+  // overrideReason approves an angle despite claims policy violations
+  submitReview: async (
+    id: string,
+    review: { decision: ReviewDecision; reason?: string; overrideReason?: string }
+  ) => {
+    const res = await api.post<ApiResponse<AngleCard>>(`/angles/${id}/reviews`, review);
+    return res.data.data;
+  },
+
+  listComments: async (id: string) => {
+    const res = await api.get<ApiResponse<AngleCommentThread[]>>(`/angles/${id}/comments`);
+    return res.data.data ?? [];
+  },
+
+  addComment: async (
+    id: string,
+    comment: { body: string; field?: AngleContentField; quote?: string; parentId?: string }
+  ) => {
+    const res = await api.post<ApiResponse<AngleComment>>(`/angles/${id}/comments`, comment);
+    return res.data.data;
+  },
+
+  resolveComment: async (id: string, commentId: string, resolved: boolean) => {
+    const res = await api.patch<ApiResponse<AngleComment>>(`/angles/${id}/comments/${commentId}`, {
+      resolved,
+    });
     return res.data.data;
   },
 
@@ -105,12 +430,44 @@ export const anglesApi = {
     const res = await api.post<ApiResponse<AngleCard>>(`/angles/${id}/regenerate`);
     return res.data.data;
   },
+
+  // Newest first
+  listRevisions: async (id: string) => {
+    const res = await api.get<ApiResponse<AngleRevision[]>>(`/angles/${id}/revisions`);
+    return res.data.data ?? [];
+  },
+
+  diffRevisions: async (id: string, from: number, to: number) => {
+    const res = await api.get<ApiResponse<RevisionDiff<AngleContentField>>>(`/angles/${id}/revisions/diff`, {
+      params: { from, to },
+    });
+    return res.data.data;
+  },
+
+  // Saves the version's content as a new version
+  restoreRevision: async (id: string, version: number) => {
+    const res = await api.post<ApiResponse<AngleCard>>(`/angles/${id}/revisions/${version}/restore`);
+    return res.data.data;
+  },
+
+  // The creative brief for the angle, or for one of its localizations
+  downloadBrief: async (
+    id: string,
+    format: BriefFormat,
+    localization?: { locale: Locale; platform: Platform }
+  ) => {
+    await saveDownload(`/angles/${id}/brief`, `brief-${id.slice(0, 8)}.${format}`, {
+      format,
+      ...localization,
+    });
+  },
 };
 
 // Localizations
 export const localizationsApi = {
+  // Queues a background job; track it with useJob
   localize: async (angleId: string, locales: Locale[], platforms: Platform[]) => {
-    const res = await api.post<ApiResponse<{ created: LocalizedContent[]; warnings: unknown[] }>>(
+    const res = await api.post<ApiResponse<Job>>(
       `/localizations/angles/${angleId}/localize`,
       { locales, platforms }
     );
@@ -129,19 +486,75 @@ export const localizationsApi = {
     return res.data.data;
   },
 
+  getLint: async (id: string) => {
+    const res = await api.get<ApiResponse<LintReport>>(`/localizations/${id}/lint`);
+    return res.data.data;
+  },
+
   update: async (id: string, data: Partial<LocalizedContent>) => {
     const res = await api.put<ApiResponse<LocalizedContent>>(`/localizations/${id}`, data);
     return res.data.data;
   },
 
+  // Replaces the captions with an SRT or WebVTT file
+  importCaptions: async (id: string, file: File) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    const res = await api.post<ApiResponse<CaptionImportResult>>(
+      `/localizations/${id}/captions/import`,
+      formData,
+      { headers: { 'Content-Type': 'multipart/form-data' } }
+    );
+    return res.data.data;
+  },
+
   delete: async (id: string) => {
     await api.delete(`/localizations/${id}`);
   },
 
-  regenerate: async (angleId: string, locale: Locale, platform: Platform) => {
+  // force overwrites translator edits
+  regenerate: async (angleId: string, locale: Locale, platform: Platform, force = false) => {
     const res = await api.post<ApiResponse<LocalizedContent>>(
       `/localizations/angles/${angleId}/localize/regenerate`,
-      { locale, platform }
+      { locale, platform, force }
+    );
+    return res.data.data;
+  },
+
+  // Without versions, compares the latest machine output with the current content
+  diffRevisions: async (id: string, from?: number, to?: number) => {
+    const res = await api.get<ApiResponse<RevisionDiff<LocalizedContentField>>>(
+      `/localizations/${id}/revisions/diff`,
+      { params: { from, to } }
+    );
+    return res.data.data;
+  },
+
+  // Without a reviewerId, the first reviewer assigned to the locale gets it
+  submitForReview: async (id: string, reviewerId?: string) => {
+    const res = await api.post<ApiResponse<LocalizedContent>>(`/localizations/${id}/review/submit`, {
+      reviewerId,
+    });
+    return res.data.data;
+  },
+
+  review: async (id: string, decision: 'approved' | 'changes_requested', note?: string) => {
+    const res = await api.post<ApiResponse<LocalizedContent>>(`/localizations/${id}/review`, {
+      decision,
+      note,
+    });
+    return res.data.data;
+  },
+
+  getLocaleReviewers: async (projectId: string) => {
+    const res = await api.get<ApiResponse<LocaleReviewers>>(`/localizations/projects/${projectId}/reviewers`);
+    return res.data.data;
+  },
+
+  setLocaleReviewers: async (projectId: string, locale: Locale, userIds: string[]) => {
+    const res = await api.put<ApiResponse<LocaleReviewer[]>>(
+      `/localizations/projects/${projectId}/reviewers/${locale}`,
+      { userIds }
     );
     return res.data.data;
   },
@@ -149,8 +562,25 @@ export const localizationsApi = {
 
 // Packs
 export const packsApi = {
-  create: async (projectId: string, data: { name: string; angleIds: string[]; locales: Locale[]; platforms: Platform[] }) => {
-    const res = await api.post<ApiResponse<CreativePack>>(`/packs/projects/${projectId}/packs`, data);
+  // Queues a background job; track it with useJob
+  // approvedOnly fails unless every selected localization passed review
+  // captionFormats defaults to the template's formats, or SRT only
+  create: async (
+    projectId: string,
+    data: {
+      name: string;
+      angleIds: string[];
+      locales: Locale[];
+      platforms: Platform[];
+      approvedOnly?: boolean;
+      captionFormats?: CaptionFormat[];
+      templateId?: string;
+      includeBrief?: boolean;
+      // null keeps the pack; the workspace policy applies when omitted
+      expiresInDays?: number | null;
+    }
+  ) => {
+    const res = await api.post<ApiResponse<Job>>(`/packs/projects/${projectId}/packs`, data);
     return res.data.data;
   },
 
@@ -166,8 +596,50 @@ export const packsApi = {
     return res.data.data;
   },
 
-  download: (id: string) => {
-    window.open(`/api/packs/${id}/download`, '_blank');
+  // delta is the zip of changed files from a rebuild
+  download: async (id: string, variant: 'full' | 'delta' = 'full') => {
+    await saveDownload(`/packs/${id}/download`, `pack-${id}.zip`, { variant });
+  },
+
+  // Queues a background job that builds the next version; fails if nothing changed
+  rebuild: async (
+    id: string,
+    data: { delta?: boolean; name?: string; expiresInDays?: number | null } = {}
+  ) => {
+    const res = await api.post<ApiResponse<Job>>(`/packs/${id}/rebuild`, data);
+    return res.data.data;
+  },
+
+  // What a rebuild would change, without building it
+  changes: async (id: string) => {
+    const res = await api.get<ApiResponse<PackChangeLog>>(`/packs/${id}/changes`);
+    return res.data.data;
+  },
+
+  // expiresInHours is capped at the pack's own expiry
+  createShareLink: async (
+    id: string,
+    data: { label?: string; expiresInHours: number; password?: string; maxDownloads?: number }
+  ) => {
+    const res = await api.post<ApiResponse<PackShareLink>>(`/packs/${id}/share-links`, data);
+    return res.data.data;
+  },
+
+  listShareLinks: async (id: string) => {
+    const res = await api.get<ApiResponse<PackShareLink[]>>(`/packs/${id}/share-links`);
+    return res.data.data ?? [];
+  },
+
+  revokeShareLink: async (id: string, linkId: string) => {
+    const res = await api.delete<ApiResponse<PackShareLink>>(`/packs/${id}/share-links/${linkId}`);
+    return res.data.data;
+  },
+
+  listDownloads: async (id: string, limit = 100) => {
+    const res = await api.get<ApiResponse<PackDownloadEvent[]>>(`/packs/${id}/downloads`, {
+      params: { limit },
+    });
+    return res.data.data ?? [];
   },
 
   delete: async (id: string) => {
@@ -175,6 +647,59 @@ export const packsApi = {
   },
 };
 
+// Shared packs (public)
+export const shareApi = {
+  get: async (token: string) => {
+    const res = await shareRequest(token);
+    const body = (await res.json()) as ApiResponse<SharedPackInfo>;
+    return body.data;
+  },
+
+  download: async (token: string, password?: string) => {
+    const res = await shareRequest(`${token}/download`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ password }),
+    });
+    saveBlob(await res.blob(), res.headers.get('content-disposition') ?? '', 'pack.zip');
+  },
+};
+
+// Pack templates
+type PackTemplateInput = {
+  name: string;
+  description?: string | null;
+  pathTemplate: string;
+  fileTypes: PackFileKind[];
+  captionFormats: CaptionFormat[];
+};
+
+export const packTemplatesApi = {
+  options: async () => {
+    const res = await api.get<ApiResponse<PackLayoutOptions>>('/pack-templates/options');
+    return res.data.data;
+  },
+
+  list: async () => {
+    const res = await api.get<ApiResponse<PackTemplate[]>>('/pack-templates');
+    return res.data.data ?? [];
+  },
+
+  create: async (data: PackTemplateInput) => {
+    const res = await api.post<ApiResponse<PackTemplate>>('/pack-templates', data);
+    return res.data.data;
+  },
+
+  update: async (id: string, data: Partial<PackTemplateInput>) => {
+    const res = await api.put<ApiResponse<PackTemplate>>(`/pack-templates/${id}`, data);
+    return res.data.data;
+  },
+
+  delete: async (id: string) => {
+    await api.delete(`/pack-templates/${id}`);
+  },
+};
+
 // Performance
 export const performanceApi = {
   importCSV: async (projectId: string, file: File) => {
@@ -221,3 +746,32 @@ export const performanceApi = {
     return res.data.data ?? [];
   },
 };
+
+// Locales
+export const localesApi = {
+  list: async () => {
+    const res = await api.get<ApiResponse<LocaleInfo[]>>('/locales');
+    return res.data.data ?? [];
+  },
+};
+
+// Platforms
+export const platformsApi = {
+  list: async () => {
+    const res = await api.get<ApiResponse<PlatformInfo[]>>('/platforms');
+    return res.data.data ?? [];
+  },
+};
+
+// Jobs
+export const jobsApi = {
+  get: async <TResult = unknown>(id: string) => {
+    const res = await api.get<ApiResponse<Job<TResult>>>(`/jobs/${id}`);
+    return res.data.data;
+  },
+
+  cancel: async (id: string) => {
+    const res = await api.post<ApiResponse<Job>>(`/jobs/${id}/cancel`);
+    return res.data.data;
+  },
+};
@@ -1,7 +1,70 @@
 export type Tone = 'professional' | 'casual' | 'humorous' | 'urgent' | 'empathetic';
-export type Platform = 'tiktok' | 'instagram' | 'youtube';
-export type Locale = 'en-US' | 'es-ES' | 'fr-FR' | 'de-DE' | 'pt-BR';
-export type AngleStatus = 'draft' | 'approved' | 'rejected' | 'archived';
+// A platform id from the backend platform registry, e.g. "tiktok" or "snapchat" (see GET /api/platforms)
+export type Platform = string;
+// A code from the backend locale registry, e.g. "en-US" or "ar-SA" (see GET /api/locales)
+export type Locale = string;
+export type AngleStatus = 'draft' | 'in_review' | 'approved' | 'rejected' | 'archived';
+
+export interface LocaleInfo {
+  code: Locale;
+  name: string;
+  nativeName: string;
+  direction: 'ltr' | 'rtl';
+  dateFormat: string;
+  culturalGuidance: string;
+  pluralCategories: string[];
+}
+
+export interface PlatformInfo {
+  id: Platform;
+  name: string;
+  style: string;
+  aspectRatio: string;
+  maxDuration: number;
+  recommendedDuration: { min: number; max: number };
+  limits: { caption: number; description: number; title?: number; hashtags?: number };
+  // Percent of the frame on each edge covered by the app's UI
+  safeZone: { top: number; bottom: number; left: number; right: number };
+  captions: { maxCharsPerLine: number; maxLines: number; maxCharsPerSecond: number; burnedIn: boolean };
+}
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string | null;
+  role: string;
+  emailVerified: boolean;
+}
+
+export interface AuthSession {
+  user: AuthUser;
+  accessToken: string;
+  refreshToken: string;
+  sessionToken?: string;
+}
+
+export type WorkspaceRole = 'owner' | 'admin' | 'member' | 'viewer';
+
+export interface WorkspaceMember {
+  id: string;
+  workspaceId: string;
+  userId: string;
+  role: WorkspaceRole;
+  createdAt: string;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  // null keeps packs until they are deleted
+  packRetentionDays: number | null;
+  createdAt: string;
+  updatedAt: string;
+  members: WorkspaceMember[];
+  _count?: {
+    projects: number;
+  };
+}
 
 export interface SeedData {
   product_name: string;
@@ -16,11 +79,51 @@ export interface SeedData {
   unique_selling_points?: string[];
 }
 
+export type AIProviderName = 'openai' | 'anthropic' | 'local' | 'mock';
+
+export type AIOperation =
+  | 'generate_angles'
+  | 'localize'
+  | 'analyze_patterns'
+  | 'generate_iterations';
+
+export interface AIProviderSelection {
+  provider?: AIProviderName;
+  model?: string;
+}
+
+export interface ProjectAISettings extends AIProviderSelection {
+  operations?: Partial<Record<AIOperation, AIProviderSelection>>;
+}
+
+export type AngleCopyField = 'hook' | 'problemAgitation' | 'solution' | 'cta';
+
+export interface ClaimsPolicy {
+  forbiddenPhrases: string[];
+  // `when` is a pattern; the disclaimer is only required when the copy matches it
+  requiredDisclaimers: Array<{ text: string; when?: string }>;
+  regexRules: Array<{ pattern: string; flags?: string; message: string; fields?: AngleCopyField[] }>;
+  allowCompetitorMentions: boolean;
+}
+
+export interface ClaimViolation {
+  rule: 'forbidden_phrase' | 'missing_disclaimer' | 'regex' | 'competitor';
+  message: string;
+  field: AngleCopyField | null;
+}
+
 export interface Project {
   id: string;
+  workspaceId: string;
   name: string;
   description?: string;
   seedData: SeedData;
+  aiSettings?: ProjectAISettings | null;
+  claimsPolicy?: ClaimsPolicy | null;
+  // Reviewer approvals an angle needs before it is approved
+  requiredApprovals: number;
+  // Decimal serialized as a string; null means unlimited
+  aiMonthlyBudgetUsd?: string | null;
   createdAt: string;
   updatedAt: string;
   _count?: {
@@ -29,6 +132,36 @@ export interface Project {
   };
 }
 
+export interface AIUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export interface AIUsageDay extends AIUsageTotals {
+  date: string;
+  byOperation: Partial<Record<AIOperation, AIUsageTotals>>;
+}
+
+export interface AIBudgetStatus {
+  monthlyBudgetUsd: number | null;
+  spentUsd: number;
+  remainingUsd: number | null;
+}
+
+export interface ProjectAIUsage {
+  projectId: string;
+  from: string;
+  to: string;
+  days: AIUsageDay[];
+  totals: AIUsageTotals;
+  budget: {
+    project: AIBudgetStatus;
+    workspace: AIBudgetStatus;
+  };
+}
+
 export interface AngleCard {
   id: string;
   projectId: string;
@@ -44,15 +177,126 @@ export interface AngleCard {
   isWinner: boolean;
   parentAngleId?: string;
   generationNotes?: string;
+  // Prompt template the angle was generated from, e.g. "generate_angles@project:v3"
+  promptVersion?: string | null;
+  // From the last check against the project's claims policy
+  claimViolations?: ClaimViolation[];
+  claimsOverrideReason?: string | null;
+  claimsOverriddenAt?: string | null;
+  // Why the last reviewer rejected the angle
+  rejectionReason?: string | null;
   createdAt: string;
   updatedAt: string;
   localizedContents?: LocalizedContent[];
+  // Included in project listings
+  reviewers?: Array<{ decision: ReviewDecision | null }>;
   _count?: {
     localizedContents: number;
     performanceData: number;
+    // Unresolved comment threads and replies
+    comments?: number;
   };
 }
 
+export type ReviewDecision = 'approved' | 'rejected';
+
+export interface UserSummary {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+export interface AngleReviewer {
+  id: string;
+  userId: string;
+  user: UserSummary;
+  decision: ReviewDecision | null;
+  decidedAt: string | null;
+}
+
+export interface AngleStatusEvent {
+  id: string;
+  fromStatus: AngleStatus;
+  toStatus: AngleStatus;
+  user: UserSummary | null;
+  reason: string | null;
+  createdAt: string;
+}
+
+export interface AngleReview {
+  angleId: string;
+  status: AngleStatus;
+  requiredApprovals: number;
+  approvals: number;
+  rejectionReason: string | null;
+  reviewers: AngleReviewer[];
+  eligibleReviewers: UserSummary[];
+  // Whether the current user is one of the reviewers
+  isReviewer: boolean;
+  // Newest first
+  history: AngleStatusEvent[];
+}
+
+export interface AngleComment {
+  id: string;
+  parentId: string | null;
+  author: UserSummary | null;
+  field: AngleContentField | null;
+  quote: string | null;
+  body: string;
+  resolvedAt: string | null;
+  createdAt: string;
+}
+
+export interface AngleCommentThread extends AngleComment {
+  replies: AngleComment[];
+}
+
+export type AngleContentField =
+  | AngleCopyField
+  | 'visualDirection'
+  | 'audioNotes'
+  | 'estimatedDuration';
+
+export type AngleSnapshot = Pick<AngleCard, AngleCopyField> & {
+  visualDirection: string | null;
+  audioNotes: string | null;
+  estimatedDuration: number | null;
+};
+
+export interface FieldChange<F extends string = string> {
+  field: F;
+  from: unknown;
+  to: unknown;
+}
+
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface AngleRevision {
+  id: string;
+  angleId: string;
+  version: number;
+  snapshot: AngleSnapshot;
+  changes: FieldChange<AngleContentField>[];
+  source: 'original' | 'edit' | 'regenerate' | 'restore';
+  createdById?: string | null;
+  createdAt: string;
+}
+
+// A changed field with a word-level diff when both sides can be shown as text
+export interface FieldDiff<F extends string = string> extends FieldChange<F> {
+  segments?: DiffSegment[];
+}
+
+export interface RevisionDiff<F extends string> {
+  from: number;
+  to: number;
+  changes: FieldDiff<F>[];
+}
+
 export interface Caption {
   timestamp_start: number;
   timestamp_end: number;
@@ -80,10 +324,74 @@ export interface LocalizedContent {
   platformAdjustments?: string;
   characterCount?: number;
   wordCount?: number;
+  lintedAt?: string | null;
+  version: number;
+  // Who wrote the current content
+  origin: ContentOrigin;
+  reviewStatus: LocalizationReviewStatus;
+  reviewerId?: string | null;
+  // Included in angle listings
+  reviewer?: UserSummary | null;
+  // The reviewer's note when requesting changes
+  reviewNote?: string | null;
+  reviewedAt?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export type ContentOrigin = 'ai' | 'human';
+
+export type LocalizationReviewStatus = 'machine' | 'in_review' | 'approved' | 'changes_requested';
+
+export interface LocaleReviewer {
+  id: string;
+  locale: Locale;
+  userId: string;
+  user: UserSummary;
+}
+
+export interface LocaleReviewers {
+  reviewers: LocaleReviewer[];
+  eligibleReviewers: UserSummary[];
+}
+
+export interface CaptionImportIssue {
+  cue: number;
+  line: number;
+  message: string;
+}
+
+export interface CaptionImportResult {
+  content: LocalizedContent;
+  imported: number;
+  warnings: CaptionImportIssue[];
+}
+
+export type LocalizedContentField =
+  | 'script'
+  | 'captions'
+  | 'onScreenText'
+  | 'culturalNotes'
+  | 'platformAdjustments';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export interface LintFinding {
+  id: string;
+  rule: string;
+  severity: LintSeverity;
+  message: string;
+  field: 'script' | 'captions' | 'onScreenText' | 'duration';
+  itemIndex: number | null;
+}
+
+export interface LintReport {
+  localizedContentId: string;
+  lintedAt: string | null;
+  findings: LintFinding[];
+  summary: Record<LintSeverity, number>;
+}
+
 export interface CreativePack {
   id: string;
   name: string;
@@ -91,15 +399,99 @@ export interface CreativePack {
   downloadUrl?: string;
   filePath?: string;
   fileSize?: number;
+  // Only set for rebuilds made with a delta zip
+  deltaFileSize?: number | null;
   manifest: PackManifest;
+  version: number;
+  previousPackId: string | null;
   downloadCount: number;
-  expiresAt?: string;
+  // Downloads are refused after this; null keeps the pack until deleted
+  expiresAt: string | null;
   createdAt: string;
   _count?: {
     packAngles: number;
   };
 }
 
+export type CaptionFormat = 'srt' | 'vtt' | 'ttml' | 'ass' | 'json';
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked' | 'exhausted';
+
+export interface PackShareLink {
+  id: string;
+  packId: string;
+  label: string | null;
+  // Never later than the pack's own expiry
+  expiresAt: string;
+  hasPassword: boolean;
+  maxDownloads: number | null;
+  downloadCount: number;
+  revokedAt: string | null;
+  status: ShareLinkStatus;
+  url: string;
+  createdBy: UserSummary | null;
+  createdAt: string;
+}
+
+// One download, by a workspace member (user) or through a share link
+export interface PackDownloadEvent {
+  id: string;
+  packId: string;
+  ip: string | null;
+  userAgent: string | null;
+  user: UserSummary | null;
+  shareLink: { id: string; label: string | null } | null;
+  createdAt: string;
+}
+
+// What the public share page shows before downloading
+export interface SharedPackInfo {
+  packName: string;
+  label: string | null;
+  fileSize: number | null;
+  expiresAt: string;
+  requiresPassword: boolean;
+  downloadsLeft: number | null;
+}
+
+export type PackFileKind = 'script' | 'captions' | 'overlays' | 'metadata' | 'brief';
+
+export type BriefFormat = 'html' | 'pdf';
+
+export type PackFileType =
+  | 'script'
+  | 'captions'
+  | 'webvtt'
+  | 'ttml'
+  | 'ass'
+  | 'cue_sheet'
+  | 'overlay_track'
+  | 'overlay_ass'
+  | 'overlay_xml'
+  | 'overlay_edl'
+  | 'metadata'
+  | 'brief_html'
+  | 'brief_pdf';
+
+export interface PackTemplate {
+  id: string;
+  workspaceId: string;
+  name: string;
+  description: string | null;
+  pathTemplate: string;
+  fileTypes: PackFileKind[];
+  captionFormats: CaptionFormat[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PackLayoutOptions {
+  defaultPathTemplate: string;
+  fileTypes: PackFileKind[];
+  // Token name to description
+  tokens: Record<string, string>;
+}
+
 export interface PackManifest {
   version: string;
   created_at: string;
@@ -109,16 +501,43 @@ export interface PackManifest {
     locales: string[];
     platforms: string[];
     total_files: number;
+    caption_formats?: CaptionFormat[];
   };
+  template?: { id: string; name: string; path_template: string; file_types: PackFileKind[] };
+  pack_version?: number;
+  previous_pack_id?: string;
+  // What changed since the previous version; rebuilds only
+  changes?: PackChangeLog;
   files: Array<{
     path: string;
-    type: 'script' | 'captions' | 'metadata';
+    type: PackFileType;
     angle_id: string;
     locale: string;
     platform: string;
+    content_id?: string;
+    sha256?: string;
   }>;
 }
 
+export interface PackLocalizationChange {
+  content_id?: string;
+  angle_id: string;
+  locale: string;
+  platform: string;
+  files: string[];
+  // Paths from the previous version that moved or were dropped
+  removed_files?: string[];
+}
+
+export interface PackChangeLog {
+  previous_pack_id: string;
+  previous_version: number;
+  added: PackLocalizationChange[];
+  changed: PackLocalizationChange[];
+  removed: PackLocalizationChange[];
+  unchanged: number;
+}
+
 export interface PerformanceMetrics {
   angleId: string;
   hook: string;
@@ -164,6 +583,39 @@ export interface WinnerAnalysis {
   recommendations: string[];
 }
 
+export type JobType = 'generate_angles' | 'localize' | 'build_pack' | 'rebuild_pack';
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface Job<TResult = unknown> {
+  id: string;
+  workspaceId: string;
+  type: JobType;
+  status: JobStatus;
+  progress: number;
+  progressMessage?: string | null;
+  cancelRequested: boolean;
+  result?: TResult | null;
+  error?: {
+    code: string;
+    message: string;
+    details?: unknown;
+  } | null;
+  createdAt: string;
+  startedAt?: string | null;
+  finishedAt?: string | null;
+}
+
+export interface LocalizationResult {
+  angleId: string;
+  created: LocalizedContent[];
+  warnings: Array<{
+    locale: Locale;
+    platform: Platform;
+    type: string;
+    message: string;
+  }>;
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;